@@ -0,0 +1,15 @@
+import { APIError } from "encore.dev/api";
+
+// Rejects callers that are not listed in admin_users. Pass the transaction the admin
+// action runs in, so the check and the action see the same state.
+export async function requireAdmin(tx: any, adminId: string) {
+  if (!adminId) {
+    throw APIError.invalidArgument("adminId is required");
+  }
+  const admin = await tx.queryRow<{ user_id: string }>`
+    SELECT user_id FROM admin_users WHERE user_id = ${adminId}
+  `;
+  if (!admin) {
+    throw APIError.permissionDenied("Admin privileges required");
+  }
+}
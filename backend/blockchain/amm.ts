@@ -3,6 +3,31 @@ import { monitoredBlockchainDB as blockchainDB } from "./db";
 import { withPerformanceMonitoring } from "./health";
 import crypto from "crypto";
 import { publishTransactionConfirmation } from "./notifications";
+import { publishPoolUpdate } from "./amm_events";
+import { findBestRoute, findBestRouteExactOut, quotePath, DEFAULT_MAX_HOPS, type RoutablePool, type SwapHop, type SwapRoute } from "./amm_router";
+import { effectiveStake, feeBps, getCurve, isPositiveInteger, isUnsignedInteger, lockBoostBps, orientReserves, quoteExactIn, MAX_LOCK_DAYS, type CurveType } from "./amm_math";
+import { readPairTWAP } from "./amm_oracle";
+import { recordPoolTick } from "./amm_history";
+import { quoteExchangeTrade, settleExchangeTrade } from "./currency_exchange";
+import { accrueToTreasury, splitSwapFee } from "./amm_treasury";
+import { movement, postJournalEntry, systemAccount, userAccount } from "./ledger";
+import { accrueSwapFees, checkpointPositionFees, recordPositionDeposit, recordPositionWithdrawal } from "./amm_positions";
+
+// Fee tiers a pool can be created with: 0.05% for correlated pairs, 0.3% standard, 1% exotic
+export const FEE_TIERS = [0.0005, 0.003, 0.01];
+const DEFAULT_FEE_TIER = 0.003;
+
+// LP tokens locked on pool creation so the first depositor cannot inflate the share price
+export const MINIMUM_LIQUIDITY = 1000n;
+
+export const DEFAULT_AMPLIFICATION = 100;
+const MAX_AMPLIFICATION = 10000;
+
+const TOKEN_SYMBOL_PATTERN = /^[A-Z][A-Z0-9]{1,9}$/;
+
+// Journal accounts for the pools' reserves and the farms' reward budgets
+const AMM_POOLS_ACCOUNT = systemAccount('amm_pools');
+export const YIELD_FARMS_ACCOUNT = systemAccount('yield_farms');
 
 export interface LiquidityPool {
   id: number;
@@ -12,10 +37,32 @@ export interface LiquidityPool {
   reserveB: string;
   totalLiquidity: string;
   feeRate: number;
+  curveType: CurveType;
+  amplification?: number; // StableSwap A, set for stable pools only
+  protocolFeeBps: number; // Share of swap fees paid to the treasury
+  poolAddress?: string;
   createdAt: Date;
   lastUpdated: Date;
 }
 
+export interface CreatePoolRequest {
+  userId: string;
+  tokenA: string;
+  tokenB: string;
+  amountA: string; // Initial deposit; sets the starting price
+  amountB: string;
+  feeRate?: number; // One of FEE_TIERS; defaults to 0.3%
+  curveType?: CurveType; // Defaults to constant product; use 'stable' for pegged pairs
+  amplification?: number; // StableSwap A for stable pools; defaults to DEFAULT_AMPLIFICATION
+}
+
+export interface CreatePoolResponse {
+  pool: LiquidityPool;
+  liquidityTokens: string; // LP tokens credited to the creator
+  lockedLiquidity: string; // LP tokens locked forever in the pool
+  txHash: string;
+}
+
 export interface LiquidityPosition {
   id: number;
   userId: string;
@@ -29,10 +76,13 @@ export interface LiquidityPosition {
 export interface SwapQuote {
   inputAmount: string;
   outputAmount: string;
+  spotPrice: number; // tokenOut per tokenIn before the trade
+  executionPrice: number; // tokenOut per tokenIn actually received
   priceImpact: number;
   fee: string;
   minimumOutput: string;
   route: string[];
+  hops: SwapHop[];
 }
 
 export interface AddLiquidityRequest {
@@ -48,7 +98,17 @@ export interface RemoveLiquidityRequest {
   userId: string;
   poolId: number;
   liquidityTokens: string;
-  slippageTolerance: number;
+  slippageTolerance?: number; // Percent; needs both expected amounts, which it is applied to
+  expectedAmountA?: string; // Amounts quoted to the user
+  expectedAmountB?: string;
+}
+
+export interface RemoveLiquidityResponse {
+  poolId: number;
+  amountA: string;
+  amountB: string;
+  liquidityTokensBurned: string;
+  txHash: string;
 }
 
 export interface SwapRequest {
@@ -58,6 +118,8 @@ export interface SwapRequest {
   amountIn: string;
   minimumAmountOut: string;
   slippageTolerance: number;
+  route?: string[]; // Token path returned by getSwapQuote; the best route is searched when omitted
+  maxHops?: number;
 }
 
 export interface YieldFarmingPool {
@@ -70,6 +132,11 @@ export interface YieldFarmingPool {
   endTime: Date;
   isActive: boolean;
   lockPeriodDays?: number;
+  rewardBudget: string; // Reward tokens funded for the farm; emissions stop once they are paid out
+  rewardsEmitted: string;
+  endedAt?: Date; // Set when an admin ended the farm early
+  totalEffectiveStake: string; // Total stake weighted by lock boosts
+  earlyUnstakePenaltyBps?: number; // Share of LP tokens forfeited on early unstake; unset means early unstakes are rejected
 }
 
 export interface StakingPosition {
@@ -82,12 +149,16 @@ export interface StakingPosition {
   createdAt: Date;
   lastUpdated: Date;
   lockedUntil?: Date;
+  lockDays: number;
+  effectiveStake: string; // Staked amount scaled by the lock boost; rewards are split by this
+  boostMultiplier: number; // 1 when unlocked or the lock has lapsed
 }
 
 export interface StakeRequest {
   userId: string;
   farmId: number;
   amount: string; // Amount of LP tokens to stake
+  lockDays?: number; // Defaults to the farm's lock period, which is also the minimum
 }
 
 export interface UnstakeRequest {
@@ -106,32 +177,86 @@ export interface FlashLoanSwapPayload {
   tokenIn: string;
   tokenOut: string;
   amountIn: string; // The amount to swap from the borrowed funds
+  route?: string[]; // Optional token path; the best route is used when omitted
+}
+
+export interface FlashLoanAddLiquidityPayload {
+  type: 'add_liquidity';
+  tokenA: string;
+  tokenB: string;
+  amountA: string;
+  amountB: string;
+}
+
+export interface FlashLoanRemoveLiquidityPayload {
+  type: 'remove_liquidity';
+  poolId: number;
+  liquidityTokens: string; // Burned from the user's own position; the proceeds join the loan funds
+}
+
+export interface FlashLoanExchangePayload {
+  type: 'exchange_buy' | 'exchange_sell'; // Buy ASM with USD, or sell ASM for USD, at the exchange rate
+  amountIn: string;
+}
+
+export interface FlashLoanRepaySwapPayload {
+  type: 'repay_swap';
+  tokenIn: string; // Swapped into the loan token for exactly the amount still owed
+  maxAmountIn?: string;
 }
 
+export type FlashLoanAction =
+  | FlashLoanSwapPayload
+  | FlashLoanAddLiquidityPayload
+  | FlashLoanRemoveLiquidityPayload
+  | FlashLoanExchangePayload
+  | FlashLoanRepaySwapPayload;
+
 export interface FlashLoanRequest {
   userId: string;
   loanToken: string;
   loanAmount: string;
-  payload: FlashLoanSwapPayload[]; // For now, only support swaps
+  payload: FlashLoanAction[]; // Run in order against the borrowed funds
+  dryRun?: boolean; // Simulate and roll back, returning the trace instead of failing on a revert
+}
+
+export interface FlashLoanTraceStep {
+  step: number;
+  action: string; // 'borrow', a payload action type, or 'repay'
+  detail: string;
+  balances: Record<string, string>; // Loan funds held after the step, by token
 }
 
 export interface FlashLoanResponse {
   success: boolean;
-  txHash: string;
+  dryRun: boolean;
+  txHash?: string; // Omitted for dry runs
   profit: string;
+  profitUsd: string; // Profit valued at the loan token's USD TWAP, so in-loan price moves cannot inflate it
   feePaid: string;
+  trace: FlashLoanTraceStep[];
+  revertReason?: string; // Why a dry run would revert
 }
 
-// Helper function to update rewards for a farm
-async function updateYieldFarmRewards(farmId: number, tx: any) {
+// Accrues a farm's emissions since its last update into acc_reward_per_share. Emissions only
+// run between start_time and end_time, pause while nothing is staked, and stop for good once
+// the funded reward budget has been paid out. Locks that lapsed since the last update lose their
+// boost as of their locked_until, so a boost never earns past its lock even if the position is
+// never touched.
+export async function updateYieldFarmRewards(farmId: number, tx: any) {
   const farm = await tx.queryRow<{
     id: number;
-    total_staked: string;
+    total_effective_stake: string;
     reward_rate: string;
-    last_updated: Date;
+    reward_budget: string;
+    rewards_emitted: string;
+    start_time: Date;
+    end_time: Date;
+    last_reward_time: Date;
     acc_reward_per_share: string;
   }>`
-    SELECT id, total_staked, reward_rate, last_updated, acc_reward_per_share
+    SELECT id, total_effective_stake, reward_rate, reward_budget, rewards_emitted,
+           start_time, end_time, last_reward_time, acc_reward_per_share
     FROM yield_farming_pools
     WHERE id = ${farmId}
     FOR UPDATE
@@ -141,38 +266,73 @@ async function updateYieldFarmRewards(farmId: number, tx: any) {
     throw APIError.notFound("Yield farm not found");
   }
 
-  const now = new Date();
-  const lastUpdated = new Date(farm.last_updated);
-
-  if (now <= lastUpdated) {
-    return;
-  }
-
-  const totalStaked = BigInt(farm.total_staked);
-  if (totalStaked === 0n) {
+  const now = Date.now();
+  const endTime = new Date(farm.end_time).getTime();
+  const rewardBudget = BigInt(farm.reward_budget);
+  let rewardedUntil = Math.max(new Date(farm.last_reward_time).getTime(), new Date(farm.start_time).getTime());
+  let accRewardPerShare = BigInt(farm.acc_reward_per_share);
+  let rewardsEmitted = BigInt(farm.rewards_emitted);
+  // Rewards are split by lock-boosted stake rather than raw LP tokens
+  let totalStaked = BigInt(farm.total_effective_stake);
+  let changed = false;
+
+  const emitUntil = (until: number) => {
+    // Only whole seconds are emitted; the remainder carries over to the next update
+    const seconds = BigInt(Math.floor((Math.min(until, endTime) - rewardedUntil) / 1000));
+    if (seconds <= 0n) {
+      return;
+    }
+    rewardedUntil += Number(seconds) * 1000;
+    changed = true;
+    if (totalStaked === 0n) {
+      return;
+    }
+
+    const remainingBudget = rewardBudget - rewardsEmitted;
+    let reward = seconds * BigInt(farm.reward_rate);
+    if (reward > remainingBudget) {
+      reward = remainingBudget > 0n ? remainingBudget : 0n;
+    }
+    accRewardPerShare += reward * REWARD_PRECISION / totalStaked;
+    rewardsEmitted += reward;
+  };
+
+  const lapsed = await tx.queryAll<StakingRow>`
+    SELECT * FROM staking_positions
+    WHERE farm_id = ${farmId} AND lock_days > 0 AND locked_until <= ${new Date(now)}
+    ORDER BY locked_until, id
+    FOR UPDATE
+  `;
+  let removedBoost = 0n;
+  for (const position of lapsed) {
+    emitUntil(new Date(position.locked_until!).getTime());
+
+    const effective = effectiveStake(BigInt(position.staked_amount), 0);
+    totalStaked -= BigInt(position.effective_stake) - effective;
+    removedBoost += BigInt(position.effective_stake) - effective;
+    changed = true;
     await tx.exec`
-      UPDATE yield_farming_pools
-      SET last_updated = NOW()
-      WHERE id = ${farmId}
+      UPDATE staking_positions
+      SET effective_stake = ${effective.toString()},
+          reward_debt = ${(effective * accRewardPerShare / REWARD_PRECISION).toString()},
+          pending_rewards = ${accruedRewards(position, accRewardPerShare).toString()},
+          lock_days = 0,
+          last_updated = NOW()
+      WHERE id = ${position.id}
     `;
-    return;
   }
+  emitUntil(now);
 
-  const timeDiff = BigInt(Math.floor((now.getTime() - lastUpdated.getTime()) / 1000));
-  if (timeDiff <= 0n) {
+  if (!changed) {
     return;
   }
-
-  const rewardRate = BigInt(farm.reward_rate);
-  const precision = 10n ** 18n;
-  const reward = timeDiff * rewardRate;
-  const accRewardPerShare = BigInt(farm.acc_reward_per_share);
-  const newAccRewardPerShare = accRewardPerShare + (reward * precision / totalStaked);
-
   await tx.exec`
     UPDATE yield_farming_pools
-    SET acc_reward_per_share = ${newAccRewardPerShare.toString()},
-        last_updated = NOW()
+    SET acc_reward_per_share = ${accRewardPerShare.toString()},
+        rewards_emitted = ${rewardsEmitted.toString()},
+        last_reward_time = ${new Date(rewardedUntil)},
+        total_effective_stake = total_effective_stake - ${removedBoost.toString()},
+        is_active = is_active AND ${rewardsEmitted.toString()} < reward_budget
     WHERE id = ${farmId}
   `;
 }
@@ -182,101 +342,451 @@ export const getLiquidityPools = api<void, { pools: LiquidityPool[] }>(
   { expose: true, method: "GET", path: "/amm/pools" },
   async () => {
     return withPerformanceMonitoring("/amm/pools", "GET", async () => {
-      const rows = await blockchainDB.queryAll<{
-        id: number;
-        token_a: string;
-        token_b: string;
-        reserve_a: string;
-        reserve_b: string;
-        total_liquidity: string;
-        fee_rate: number;
-        created_at: Date;
-        last_updated: Date;
-      }>`
+      const rows = await blockchainDB.queryAll<PoolRow>`
         SELECT * FROM liquidity_pools 
         ORDER BY total_liquidity DESC
       `;
 
-      const pools = rows.map(row => ({
-        id: row.id,
-        tokenA: row.token_a,
-        tokenB: row.token_b,
-        reserveA: row.reserve_a,
-        reserveB: row.reserve_b,
-        totalLiquidity: row.total_liquidity,
-        feeRate: row.fee_rate,
-        createdAt: row.created_at,
-        lastUpdated: row.last_updated,
-      }));
+      return { pools: rows.map(toLiquidityPool) };
+    });
+  }
+);
 
-      return { pools };
+// Creates a pool for a new token pair with the chosen fee tier and seeds it with the
+// creator's initial deposit.
+export const createPool = api<CreatePoolRequest, CreatePoolResponse>(
+  { expose: true, method: "POST", path: "/amm/pools" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/pools", "POST", async () => {
+      if (!req.userId || !req.tokenA || !req.tokenB || !req.amountA || !req.amountB) {
+        throw APIError.invalidArgument("Missing required parameters");
+      }
+
+      await using tx = await blockchainDB.begin();
+
+      try {
+        // Take the deposit first so an underfunded request fails before anything is created
+        await postJournalEntry(tx, {
+          entryType: 'liquidity_add',
+          lines: [
+            ...movement(userAccount(req.userId), AMM_POOLS_ACCOUNT, req.tokenA, req.amountA),
+            ...movement(userAccount(req.userId), AMM_POOLS_ACCOUNT, req.tokenB, req.amountB),
+          ],
+        });
+
+        const created = await createPoolInTx(tx, {
+          userId: req.userId,
+          tokenA: req.tokenA,
+          tokenB: req.tokenB,
+          amountA: req.amountA,
+          amountB: req.amountB,
+          feeRate: req.feeRate ?? DEFAULT_FEE_TIER,
+          curveType: req.curveType ?? 'constant_product',
+          amplification: req.amplification,
+        });
+
+        await tx.exec`
+          INSERT INTO liquidity_positions (user_id, pool_id, liquidity_tokens, share_percentage)
+          VALUES (
+            ${req.userId}, ${created.pool.id}, ${created.liquidityTokens},
+            ${created.liquidityTokens}::numeric / ${created.pool.total_liquidity}::numeric * 100
+          )
+        `;
+        await recordPositionDeposit(tx, req.userId, created.pool.id, BigInt(req.amountA), BigInt(req.amountB));
+
+        await tx.commit();
+
+        await publishTransactionConfirmation({
+          userId: req.userId,
+          type: 'liquidity_add',
+          status: 'completed',
+          message: `Created the ${req.tokenA}/${req.tokenB} ${created.pool.curve_type === 'stable' ? 'stable ' : ''}pool with a ${created.pool.fee_rate * 100}% fee.`,
+          details: {
+            poolId: created.pool.id,
+            poolAddress: created.pool.pool_address,
+            tokenA: req.tokenA,
+            tokenB: req.tokenB,
+            amountA: req.amountA,
+            amountB: req.amountB,
+            txHash: created.txHash,
+          },
+        });
+
+        await publishPoolUpdate({ poolId: created.pool.id, reason: 'liquidity_add' });
+
+        return {
+          pool: toLiquidityPool(created.pool),
+          liquidityTokens: created.liquidityTokens,
+          lockedLiquidity: MINIMUM_LIQUIDITY.toString(),
+          txHash: created.txHash,
+        };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
     });
   }
 );
 
-// Get swap quote
+// Get swap quote. Pass amountIn for an exact-input quote, or amountOut to ask how much
+// tokenIn is needed to receive that amount of tokenOut.
 export const getSwapQuote = api<{
   tokenIn: string;
   tokenOut: string;
-  amountIn: string;
+  amountIn?: string;
+  amountOut?: string;
+  maxHops?: number;
 }, SwapQuote>(
   { expose: true, method: "GET", path: "/amm/quote" },
   async (req) => {
     return withPerformanceMonitoring("/amm/quote", "GET", async () => {
-      if (!req.tokenIn || !req.tokenOut || !req.amountIn) {
+      if (!req.tokenIn || !req.tokenOut || (!req.amountIn && !req.amountOut)) {
         throw APIError.invalidArgument("Missing required parameters");
       }
+      if (req.amountIn && req.amountOut) {
+        throw APIError.invalidArgument("Specify either amountIn or amountOut, not both");
+      }
 
-      // Find the pool for this token pair
-      const pool = await blockchainDB.queryRow<{
-        id: number;
-        reserve_a: string;
-        reserve_b: string;
-        fee_rate: number;
-      }>`
-        SELECT id, reserve_a, reserve_b, fee_rate
-        FROM liquidity_pools 
-        WHERE (token_a = ${req.tokenIn} AND token_b = ${req.tokenOut})
-           OR (token_a = ${req.tokenOut} AND token_b = ${req.tokenIn})
-      `;
-
-      if (!pool) {
-        throw APIError.notFound("No liquidity pool found for this token pair");
+      const exactOut = !!req.amountOut;
+      const requested = exactOut ? req.amountOut : req.amountIn;
+      if (!isPositiveInteger(requested)) {
+        throw APIError.invalidArgument(exactOut ? "Output amount must be a positive integer" : "Input amount must be a positive integer");
       }
+      const amount = BigInt(requested);
 
-      const amountIn = BigInt(req.amountIn);
-      const reserveIn = BigInt(pool.reserve_a);
-      const reserveOut = BigInt(pool.reserve_b);
-      const feeRate = BigInt(Math.floor(pool.fee_rate * 10000)); // Convert to basis points
+      const pools = await blockchainDB.queryAll<RoutablePool>`
+        SELECT id, token_a, token_b, reserve_a, reserve_b, fee_rate, curve_type, amplification
+        FROM liquidity_pools
+      `;
 
-      // Calculate output amount using constant product formula
-      // amountOut = (amountIn * reserveOut) / (reserveIn + amountIn)
-      const amountInWithFee = amountIn * (BigInt(10000) - feeRate) / BigInt(10000);
-      const numerator = amountInWithFee * reserveOut;
-      const denominator = reserveIn + amountInWithFee;
-      const amountOut = numerator / denominator;
+      // Search the pool graph for the path with the best output (or cheapest input)
+      const maxHops = req.maxHops ?? DEFAULT_MAX_HOPS;
+      const best = exactOut
+        ? findBestRouteExactOut(pools, req.tokenIn, req.tokenOut, amount, maxHops)
+        : findBestRoute(pools, req.tokenIn, req.tokenOut, amount, maxHops);
+      if (!best) {
+        throw exactOut
+          ? APIError.failedPrecondition("Insufficient liquidity to receive the requested output")
+          : APIError.notFound("No liquidity route found for this token pair");
+      }
 
-      // Calculate price impact
-      const priceImpact = Number((amountIn * BigInt(100)) / reserveIn) / 100;
-      
-      // Calculate fee
-      const fee = (amountIn * feeRate / BigInt(10000)).toString();
-      
-      // Calculate minimum output with 0.5% slippage
-      const minimumOutput = (amountOut * BigInt(995) / BigInt(1000)).toString();
+      // Calculate minimum output with 0.5% slippage; exact-output quotes guarantee the requested amount
+      const minimumOutput = exactOut
+        ? amount.toString()
+        : (best.amountOut * BigInt(995) / BigInt(1000)).toString();
 
       return {
-        inputAmount: req.amountIn,
-        outputAmount: amountOut.toString(),
-        priceImpact,
-        fee,
+        inputAmount: best.amountIn.toString(),
+        outputAmount: best.amountOut.toString(),
+        spotPrice: best.spotPrice,
+        executionPrice: best.executionPrice,
+        priceImpact: best.priceImpact,
+        fee: best.fee.toString(),
         minimumOutput,
-        route: [req.tokenIn, req.tokenOut]
+        route: best.route,
+        hops: best.hops,
       };
     });
   }
 );
 
+interface PoolRow {
+  id: number;
+  token_a: string;
+  token_b: string;
+  reserve_a: string;
+  reserve_b: string;
+  total_liquidity: string;
+  fee_rate: number;
+  curve_type: CurveType;
+  amplification: number | null;
+  protocol_fee_bps: number;
+  pool_address: string | null;
+  created_at: Date;
+  last_updated: Date;
+}
+
+function toLiquidityPool(row: PoolRow): LiquidityPool {
+  return {
+    id: row.id,
+    tokenA: row.token_a,
+    tokenB: row.token_b,
+    reserveA: row.reserve_a,
+    reserveB: row.reserve_b,
+    totalLiquidity: row.total_liquidity,
+    feeRate: row.fee_rate,
+    curveType: row.curve_type,
+    amplification: row.amplification ?? undefined,
+    protocolFeeBps: row.protocol_fee_bps,
+    poolAddress: row.pool_address ?? undefined,
+    createdAt: row.created_at,
+    lastUpdated: row.last_updated,
+  };
+}
+
+// Inserts a new pool with its initial reserves inside the caller's transaction, locking
+// MINIMUM_LIQUIDITY of the initial LP supply, and registers the pool as a contract so it
+// shows up in the explorer. The caller is responsible for balances and the LP position.
+async function createPoolInTx(tx: any, params: {
+  userId: string;
+  tokenA: string;
+  tokenB: string;
+  amountA: string;
+  amountB: string;
+  feeRate: number;
+  curveType: CurveType;
+  amplification?: number;
+}): Promise<{ pool: PoolRow; liquidityTokens: string; txHash: string }> {
+  if (!TOKEN_SYMBOL_PATTERN.test(params.tokenA) || !TOKEN_SYMBOL_PATTERN.test(params.tokenB)) {
+    throw APIError.invalidArgument("Token symbols must be 2-10 uppercase letters or digits");
+  }
+  if (params.tokenA === params.tokenB) {
+    throw APIError.invalidArgument("A pool needs two different tokens");
+  }
+  if (!FEE_TIERS.includes(params.feeRate)) {
+    throw APIError.invalidArgument(`Fee rate must be one of ${FEE_TIERS.join(", ")}`);
+  }
+  if (params.curveType !== 'constant_product' && params.curveType !== 'stable') {
+    throw APIError.invalidArgument("Curve type must be 'constant_product' or 'stable'");
+  }
+  const amplification = params.curveType === 'stable' ? params.amplification ?? DEFAULT_AMPLIFICATION : null;
+  if (amplification !== null && (!Number.isInteger(amplification) || amplification < 1 || amplification > MAX_AMPLIFICATION)) {
+    throw APIError.invalidArgument(`Amplification must be an integer between 1 and ${MAX_AMPLIFICATION}`);
+  }
+  const curve = getCurve({ curve_type: params.curveType, amplification });
+
+  if (!isPositiveInteger(params.amountA) || !isPositiveInteger(params.amountB)) {
+    throw APIError.invalidArgument("Initial amounts must be positive integers");
+  }
+  const amountA = BigInt(params.amountA);
+  const amountB = BigInt(params.amountB);
+
+  const initialLiquidity = curve.initialLiquidity(amountA, amountB);
+  if (initialLiquidity <= MINIMUM_LIQUIDITY) {
+    throw APIError.invalidArgument("Initial deposit is too small to create a pool");
+  }
+
+  const existing = await tx.queryRow<{ id: number }>`
+    SELECT id FROM liquidity_pools
+    WHERE (token_a = ${params.tokenA} AND token_b = ${params.tokenB})
+       OR (token_a = ${params.tokenB} AND token_b = ${params.tokenA})
+  `;
+  if (existing) {
+    throw APIError.alreadyExists("A pool for this token pair already exists");
+  }
+
+  const creatorWallet = await tx.queryRow<{ address: string }>`
+    SELECT address FROM user_wallets WHERE user_id = ${params.userId}
+  `;
+  const creatorAddress = creatorWallet?.address ?? "0x" + crypto.randomBytes(20).toString('hex');
+  const poolAddress = "0x" + crypto.randomBytes(20).toString('hex');
+  const txHash = "0x" + crypto.randomBytes(32).toString('hex');
+
+  const pool = await tx.queryRow<PoolRow>`
+    INSERT INTO liquidity_pools (
+      token_a, token_b, reserve_a, reserve_b, total_liquidity, fee_rate,
+      curve_type, amplification, pool_address, creator_id, minimum_liquidity
+    )
+    VALUES (
+      ${params.tokenA}, ${params.tokenB}, ${params.amountA}, ${params.amountB},
+      ${initialLiquidity.toString()}, ${params.feeRate},
+      ${params.curveType}, ${amplification}, ${poolAddress}, ${params.userId}, ${MINIMUM_LIQUIDITY.toString()}
+    )
+    RETURNING *
+  `;
+
+  await recordPoolTick(tx, { poolId: pool!.id, type: 'liquidity_add', amountA, amountB });
+
+  // Record the deployment in a new block so the pool is visible in the explorer
+  const latestBlock = await tx.queryRow<{ block_number: number }>`
+    SELECT block_number FROM blocks ORDER BY block_number DESC LIMIT 1 FOR UPDATE
+  `;
+  const blockNumber = (latestBlock?.block_number || 0) + 1;
+
+  await tx.exec`
+    INSERT INTO blocks (
+      block_number, block_hash, parent_hash, miner_address, difficulty,
+      gas_limit, gas_used, transaction_count, size_bytes, nonce,
+      merkle_root, state_root, receipts_root
+    )
+    VALUES (
+      ${blockNumber}, ${"0x" + crypto.randomBytes(32).toString('hex')}, ${"0x" + crypto.randomBytes(32).toString('hex')},
+      ${"0x" + crypto.randomBytes(20).toString('hex')}, ${1000000 + blockNumber * 1000},
+      ${8000000}, ${2500000}, 1, ${Math.floor(Math.random() * 50000) + 10000}, ${crypto.randomBytes(8).toString('hex')},
+      ${"0x" + crypto.randomBytes(32).toString('hex')}, ${"0x" + crypto.randomBytes(32).toString('hex')},
+      ${"0x" + crypto.randomBytes(32).toString('hex')}
+    )
+  `;
+
+  await tx.exec`
+    INSERT INTO transactions (
+      tx_hash, block_number, transaction_index, from_address, to_address,
+      value, gas_price, gas_limit, gas_used, nonce, status, contract_address
+    )
+    VALUES (
+      ${txHash}, ${blockNumber}, 0, ${creatorAddress}, NULL,
+      0, ${20000000000}, ${3000000}, ${2500000}, 0, 1, ${poolAddress}
+    )
+  `;
+
+  await tx.exec`
+    INSERT INTO contracts (
+      contract_address, creator_address, creation_tx_hash, creation_block_number,
+      contract_name, contract_type, bytecode, abi, verification_status
+    )
+    VALUES (
+      ${poolAddress}, ${creatorAddress}, ${txHash}, ${blockNumber},
+      ${`${params.tokenA}/${params.tokenB} Pool`}, 'amm_pool',
+      ${"0x608060405234801561001057600080fd5b50" + crypto.randomBytes(256).toString('hex')},
+      ${JSON.stringify({ name: "LiquidityPool", tokenA: params.tokenA, tokenB: params.tokenB, feeRate: params.feeRate, curveType: params.curveType, amplification })},
+      'verified'
+    )
+  `;
+
+  return {
+    pool: pool!,
+    liquidityTokens: (initialLiquidity - MINIMUM_LIQUIDITY).toString(),
+    txHash,
+  };
+}
+
+export type MintablePool = {
+  id: number;
+  reserve_a: string;
+  reserve_b: string;
+  total_liquidity: string;
+  fee_rate: number;
+  curve_type: CurveType;
+  amplification: number | null;
+};
+
+// Deposits tokens (in the pool's token order) into an existing pool inside the caller's
+// transaction and returns the LP tokens minted. Positions and balances are left to the caller.
+export async function mintLiquidity(tx: any, userId: string, pool: MintablePool, amountA: bigint, amountB: bigint): Promise<bigint> {
+  // Settle fees earned on the user's existing LP tokens before minting more
+  await checkpointPositionFees(tx, userId, pool.id);
+
+  const liquidityToMint = getCurve(pool).liquidityToMint(
+    amountA, amountB,
+    BigInt(pool.reserve_a), BigInt(pool.reserve_b), BigInt(pool.total_liquidity),
+    feeBps(pool.fee_rate)
+  );
+  if (liquidityToMint <= 0n) {
+    throw APIError.invalidArgument("Deposit is too small to mint any LP tokens");
+  }
+
+  await tx.exec`
+    UPDATE liquidity_pools 
+    SET reserve_a = reserve_a + ${amountA.toString()},
+        reserve_b = reserve_b + ${amountB.toString()},
+        total_liquidity = total_liquidity + ${liquidityToMint.toString()},
+        last_updated = NOW()
+    WHERE id = ${pool.id}
+  `;
+
+  await recordPoolTick(tx, { poolId: pool.id, type: 'liquidity_add', amountA, amountB });
+  return liquidityToMint;
+}
+
+// Credits minted LP tokens to the user's position and adds the deposit to its cost basis.
+async function recordLiquidityPosition(tx: any, userId: string, poolId: number, liquidityTokens: bigint, amountA: bigint, amountB: bigint) {
+  await tx.exec`
+    INSERT INTO liquidity_positions (user_id, pool_id, liquidity_tokens, share_percentage)
+    VALUES (${userId}, ${poolId}, ${liquidityTokens.toString()}, 
+            ${liquidityTokens.toString()}::numeric / (SELECT total_liquidity FROM liquidity_pools WHERE id = ${poolId})::numeric * 100)
+    ON CONFLICT (user_id, pool_id) 
+    DO UPDATE SET 
+      liquidity_tokens = liquidity_positions.liquidity_tokens + ${liquidityTokens.toString()},
+      last_updated = NOW()
+  `;
+  await recordPositionDeposit(tx, userId, poolId, amountA, amountB);
+}
+
+// Burns a user's unstaked LP tokens from a pool locked by the caller and returns the
+// underlying tokens, which the caller credits. Rejects withdrawals below the given minimums.
+async function burnLiquidity(
+  tx: any,
+  userId: string,
+  pool: { id: number; reserve_a: string; reserve_b: string; total_liquidity: string },
+  burnAmount: bigint,
+  minimumA: bigint = 0n,
+  minimumB: bigint = 0n
+): Promise<{ amountA: bigint; amountB: bigint }> {
+  const position = await tx.queryRow<{ id: number; liquidity_tokens: string }>`
+    SELECT id, liquidity_tokens
+    FROM liquidity_positions
+    WHERE user_id = ${userId} AND pool_id = ${pool.id}
+    FOR UPDATE
+  `;
+
+  if (!position) {
+    throw APIError.notFound("Liquidity position not found");
+  }
+
+  // Staked LP tokens are moved out of liquidity_positions by stakeLPTokens,
+  // so only the unstaked remainder can be burned here.
+  const availableTokens = BigInt(position.liquidity_tokens);
+  if (burnAmount > availableTokens) {
+    const staked = await tx.queryRow<{ staked: string }>`
+      SELECT COALESCE(SUM(sp.staked_amount), 0)::text AS staked
+      FROM staking_positions sp
+      JOIN yield_farming_pools yf ON yf.id = sp.farm_id
+      WHERE sp.user_id = ${userId} AND yf.pool_id = ${pool.id}
+    `;
+    if (staked && BigInt(staked.staked) > 0n && burnAmount <= availableTokens + BigInt(staked.staked)) {
+      throw APIError.failedPrecondition("LP tokens are staked in a yield farm; unstake them before removing liquidity");
+    }
+    throw APIError.failedPrecondition("Insufficient LP tokens");
+  }
+
+  const reserveA = BigInt(pool.reserve_a);
+  const reserveB = BigInt(pool.reserve_b);
+  const totalLiquidity = BigInt(pool.total_liquidity);
+
+  if (totalLiquidity === 0n) {
+    throw APIError.failedPrecondition("Pool has no liquidity");
+  }
+
+  const ownedTokens = await checkpointPositionFees(tx, userId, pool.id);
+
+  // Proportional share of each reserve
+  const amountA = (burnAmount * reserveA) / totalLiquidity;
+  const amountB = (burnAmount * reserveB) / totalLiquidity;
+
+  if (amountA === 0n && amountB === 0n) {
+    throw APIError.invalidArgument("Liquidity token amount too small to withdraw");
+  }
+  if (amountA < minimumA || amountB < minimumB) {
+    throw APIError.failedPrecondition("Slippage tolerance exceeded");
+  }
+
+  // Update pool reserves and burn the LP tokens
+  await tx.exec`
+    UPDATE liquidity_pools
+    SET reserve_a = reserve_a - ${amountA.toString()},
+        reserve_b = reserve_b - ${amountB.toString()},
+        total_liquidity = total_liquidity - ${burnAmount.toString()},
+        last_updated = NOW()
+    WHERE id = ${pool.id}
+  `;
+
+  await recordPoolTick(tx, { poolId: pool.id, type: 'liquidity_remove', amountA, amountB });
+  await recordPositionWithdrawal(tx, userId, pool.id, burnAmount, ownedTokens);
+
+  // Keep the position row even when emptied; unstakeLPTokens credits LP tokens back to it
+  const remainingTokens = availableTokens - burnAmount;
+  const remainingLiquidity = totalLiquidity - burnAmount;
+  await tx.exec`
+    UPDATE liquidity_positions
+    SET liquidity_tokens = ${remainingTokens.toString()},
+        share_percentage = ${remainingLiquidity === 0n ? 0 : Number(remainingTokens * 1000000n / remainingLiquidity) / 10000},
+        last_updated = NOW()
+    WHERE id = ${position.id}
+  `;
+
+  return { amountA, amountB };
+}
+
 // Add liquidity to pool
 export const addLiquidity = api<AddLiquidityRequest, { 
   poolId: number; 
@@ -289,6 +799,9 @@ export const addLiquidity = api<AddLiquidityRequest, {
       if (!req.userId || !req.tokenA || !req.tokenB || !req.amountA || !req.amountB) {
         throw APIError.invalidArgument("Missing required parameters");
       }
+      if (!isPositiveInteger(req.amountA) || !isPositiveInteger(req.amountB)) {
+        throw APIError.invalidArgument("Deposit amounts must be positive integers");
+      }
 
       await using tx = await blockchainDB.begin();
       
@@ -296,11 +809,15 @@ export const addLiquidity = api<AddLiquidityRequest, {
         // Check if pool exists
         let pool = await tx.queryRow<{
           id: number;
+          token_a: string;
           reserve_a: string;
           reserve_b: string;
           total_liquidity: string;
+          fee_rate: number;
+          curve_type: CurveType;
+          amplification: number | null;
         }>`
-          SELECT id, reserve_a, reserve_b, total_liquidity
+          SELECT id, token_a, reserve_a, reserve_b, total_liquidity, fee_rate, curve_type, amplification
           FROM liquidity_pools 
           WHERE (token_a = ${req.tokenA} AND token_b = ${req.tokenB})
              OR (token_a = ${req.tokenB} AND token_b = ${req.tokenA})
@@ -308,69 +825,43 @@ export const addLiquidity = api<AddLiquidityRequest, {
 
         let poolId: number;
         let liquidityTokens: string;
+        let depositA = BigInt(req.amountA);
+        let depositB = BigInt(req.amountB);
 
         if (!pool) {
-          // Create new pool
-          const newPool = await tx.queryRow<{ id: number }>`
-            INSERT INTO liquidity_pools (token_a, token_b, reserve_a, reserve_b, total_liquidity, fee_rate)
-            VALUES (${req.tokenA}, ${req.tokenB}, ${req.amountA}, ${req.amountB}, 
-                    ${Math.sqrt(Number(req.amountA) * Number(req.amountB)).toString()}, 0.003)
-            RETURNING id
-          `;
+          // Create new pool at the default fee tier
+          const created = await createPoolInTx(tx, {
+            userId: req.userId,
+            tokenA: req.tokenA,
+            tokenB: req.tokenB,
+            amountA: req.amountA,
+            amountB: req.amountB,
+            feeRate: DEFAULT_FEE_TIER,
+            curveType: 'constant_product',
+          });
           
-          poolId = newPool!.id;
-          liquidityTokens = Math.sqrt(Number(req.amountA) * Number(req.amountB)).toString();
+          poolId = created.pool.id;
+          liquidityTokens = created.liquidityTokens;
         } else {
-          // Add to existing pool
-          const reserveA = BigInt(pool.reserve_a);
-          const reserveB = BigInt(pool.reserve_b);
-          const totalLiquidity = BigInt(pool.total_liquidity);
-          
-          const amountA = BigInt(req.amountA);
-          const amountB = BigInt(req.amountB);
-          
-          // Calculate liquidity tokens to mint
-          const liquidityA = (amountA * totalLiquidity) / reserveA;
-          const liquidityB = (amountB * totalLiquidity) / reserveB;
-          const liquidityToMint = liquidityA < liquidityB ? liquidityA : liquidityB;
-          
-          // Update pool reserves
-          await tx.exec`
-            UPDATE liquidity_pools 
-            SET reserve_a = reserve_a + ${req.amountA},
-                reserve_b = reserve_b + ${req.amountB},
-                total_liquidity = total_liquidity + ${liquidityToMint.toString()},
-                last_updated = NOW()
-            WHERE id = ${pool.id}
-          `;
-          
+          // Add to existing pool, matching the request's amounts to the pool's token order
+          const isSameOrder = pool.token_a === req.tokenA;
+          depositA = BigInt(isSameOrder ? req.amountA : req.amountB);
+          depositB = BigInt(isSameOrder ? req.amountB : req.amountA);
+
           poolId = pool.id;
-          liquidityTokens = liquidityToMint.toString();
+          liquidityTokens = (await mintLiquidity(tx, req.userId, pool, depositA, depositB)).toString();
         }
 
-        // Record user's liquidity position
-        await tx.exec`
-          INSERT INTO liquidity_positions (user_id, pool_id, liquidity_tokens, share_percentage)
-          VALUES (${req.userId}, ${poolId}, ${liquidityTokens}, 
-                  ${liquidityTokens}::numeric / (SELECT total_liquidity FROM liquidity_pools WHERE id = ${poolId})::numeric * 100)
-          ON CONFLICT (user_id, pool_id) 
-          DO UPDATE SET 
-            liquidity_tokens = liquidity_positions.liquidity_tokens + ${liquidityTokens},
-            last_updated = NOW()
-        `;
-
-        // Update user balances
-        await tx.exec`
-          UPDATE user_balances 
-          SET balance = balance - ${req.amountA}
-          WHERE user_id = ${req.userId} AND currency = ${req.tokenA}
-        `;
+        await recordLiquidityPosition(tx, req.userId, poolId, BigInt(liquidityTokens), depositA, depositB);
 
-        await tx.exec`
-          UPDATE user_balances 
-          SET balance = balance - ${req.amountB}
-          WHERE user_id = ${req.userId} AND currency = ${req.tokenB}
-        `;
+        await postJournalEntry(tx, {
+          entryType: 'liquidity_add',
+          reference: `pool:${poolId}`,
+          lines: [
+            ...movement(userAccount(req.userId), AMM_POOLS_ACCOUNT, req.tokenA, req.amountA),
+            ...movement(userAccount(req.userId), AMM_POOLS_ACCOUNT, req.tokenB, req.amountB),
+          ],
+        });
 
         await tx.commit();
 
@@ -391,6 +882,8 @@ export const addLiquidity = api<AddLiquidityRequest, {
           },
         });
 
+        await publishPoolUpdate({ poolId, reason: 'liquidity_add' });
+
         return {
           poolId,
           liquidityTokens,
@@ -404,11 +897,141 @@ export const addLiquidity = api<AddLiquidityRequest, {
   }
 );
 
+// Moves pool reserves for a swap inside the caller's transaction: finds (or follows) a route,
+// locks the pools on it, re-quotes against the locked reserves and checks slippage.
+// User balances are left to the caller.
+export async function swapThroughPools(tx: any, params: {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  minimumAmountOut: string;
+  route?: string[];
+  maxHops?: number;
+}): Promise<SwapRoute> {
+  const amountIn = BigInt(params.amountIn);
+
+  // Find the route
+  const candidatePools = await tx.queryAll<RoutablePool>`
+    SELECT id, token_a, token_b, reserve_a, reserve_b, fee_rate, curve_type, amplification
+    FROM liquidity_pools
+  `;
+
+  const planned = findBestRoute(
+    candidatePools, params.tokenIn, params.tokenOut, amountIn, params.maxHops ?? DEFAULT_MAX_HOPS, params.route
+  );
+  if (!planned) {
+    throw APIError.notFound("No liquidity route found for this token pair");
+  }
+
+  // Lock every pool on the route in id order, then re-quote against the locked reserves
+  const lockedPools = new Map<number, RoutablePool & { protocol_fee_bps: number }>();
+  for (const poolId of planned.pools.map(p => p.id).sort((a, b) => a - b)) {
+    const locked = await tx.queryRow<RoutablePool & { protocol_fee_bps: number }>`
+      SELECT id, token_a, token_b, reserve_a, reserve_b, fee_rate, curve_type, amplification, protocol_fee_bps
+      FROM liquidity_pools
+      WHERE id = ${poolId}
+      FOR UPDATE
+    `;
+    if (!locked) {
+      throw APIError.notFound("Liquidity pool not found");
+    }
+    lockedPools.set(poolId, locked);
+  }
+
+  const swap = quotePath(planned.pools.map(p => lockedPools.get(p.id)!), params.tokenIn, amountIn);
+  const amountOut = swap.amountOut;
+
+  // Check slippage once for the whole route
+  if (amountOut < BigInt(params.minimumAmountOut)) {
+    throw APIError.failedPrecondition("Slippage tolerance exceeded");
+  }
+
+  // Update pool reserves hop by hop. The protocol's share of the fee leaves the pool
+  for (const hop of swap.hops) {
+    const pool = lockedPools.get(hop.poolId)!;
+    const isTokenAInput = pool.token_a === hop.tokenIn;
+    const { lpFee, protocolFee } = splitSwapFee(BigInt(hop.fee), pool.protocol_fee_bps);
+    const addedIn = (BigInt(hop.amountIn) - protocolFee).toString();
+    if (isTokenAInput) {
+      await tx.exec`
+        UPDATE liquidity_pools 
+        SET reserve_a = reserve_a + ${addedIn},
+            reserve_b = reserve_b - ${hop.amountOut},
+            last_updated = NOW()
+        WHERE id = ${hop.poolId}
+      `;
+    } else {
+      await tx.exec`
+        UPDATE liquidity_pools 
+        SET reserve_a = reserve_a - ${hop.amountOut},
+            reserve_b = reserve_b + ${addedIn},
+            last_updated = NOW()
+        WHERE id = ${hop.poolId}
+      `;
+    }
+
+    await recordPoolTick(tx, {
+      poolId: hop.poolId,
+      type: 'swap',
+      amountA: BigInt(isTokenAInput ? hop.amountIn : hop.amountOut),
+      amountB: BigInt(isTokenAInput ? hop.amountOut : hop.amountIn),
+      feeA: isTokenAInput ? BigInt(hop.fee) : 0n,
+      feeB: isTokenAInput ? 0n : BigInt(hop.fee),
+    });
+    await accrueSwapFees(tx, hop.poolId, isTokenAInput ? lpFee : 0n, isTokenAInput ? 0n : lpFee);
+    await accrueToTreasury(tx, { token: hop.tokenIn, amount: protocolFee, entryType: 'swap_fee', poolId: hop.poolId });
+  }
+
+  return swap;
+}
+
+// Executes a swap inside the caller's transaction, moving both reserves and balances.
+// Shared by executeSwap and the resting order matcher so both fill identically.
+export async function performSwap(tx: any, params: {
+  userId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  minimumAmountOut: string;
+  route?: string[];
+  maxHops?: number;
+}): Promise<SwapRoute> {
+  const swap = await swapThroughPools(tx, params);
+  const amountOut = swap.amountOut;
+
+  await postJournalEntry(tx, {
+    entryType: 'swap',
+    reference: `pools:${swap.hops.map(h => h.poolId).join(',')}`,
+    lines: [
+      ...movement(userAccount(params.userId), AMM_POOLS_ACCOUNT, params.tokenIn, params.amountIn),
+      ...movement(AMM_POOLS_ACCOUNT, userAccount(params.userId), params.tokenOut, amountOut),
+    ],
+  });
+
+  // Record the swap transaction
+  await tx.exec`
+    INSERT INTO currency_transactions (
+      user_id, transaction_type, from_currency, to_currency,
+      from_amount, to_amount, exchange_rate, fee_amount, status
+    )
+    VALUES (
+      ${params.userId}, 'swap', ${params.tokenIn}, ${params.tokenOut},
+      ${params.amountIn}, ${amountOut.toString()}, 
+      ${swap.executionPrice}, 
+      ${Number(swap.fee)}, 'completed'
+    )
+  `;
+
+  return swap;
+}
+
 // Execute swap
 export const executeSwap = api<SwapRequest, { 
   amountOut: string; 
   txHash: string; 
   priceImpact: number; 
+  executionPrice: number;
+  route: string[];
 }>(
   { expose: true, method: "POST", path: "/amm/swap" },
   async (req) => {
@@ -417,95 +1040,127 @@ export const executeSwap = api<SwapRequest, {
         throw APIError.invalidArgument("Missing required parameters");
       }
 
+      if (!isPositiveInteger(req.amountIn)) {
+        throw APIError.invalidArgument("Input amount must be a positive integer");
+      }
+      if (!isUnsignedInteger(req.minimumAmountOut)) {
+        throw APIError.invalidArgument("Minimum output must be a non-negative integer");
+      }
+
       await using tx = await blockchainDB.begin();
       
       try {
-        // Find the pool
-        const pool = await tx.queryRow<{
-          id: number;
-          token_a: string;
-          token_b: string;
-          reserve_a: string;
-          reserve_b: string;
-          fee_rate: number;
-        }>`
-          SELECT id, token_a, token_b, reserve_a, reserve_b, fee_rate
-          FROM liquidity_pools 
-          WHERE (token_a = ${req.tokenIn} AND token_b = ${req.tokenOut})
-             OR (token_a = ${req.tokenOut} AND token_b = ${req.tokenIn})
-        `;
-
-        if (!pool) {
-          throw APIError.notFound("No liquidity pool found for this token pair");
-        }
+        const swap = await performSwap(tx, req);
+        const amountOut = swap.amountOut;
 
-        // Determine which token is which in the pool
-        const isTokenAInput = pool.token_a === req.tokenIn;
-        const reserveIn = BigInt(isTokenAInput ? pool.reserve_a : pool.reserve_b);
-        const reserveOut = BigInt(isTokenAInput ? pool.reserve_b : pool.reserve_a);
+        await tx.commit();
 
-        const amountIn = BigInt(req.amountIn);
-        const feeRate = BigInt(Math.floor(pool.fee_rate * 10000));
+        const txHash = "0x" + crypto.randomBytes(32).toString('hex');
 
-        // Calculate output amount
-        const amountInWithFee = amountIn * (BigInt(10000) - feeRate) / BigInt(10000);
-        const numerator = amountInWithFee * reserveOut;
-        const denominator = reserveIn + amountInWithFee;
-        const amountOut = numerator / denominator;
+        await publishTransactionConfirmation({
+          userId: req.userId,
+          type: 'swap',
+          status: 'completed',
+          message: `Successfully swapped ${req.amountIn} ${req.tokenIn} for ${amountOut.toString()} ${req.tokenOut}.`,
+          details: {
+            tokenIn: req.tokenIn,
+            tokenOut: req.tokenOut,
+            amountIn: req.amountIn,
+            amountOut: amountOut.toString(),
+            route: swap.route,
+            txHash,
+          },
+        });
 
-        // Check slippage
-        if (amountOut < BigInt(req.minimumAmountOut)) {
-          throw APIError.failedPrecondition("Slippage tolerance exceeded");
+        for (const hop of swap.hops) {
+          await publishPoolUpdate({ poolId: hop.poolId, reason: 'swap' });
         }
 
-        // Calculate price impact
-        const priceImpact = Number((amountIn * BigInt(100)) / reserveIn) / 100;
+        return {
+          amountOut: amountOut.toString(),
+          txHash,
+          priceImpact: swap.priceImpact,
+          executionPrice: swap.executionPrice,
+          route: swap.route,
+        };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Remove liquidity from pool
+export const removeLiquidity = api<RemoveLiquidityRequest, RemoveLiquidityResponse>(
+  { expose: true, method: "POST", path: "/amm/remove-liquidity" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/remove-liquidity", "POST", async () => {
+      if (!req.userId || !req.poolId || !req.liquidityTokens) {
+        throw APIError.invalidArgument("Missing required parameters");
+      }
 
-        // Update pool reserves
-        if (isTokenAInput) {
-          await tx.exec`
-            UPDATE liquidity_pools 
-            SET reserve_a = reserve_a + ${req.amountIn},
-                reserve_b = reserve_b - ${amountOut.toString()},
-                last_updated = NOW()
-            WHERE id = ${pool.id}
-          `;
-        } else {
-          await tx.exec`
-            UPDATE liquidity_pools 
-            SET reserve_a = reserve_a - ${amountOut.toString()},
-                reserve_b = reserve_b + ${req.amountIn},
-                last_updated = NOW()
-            WHERE id = ${pool.id}
-          `;
+      if (!isPositiveInteger(req.liquidityTokens)) {
+        throw APIError.invalidArgument("Liquidity token amount must be a positive integer");
+      }
+      if ((req.expectedAmountA !== undefined && !isUnsignedInteger(req.expectedAmountA)) ||
+          (req.expectedAmountB !== undefined && !isUnsignedInteger(req.expectedAmountB))) {
+        throw APIError.invalidArgument("Expected amounts must be non-negative integers");
+      }
+      const burnAmount = BigInt(req.liquidityTokens);
+
+      // Reserves are read under the pool lock, so a tolerance only protects the withdrawal when
+      // it is measured against the amounts the user was quoted before sending it
+      if (req.slippageTolerance !== undefined) {
+        if (!(req.slippageTolerance >= 0 && req.slippageTolerance <= 50)) {
+          throw APIError.invalidArgument("Slippage tolerance must be between 0 and 50 percent");
+        }
+        if (req.expectedAmountA === undefined || req.expectedAmountB === undefined) {
+          throw APIError.invalidArgument("A slippage tolerance needs expectedAmountA and expectedAmountB");
         }
+      }
 
-        // Update user balances
-        await tx.exec`
-          UPDATE user_balances 
-          SET balance = balance - ${req.amountIn}
-          WHERE user_id = ${req.userId} AND currency = ${req.tokenIn}
-        `;
+      await using tx = await blockchainDB.begin();
 
-        await tx.exec`
-          UPDATE user_balances 
-          SET balance = balance + ${amountOut.toString()}
-          WHERE user_id = ${req.userId} AND currency = ${req.tokenOut}
+      try {
+        const pool = await tx.queryRow<{
+          id: number;
+          token_a: string;
+          token_b: string;
+          reserve_a: string;
+          reserve_b: string;
+          total_liquidity: string;
+        }>`
+          SELECT id, token_a, token_b, reserve_a, reserve_b, total_liquidity
+          FROM liquidity_pools
+          WHERE id = ${req.poolId}
+          FOR UPDATE
         `;
 
-        // Record the swap transaction
-        await tx.exec`
-          INSERT INTO currency_transactions (
-            user_id, transaction_type, from_currency, to_currency,
-            from_amount, to_amount, exchange_rate, fee_amount, status
-          )
-          VALUES (
-            ${req.userId}, 'swap', ${req.tokenIn}, ${req.tokenOut},
-            ${req.amountIn}, ${amountOut.toString()}, 
-            ${Number(amountOut) / Number(req.amountIn)}, 
-            ${Number(amountIn - amountInWithFee)}, 'completed'
-          )
-        `;
+        if (!pool) {
+          throw APIError.notFound("Liquidity pool not found");
+        }
+
+        // Check slippage against the amounts quoted to the user
+        const toleranceBps = BigInt(Math.floor((req.slippageTolerance ?? 0) * 100));
+        const { amountA, amountB } = await burnLiquidity(
+          tx,
+          req.userId,
+          pool,
+          burnAmount,
+          req.expectedAmountA !== undefined ? BigInt(req.expectedAmountA) * (10000n - toleranceBps) / 10000n : 0n,
+          req.expectedAmountB !== undefined ? BigInt(req.expectedAmountB) * (10000n - toleranceBps) / 10000n : 0n
+        );
+
+        // Return the underlying tokens to the user
+        await postJournalEntry(tx, {
+          entryType: 'liquidity_remove',
+          reference: `pool:${pool.id}`,
+          lines: [
+            ...movement(AMM_POOLS_ACCOUNT, userAccount(req.userId), pool.token_a, amountA),
+            ...movement(AMM_POOLS_ACCOUNT, userAccount(req.userId), pool.token_b, amountB),
+          ],
+        });
 
         await tx.commit();
 
@@ -513,22 +1168,26 @@ export const executeSwap = api<SwapRequest, {
 
         await publishTransactionConfirmation({
           userId: req.userId,
-          type: 'swap',
+          type: 'liquidity_remove',
           status: 'completed',
-          message: `Successfully swapped ${req.amountIn} ${req.tokenIn} for ${amountOut.toString()} ${req.tokenOut}.`,
+          message: `Successfully removed liquidity from pool ${pool.id}.`,
           details: {
-            tokenIn: req.tokenIn,
-            tokenOut: req.tokenOut,
-            amountIn: req.amountIn,
-            amountOut: amountOut.toString(),
+            poolId: pool.id,
+            tokenA: pool.token_a,
+            tokenB: pool.token_b,
+            amountA: amountA.toString(),
+            amountB: amountB.toString(),
+            liquidityTokensBurned: req.liquidityTokens,
             txHash,
           },
         });
 
         return {
-          amountOut: amountOut.toString(),
-          txHash,
-          priceImpact
+          poolId: pool.id,
+          amountA: amountA.toString(),
+          amountB: amountB.toString(),
+          liquidityTokensBurned: req.liquidityTokens,
+          txHash
         };
       } catch (error) {
         await tx.rollback();
@@ -538,39 +1197,55 @@ export const executeSwap = api<SwapRequest, {
   }
 );
 
+export interface YieldFarmRow {
+  id: number;
+  pool_id: number;
+  reward_token: string;
+  reward_rate: string;
+  total_staked: string;
+  start_time: Date;
+  end_time: Date;
+  is_active: boolean;
+  lock_period_days: number;
+  reward_budget: string;
+  rewards_emitted: string;
+  ended_at: Date | null;
+  total_effective_stake: string;
+  early_unstake_penalty_bps: number | null;
+  created_by: string | null; // Admin who funded the farm, or 'proposal:<id>' for treasury-funded farms
+}
+
+export function toYieldFarmingPool(row: YieldFarmRow): YieldFarmingPool {
+  return {
+    id: row.id,
+    poolId: row.pool_id,
+    rewardToken: row.reward_token,
+    rewardRate: row.reward_rate,
+    totalStaked: row.total_staked,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    isActive: row.is_active,
+    lockPeriodDays: row.lock_period_days,
+    rewardBudget: row.reward_budget,
+    rewardsEmitted: row.rewards_emitted,
+    endedAt: row.ended_at ?? undefined,
+    totalEffectiveStake: row.total_effective_stake,
+    earlyUnstakePenaltyBps: row.early_unstake_penalty_bps ?? undefined,
+  };
+}
+
 // Get yield farming pools
 export const getYieldFarms = api<void, { farms: YieldFarmingPool[] }>(
   { expose: true, method: "GET", path: "/amm/farms" },
   async () => {
     return withPerformanceMonitoring("/amm/farms", "GET", async () => {
-      const rows = await blockchainDB.queryAll<{
-        id: number;
-        pool_id: number;
-        reward_token: string;
-        reward_rate: string;
-        total_staked: string;
-        start_time: Date;
-        end_time: Date;
-        is_active: boolean;
-        lock_period_days: number;
-      }>`
-        SELECT id, pool_id, reward_token, reward_rate, total_staked, start_time, end_time, is_active, lock_period_days
-        FROM yield_farming_pools 
+      const rows = await blockchainDB.queryAll<YieldFarmRow>`
+        SELECT * FROM yield_farming_pools 
         WHERE is_active = true
         ORDER BY reward_rate DESC
       `;
 
-      const farms = rows.map(row => ({
-        id: row.id,
-        poolId: row.pool_id,
-        rewardToken: row.reward_token,
-        rewardRate: row.reward_rate,
-        totalStaked: row.total_staked,
-        startTime: row.start_time,
-        endTime: row.end_time,
-        isActive: row.is_active,
-        lockPeriodDays: row.lock_period_days,
-      }));
+      const farms = rows.map(toYieldFarmingPool);
 
       return { farms };
     });
@@ -611,79 +1286,140 @@ export const getUserLiquidityPositions = api<{ userId: string }, { positions: Li
   }
 );
 
+interface StakingRow {
+  id: number;
+  user_id: string;
+  farm_id: number;
+  staked_amount: string;
+  effective_stake: string;
+  reward_debt: string;
+  pending_rewards: string;
+  lock_days: number;
+  locked_until: Date | null;
+}
+
+const REWARD_PRECISION = 10n ** 18n;
+
+// Lock days still in force for a position. A lapsed lock no longer boosts the position;
+// updateYieldFarmRewards takes the boost off as of the lock's end.
+function activeLockDays(position: Pick<StakingRow, "lock_days" | "locked_until">): number {
+  return position.locked_until && new Date() < new Date(position.locked_until) ? position.lock_days : 0;
+}
+
+// Rewards a position has accrued up to the farm's current acc_reward_per_share.
+function accruedRewards(position: StakingRow, accRewardPerShare: bigint): bigint {
+  return BigInt(position.pending_rewards)
+    + BigInt(position.effective_stake) * accRewardPerShare / REWARD_PRECISION
+    - BigInt(position.reward_debt);
+}
+
+// Rewrites a staking position after its farm's rewards were updated, re-weighting it for its
+// stake and lock and keeping the farm's totals in step. `pending` is what stays owed to it.
+async function writeStakingPosition(tx: any, position: StakingRow, accRewardPerShare: bigint, update: {
+  stakedAmount: bigint;
+  lockDays: number;
+  lockedUntil: Date | null;
+  pending: bigint;
+}) {
+  const effective = effectiveStake(update.stakedAmount, update.lockDays);
+  const stakedDelta = update.stakedAmount - BigInt(position.staked_amount);
+  const effectiveDelta = effective - BigInt(position.effective_stake);
+
+  if (update.stakedAmount === 0n) {
+    await tx.exec`DELETE FROM staking_positions WHERE id = ${position.id}`;
+  } else {
+    await tx.exec`
+      UPDATE staking_positions
+      SET staked_amount = ${update.stakedAmount.toString()},
+          effective_stake = ${effective.toString()},
+          reward_debt = ${(effective * accRewardPerShare / REWARD_PRECISION).toString()},
+          pending_rewards = ${update.pending.toString()},
+          lock_days = ${update.lockDays},
+          locked_until = ${update.lockedUntil},
+          last_updated = NOW()
+      WHERE id = ${position.id}
+    `;
+  }
+
+  await tx.exec`
+    UPDATE yield_farming_pools
+    SET total_staked = total_staked + ${stakedDelta.toString()},
+        total_effective_stake = total_effective_stake + ${effectiveDelta.toString()}
+    WHERE id = ${position.farm_id}
+  `;
+}
+
+// Updates a farm's rewards and returns its acc_reward_per_share and reward token.
+async function settleFarm(tx: any, farmId: number): Promise<{ accRewardPerShare: bigint; rewardToken: string; poolId: number; earlyUnstakePenaltyBps: number | null }> {
+  await updateYieldFarmRewards(farmId, tx);
+  const farm = await tx.queryRow<{ acc_reward_per_share: string; reward_token: string; pool_id: number; early_unstake_penalty_bps: number | null }>`
+    SELECT acc_reward_per_share, reward_token, pool_id, early_unstake_penalty_bps FROM yield_farming_pools WHERE id = ${farmId}
+  `;
+  return {
+    accRewardPerShare: BigInt(farm!.acc_reward_per_share),
+    rewardToken: farm!.reward_token,
+    poolId: farm!.pool_id,
+    earlyUnstakePenaltyBps: farm!.early_unstake_penalty_bps,
+  };
+}
+
 // Get user's staking positions
 export const getUserStakingPositions = api<{ userId: string }, { positions: StakingPosition[] }>(
   { expose: true, method: "GET", path: "/amm/staking-positions/:userId" },
   async (req) => {
     return withPerformanceMonitoring("/amm/staking-positions", "GET", async () => {
-      const positions = await blockchainDB.queryAll<{
-        id: number;
-        user_id: string;
-        farm_id: number;
-        staked_amount: string;
-        reward_debt: string;
-        pending_rewards: string;
-        created_at: Date;
-        last_updated: Date;
-        locked_until: Date | null;
-      }>`
-        SELECT * FROM staking_positions 
-        WHERE user_id = ${req.userId}
-        ORDER BY last_updated DESC
+      const positions = await blockchainDB.queryAll<StakingRow & { acc_reward_per_share: string; created_at: Date; last_updated: Date }>`
+        SELECT sp.*, yf.acc_reward_per_share
+        FROM staking_positions sp
+        JOIN yield_farming_pools yf ON yf.id = sp.farm_id
+        WHERE sp.user_id = ${req.userId}
+        ORDER BY sp.last_updated DESC
       `;
 
-      const result: StakingPosition[] = [];
-      for (const pos of positions) {
-        const farm = await blockchainDB.queryRow<{ acc_reward_per_share: string }>`
-          SELECT acc_reward_per_share FROM yield_farming_pools WHERE id = ${pos.farm_id}
-        `;
-
-        if (!farm) continue;
-
-        const precision = 10n ** 18n;
-        const accRewardPerShare = BigInt(farm.acc_reward_per_share);
-        const stakedAmount = BigInt(pos.staked_amount);
-        const rewardDebt = BigInt(pos.reward_debt);
-
-        const currentRewards = (stakedAmount * accRewardPerShare / precision) - rewardDebt;
-        const totalPendingRewards = BigInt(pos.pending_rewards) + currentRewards;
-
-        result.push({
-          id: pos.id,
-          userId: pos.user_id,
-          farmId: pos.farm_id,
-          stakedAmount: pos.staked_amount,
-          rewardDebt: pos.reward_debt,
-          pendingRewards: totalPendingRewards.toString(),
-          createdAt: pos.created_at,
-          lastUpdated: pos.last_updated,
-          lockedUntil: pos.locked_until || undefined,
-        });
-      }
+      const result: StakingPosition[] = positions.map(pos => ({
+        id: pos.id,
+        userId: pos.user_id,
+        farmId: pos.farm_id,
+        stakedAmount: pos.staked_amount,
+        rewardDebt: pos.reward_debt,
+        pendingRewards: accruedRewards(pos, BigInt(pos.acc_reward_per_share)).toString(),
+        createdAt: pos.created_at,
+        lastUpdated: pos.last_updated,
+        lockedUntil: pos.locked_until || undefined,
+        lockDays: pos.lock_days,
+        effectiveStake: pos.effective_stake,
+        boostMultiplier: lockBoostBps(activeLockDays(pos)) / 10000,
+      }));
 
       return { positions: result };
     });
   }
 );
 
-// Stake LP tokens into a yield farm
-export const stakeLPTokens = api<StakeRequest, { success: boolean }>(
+// Stake LP tokens into a yield farm, optionally locking them for a reward boost
+export const stakeLPTokens = api<StakeRequest, { success: boolean; effectiveStake: string; lockedUntil?: Date }>(
   { expose: true, method: "POST", path: "/amm/stake" },
   async (req) => {
     return withPerformanceMonitoring("/amm/stake", "POST", async () => {
       const { userId, farmId, amount } = req;
-      const stakeAmount = BigInt(amount);
-
-      if (stakeAmount <= 0n) {
-        throw APIError.invalidArgument("Stake amount must be positive");
+      if (!isPositiveInteger(amount)) {
+        throw APIError.invalidArgument("Stake amount must be a positive integer");
       }
+      const stakeAmount = BigInt(amount);
 
       await using tx = await blockchainDB.begin();
       try {
-        const farm = await tx.queryRow<{ id: number; pool_id: number; lock_period_days: number; acc_reward_per_share: string; }>`
-          SELECT id, pool_id, lock_period_days, acc_reward_per_share FROM yield_farming_pools WHERE id = ${farmId}
+        const farm = await tx.queryRow<{ id: number; pool_id: number; lock_period_days: number; ended_at: Date | null }>`
+          SELECT id, pool_id, lock_period_days, ended_at FROM yield_farming_pools WHERE id = ${farmId}
         `;
         if (!farm) throw APIError.notFound("Farm not found");
+        if (farm.ended_at) throw APIError.failedPrecondition("Yield farm has ended");
+
+        // The farm's lock period is the minimum; stakers may lock longer for a bigger boost
+        const lockDays = req.lockDays ?? farm.lock_period_days;
+        if (!Number.isInteger(lockDays) || lockDays < farm.lock_period_days || lockDays > MAX_LOCK_DAYS) {
+          throw APIError.invalidArgument(`Lock duration must be between ${farm.lock_period_days} and ${MAX_LOCK_DAYS} days`);
+        }
 
         const lpPosition = await tx.queryRow<{ id: number; liquidity_tokens: string }>`
           SELECT id, liquidity_tokens FROM liquidity_positions WHERE user_id = ${userId} AND pool_id = ${farm.pool_id}
@@ -692,55 +1428,55 @@ export const stakeLPTokens = api<StakeRequest, { success: boolean }>(
           throw APIError.failedPrecondition("Insufficient LP tokens");
         }
 
-        await updateYieldFarmRewards(farmId, tx);
-        const updatedFarm = await tx.queryRow<{ acc_reward_per_share: string }>`
-          SELECT acc_reward_per_share FROM yield_farming_pools WHERE id = ${farmId}
-        `;
-        const accRewardPerShare = BigInt(updatedFarm!.acc_reward_per_share);
-        const precision = 10n ** 18n;
+        const { accRewardPerShare } = await settleFarm(tx, farmId);
+        const requestedUntil = lockDays > 0 ? new Date(Date.now() + lockDays * 24 * 60 * 60 * 1000) : null;
 
-        const stakingPos = await tx.queryRow<{ id: number; staked_amount: string; reward_debt: string; pending_rewards: string }>`
-          SELECT id, staked_amount, reward_debt, pending_rewards FROM staking_positions WHERE user_id = ${userId} AND farm_id = ${farmId}
+        const stakingPos = await tx.queryRow<StakingRow>`
+          SELECT * FROM staking_positions WHERE user_id = ${userId} AND farm_id = ${farmId} FOR UPDATE
         `;
 
+        let effective: bigint;
+        let lockedUntil: Date | null;
         if (stakingPos) {
-          const oldStakedAmount = BigInt(stakingPos.staked_amount);
-          const rewardDebt = BigInt(stakingPos.reward_debt);
-          const pendingRewards = BigInt(stakingPos.pending_rewards);
-          const newPending = pendingRewards + (oldStakedAmount * accRewardPerShare / precision) - rewardDebt;
-          
-          const newStakedAmount = oldStakedAmount + stakeAmount;
-          const newRewardDebt = newStakedAmount * accRewardPerShare / precision;
+          // Adding to a position relocks all of it for the longer of its remaining and the new lock.
+          // The boost tier follows the time actually left, not the length the old lock started at
+          const currentUntil = activeLockDays(stakingPos) > 0 ? new Date(stakingPos.locked_until!) : null;
+          lockedUntil = currentUntil && (!requestedUntil || currentUntil > requestedUntil) ? currentUntil : requestedUntil;
+          const newLockDays = lockedUntil === currentUntil && currentUntil
+            ? Math.floor((currentUntil.getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+            : lockDays;
+
+          const newStakedAmount = BigInt(stakingPos.staked_amount) + stakeAmount;
+          effective = effectiveStake(newStakedAmount, newLockDays);
+          await writeStakingPosition(tx, stakingPos, accRewardPerShare, {
+            stakedAmount: newStakedAmount,
+            lockDays: newLockDays,
+            lockedUntil,
+            pending: accruedRewards(stakingPos, accRewardPerShare),
+          });
+        } else {
+          effective = effectiveStake(stakeAmount, lockDays);
+          lockedUntil = requestedUntil;
+          const rewardDebt = effective * accRewardPerShare / REWARD_PRECISION;
 
           await tx.exec`
-            UPDATE staking_positions
-            SET staked_amount = ${newStakedAmount.toString()},
-                reward_debt = ${newRewardDebt.toString()},
-                pending_rewards = ${newPending.toString()},
-                last_updated = NOW()
-            WHERE id = ${stakingPos.id}
+            INSERT INTO staking_positions (user_id, farm_id, staked_amount, effective_stake, reward_debt, lock_days, locked_until)
+            VALUES (${userId}, ${farmId}, ${amount}, ${effective.toString()}, ${rewardDebt.toString()}, ${lockDays}, ${lockedUntil})
           `;
-        } else {
-          const rewardDebt = stakeAmount * accRewardPerShare / precision;
-          const lockedUntil = farm.lock_period_days > 0 
-            ? new Date(Date.now() + farm.lock_period_days * 24 * 60 * 60 * 1000) 
-            : null;
-          
           await tx.exec`
-            INSERT INTO staking_positions (user_id, farm_id, staked_amount, reward_debt, locked_until)
-            VALUES (${userId}, ${farmId}, ${amount}, ${rewardDebt.toString()}, ${lockedUntil})
+            UPDATE yield_farming_pools
+            SET total_staked = total_staked + ${amount},
+                total_effective_stake = total_effective_stake + ${effective.toString()}
+            WHERE id = ${farmId}
           `;
         }
 
         await tx.exec`
           UPDATE liquidity_positions SET liquidity_tokens = liquidity_tokens - ${amount} WHERE id = ${lpPosition.id}
         `;
-        await tx.exec`
-          UPDATE yield_farming_pools SET total_staked = total_staked + ${amount} WHERE id = ${farmId}
-        `;
 
         await tx.commit();
-        return { success: true };
+        return { success: true, effectiveStake: effective.toString(), lockedUntil: lockedUntil ?? undefined };
       } catch (error) {
         await tx.rollback();
         throw error;
@@ -749,71 +1485,74 @@ export const stakeLPTokens = api<StakeRequest, { success: boolean }>(
   }
 );
 
-// Unstake LP tokens from a yield farm
-export const unstakeLPTokens = api<UnstakeRequest, { success: boolean }>(
+// Unstake LP tokens from a yield farm. Unstaking before the lock ends is rejected, unless the
+// farm sets an early unstake penalty, in which case that share of the LP tokens is forfeited.
+export const unstakeLPTokens = api<UnstakeRequest, { success: boolean; penalty: string }>(
   { expose: true, method: "POST", path: "/amm/unstake" },
   async (req) => {
     return withPerformanceMonitoring("/amm/unstake", "POST", async () => {
       const { userId, stakingPositionId, amount } = req;
-      const unstakeAmount = BigInt(amount);
-
-      if (unstakeAmount <= 0n) {
-        throw APIError.invalidArgument("Unstake amount must be positive");
+      if (!isPositiveInteger(amount)) {
+        throw APIError.invalidArgument("Unstake amount must be a positive integer");
       }
+      const unstakeAmount = BigInt(amount);
 
       await using tx = await blockchainDB.begin();
       try {
-        const stakingPos = await tx.queryRow<{ id: number; user_id: string; farm_id: number; staked_amount: string; reward_debt: string; pending_rewards: string; locked_until: Date | null }>`
-          SELECT * FROM staking_positions WHERE id = ${stakingPositionId} AND user_id = ${userId}
-        `;
-        if (!stakingPos) throw APIError.notFound("Staking position not found");
-        if (BigInt(stakingPos.staked_amount) < unstakeAmount) throw APIError.failedPrecondition("Insufficient staked amount");
-        if (stakingPos.locked_until && new Date() < new Date(stakingPos.locked_until)) throw APIError.failedPrecondition("Stake is time-locked");
-
-        await updateYieldFarmRewards(stakingPos.farm_id, tx);
-        const farm = await tx.queryRow<{ pool_id: number; reward_token: string; acc_reward_per_share: string }>`
-          SELECT pool_id, reward_token, acc_reward_per_share FROM yield_farming_pools WHERE id = ${stakingPos.farm_id}
+        const owned = await tx.queryRow<StakingRow>`
+          SELECT * FROM staking_positions WHERE id = ${stakingPositionId} AND user_id = ${userId} FOR UPDATE
         `;
-        const accRewardPerShare = BigInt(farm!.acc_reward_per_share);
-        const precision = 10n ** 18n;
-
-        const oldStakedAmount = BigInt(stakingPos.staked_amount);
-        const rewardDebt = BigInt(stakingPos.reward_debt);
-        const pendingRewards = BigInt(stakingPos.pending_rewards);
-        const rewardsToClaim = pendingRewards + (oldStakedAmount * accRewardPerShare / precision) - rewardDebt;
-
-        if (rewardsToClaim > 0n) {
-          await tx.exec`
-            UPDATE user_balances SET balance = balance + ${rewardsToClaim.toString()}
-            WHERE user_id = ${userId} AND currency = ${farm!.reward_token}
-          `;
+        if (!owned) throw APIError.notFound("Staking position not found");
+        if (BigInt(owned.staked_amount) < unstakeAmount) throw APIError.failedPrecondition("Insufficient staked amount");
+
+        const farm = await settleFarm(tx, owned.farm_id);
+        // Settling the farm may have taken a lapsed boost off the position
+        const stakingPos = (await tx.queryRow<StakingRow>`
+          SELECT * FROM staking_positions WHERE id = ${stakingPositionId}
+        `)!;
+        const isLocked = !!stakingPos.locked_until && new Date() < new Date(stakingPos.locked_until);
+        if (isLocked && farm.earlyUnstakePenaltyBps === null) {
+          throw APIError.failedPrecondition("Stake is time-locked");
         }
+        const penalty = isLocked ? unstakeAmount * BigInt(farm.earlyUnstakePenaltyBps!) / 10000n : 0n;
 
-        const newStakedAmount = oldStakedAmount - unstakeAmount;
-        if (newStakedAmount === 0n) {
-          await tx.exec`DELETE FROM staking_positions WHERE id = ${stakingPositionId}`;
-        } else {
-          const newRewardDebt = newStakedAmount * accRewardPerShare / precision;
+        const rewardsToClaim = accruedRewards(stakingPos, farm.accRewardPerShare);
+        if (rewardsToClaim > 0n) {
+          await postJournalEntry(tx, {
+            entryType: 'farm_reward',
+            reference: `farm:${stakingPos.farm_id}`,
+            lines: movement(YIELD_FARMS_ACCOUNT, userAccount(userId), farm.rewardToken, rewardsToClaim),
+          });
           await tx.exec`
-            UPDATE staking_positions
-            SET staked_amount = ${newStakedAmount.toString()},
-                reward_debt = ${newRewardDebt.toString()},
-                pending_rewards = '0',
-                last_updated = NOW()
+            UPDATE staking_positions SET rewards_claimed = rewards_claimed + ${rewardsToClaim.toString()}
             WHERE id = ${stakingPositionId}
           `;
         }
 
+        // Whatever stays staked keeps its lock, and its boost while the lock lasts
+        const lockDays = activeLockDays(stakingPos);
+        await writeStakingPosition(tx, stakingPos, farm.accRewardPerShare, {
+          stakedAmount: BigInt(stakingPos.staked_amount) - unstakeAmount,
+          lockDays,
+          lockedUntil: lockDays > 0 ? stakingPos.locked_until : null,
+          pending: 0n,
+        });
+
+        const returned = unstakeAmount - penalty;
         await tx.exec`
-          UPDATE liquidity_positions SET liquidity_tokens = liquidity_tokens + ${amount}
-          WHERE user_id = ${userId} AND pool_id = ${farm!.pool_id}
-        `;
-        await tx.exec`
-          UPDATE yield_farming_pools SET total_staked = total_staked - ${amount} WHERE id = ${stakingPos.farm_id}
+          UPDATE liquidity_positions SET liquidity_tokens = liquidity_tokens + ${returned.toString()}
+          WHERE user_id = ${userId} AND pool_id = ${farm.poolId}
         `;
+        if (penalty > 0n) {
+          // Forfeited LP tokens are burned, so their share of the reserves goes to the remaining LPs
+          await tx.exec`
+            UPDATE liquidity_pools SET total_liquidity = total_liquidity - ${penalty.toString()}
+            WHERE id = ${farm.poolId}
+          `;
+        }
 
         await tx.commit();
-        return { success: true };
+        return { success: true, penalty: penalty.toString() };
       } catch (error) {
         await tx.rollback();
         throw error;
@@ -831,38 +1570,38 @@ export const claimRewards = api<ClaimRewardsRequest, { success: boolean; claimed
 
       await using tx = await blockchainDB.begin();
       try {
-        const stakingPos = await tx.queryRow<{ id: number; user_id: string; farm_id: number; staked_amount: string; reward_debt: string; pending_rewards: string }>`
-          SELECT * FROM staking_positions WHERE id = ${stakingPositionId} AND user_id = ${userId}
-        `;
-        if (!stakingPos) throw APIError.notFound("Staking position not found");
-
-        await updateYieldFarmRewards(stakingPos.farm_id, tx);
-        const farm = await tx.queryRow<{ reward_token: string; acc_reward_per_share: string }>`
-          SELECT reward_token, acc_reward_per_share FROM yield_farming_pools WHERE id = ${stakingPos.farm_id}
+        const owned = await tx.queryRow<StakingRow>`
+          SELECT * FROM staking_positions WHERE id = ${stakingPositionId} AND user_id = ${userId} FOR UPDATE
         `;
-        const accRewardPerShare = BigInt(farm!.acc_reward_per_share);
-        const precision = 10n ** 18n;
+        if (!owned) throw APIError.notFound("Staking position not found");
 
-        const stakedAmount = BigInt(stakingPos.staked_amount);
-        const rewardDebt = BigInt(stakingPos.reward_debt);
-        const pendingRewards = BigInt(stakingPos.pending_rewards);
-        const rewardsToClaim = pendingRewards + (stakedAmount * accRewardPerShare / precision) - rewardDebt;
+        const farm = await settleFarm(tx, owned.farm_id);
+        // Settling the farm may have taken a lapsed boost off the position
+        const stakingPos = (await tx.queryRow<StakingRow>`
+          SELECT * FROM staking_positions WHERE id = ${stakingPositionId}
+        `)!;
+        const rewardsToClaim = accruedRewards(stakingPos, farm.accRewardPerShare);
 
         if (rewardsToClaim <= 0n) {
           throw APIError.failedPrecondition("No rewards to claim");
         }
 
-        await tx.exec`
-          UPDATE user_balances SET balance = balance + ${rewardsToClaim.toString()}
-          WHERE user_id = ${userId} AND currency = ${farm!.reward_token}
-        `;
+        await postJournalEntry(tx, {
+          entryType: 'farm_reward',
+          reference: `farm:${stakingPos.farm_id}`,
+          lines: movement(YIELD_FARMS_ACCOUNT, userAccount(userId), farm.rewardToken, rewardsToClaim),
+        });
 
-        const newRewardDebt = stakedAmount * accRewardPerShare / precision;
+        // Rewriting the position also drops the boost of a lock that has lapsed
+        const lockDays = activeLockDays(stakingPos);
+        await writeStakingPosition(tx, stakingPos, farm.accRewardPerShare, {
+          stakedAmount: BigInt(stakingPos.staked_amount),
+          lockDays,
+          lockedUntil: stakingPos.locked_until,
+          pending: 0n,
+        });
         await tx.exec`
-          UPDATE staking_positions
-          SET reward_debt = ${newRewardDebt.toString()},
-              pending_rewards = '0',
-              last_updated = NOW()
+          UPDATE staking_positions SET rewards_claimed = rewards_claimed + ${rewardsToClaim.toString()}
           WHERE id = ${stakingPositionId}
         `;
 
@@ -876,24 +1615,249 @@ export const claimRewards = api<ClaimRewardsRequest, { success: boolean; claimed
   }
 );
 
-// Allows users to take out a flash loan for arbitrage.
+const FLASH_LOAN_FEE_BPS = 5n;
+const MAX_FLASH_LOAN_AMOUNT = 10000000n;
+const MAX_FLASH_LOAN_ACTIONS = 20;
+
+// Tokens held by a flash loan while its payload runs. Nothing reaches user_balances
+// until the loan is repaid, so the payload can only spend what the loan and its own
+// actions produced.
+type FlashLoanFunds = Map<string, bigint>;
+
+function spendLoanFunds(funds: FlashLoanFunds, token: string, amount: bigint) {
+  if (amount <= 0n) {
+    throw APIError.invalidArgument(`${token} amount must be positive`);
+  }
+  const held = funds.get(token) ?? 0n;
+  if (held < amount) {
+    throw APIError.failedPrecondition(`Payload tried to spend more ${token} than available`);
+  }
+  funds.set(token, held - amount);
+}
+
+function creditLoanFunds(funds: FlashLoanFunds, token: string, amount: bigint) {
+  funds.set(token, (funds.get(token) ?? 0n) + amount);
+}
+
+// Checks a payload action's amounts up front, so malformed input is rejected before the loan
+// runs rather than surfacing as a revert or an internal error.
+function validateFlashLoanAction(action: FlashLoanAction) {
+  let amounts: Record<string, string | undefined>;
+  switch (action.type) {
+    case 'add_liquidity':
+      amounts = { amountA: action.amountA, amountB: action.amountB };
+      break;
+    case 'remove_liquidity':
+      amounts = { liquidityTokens: action.liquidityTokens };
+      break;
+    case 'repay_swap':
+      amounts = action.maxAmountIn !== undefined ? { maxAmountIn: action.maxAmountIn } : {};
+      break;
+    case 'swap':
+    case 'exchange_buy':
+    case 'exchange_sell':
+      amounts = { amountIn: action.amountIn };
+      break;
+    default:
+      throw APIError.invalidArgument(`Unsupported flash loan action: ${(action as { type: string }).type}`);
+  }
+  for (const [field, value] of Object.entries(amounts)) {
+    if (!isPositiveInteger(value)) {
+      throw APIError.invalidArgument(`${action.type} ${field} must be a positive integer`);
+    }
+  }
+}
+
+// Runs one payload action inside the flash loan's transaction. Returns a description for
+// the trace and the pools whose reserves moved.
+async function runFlashLoanAction(
+  tx: any,
+  userId: string,
+  loanToken: string,
+  amountToRepay: bigint,
+  action: FlashLoanAction,
+  funds: FlashLoanFunds
+): Promise<{ detail: string; poolIds: number[] }> {
+  switch (action.type) {
+    case 'swap': {
+      spendLoanFunds(funds, action.tokenIn, BigInt(action.amountIn));
+      const swap = await swapThroughPools(tx, {
+        tokenIn: action.tokenIn,
+        tokenOut: action.tokenOut,
+        amountIn: action.amountIn,
+        minimumAmountOut: '0',
+        route: action.route,
+      });
+      creditLoanFunds(funds, action.tokenOut, swap.amountOut);
+      return {
+        detail: `Swapped ${action.amountIn} ${action.tokenIn} for ${swap.amountOut} ${action.tokenOut} via ${swap.route.join(' -> ')}`,
+        poolIds: swap.hops.map(hop => hop.poolId),
+      };
+    }
+
+    case 'repay_swap': {
+      const owed = amountToRepay - (funds.get(loanToken) ?? 0n);
+      if (owed <= 0n) {
+        return { detail: `Repayment already covered; nothing swapped`, poolIds: [] };
+      }
+
+      const candidatePools = await tx.queryAll<RoutablePool>`
+        SELECT id, token_a, token_b, reserve_a, reserve_b, fee_rate, curve_type, amplification
+        FROM liquidity_pools
+      `;
+      const planned = findBestRouteExactOut(candidatePools, action.tokenIn, loanToken, owed);
+      if (!planned) {
+        throw APIError.notFound(`No liquidity route from ${action.tokenIn} to ${loanToken}`);
+      }
+      if (action.maxAmountIn && planned.amountIn > BigInt(action.maxAmountIn)) {
+        throw APIError.failedPrecondition(`Repaying ${owed} ${loanToken} needs ${planned.amountIn} ${action.tokenIn}, above maxAmountIn`);
+      }
+
+      spendLoanFunds(funds, action.tokenIn, planned.amountIn);
+      const swap = await swapThroughPools(tx, {
+        tokenIn: action.tokenIn,
+        tokenOut: loanToken,
+        amountIn: planned.amountIn.toString(),
+        minimumAmountOut: owed.toString(),
+        route: planned.route,
+      });
+      creditLoanFunds(funds, loanToken, swap.amountOut);
+      return {
+        detail: `Swapped ${planned.amountIn} ${action.tokenIn} for ${swap.amountOut} ${loanToken} to cover the repayment`,
+        poolIds: swap.hops.map(hop => hop.poolId),
+      };
+    }
+
+    case 'add_liquidity': {
+      const pool = await tx.queryRow<MintablePool & { token_a: string; token_b: string }>`
+        SELECT id, token_a, token_b, reserve_a, reserve_b, total_liquidity, fee_rate, curve_type, amplification
+        FROM liquidity_pools
+        WHERE (token_a = ${action.tokenA} AND token_b = ${action.tokenB})
+           OR (token_a = ${action.tokenB} AND token_b = ${action.tokenA})
+        FOR UPDATE
+      `;
+      if (!pool) {
+        throw APIError.notFound("Liquidity pool not found");
+      }
+
+      spendLoanFunds(funds, action.tokenA, BigInt(action.amountA));
+      spendLoanFunds(funds, action.tokenB, BigInt(action.amountB));
+      const [amountA, amountB] = pool.token_a === action.tokenA
+        ? [BigInt(action.amountA), BigInt(action.amountB)]
+        : [BigInt(action.amountB), BigInt(action.amountA)];
+
+      const minted = await mintLiquidity(tx, userId, pool, amountA, amountB);
+      await recordLiquidityPosition(tx, userId, pool.id, minted, amountA, amountB);
+      return {
+        detail: `Deposited ${action.amountA} ${action.tokenA} and ${action.amountB} ${action.tokenB} into pool ${pool.id} for ${minted} LP tokens`,
+        poolIds: [pool.id],
+      };
+    }
+
+    case 'remove_liquidity': {
+      const pool = await tx.queryRow<{ id: number; token_a: string; token_b: string; reserve_a: string; reserve_b: string; total_liquidity: string }>`
+        SELECT id, token_a, token_b, reserve_a, reserve_b, total_liquidity
+        FROM liquidity_pools
+        WHERE id = ${action.poolId}
+        FOR UPDATE
+      `;
+      if (!pool) {
+        throw APIError.notFound("Liquidity pool not found");
+      }
+
+      const burnAmount = BigInt(action.liquidityTokens);
+      const { amountA, amountB } = await burnLiquidity(tx, userId, pool, burnAmount);
+      creditLoanFunds(funds, pool.token_a, amountA);
+      creditLoanFunds(funds, pool.token_b, amountB);
+      return {
+        detail: `Burned ${burnAmount} LP tokens from pool ${pool.id} for ${amountA} ${pool.token_a} and ${amountB} ${pool.token_b}`,
+        poolIds: [pool.id],
+      };
+    }
+
+    case 'exchange_buy':
+    case 'exchange_sell': {
+      const side = action.type === 'exchange_buy' ? 'buy' : 'sell';
+      const [tokenIn, tokenOut] = side === 'buy' ? ['USD', 'ASM'] : ['ASM', 'USD'];
+      const amountIn = BigInt(action.amountIn);
+      spendLoanFunds(funds, tokenIn, amountIn);
+
+      // Loan funds are whole ledger units while the exchange prices fractional amounts of the
+      // same units: the input converts as is and the output is rounded down to a whole unit,
+      // leaving the fraction with the desk
+      if (amountIn > BigInt(Number.MAX_SAFE_INTEGER)) {
+        throw APIError.invalidArgument("Exchange amount is too large to price");
+      }
+      const { rate, feeAmount, amountOut } = await quoteExchangeTrade(side, Number(amountIn));
+      const received = BigInt(Math.floor(amountOut));
+      if (received <= 0n) {
+        throw APIError.invalidArgument("Exchange amount is too small to trade");
+      }
+      creditLoanFunds(funds, tokenOut, received);
+
+      // The loan funds sit in the pools account until settlement, so the desk trades against it
+      const inserted = await tx.queryRow<{ id: number }>`
+        INSERT INTO currency_transactions (
+          user_id, transaction_type, from_currency, to_currency,
+          from_amount, to_amount, exchange_rate, fee_amount, status
+        )
+        VALUES (
+          ${userId}, ${side}, ${tokenIn}, ${tokenOut},
+          ${amountIn.toString()}, ${received.toString()}, ${rate}, ${feeAmount}, 'pending'
+        )
+        RETURNING id
+      `;
+      await settleExchangeTrade(tx, inserted!.id, {
+        userId,
+        account: AMM_POOLS_ACCOUNT,
+        side,
+        asmAmount: Number(side === 'buy' ? received : amountIn),
+        currency: 'USD',
+        counterAmount: Number(side === 'buy' ? amountIn : received),
+        feeAmount,
+      });
+      return { detail: `Exchanged ${amountIn} ${tokenIn} for ${received} ${tokenOut} at ${rate} USD/ASM`, poolIds: [] };
+    }
+
+    default:
+      throw APIError.invalidArgument(`Unsupported flash loan action: ${(action as { type: string }).type}`);
+  }
+}
+
+// Allows users to take out a flash loan, run a payload of swaps, liquidity moves and exchange
+// trades against it, and keep whatever is left after repaying the loan plus fee. With dryRun
+// the whole loan is simulated and rolled back, and a revert comes back as revertReason.
 export const executeFlashLoan = api<FlashLoanRequest, FlashLoanResponse>(
   { expose: true, method: "POST", path: "/amm/flash-loan" },
   async (req) => {
     return withPerformanceMonitoring("/amm/flash-loan", "POST", async () => {
       const { userId, loanToken, loanAmount, payload } = req;
+      const dryRun = req.dryRun ?? false;
+      if (!isPositiveInteger(loanAmount)) {
+        throw APIError.invalidArgument("Flash loan amount must be a positive integer");
+      }
       const loanAmountBigInt = BigInt(loanAmount);
-      const FLASH_LOAN_FEE_BPS = 5;
-      const MAX_FLASH_LOAN_AMOUNT = 10000000n;
-      const REENTRANCY_GUARD_KEY = `flash_loan_${userId}`;
 
       if (loanAmountBigInt > MAX_FLASH_LOAN_AMOUNT) {
         throw APIError.invalidArgument(`Flash loan amount exceeds maximum of ${MAX_FLASH_LOAN_AMOUNT}`);
       }
+      if (!payload || payload.length === 0 || payload.length > MAX_FLASH_LOAN_ACTIONS) {
+        throw APIError.invalidArgument(`Payload must contain between 1 and ${MAX_FLASH_LOAN_ACTIONS} actions`);
+      }
+      payload.forEach(validateFlashLoanAction);
 
-      const fee = (loanAmountBigInt * BigInt(FLASH_LOAN_FEE_BPS)) / 10000n;
+      const fee = (loanAmountBigInt * FLASH_LOAN_FEE_BPS) / 10000n;
       const amountToRepay = loanAmountBigInt + fee;
 
+      const funds: FlashLoanFunds = new Map();
+      const trace: FlashLoanTraceStep[] = [];
+      const addTraceStep = (action: string, detail: string) => {
+        const balances: Record<string, string> = {};
+        for (const [token, amount] of funds) balances[token] = amount.toString();
+        trace.push({ step: trace.length, action, detail, balances });
+      };
+      const touchedPools = new Set<number>();
+
       await using tx = await blockchainDB.begin();
       try {
         const existingLock = await tx.queryRow<{ user_id: string }>`
@@ -909,110 +1873,68 @@ export const executeFlashLoan = api<FlashLoanRequest, FlashLoanResponse>(
           ON CONFLICT (user_id) DO UPDATE SET expires_at = NOW() + INTERVAL '1 minute'
         `;
 
-        const pool = await tx.queryRow<{ reserve_a: string, reserve_b: string, token_a: string }>`
-          SELECT reserve_a, reserve_b, token_a FROM liquidity_pools 
+        const pool = await tx.queryRow<{ reserve_a: string, reserve_b: string, token_a: string, token_b: string }>`
+          SELECT reserve_a, reserve_b, token_a, token_b FROM liquidity_pools 
           WHERE (token_a = ${loanToken} AND token_b = 'USD') OR (token_a = 'USD' AND token_b = ${loanToken})
         `;
         if (!pool) throw APIError.failedPrecondition(`No USD liquidity pool for ${loanToken}`);
 
-        const reserve = pool.token_a === loanToken ? BigInt(pool.reserve_a) : BigInt(pool.reserve_b);
+        const { reserveIn: reserve } = orientReserves(pool, loanToken);
         if (reserve < loanAmountBigInt) {
           throw APIError.failedPrecondition("Insufficient liquidity for flash loan");
         }
 
-        // 2. Get user's initial balance
-        const initialBalanceRow = await tx.queryRow<{ balance: string }>`
-          SELECT balance FROM user_balances WHERE user_id = ${userId} AND currency = ${loanToken}
-        `;
-        const initialBalance = BigInt(initialBalanceRow?.balance || '0');
-
-        // 3. Execute payload (arbitrage swaps)
-        let currentBalances: Record<string, bigint> = { [loanToken]: initialBalance + loanAmountBigInt };
-
-        for (const action of payload) {
-          if (action.type === 'swap') {
-            const amountIn = BigInt(action.amountIn);
-            if ((currentBalances[action.tokenIn] || 0n) < amountIn) {
-              throw new Error(`Payload tried to spend more ${action.tokenIn} than available`);
-            }
-            
-            const swapPool = await tx.queryRow<{ id: number, token_a: string, token_b: string, reserve_a: string, reserve_b: string, fee_rate: number }>`
-              SELECT id, token_a, token_b, reserve_a, reserve_b, fee_rate FROM liquidity_pools 
-              WHERE (token_a = ${action.tokenIn} AND token_b = ${action.tokenOut})
-                 OR (token_a = ${action.tokenOut} AND token_b = ${action.tokenIn})
-            `;
-            if (!swapPool) throw new Error(`Swap pool not found for ${action.tokenIn}/${action.tokenOut}`);
-
-            const isTokenAInput = swapPool.token_a === action.tokenIn;
-            const reserveIn = BigInt(isTokenAInput ? swapPool.reserve_a : swapPool.reserve_b);
-            const reserveOut = BigInt(isTokenAInput ? swapPool.reserve_b : swapPool.reserve_a);
-            const feeRate = BigInt(Math.floor(swapPool.fee_rate * 10000));
-            const amountInWithFee = amountIn * (10000n - feeRate) / 10000n;
-            const amountOut = (amountInWithFee * reserveOut) / (reserveIn + amountInWithFee);
-
-            // Update virtual balances
-            currentBalances[action.tokenIn] = (currentBalances[action.tokenIn] || 0n) - amountIn;
-            currentBalances[action.tokenOut] = (currentBalances[action.tokenOut] || 0n) + amountOut;
-
-            // Update pool reserves for the swap
-            if (isTokenAInput) {
-              await tx.exec`
-                UPDATE liquidity_pools SET 
-                  reserve_a = (reserve_a::numeric + ${action.amountIn})::text,
-                  reserve_b = (reserve_b::numeric - ${amountOut.toString()})::text
-                WHERE id = ${swapPool.id}
-              `;
-            } else {
-              await tx.exec`
-                UPDATE liquidity_pools SET 
-                  reserve_b = (reserve_b::numeric + ${action.amountIn})::text,
-                  reserve_a = (reserve_a::numeric - ${amountOut.toString()})::text
-                WHERE id = ${swapPool.id}
-              `;
-            }
+        creditLoanFunds(funds, loanToken, loanAmountBigInt);
+        addTraceStep('borrow', `Borrowed ${loanAmountBigInt} ${loanToken}; ${amountToRepay} due including a ${fee} fee`);
+
+        let revertReason: string | undefined;
+        try {
+          for (const action of payload) {
+            const { detail, poolIds } = await runFlashLoanAction(tx, userId, loanToken, amountToRepay, action, funds);
+            poolIds.forEach(id => touchedPools.add(id));
+            addTraceStep(action.type, detail);
           }
-        }
 
-        // 4. Check for repayment
-        const finalLoanTokenBalance = currentBalances[loanToken] || 0n;
-        if (finalLoanTokenBalance < initialBalance + amountToRepay) {
-          throw APIError.failedPrecondition(`Flash loan not repaid. Required: ${amountToRepay}, but only ${finalLoanTokenBalance - initialBalance} was returned.`);
+          const returned = funds.get(loanToken) ?? 0n;
+          if (returned < amountToRepay) {
+            throw APIError.failedPrecondition(`Flash loan not repaid. Required: ${amountToRepay}, but only ${returned} was returned.`);
+          }
+          funds.set(loanToken, returned - amountToRepay);
+          addTraceStep('repay', `Repaid ${amountToRepay} ${loanToken}`);
+        } catch (error) {
+          if (!dryRun) throw error;
+          revertReason = error instanceof Error ? error.message : String(error);
         }
 
-        // 5. Finalize transaction
-        const profit = finalLoanTokenBalance - initialBalance - amountToRepay;
-        
-        // Update all affected user balances
-        for (const token in currentBalances) {
-          const finalBalance = currentBalances[token];
-          const originalBalanceRow = await tx.queryRow<{ balance: string }>`
-            SELECT balance FROM user_balances WHERE user_id = ${userId} AND currency = ${token}
-          `;
-          const originalBalance = BigInt(originalBalanceRow?.balance || '0');
-          const diff = finalBalance - originalBalance;
-
-          if (token === loanToken) continue; // Handled separately
+        const profit = funds.get(loanToken) ?? 0n;
+        const usdPrice = loanToken === 'USD' ? 1 : await readPairTWAP(loanToken, 'USD');
+        const profitUsd = BigInt(Math.floor(Number(profit) * (usdPrice ?? 0)));
+        const result = {
+          profit: revertReason ? "0" : profit.toString(),
+          profitUsd: revertReason ? "0" : profitUsd.toString(),
+          feePaid: fee.toString(),
+          trace,
+        };
 
-          if (diff !== 0n) {
-            await tx.exec`
-              UPDATE user_balances SET balance = balance + ${diff.toString()}
-              WHERE user_id = ${userId} AND currency = ${token}
-            `;
-          }
+        if (dryRun) {
+          await tx.rollback();
+          return { ...result, success: !revertReason, dryRun, revertReason };
         }
-        
-        // Update loan token balance with profit
-        await tx.exec`
-          UPDATE user_balances SET balance = balance + ${profit.toString()}
-          WHERE user_id = ${userId} AND currency = ${loanToken}
-        `;
 
         // Record flash loan
         const txHash = "0x" + crypto.randomBytes(32).toString('hex');
+
+        // Settle whatever the payload left over, in any token, to the user
+        await postJournalEntry(tx, {
+          entryType: 'flash_loan',
+          reference: txHash,
+          lines: [...funds].flatMap(([token, amount]) => movement(AMM_POOLS_ACCOUNT, userAccount(userId), token, amount)),
+        });
         await tx.exec`
           INSERT INTO flash_loans (user_id, token, amount, fee, status, repaid_amount, tx_hash)
           VALUES (${userId}, ${loanToken}, ${loanAmount}, ${fee.toString()}, 'completed', ${amountToRepay.toString()}, ${txHash})
         `;
+        await accrueToTreasury(tx, { token: loanToken, amount: fee, entryType: 'flash_loan_fee', reference: txHash });
 
         await tx.exec`
           DELETE FROM flash_loan_locks WHERE user_id = ${userId}
@@ -1020,17 +1942,13 @@ export const executeFlashLoan = api<FlashLoanRequest, FlashLoanResponse>(
 
         await tx.commit();
 
-        return {
-          success: true,
-          txHash,
-          profit: profit.toString(),
-          feePaid: fee.toString(),
-        };
+        for (const poolId of touchedPools) {
+          await publishPoolUpdate({ poolId, reason: 'swap' });
+        }
+
+        return { ...result, success: true, dryRun, txHash };
 
       } catch (error) {
-        await tx.exec`
-          DELETE FROM flash_loan_locks WHERE user_id = ${userId}
-        `;
         await tx.rollback();
         if (error instanceof APIError) throw error;
         throw APIError.internal("Flash loan execution failed", error as Error);
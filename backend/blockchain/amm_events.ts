@@ -0,0 +1,16 @@
+import { Topic } from "encore.dev/pubsub";
+
+export interface PoolUpdateEvent {
+  poolId: number;
+  reason: 'swap' | 'liquidity_add' | 'order_created';
+}
+
+// Topic for publishing pool reserve changes so background workers can react to new prices.
+export const poolUpdates = new Topic<PoolUpdateEvent>("amm-pool-updates", {
+  deliveryGuarantee: "at-least-once",
+});
+
+// Function to publish a pool update event.
+export async function publishPoolUpdate(event: PoolUpdateEvent) {
+  await poolUpdates.publish(event);
+}
@@ -0,0 +1,303 @@
+import { api, APIError } from "encore.dev/api";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { requireAdmin } from "./admin";
+import { isPositiveInteger, MAX_LOCK_DAYS } from "./amm_math";
+import { accrueToTreasury } from "./amm_treasury";
+import { movement, postJournalEntry, userAccount } from "./ledger";
+import { toYieldFarmingPool, updateYieldFarmRewards, YIELD_FARMS_ACCOUNT, type YieldFarmingPool, type YieldFarmRow } from "./amm";
+
+export interface CreateYieldFarmRequest {
+  adminId: string;
+  poolId: number;
+  rewardToken: string;
+  rewardRate: string; // Reward tokens emitted per second across all stakers
+  startTime?: Date; // Defaults to now
+  endTime: Date;
+  rewardBudget?: string; // Debited from the admin's balance; defaults to rewardRate for the whole schedule
+  lockPeriodDays?: number; // Minimum lock for new stakes
+  earlyUnstakePenaltyBps?: number; // Share of LP forfeited when unstaking before a lock expires; omit to forbid early unstaking
+}
+
+export interface FundYieldFarmRequest {
+  adminId: string;
+  farmId: number;
+  amount: string; // Reward tokens added to the budget, debited from the admin's balance
+}
+
+export interface ExtendYieldFarmRequest {
+  adminId: string;
+  farmId: number;
+  endTime: Date; // Must be later than the current end time
+  rewardRate?: string; // Replaces the emission rate from now on
+}
+
+export interface EndYieldFarmResponse {
+  farm: YieldFarmingPool;
+  refunded: string; // Unemitted budget returned to whoever funded the farm
+}
+
+async function selectFarmForUpdate(tx: any, farmId: number): Promise<YieldFarmRow> {
+  const farm = await tx.queryRow<YieldFarmRow>`
+    SELECT * FROM yield_farming_pools WHERE id = ${farmId} FOR UPDATE
+  `;
+  if (!farm) {
+    throw APIError.notFound("Yield farm not found");
+  }
+  return farm;
+}
+
+// Moves reward tokens from the admin's balance into a farm's budget.
+async function debitRewardFunding(tx: any, adminId: string, rewardToken: string, amount: bigint) {
+  await postJournalEntry(tx, {
+    entryType: 'farm_funding',
+    lines: movement(userAccount(adminId), YIELD_FARMS_ACCOUNT, rewardToken, amount),
+  });
+}
+
+export interface YieldFarmSettings {
+  poolId: number;
+  rewardToken: string;
+  rewardRate: bigint;
+  startTime: Date;
+  endTime: Date;
+  rewardBudget?: bigint; // Defaults to rewardRate for the whole schedule
+  lockPeriodDays: number;
+  earlyUnstakePenaltyBps?: number;
+}
+
+// Checks a farm's schedule and settings and returns its reward budget.
+export function validateYieldFarm(farm: YieldFarmSettings): bigint {
+  const { rewardRate, startTime, endTime, lockPeriodDays } = farm;
+  if (rewardRate <= 0n) {
+    throw APIError.invalidArgument("Reward rate must be positive");
+  }
+  if (isNaN(startTime.getTime()) || isNaN(endTime.getTime()) || endTime <= startTime) {
+    throw APIError.invalidArgument("End time must be after start time");
+  }
+  if (endTime.getTime() <= Date.now()) {
+    throw APIError.invalidArgument("End time must be in the future");
+  }
+  if (!Number.isInteger(lockPeriodDays) || lockPeriodDays < 0 || lockPeriodDays > MAX_LOCK_DAYS) {
+    throw APIError.invalidArgument(`Lock period must be between 0 and ${MAX_LOCK_DAYS} days`);
+  }
+  const penaltyBps = farm.earlyUnstakePenaltyBps;
+  if (penaltyBps !== undefined && (!Number.isInteger(penaltyBps) || penaltyBps < 0 || penaltyBps > 10000)) {
+    throw APIError.invalidArgument("Early unstake penalty must be between 0 and 10000 basis points");
+  }
+
+  const durationSeconds = BigInt(Math.floor((endTime.getTime() - startTime.getTime()) / 1000));
+  const rewardBudget = farm.rewardBudget ?? rewardRate * durationSeconds;
+  if (rewardBudget <= 0n) {
+    throw APIError.invalidArgument("Reward budget must be positive");
+  }
+  return rewardBudget;
+}
+
+// Inserts a validated farm on an existing pool inside the caller's transaction. The caller
+// moves the reward budget into YIELD_FARMS_ACCOUNT.
+export async function insertYieldFarm(tx: any, farm: YieldFarmSettings, rewardBudget: bigint, createdBy: string): Promise<YieldFarmRow> {
+  const pool = await tx.queryRow<{ id: number }>`
+    SELECT id FROM liquidity_pools WHERE id = ${farm.poolId}
+  `;
+  if (!pool) {
+    throw APIError.notFound("Liquidity pool not found");
+  }
+
+  return await tx.queryRow<YieldFarmRow>`
+    INSERT INTO yield_farming_pools (
+      pool_id, reward_token, reward_rate, start_time, end_time, is_active,
+      lock_period_days, early_unstake_penalty_bps, reward_budget, last_reward_time, created_by
+    )
+    VALUES (
+      ${farm.poolId}, ${farm.rewardToken}, ${farm.rewardRate.toString()}, ${farm.startTime}, ${farm.endTime}, true,
+      ${farm.lockPeriodDays}, ${farm.earlyUnstakePenaltyBps ?? null}, ${rewardBudget.toString()}, ${farm.startTime}, ${createdBy}
+    )
+    RETURNING *
+  `;
+}
+
+// Launches a yield farm on a pool with a funded reward budget and emission schedule.
+export const createYieldFarm = api<CreateYieldFarmRequest, { farm: YieldFarmingPool }>(
+  { expose: true, method: "POST", path: "/admin/farms" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/farms", "POST", async () => {
+      if (!isPositiveInteger(req.rewardRate) || (req.rewardBudget !== undefined && !isPositiveInteger(req.rewardBudget))) {
+        throw APIError.invalidArgument("Reward rate and budget must be positive integers");
+      }
+      const settings: YieldFarmSettings = {
+        poolId: req.poolId,
+        rewardToken: req.rewardToken,
+        rewardRate: BigInt(req.rewardRate),
+        startTime: req.startTime ? new Date(req.startTime) : new Date(),
+        endTime: new Date(req.endTime),
+        rewardBudget: req.rewardBudget !== undefined ? BigInt(req.rewardBudget) : undefined,
+        lockPeriodDays: req.lockPeriodDays ?? 0,
+        earlyUnstakePenaltyBps: req.earlyUnstakePenaltyBps,
+      };
+      const rewardBudget = validateYieldFarm(settings);
+
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const farm = await insertYieldFarm(tx, settings, rewardBudget, req.adminId);
+        await debitRewardFunding(tx, req.adminId, req.rewardToken, rewardBudget);
+
+        await tx.commit();
+        return { farm: toYieldFarmingPool(farm) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Adds reward tokens to a farm's budget, resuming emissions if the budget had run out.
+export const fundYieldFarm = api<FundYieldFarmRequest, { farm: YieldFarmingPool }>(
+  { expose: true, method: "POST", path: "/admin/farms/:farmId/fund" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/farms/fund", "POST", async () => {
+      if (!isPositiveInteger(req.amount)) {
+        throw APIError.invalidArgument("Funding amount must be a positive integer");
+      }
+      const amount = BigInt(req.amount);
+
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const farm = await selectFarmForUpdate(tx, req.farmId);
+        if (farm.ended_at) {
+          throw APIError.failedPrecondition("Yield farm has ended");
+        }
+
+        // Settle emissions against the old budget before raising it
+        await updateYieldFarmRewards(req.farmId, tx);
+        await debitRewardFunding(tx, req.adminId, farm.reward_token, amount);
+
+        const updated = await tx.queryRow<YieldFarmRow>`
+          UPDATE yield_farming_pools
+          SET reward_budget = reward_budget + ${amount.toString()},
+              is_active = end_time > NOW()
+          WHERE id = ${req.farmId}
+          RETURNING *
+        `;
+
+        await tx.commit();
+        return { farm: toYieldFarmingPool(updated!) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Pushes back a farm's end time and optionally changes its emission rate.
+export const extendYieldFarm = api<ExtendYieldFarmRequest, { farm: YieldFarmingPool }>(
+  { expose: true, method: "POST", path: "/admin/farms/:farmId/extend" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/farms/extend", "POST", async () => {
+      const endTime = new Date(req.endTime);
+      if (isNaN(endTime.getTime()) || endTime.getTime() <= Date.now()) {
+        throw APIError.invalidArgument("End time must be in the future");
+      }
+      if (req.rewardRate !== undefined && !isPositiveInteger(req.rewardRate)) {
+        throw APIError.invalidArgument("Reward rate must be a positive integer");
+      }
+
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const farm = await selectFarmForUpdate(tx, req.farmId);
+        if (farm.ended_at) {
+          throw APIError.failedPrecondition("Yield farm has ended");
+        }
+        if (endTime <= new Date(farm.end_time)) {
+          throw APIError.invalidArgument("New end time must be later than the current end time");
+        }
+
+        // Accrue at the old rate up to now, so a rate change only applies going forward
+        await updateYieldFarmRewards(req.farmId, tx);
+
+        const updated = await tx.queryRow<YieldFarmRow>`
+          UPDATE yield_farming_pools
+          SET end_time = ${endTime},
+              reward_rate = COALESCE(${req.rewardRate ?? null}::numeric, reward_rate),
+              -- A farm that had already finished resumes from now rather than back-paying the gap
+              last_reward_time = GREATEST(last_reward_time, NOW()),
+              is_active = rewards_emitted < reward_budget
+          WHERE id = ${req.farmId}
+          RETURNING *
+        `;
+
+        await tx.commit();
+        return { farm: toYieldFarmingPool(updated!) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Ends a farm now and refunds its unemitted budget to whoever funded it: the creating admin,
+// or the treasury for farms started by a proposal. Stakers keep their accrued rewards and can
+// still claim and unstake.
+export const endYieldFarm = api<{ adminId: string; farmId: number }, EndYieldFarmResponse>(
+  { expose: true, method: "POST", path: "/admin/farms/:farmId/end" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/farms/end", "POST", async () => {
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const farm = await selectFarmForUpdate(tx, req.farmId);
+        if (farm.ended_at) {
+          throw APIError.failedPrecondition("Yield farm has already ended");
+        }
+
+        await updateYieldFarmRewards(req.farmId, tx);
+
+        const updated = await tx.queryRow<YieldFarmRow>`
+          UPDATE yield_farming_pools
+          SET end_time = LEAST(end_time, NOW()),
+              ended_at = NOW(),
+              is_active = false,
+              reward_budget = rewards_emitted
+          WHERE id = ${req.farmId}
+          RETURNING *
+        `;
+        // Farms from before budgets were funded have no one to refund, so their remainder lapses
+        const refunded = farm.created_by
+          ? BigInt(farm.reward_budget) - BigInt(updated!.rewards_emitted)
+          : 0n;
+
+        if (refunded > 0n && farm.created_by!.startsWith('proposal:')) {
+          await accrueToTreasury(tx, {
+            token: farm.reward_token,
+            amount: refunded,
+            entryType: 'farm_refund',
+            account: YIELD_FARMS_ACCOUNT,
+            reference: `farm:${req.farmId}`,
+          });
+        } else if (refunded > 0n) {
+          await postJournalEntry(tx, {
+            entryType: 'farm_refund',
+            reference: `farm:${req.farmId}`,
+            lines: movement(YIELD_FARMS_ACCOUNT, userAccount(farm.created_by!), farm.reward_token, refunded),
+          });
+        }
+
+        await tx.commit();
+        return { farm: toYieldFarmingPool(updated!), refunded: refunded.toString() };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
@@ -0,0 +1,204 @@
+import { api, APIError } from "encore.dev/api";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { getCurve, type CurveType } from "./amm_math";
+
+export type CandleInterval = '1m' | '5m' | '1h' | '1d';
+
+const INTERVAL_SECONDS: Record<CandleInterval, number> = {
+  '1m': 60,
+  '5m': 300,
+  '1h': 3600,
+  '1d': 86400,
+};
+
+const DEFAULT_CANDLE_LIMIT = 100;
+const MAX_CANDLE_LIMIT = 1000;
+
+export interface PoolCandle {
+  time: Date; // Bucket start
+  open: number; // Prices are tokenA in tokenB
+  high: number;
+  low: number;
+  close: number;
+  volumeA: string;
+  volumeB: string;
+  trades: number;
+}
+
+export interface PoolStats24h {
+  price: number;
+  priceChangePercent: number;
+  volumeA: string;
+  volumeB: string;
+  feesA: string;
+  feesB: string;
+  trades: number;
+  tvlInTokenB: string; // Both reserves valued at the current pool price
+}
+
+export interface PoolCandlesResponse {
+  poolId: number;
+  tokenA: string;
+  tokenB: string;
+  interval: CandleInterval;
+  candles: PoolCandle[];
+  stats24h: PoolStats24h;
+}
+
+export interface PoolTick {
+  poolId: number;
+  type: 'swap' | 'liquidity_add' | 'liquidity_remove';
+  amountA: bigint;
+  amountB: bigint;
+  feeA?: bigint;
+  feeB?: bigint;
+}
+
+// Records a tick for a pool inside the caller's transaction, after its reserves have been updated.
+// Also stores the pool's new spot price, which the price oracle accumulates until the reserves
+// change again; prices come from the pool's curve, so stable pools are not priced by their
+// reserve ratio.
+export async function recordPoolTick(tx: any, tick: PoolTick) {
+  const pool = await tx.queryRow`
+    SELECT reserve_a, reserve_b, curve_type, amplification FROM liquidity_pools WHERE id = ${tick.poolId}
+  ` as { reserve_a: string; reserve_b: string; curve_type: CurveType; amplification: number | null };
+  const curve = getCurve(pool);
+  const reserveA = BigInt(pool.reserve_a);
+  const reserveB = BigInt(pool.reserve_b);
+  const priceA = curve.spotPrice(reserveA, reserveB);
+  const priceB = curve.spotPrice(reserveB, reserveA);
+
+  await tx.exec`
+    UPDATE liquidity_pools SET spot_price_a = ${priceA}, spot_price_b = ${priceB} WHERE id = ${tick.poolId}
+  `;
+  await tx.exec`
+    INSERT INTO pool_ticks (pool_id, tick_type, price, amount_a, amount_b, fee_a, fee_b, reserve_a, reserve_b)
+    VALUES (
+      ${tick.poolId}, ${tick.type}, ${priceA},
+      ${tick.amountA.toString()}, ${tick.amountB.toString()},
+      ${(tick.feeA ?? 0n).toString()}, ${(tick.feeB ?? 0n).toString()},
+      ${pool.reserve_a}, ${pool.reserve_b}
+    )
+  `;
+}
+
+// Returns OHLCV candles for a pool together with its trailing 24h volume, fees and TVL.
+export const getPoolCandles = api<{ poolId: number; interval?: CandleInterval; limit?: number }, PoolCandlesResponse>(
+  { expose: true, method: "GET", path: "/amm/pools/:poolId/candles" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/pools/candles", "GET", async () => {
+      const interval = req.interval ?? '1h';
+      const bucketSeconds = INTERVAL_SECONDS[interval];
+      if (!bucketSeconds) {
+        throw APIError.invalidArgument("Interval must be one of 1m, 5m, 1h, 1d");
+      }
+      const limit = req.limit ?? DEFAULT_CANDLE_LIMIT;
+      if (limit < 1 || limit > MAX_CANDLE_LIMIT) {
+        throw APIError.invalidArgument(`limit must be between 1 and ${MAX_CANDLE_LIMIT}`);
+      }
+
+      const pool = await blockchainDB.queryRow<{
+        token_a: string;
+        token_b: string;
+        reserve_a: string;
+        reserve_b: string;
+        curve_type: CurveType;
+        amplification: number | null;
+      }>`
+        SELECT token_a, token_b, reserve_a, reserve_b, curve_type, amplification FROM liquidity_pools WHERE id = ${req.poolId}
+      `;
+      if (!pool) {
+        throw APIError.notFound("Liquidity pool not found");
+      }
+
+      // Liquidity ticks contribute prices but not volume
+      const rows = await blockchainDB.queryAll<{
+        bucket: Date;
+        open: number;
+        high: number;
+        low: number;
+        close: number;
+        volume_a: string;
+        volume_b: string;
+        trades: number;
+      }>`
+        SELECT to_timestamp(floor(EXTRACT(EPOCH FROM created_at) / ${bucketSeconds}) * ${bucketSeconds}) AS bucket,
+               (array_agg(price ORDER BY created_at ASC, id ASC))[1] AS open,
+               MAX(price) AS high,
+               MIN(price) AS low,
+               (array_agg(price ORDER BY created_at DESC, id DESC))[1] AS close,
+               COALESCE(SUM(amount_a) FILTER (WHERE tick_type = 'swap'), 0)::text AS volume_a,
+               COALESCE(SUM(amount_b) FILTER (WHERE tick_type = 'swap'), 0)::text AS volume_b,
+               COUNT(*) FILTER (WHERE tick_type = 'swap')::int AS trades
+        FROM pool_ticks
+        WHERE pool_id = ${req.poolId}
+          AND created_at >= NOW() - make_interval(secs => ${bucketSeconds * limit})
+        GROUP BY bucket
+        ORDER BY bucket ASC
+      `;
+
+      const stats = await blockchainDB.queryRow<{
+        volume_a: string;
+        volume_b: string;
+        fees_a: string;
+        fees_b: string;
+        trades: number;
+        opening_price: number | null;
+      }>`
+        SELECT COALESCE(SUM(amount_a) FILTER (WHERE tick_type = 'swap'), 0)::text AS volume_a,
+               COALESCE(SUM(amount_b) FILTER (WHERE tick_type = 'swap'), 0)::text AS volume_b,
+               COALESCE(SUM(fee_a), 0)::text AS fees_a,
+               COALESCE(SUM(fee_b), 0)::text AS fees_b,
+               COUNT(*) FILTER (WHERE tick_type = 'swap')::int AS trades,
+               COALESCE(
+                 (
+                   SELECT price FROM pool_ticks
+                   WHERE pool_id = ${req.poolId} AND created_at <= NOW() - INTERVAL '24 hours'
+                   ORDER BY created_at DESC, id DESC
+                   LIMIT 1
+                 ),
+                 (array_agg(price ORDER BY created_at ASC, id ASC))[1]
+               ) AS opening_price
+        FROM pool_ticks
+        WHERE pool_id = ${req.poolId} AND created_at > NOW() - INTERVAL '24 hours'
+      `;
+
+      const reserveA = BigInt(pool.reserve_a);
+      const reserveB = BigInt(pool.reserve_b);
+      const price = getCurve(pool).spotPrice(reserveA, reserveB);
+      const openingPrice = stats?.opening_price ?? price;
+
+      return {
+        poolId: req.poolId,
+        tokenA: pool.token_a,
+        tokenB: pool.token_b,
+        interval,
+        candles: rows.map(row => ({
+          time: row.bucket,
+          open: row.open,
+          high: row.high,
+          low: row.low,
+          close: row.close,
+          volumeA: row.volume_a,
+          volumeB: row.volume_b,
+          trades: row.trades,
+        })),
+        stats24h: {
+          price,
+          priceChangePercent: openingPrice > 0 ? ((price - openingPrice) / openingPrice) * 100 : 0,
+          volumeA: stats?.volume_a ?? "0",
+          volumeB: stats?.volume_b ?? "0",
+          feesA: stats?.fees_a ?? "0",
+          feesB: stats?.fees_b ?? "0",
+          trades: stats?.trades ?? 0,
+          // On a constant product curve both sides are worth the same at the pool price, so TVL
+          // is twice reserve B; a stable pool's reserve A is valued at its curve price
+          tvlInTokenB: (pool.curve_type === 'stable'
+            ? reserveB + BigInt(Math.floor(Number(reserveA) * price))
+            : reserveB * 2n).toString(),
+        },
+      };
+    });
+  }
+);
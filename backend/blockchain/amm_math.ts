@@ -0,0 +1,299 @@
+import { APIError } from "encore.dev/api";
+
+// Shared pricing math for the AMM. Amounts are token base units as bigint;
+// prices are plain numbers quoted as tokenOut per tokenIn.
+// Each pool prices trades on one PricingCurve: constant product or StableSwap.
+
+export const FEE_DENOMINATOR = 10000n;
+
+export type CurveType = 'constant_product' | 'stable';
+
+export interface PoolReserves {
+  token_a: string;
+  token_b: string;
+  reserve_a: string;
+  reserve_b: string;
+  fee_rate: number;
+  curve_type?: CurveType; // Constant product when absent
+  amplification?: number | null; // StableSwap A, only used by stable pools
+}
+
+// The invariant a pool trades along. Swap amounts are after the LP fee has been taken.
+export interface PricingCurve {
+  getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint): bigint;
+  // Smallest input that yields at least amountOut, or null when the pool cannot supply it
+  getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint): bigint | null;
+  spotPrice(reserveIn: bigint, reserveOut: bigint): number;
+  // LP supply minted by a pool's first deposit
+  initialLiquidity(amountA: bigint, amountB: bigint): bigint;
+  // LP tokens minted for a deposit into a pool that already has reserves
+  liquidityToMint(amountA: bigint, amountB: bigint, reserveA: bigint, reserveB: bigint, totalLiquidity: bigint, fee: bigint): bigint;
+}
+
+export interface OrientedReserves {
+  tokenIn: string;
+  tokenOut: string;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  isTokenAInput: boolean;
+}
+
+export interface TradeQuote {
+  amountIn: bigint;
+  amountOut: bigint;
+  fee: bigint;
+  spotPrice: number;
+  executionPrice: number;
+  priceImpact: number; // Percent, excluding the LP fee
+}
+
+// Orients a pool's reserves for a trade that sells tokenIn, using token_a as the reference side.
+export function orientReserves(pool: Omit<PoolReserves, "fee_rate">, tokenIn: string): OrientedReserves {
+  if (pool.token_a !== tokenIn && pool.token_b !== tokenIn) {
+    throw APIError.invalidArgument(`Pool ${pool.token_a}/${pool.token_b} does not trade ${tokenIn}`);
+  }
+  const isTokenAInput = pool.token_a === tokenIn;
+  return {
+    tokenIn,
+    tokenOut: isTokenAInput ? pool.token_b : pool.token_a,
+    reserveIn: BigInt(isTokenAInput ? pool.reserve_a : pool.reserve_b),
+    reserveOut: BigInt(isTokenAInput ? pool.reserve_b : pool.reserve_a),
+    isTokenAInput,
+  };
+}
+
+// Token amounts arrive as decimal strings; BigInt() throws a SyntaxError on anything else,
+// so request handlers check them with these first.
+export function isUnsignedInteger(value: string | undefined): value is string {
+  return value !== undefined && /^\d+$/.test(value);
+}
+
+export function isPositiveInteger(value: string | undefined): value is string {
+  return isUnsignedInteger(value) && BigInt(value) > 0n;
+}
+
+export function feeBps(feeRate: number): bigint {
+  return BigInt(Math.floor(feeRate * 10000));
+}
+
+export function ratio(numerator: bigint, denominator: bigint): number {
+  return denominator === 0n ? 0 : Number(numerator) / Number(denominator);
+}
+
+// Marginal price of tokenOut in tokenIn terms before any trade, excluding fees.
+export function spotPrice(reserveIn: bigint, reserveOut: bigint): number {
+  return ratio(reserveOut, reserveIn);
+}
+
+// Output for an exact input; the fee is taken from the input before it reaches the curve.
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, fee: bigint): bigint {
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - fee) / FEE_DENOMINATOR;
+  if (reserveIn + amountInWithFee === 0n) return 0n;
+  return (amountInWithFee * reserveOut) / (reserveIn + amountInWithFee);
+}
+
+// Smallest input that yields at least amountOut. Returns null when the pool cannot supply it.
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, fee: bigint): bigint | null {
+  if (amountOut <= 0n || amountOut >= reserveOut || fee >= FEE_DENOMINATOR) return null;
+  const amountInWithFee = ceilDiv(reserveIn * amountOut, reserveOut - amountOut);
+  return ceilDiv(amountInWithFee * FEE_DENOMINATOR, FEE_DENOMINATOR - fee);
+}
+
+// Price impact is the shift from spot price to the price the curve actually gives,
+// measured on the post-fee input so that the LP fee is reported separately.
+export function priceImpact(amountInAfterFee: bigint, amountOut: bigint, spot: number): number {
+  if (spot === 0 || amountInAfterFee === 0n) return 0;
+  return Math.max(0, (1 - ratio(amountOut, amountInAfterFee) / spot) * 100);
+}
+
+export const constantProductCurve: PricingCurve = {
+  getAmountOut: (amountIn, reserveIn, reserveOut) => getAmountOut(amountIn, reserveIn, reserveOut, 0n),
+  getAmountIn: (amountOut, reserveIn, reserveOut) => getAmountIn(amountOut, reserveIn, reserveOut, 0n),
+  spotPrice,
+  initialLiquidity: (amountA, amountB) => sqrt(amountA * amountB),
+  liquidityToMint: (amountA, amountB, reserveA, reserveB, totalLiquidity) => {
+    // Mint against the scarcer side; any excess of the other token is donated to the pool
+    const liquidityA = (amountA * totalLiquidity) / reserveA;
+    const liquidityB = (amountB * totalLiquidity) / reserveB;
+    return liquidityA < liquidityB ? liquidityA : liquidityB;
+  },
+};
+
+const N_COINS = 2n;
+const MAX_NEWTON_ITERATIONS = 255;
+
+// StableSwap invariant D for a two-token pool, solved by Newton's method as in Curve:
+// A·n^n·(x + y) + D = A·n^n·D + D^(n+1) / (n^n·x·y), with Ann = A·n.
+export function stableInvariant(x: bigint, y: bigint, amplification: bigint): bigint {
+  const sum = x + y;
+  if (x === 0n || y === 0n) return 0n;
+
+  const ann = amplification * N_COINS;
+  let d = sum;
+  for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+    const dP = d * d / (x * N_COINS) * d / (y * N_COINS);
+    const previous = d;
+    d = (ann * sum + dP * N_COINS) * d / ((ann - 1n) * d + (N_COINS + 1n) * dP);
+    if (absDiff(d, previous) <= 1n) return d;
+  }
+  throw APIError.internal("StableSwap invariant did not converge");
+}
+
+// Balance of the other token that keeps the invariant at d once one balance becomes x.
+function stableBalance(x: bigint, d: bigint, amplification: bigint): bigint {
+  const ann = amplification * N_COINS;
+  const c = d * d / (x * N_COINS) * d / (ann * N_COINS);
+  const b = x + d / ann;
+  let y = d;
+  for (let i = 0; i < MAX_NEWTON_ITERATIONS; i++) {
+    const previous = y;
+    y = (y * y + c) / (2n * y + b - d);
+    if (absDiff(y, previous) <= 1n) return y;
+  }
+  throw APIError.internal("StableSwap balance did not converge");
+}
+
+// Curve-style StableSwap for correlated assets: close to constant-sum near the peg, sliding
+// towards constant product as the pool becomes imbalanced. Higher amplification keeps it flat longer.
+export function stableSwapCurve(amplification: number): PricingCurve {
+  if (!Number.isInteger(amplification) || amplification < 1) {
+    throw APIError.invalidArgument("Amplification must be a positive integer");
+  }
+  const amp = BigInt(amplification);
+
+  const curve: PricingCurve = {
+    getAmountOut: (amountIn, reserveIn, reserveOut) => {
+      if (amountIn <= 0n || reserveIn === 0n || reserveOut === 0n) return 0n;
+      const d = stableInvariant(reserveIn, reserveOut, amp);
+      // Newton solutions can be a unit off, so round the output down by one in the pool's favour
+      const amountOut = reserveOut - stableBalance(reserveIn + amountIn, d, amp) - 1n;
+      return amountOut > 0n ? amountOut : 0n;
+    },
+    getAmountIn: (amountOut, reserveIn, reserveOut) => {
+      if (amountOut <= 0n || amountOut >= reserveOut || reserveIn === 0n) return null;
+      const d = stableInvariant(reserveIn, reserveOut, amp);
+      let amountIn = stableBalance(reserveOut - amountOut, d, amp) - reserveIn + 1n;
+      // Step past any remaining rounding so the input really buys amountOut
+      for (let i = 0; i < 8; i++) {
+        if (curve.getAmountOut(amountIn, reserveIn, reserveOut) >= amountOut) return amountIn;
+        amountIn += 1n;
+      }
+      return null;
+    },
+    spotPrice: (reserveIn, reserveOut) => {
+      if (reserveIn === 0n || reserveOut === 0n) return 0;
+      // Marginal rate -dy/dx from the partial derivatives of the invariant
+      const d = Number(stableInvariant(reserveIn, reserveOut, amp));
+      const x = Number(reserveIn);
+      const y = Number(reserveOut);
+      const ann = amplification * Number(N_COINS);
+      const k = d ** 3 / (4 * x * y);
+      return (ann + k / x) / (ann + k / y);
+    },
+    initialLiquidity: (amountA, amountB) => stableInvariant(amountA, amountB, amp),
+    liquidityToMint: (amountA, amountB, reserveA, reserveB, totalLiquidity, fee) => {
+      const d0 = stableInvariant(reserveA, reserveB, amp);
+      const d1 = stableInvariant(reserveA + amountA, reserveB + amountB, amp);
+      if (d0 === 0n || d1 <= d0) return 0n;
+
+      // Charge the swap fee on the unbalanced part of the deposit, as Curve does, so that an
+      // uneven deposit followed by a balanced withdrawal is no cheaper than a swap
+      const idealA = d1 * reserveA / d0;
+      const idealB = d1 * reserveB / d0;
+      const feeA = absDiff(reserveA + amountA, idealA) * fee / (2n * FEE_DENOMINATOR);
+      const feeB = absDiff(reserveB + amountB, idealB) * fee / (2n * FEE_DENOMINATOR);
+      const d2 = stableInvariant(reserveA + amountA - feeA, reserveB + amountB - feeB, amp);
+
+      return d2 > d0 ? totalLiquidity * (d2 - d0) / d0 : 0n;
+    },
+  };
+  return curve;
+}
+
+export function getCurve(pool: Pick<PoolReserves, "curve_type" | "amplification">): PricingCurve {
+  if (pool.curve_type === 'stable') {
+    if (!pool.amplification) {
+      throw APIError.internal("Stable pool is missing its amplification coefficient");
+    }
+    return stableSwapCurve(pool.amplification);
+  }
+  return constantProductCurve;
+}
+
+export function quoteExactIn(pool: PoolReserves, tokenIn: string, amountIn: bigint): TradeQuote {
+  const { reserveIn, reserveOut } = orientReserves(pool, tokenIn);
+  const curve = getCurve(pool);
+  const fee = feeBps(pool.fee_rate);
+  const amountInWithFee = amountIn * (FEE_DENOMINATOR - fee) / FEE_DENOMINATOR;
+  const amountOut = curve.getAmountOut(amountInWithFee, reserveIn, reserveOut);
+  const spot = curve.spotPrice(reserveIn, reserveOut);
+
+  return {
+    amountIn,
+    amountOut,
+    fee: amountIn - amountInWithFee,
+    spotPrice: spot,
+    executionPrice: ratio(amountOut, amountIn),
+    priceImpact: priceImpact(amountInWithFee, amountOut, spot),
+  };
+}
+
+export function quoteExactOut(pool: PoolReserves, tokenIn: string, amountOut: bigint): TradeQuote | null {
+  const { reserveIn, reserveOut } = orientReserves(pool, tokenIn);
+  const fee = feeBps(pool.fee_rate);
+  if (fee >= FEE_DENOMINATOR) return null;
+  const amountInWithFee = getCurve(pool).getAmountIn(amountOut, reserveIn, reserveOut);
+  if (amountInWithFee === null) return null;
+  const amountIn = ceilDiv(amountInWithFee * FEE_DENOMINATOR, FEE_DENOMINATOR - fee);
+
+  // Report what the rounded-up input actually buys, which is never less than requested
+  return quoteExactIn(pool, tokenIn, amountIn);
+}
+
+// Reward multipliers for staking with a lock, in basis points. A lock earns the multiplier
+// of the longest tier it reaches.
+export const LOCK_BOOST_TIERS: { days: number; multiplierBps: number }[] = [
+  { days: 0, multiplierBps: 10000 },
+  { days: 7, multiplierBps: 11000 },
+  { days: 30, multiplierBps: 12500 },
+  { days: 90, multiplierBps: 15000 },
+  { days: 180, multiplierBps: 17500 },
+  { days: 365, multiplierBps: 20000 },
+];
+export const MAX_LOCK_DAYS = 365;
+
+export function lockBoostBps(lockDays: number): number {
+  let multiplier = LOCK_BOOST_TIERS[0].multiplierBps;
+  for (const tier of LOCK_BOOST_TIERS) {
+    if (lockDays >= tier.days) multiplier = tier.multiplierBps;
+  }
+  return multiplier;
+}
+
+// The stake a position is weighted by when farm rewards are split.
+export function effectiveStake(staked: bigint, lockDays: number): bigint {
+  return staked * BigInt(lockBoostBps(lockDays)) / 10000n;
+}
+
+// Integer square root (floor), used to mint the initial LP supply of a pool.
+export function sqrt(value: bigint): bigint {
+  if (value < 0n) {
+    throw APIError.invalidArgument("Cannot take the square root of a negative amount");
+  }
+  if (value < 2n) return value;
+  let x = value;
+  let y = (x + 1n) / 2n;
+  while (y < x) {
+    x = y;
+    y = (x + value / x) / 2n;
+  }
+  return x;
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - 1n) / b;
+}
+
+function absDiff(a: bigint, b: bigint): bigint {
+  return a > b ? a - b : b - a;
+}
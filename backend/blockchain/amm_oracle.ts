@@ -0,0 +1,151 @@
+import { api, APIError } from "encore.dev/api";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { getCurve, type CurveType, type PricingCurve } from "./amm_math";
+
+export const DEFAULT_TWAP_WINDOW_SECONDS = 1800;
+export const MAX_TWAP_WINDOW_SECONDS = 7 * 24 * 3600;
+
+export interface PoolTWAP {
+  poolId: number;
+  tokenA: string;
+  tokenB: string;
+  priceA: number; // Time-weighted price of tokenA in tokenB
+  priceB: number; // Time-weighted price of tokenB in tokenA
+  spotPriceA: number;
+  spotPriceB: number;
+  windowSeconds: number; // Effective window; shorter than requested when the pool has less history
+  requestedWindowSeconds: number;
+  windowStart: Date;
+  windowEnd: Date;
+}
+
+interface Observation {
+  observed_at: Date;
+  price_a_cumulative: number;
+  price_b_cumulative: number;
+  reserve_a: string;
+  reserve_b: string;
+}
+
+// Extends an observation's accumulators to time `at`, assuming its reserves held until then
+// and priced them on the pool's curve.
+function accumulateTo(curve: PricingCurve, obs: Observation, at: Date): { a: number; b: number } {
+  const elapsed = Math.max(0, (at.getTime() - obs.observed_at.getTime()) / 1000);
+  const reserveA = BigInt(obs.reserve_a);
+  const reserveB = BigInt(obs.reserve_b);
+  return {
+    a: obs.price_a_cumulative + curve.spotPrice(reserveA, reserveB) * elapsed,
+    b: obs.price_b_cumulative + curve.spotPrice(reserveB, reserveA) * elapsed,
+  };
+}
+
+// Reads the time-weighted average price of a pool over the trailing window.
+export async function readPoolTWAP(poolId: number, windowSeconds: number = DEFAULT_TWAP_WINDOW_SECONDS): Promise<PoolTWAP> {
+  if (!(windowSeconds > 0) || windowSeconds > MAX_TWAP_WINDOW_SECONDS) {
+    throw APIError.invalidArgument(`windowSeconds must be between 1 and ${MAX_TWAP_WINDOW_SECONDS}`);
+  }
+
+  const pool = await blockchainDB.queryRow<Observation & {
+    token_a: string;
+    token_b: string;
+    curve_type: CurveType;
+    amplification: number | null;
+    now: Date;
+  }>`
+    SELECT token_a, token_b, reserve_a, reserve_b, curve_type, amplification,
+           price_a_cumulative::float8 AS price_a_cumulative,
+           price_b_cumulative::float8 AS price_b_cumulative,
+           price_timestamp AS observed_at,
+           clock_timestamp() AS now
+    FROM liquidity_pools
+    WHERE id = ${poolId}
+  `;
+  if (!pool) {
+    throw APIError.notFound("Liquidity pool not found");
+  }
+
+  const windowEnd = pool.now;
+  const requestedStart = new Date(windowEnd.getTime() - windowSeconds * 1000);
+
+  // The accumulator value at the window start comes from the last observation before it,
+  // or the pool's first observation when the pool is younger than the window
+  let startObs = await blockchainDB.queryRow<Observation>`
+    SELECT observed_at, reserve_a, reserve_b,
+           price_a_cumulative::float8 AS price_a_cumulative,
+           price_b_cumulative::float8 AS price_b_cumulative
+    FROM pool_price_observations
+    WHERE pool_id = ${poolId} AND observed_at <= ${requestedStart}
+    ORDER BY observed_at DESC
+    LIMIT 1
+  `;
+  startObs ??= await blockchainDB.queryRow<Observation>`
+    SELECT observed_at, reserve_a, reserve_b,
+           price_a_cumulative::float8 AS price_a_cumulative,
+           price_b_cumulative::float8 AS price_b_cumulative
+    FROM pool_price_observations
+    WHERE pool_id = ${poolId}
+    ORDER BY observed_at ASC
+    LIMIT 1
+  `;
+
+  const curve = getCurve(pool);
+  const spotPriceA = curve.spotPrice(BigInt(pool.reserve_a), BigInt(pool.reserve_b));
+  const spotPriceB = curve.spotPrice(BigInt(pool.reserve_b), BigInt(pool.reserve_a));
+  const windowStart = startObs && startObs.observed_at > requestedStart ? startObs.observed_at : requestedStart;
+  const effectiveSeconds = (windowEnd.getTime() - windowStart.getTime()) / 1000;
+
+  const base = {
+    poolId,
+    tokenA: pool.token_a,
+    tokenB: pool.token_b,
+    spotPriceA,
+    spotPriceB,
+    requestedWindowSeconds: windowSeconds,
+    windowEnd,
+  };
+
+  // Without any history the best available answer is the current spot price
+  if (!startObs || effectiveSeconds <= 0) {
+    return { ...base, priceA: spotPriceA, priceB: spotPriceB, windowSeconds: 0, windowStart: windowEnd };
+  }
+
+  const end = accumulateTo(curve, pool, windowEnd);
+  const start = accumulateTo(curve, startObs, windowStart);
+
+  return {
+    ...base,
+    priceA: (end.a - start.a) / effectiveSeconds,
+    priceB: (end.b - start.b) / effectiveSeconds,
+    windowSeconds: Math.round(effectiveSeconds),
+    windowStart,
+  };
+}
+
+// Reads the TWAP of baseToken quoted in quoteToken from whichever pool trades the pair.
+// Returns null when no pool exists for the pair.
+export async function readPairTWAP(
+  baseToken: string,
+  quoteToken: string,
+  windowSeconds: number = DEFAULT_TWAP_WINDOW_SECONDS
+): Promise<number | null> {
+  const pool = await blockchainDB.queryRow<{ id: number; token_a: string }>`
+    SELECT id, token_a FROM liquidity_pools
+    WHERE (token_a = ${baseToken} AND token_b = ${quoteToken})
+       OR (token_a = ${quoteToken} AND token_b = ${baseToken})
+  `;
+  if (!pool) return null;
+
+  const twap = await readPoolTWAP(pool.id, windowSeconds);
+  return pool.token_a === baseToken ? twap.priceA : twap.priceB;
+}
+
+// Returns the time-weighted average price of a pool over a trailing window.
+export const getPoolOraclePrice = api<{ poolId: number; windowSeconds?: number }, PoolTWAP>(
+  { expose: true, method: "GET", path: "/amm/oracle/:poolId" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/oracle", "GET", async () => {
+      return readPoolTWAP(req.poolId, req.windowSeconds ?? DEFAULT_TWAP_WINDOW_SECONDS);
+    });
+  }
+);
@@ -0,0 +1,354 @@
+import { api, APIError } from "encore.dev/api";
+import { Subscription } from "encore.dev/pubsub";
+import log from "encore.dev/log";
+import crypto from "crypto";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { publishTransactionConfirmation } from "./notifications";
+import { poolUpdates, publishPoolUpdate } from "./amm_events";
+import { performSwap } from "./amm";
+import { isPositiveInteger, isUnsignedInteger, quoteExactIn, type PoolReserves } from "./amm_math";
+import { lockedAccount, movement, postJournalEntry, userAccount } from "./ledger";
+
+export type AMMOrderType = 'limit' | 'stop';
+export type AMMOrderStatus = 'open' | 'filled' | 'cancelled';
+
+export interface AMMOrder {
+  id: number;
+  userId: string;
+  poolId: number;
+  orderType: AMMOrderType;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  triggerPrice: number; // tokenOut per tokenIn
+  minimumAmountOut: string;
+  status: AMMOrderStatus;
+  amountOut?: string;
+  txHash?: string;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  filledAt?: Date;
+}
+
+export interface CreateAMMOrderRequest {
+  userId: string;
+  orderType: AMMOrderType;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  triggerPrice: number; // Limit: fill once the execution price is at least this. Stop: fill once the spot price falls to this.
+  minimumAmountOut?: string; // Optional floor on the fill, mainly to protect stop orders in thin pools
+}
+
+interface AMMOrderRow {
+  id: number;
+  user_id: string;
+  pool_id: number;
+  order_type: AMMOrderType;
+  token_in: string;
+  token_out: string;
+  amount_in: string;
+  trigger_price: number;
+  minimum_amount_out: string;
+  status: AMMOrderStatus;
+  amount_out: string | null;
+  tx_hash: string | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  filled_at: Date | null;
+}
+
+function toAMMOrder(row: AMMOrderRow): AMMOrder {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    poolId: row.pool_id,
+    orderType: row.order_type,
+    tokenIn: row.token_in,
+    tokenOut: row.token_out,
+    amountIn: row.amount_in,
+    triggerPrice: row.trigger_price,
+    minimumAmountOut: row.minimum_amount_out,
+    status: row.status,
+    amountOut: row.amount_out ?? undefined,
+    txHash: row.tx_hash ?? undefined,
+    lastError: row.last_error ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    filledAt: row.filled_at ?? undefined,
+  };
+}
+
+// Checks whether an order's trigger condition holds against the given pool state.
+export function isOrderTriggered(
+  order: { order_type: AMMOrderType; token_in: string; amount_in: string; trigger_price: number },
+  pool: PoolReserves
+): boolean {
+  const quote = quoteExactIn(pool, order.token_in, BigInt(order.amount_in));
+  if (quote.amountOut === 0n) return false;
+
+  if (order.order_type === 'limit') {
+    // A limit order must be filled at or better than its price, after fees and price impact
+    return quote.executionPrice >= order.trigger_price;
+  }
+  // A stop order fires once the market has fallen to the stop price
+  return quote.spotPrice <= order.trigger_price;
+}
+
+// Places a resting limit or stop order on the pool for the token pair.
+export const createAMMOrder = api<CreateAMMOrderRequest, { order: AMMOrder }>(
+  { expose: true, method: "POST", path: "/amm/orders" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/orders", "POST", async () => {
+      if (!req.userId || !req.tokenIn || !req.tokenOut || !req.amountIn || !req.orderType) {
+        throw APIError.invalidArgument("Missing required parameters");
+      }
+      if (req.orderType !== 'limit' && req.orderType !== 'stop') {
+        throw APIError.invalidArgument("Order type must be 'limit' or 'stop'");
+      }
+      if (req.tokenIn === req.tokenOut) {
+        throw APIError.invalidArgument("Input and output tokens must differ");
+      }
+      if (!(req.triggerPrice > 0)) {
+        throw APIError.invalidArgument("Trigger price must be positive");
+      }
+
+      if (!isPositiveInteger(req.amountIn)) {
+        throw APIError.invalidArgument("Input amount must be a positive integer");
+      }
+      if (req.minimumAmountOut !== undefined && !isUnsignedInteger(req.minimumAmountOut)) {
+        throw APIError.invalidArgument("Minimum output must be a non-negative integer");
+      }
+      const amountIn = BigInt(req.amountIn);
+      const minimumAmountOut = BigInt(req.minimumAmountOut ?? "0");
+
+      await using tx = await blockchainDB.begin();
+
+      try {
+        const pool = await tx.queryRow<{ id: number }>`
+          SELECT id FROM liquidity_pools
+          WHERE (token_a = ${req.tokenIn} AND token_b = ${req.tokenOut})
+             OR (token_a = ${req.tokenOut} AND token_b = ${req.tokenIn})
+        `;
+        if (!pool) {
+          throw APIError.notFound("Liquidity pool not found for this token pair");
+        }
+
+        // Reserve the funds for as long as the order is open
+        await postJournalEntry(tx, {
+          entryType: 'order_hold',
+          lines: movement(userAccount(req.userId), lockedAccount(req.userId), req.tokenIn, req.amountIn),
+        });
+
+        const row = await tx.queryRow<AMMOrderRow>`
+          INSERT INTO amm_orders (
+            user_id, pool_id, order_type, token_in, token_out,
+            amount_in, trigger_price, minimum_amount_out
+          )
+          VALUES (
+            ${req.userId}, ${pool.id}, ${req.orderType}, ${req.tokenIn}, ${req.tokenOut},
+            ${req.amountIn}, ${req.triggerPrice}, ${minimumAmountOut.toString()}
+          )
+          RETURNING *
+        `;
+
+        await tx.commit();
+
+        // Let the matcher fill it straight away if the pool is already past the trigger
+        await publishPoolUpdate({ poolId: pool.id, reason: 'order_created' });
+
+        return { order: toAMMOrder(row!) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Cancels an open order and releases its locked funds.
+export const cancelAMMOrder = api<{ orderId: number; userId: string }, { order: AMMOrder }>(
+  { expose: true, method: "POST", path: "/amm/orders/:orderId/cancel" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/orders/cancel", "POST", async () => {
+      await using tx = await blockchainDB.begin();
+
+      try {
+        const order = await tx.queryRow<AMMOrderRow>`
+          SELECT * FROM amm_orders WHERE id = ${req.orderId} FOR UPDATE
+        `;
+        if (!order || order.user_id !== req.userId) {
+          throw APIError.notFound("Order not found");
+        }
+        if (order.status !== 'open') {
+          throw APIError.failedPrecondition(`Order is already ${order.status}`);
+        }
+
+        await postJournalEntry(tx, {
+          entryType: 'order_release',
+          reference: `amm_order:${order.id}`,
+          lines: movement(lockedAccount(order.user_id), userAccount(order.user_id), order.token_in, order.amount_in),
+        });
+
+        const row = await tx.queryRow<AMMOrderRow>`
+          UPDATE amm_orders
+          SET status = 'cancelled', updated_at = NOW()
+          WHERE id = ${order.id}
+          RETURNING *
+        `;
+
+        await tx.commit();
+
+        return { order: toAMMOrder(row!) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Lists a user's orders, optionally filtered by status or pool.
+export const listAMMOrders = api<{ userId: string; status?: AMMOrderStatus; poolId?: number }, { orders: AMMOrder[] }>(
+  { expose: true, method: "GET", path: "/amm/orders" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/orders", "GET", async () => {
+      if (!req.userId) {
+        throw APIError.invalidArgument("userId is required");
+      }
+
+      const status = req.status ?? null;
+      const poolId = req.poolId ?? null;
+      const rows = await blockchainDB.queryAll<AMMOrderRow>`
+        SELECT * FROM amm_orders
+        WHERE user_id = ${req.userId}
+          AND (${status}::text IS NULL OR status = ${status})
+          AND (${poolId}::bigint IS NULL OR pool_id = ${poolId})
+        ORDER BY created_at DESC
+        LIMIT 200
+      `;
+
+      return { orders: rows.map(toAMMOrder) };
+    });
+  }
+);
+
+// Attempts to fill one open order. Returns true if it was filled.
+async function tryFillOrder(orderId: number): Promise<boolean> {
+  await using tx = await blockchainDB.begin();
+
+  try {
+    const order = await tx.queryRow<AMMOrderRow>`
+      SELECT * FROM amm_orders WHERE id = ${orderId} AND status = 'open' FOR UPDATE SKIP LOCKED
+    `;
+    if (!order) {
+      await tx.rollback();
+      return false;
+    }
+
+    // Lock the pool before evaluating the trigger so the price cannot move under us
+    const pool = await tx.queryRow<PoolReserves>`
+      SELECT token_a, token_b, reserve_a, reserve_b, fee_rate, curve_type, amplification
+      FROM liquidity_pools
+      WHERE id = ${order.pool_id}
+      FOR UPDATE
+    `;
+    if (!pool || !isOrderTriggered(order, pool)) {
+      await tx.rollback();
+      return false;
+    }
+
+    // Release the reserved funds and spend them through the regular swap path
+    await postJournalEntry(tx, {
+      entryType: 'order_release',
+      reference: `amm_order:${order.id}`,
+      lines: movement(lockedAccount(order.user_id), userAccount(order.user_id), order.token_in, order.amount_in),
+    });
+
+    const swap = await performSwap(tx, {
+      userId: order.user_id,
+      tokenIn: order.token_in,
+      tokenOut: order.token_out,
+      amountIn: order.amount_in,
+      minimumAmountOut: order.minimum_amount_out,
+      route: [order.token_in, order.token_out],
+    });
+
+    const txHash = "0x" + crypto.randomBytes(32).toString('hex');
+    await tx.exec`
+      UPDATE amm_orders
+      SET status = 'filled',
+          amount_out = ${swap.amountOut.toString()},
+          tx_hash = ${txHash},
+          last_error = NULL,
+          filled_at = NOW(),
+          updated_at = NOW()
+      WHERE id = ${order.id}
+    `;
+
+    await tx.commit();
+
+    await publishTransactionConfirmation({
+      userId: order.user_id,
+      type: 'order_fill',
+      status: 'completed',
+      message: `Your ${order.order_type} order #${order.id} filled: ${order.amount_in} ${order.token_in} for ${swap.amountOut.toString()} ${order.token_out}.`,
+      details: {
+        orderId: order.id,
+        orderType: order.order_type,
+        poolId: order.pool_id,
+        tokenIn: order.token_in,
+        tokenOut: order.token_out,
+        amountIn: order.amount_in,
+        amountOut: swap.amountOut.toString(),
+        executionPrice: swap.executionPrice,
+        txHash,
+      },
+    });
+
+    return true;
+  } catch (error) {
+    await tx.rollback();
+
+    // Leave the order open so it can fill on a later price move
+    const message = error instanceof Error ? error.message : String(error);
+    log.warn("Failed to fill AMM order", { orderId, error: message });
+    await blockchainDB.exec`
+      UPDATE amm_orders SET last_error = ${message}, updated_at = NOW()
+      WHERE id = ${orderId} AND status = 'open'
+    `;
+    return false;
+  }
+}
+
+// Fills every open order on the pool whose trigger condition holds, oldest first.
+// Fills move the price, so orders are re-evaluated one at a time against fresh reserves.
+export async function matchPoolOrders(poolId: number): Promise<number> {
+  const openOrders = await blockchainDB.queryAll<{ id: number }>`
+    SELECT id FROM amm_orders
+    WHERE pool_id = ${poolId} AND status = 'open'
+    ORDER BY created_at ASC, id ASC
+  `;
+
+  let filled = 0;
+  for (const { id } of openOrders) {
+    if (await tryFillOrder(id)) {
+      filled++;
+    }
+  }
+
+  if (filled > 0) {
+    log.info("Filled AMM orders", { poolId, filled });
+  }
+  return filled;
+}
+
+// Background matcher: re-checks resting orders whenever a pool's reserves change.
+new Subscription(poolUpdates, "match-amm-orders", {
+  handler: async (event) => {
+    await matchPoolOrders(event.poolId);
+  },
+});
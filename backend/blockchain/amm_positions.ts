@@ -0,0 +1,285 @@
+import { api, APIError } from "encore.dev/api";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { getCurve, type CurveType } from "./amm_math";
+import { readPairTWAP } from "./amm_oracle";
+
+// Scale of the pools' per-LP-token fee growth, matching the farms' acc_reward_per_share
+const PRECISION = 10n ** 18n;
+
+export interface FarmRewardPnL {
+  farmId: number;
+  rewardToken: string;
+  stakedTokens: string;
+  pendingRewards: string;
+  claimedRewards: string;
+  valueInTokenB?: string; // Pending plus claimed, omitted when the reward token has no price against tokenB
+}
+
+export interface PoolPositionPnL {
+  poolId: number;
+  tokenA: string;
+  tokenB: string;
+  liquidityTokens: string; // Held plus staked
+  stakedTokens: string;
+  sharePercentage: number;
+  price: number; // tokenA in tokenB at current reserves
+  currentAmountA: string; // Underlying tokens the LP tokens redeem for now
+  currentAmountB: string;
+  depositedAmountA: string; // Net deposits, reduced pro rata on withdrawal
+  depositedAmountB: string;
+  positionValue: string; // Values are in tokenB base units at the current price
+  hodlValue: string; // Value of simply holding the deposited tokens
+  feesEarnedA: string;
+  feesEarnedB: string;
+  feesValue: string;
+  impermanentLoss: string; // positionValue - feesValue - hodlValue; negative when providing liquidity lost against holding
+  impermanentLossPercent: number;
+  rewards: FarmRewardPnL[];
+  rewardsValue: string;
+  netPnl: string; // positionValue + rewardsValue - hodlValue
+  netPnlPercent: number;
+}
+
+// LP tokens a user owns in a pool: held in liquidity_positions plus staked in the pool's farms.
+async function ownedLiquidity(tx: any, userId: string, poolId: number): Promise<bigint> {
+  const row = await tx.queryRow<{ tokens: string }>`
+    SELECT (
+      COALESCE((SELECT liquidity_tokens FROM liquidity_positions WHERE user_id = ${userId} AND pool_id = ${poolId}), 0)
+      + COALESCE((
+        SELECT SUM(sp.staked_amount)
+        FROM staking_positions sp
+        JOIN yield_farming_pools yf ON yf.id = sp.farm_id
+        WHERE sp.user_id = ${userId} AND yf.pool_id = ${poolId}
+      ), 0)
+    )::text AS tokens
+  `;
+  return BigInt(row?.tokens ?? "0");
+}
+
+// Credits a swap's LP fee to every LP token in the pool. Runs after the swap's reserve update.
+export async function accrueSwapFees(tx: any, poolId: number, feeA: bigint, feeB: bigint) {
+  if (feeA === 0n && feeB === 0n) return;
+  await tx.exec`
+    UPDATE liquidity_pools
+    SET fee_growth_a = fee_growth_a + FLOOR(${feeA.toString()}::numeric * ${PRECISION.toString()} / total_liquidity),
+        fee_growth_b = fee_growth_b + FLOOR(${feeB.toString()}::numeric * ${PRECISION.toString()} / total_liquidity)
+    WHERE id = ${poolId} AND total_liquidity > 0
+  `;
+}
+
+// Brings a position's earned fees up to the pool's current fee growth. Must run before the
+// user's LP tokens in the pool change. Returns the LP tokens the user owned at that point.
+export async function checkpointPositionFees(tx: any, userId: string, poolId: number): Promise<bigint> {
+  const row = await tx.queryRow<{
+    id: number;
+    fee_growth_a_last: string;
+    fee_growth_b_last: string;
+    fee_growth_a: string;
+    fee_growth_b: string;
+  }>`
+    SELECT lp.id, lp.fee_growth_a_last, lp.fee_growth_b_last, p.fee_growth_a, p.fee_growth_b
+    FROM liquidity_positions lp
+    JOIN liquidity_pools p ON p.id = lp.pool_id
+    WHERE lp.user_id = ${userId} AND lp.pool_id = ${poolId}
+  `;
+  if (!row) return 0n;
+
+  const owned = await ownedLiquidity(tx, userId, poolId);
+  const earnedA = owned * (BigInt(row.fee_growth_a) - BigInt(row.fee_growth_a_last)) / PRECISION;
+  const earnedB = owned * (BigInt(row.fee_growth_b) - BigInt(row.fee_growth_b_last)) / PRECISION;
+
+  await tx.exec`
+    UPDATE liquidity_positions
+    SET fees_earned_a = fees_earned_a + ${earnedA.toString()},
+        fees_earned_b = fees_earned_b + ${earnedB.toString()},
+        fee_growth_a_last = ${row.fee_growth_a},
+        fee_growth_b_last = ${row.fee_growth_b}
+    WHERE id = ${row.id}
+  `;
+  return owned;
+}
+
+// Adds a deposit to the position's cost basis. Runs after checkpointPositionFees and the
+// position upsert, so new positions start earning from the pool's current fee growth.
+export async function recordPositionDeposit(tx: any, userId: string, poolId: number, amountA: bigint, amountB: bigint) {
+  await tx.exec`
+    UPDATE liquidity_positions lp
+    SET deposited_a = lp.deposited_a + ${amountA.toString()},
+        deposited_b = lp.deposited_b + ${amountB.toString()},
+        fee_growth_a_last = p.fee_growth_a,
+        fee_growth_b_last = p.fee_growth_b
+    FROM liquidity_pools p
+    WHERE p.id = lp.pool_id AND lp.user_id = ${userId} AND lp.pool_id = ${poolId}
+  `;
+}
+
+// Shrinks the cost basis and earned fees in proportion to the LP tokens withdrawn, so the
+// remaining position is still compared like for like. `owned` comes from checkpointPositionFees.
+export async function recordPositionWithdrawal(tx: any, userId: string, poolId: number, burned: bigint, owned: bigint) {
+  if (owned === 0n) return;
+  const remaining = owned - burned;
+  await tx.exec`
+    UPDATE liquidity_positions
+    SET deposited_a = FLOOR(deposited_a * ${remaining.toString()} / ${owned.toString()}),
+        deposited_b = FLOOR(deposited_b * ${remaining.toString()} / ${owned.toString()}),
+        fees_earned_a = FLOOR(fees_earned_a * ${remaining.toString()} / ${owned.toString()}),
+        fees_earned_b = FLOOR(fees_earned_b * ${remaining.toString()} / ${owned.toString()})
+    WHERE user_id = ${userId} AND pool_id = ${poolId}
+  `;
+}
+
+function valueInTokenB(amountA: bigint, amountB: bigint, price: number): bigint {
+  return amountB + BigInt(Math.floor(Number(amountA) * price));
+}
+
+function percentOf(amount: bigint, base: bigint): number {
+  return base === 0n ? 0 : (Number(amount) / Number(base)) * 100;
+}
+
+// Values each of a user's liquidity positions at current reserves and compares it with
+// holding the deposited tokens, including swap fees earned and farm rewards, per pool.
+export const getLiquidityPositionPnL = api<{ userId: string }, { userId: string; positions: PoolPositionPnL[] }>(
+  { expose: true, method: "GET", path: "/amm/positions/:userId/pnl" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/positions/pnl", "GET", async () => {
+      if (!req.userId) {
+        throw APIError.invalidArgument("userId is required");
+      }
+
+      const rows = await blockchainDB.queryAll<{
+        pool_id: number;
+        liquidity_tokens: string;
+        deposited_a: string;
+        deposited_b: string;
+        fees_earned_a: string;
+        fees_earned_b: string;
+        fee_growth_a_last: string;
+        fee_growth_b_last: string;
+        token_a: string;
+        token_b: string;
+        reserve_a: string;
+        reserve_b: string;
+        total_liquidity: string;
+        fee_rate: number;
+        curve_type: CurveType;
+        amplification: number | null;
+        fee_growth_a: string;
+        fee_growth_b: string;
+      }>`
+        SELECT lp.pool_id, lp.liquidity_tokens, lp.deposited_a, lp.deposited_b,
+               lp.fees_earned_a, lp.fees_earned_b, lp.fee_growth_a_last, lp.fee_growth_b_last,
+               p.token_a, p.token_b, p.reserve_a, p.reserve_b, p.total_liquidity,
+               p.fee_rate, p.curve_type, p.amplification, p.fee_growth_a, p.fee_growth_b
+        FROM liquidity_positions lp
+        JOIN liquidity_pools p ON p.id = lp.pool_id
+        WHERE lp.user_id = ${req.userId}
+        ORDER BY lp.pool_id
+      `;
+
+      const stakes = await blockchainDB.queryAll<{
+        farm_id: number;
+        pool_id: number;
+        reward_token: string;
+        staked_amount: string;
+        effective_stake: string;
+        reward_debt: string;
+        pending_rewards: string;
+        rewards_claimed: string;
+        acc_reward_per_share: string;
+      }>`
+        SELECT sp.farm_id, yf.pool_id, yf.reward_token, sp.staked_amount, sp.effective_stake, sp.reward_debt,
+               sp.pending_rewards, sp.rewards_claimed, yf.acc_reward_per_share
+        FROM staking_positions sp
+        JOIN yield_farming_pools yf ON yf.id = sp.farm_id
+        WHERE sp.user_id = ${req.userId}
+      `;
+
+      const positions: PoolPositionPnL[] = [];
+      for (const row of rows) {
+        const poolStakes = stakes.filter(s => s.pool_id === row.pool_id);
+        const stakedTokens = poolStakes.reduce((sum, s) => sum + BigInt(s.staked_amount), 0n);
+        const owned = BigInt(row.liquidity_tokens) + stakedTokens;
+        if (owned === 0n) continue;
+
+        const reserveA = BigInt(row.reserve_a);
+        const reserveB = BigInt(row.reserve_b);
+        const totalLiquidity = BigInt(row.total_liquidity);
+        const price = getCurve(row).spotPrice(reserveA, reserveB);
+
+        const currentA = totalLiquidity === 0n ? 0n : owned * reserveA / totalLiquidity;
+        const currentB = totalLiquidity === 0n ? 0n : owned * reserveB / totalLiquidity;
+        const depositedA = BigInt(row.deposited_a);
+        const depositedB = BigInt(row.deposited_b);
+
+        // Fees checkpointed so far plus those accrued since the last checkpoint
+        const feesA = BigInt(row.fees_earned_a) + owned * (BigInt(row.fee_growth_a) - BigInt(row.fee_growth_a_last)) / PRECISION;
+        const feesB = BigInt(row.fees_earned_b) + owned * (BigInt(row.fee_growth_b) - BigInt(row.fee_growth_b_last)) / PRECISION;
+
+        const positionValue = valueInTokenB(currentA, currentB, price);
+        const hodlValue = valueInTokenB(depositedA, depositedB, price);
+        const feesValue = valueInTokenB(feesA, feesB, price);
+        const impermanentLoss = positionValue - feesValue - hodlValue;
+
+        const rewards: FarmRewardPnL[] = [];
+        let rewardsValue = 0n;
+        for (const stake of poolStakes) {
+          // Rewards accrue on the lock-boosted stake, not the raw LP tokens
+          const accrued = BigInt(stake.effective_stake) * BigInt(stake.acc_reward_per_share) / PRECISION - BigInt(stake.reward_debt);
+          const pending = BigInt(stake.pending_rewards) + accrued;
+          const claimed = BigInt(stake.rewards_claimed);
+          const earned = pending + claimed;
+
+          let rewardPrice: number | null;
+          if (stake.reward_token === row.token_b) {
+            rewardPrice = 1;
+          } else if (stake.reward_token === row.token_a) {
+            rewardPrice = price;
+          } else {
+            rewardPrice = await readPairTWAP(stake.reward_token, row.token_b);
+          }
+          const value = rewardPrice === null ? undefined : valueInTokenB(earned, 0n, rewardPrice);
+          rewardsValue += value ?? 0n;
+
+          rewards.push({
+            farmId: stake.farm_id,
+            rewardToken: stake.reward_token,
+            stakedTokens: stake.staked_amount,
+            pendingRewards: pending.toString(),
+            claimedRewards: stake.rewards_claimed,
+            valueInTokenB: value?.toString(),
+          });
+        }
+
+        const netPnl = positionValue + rewardsValue - hodlValue;
+
+        positions.push({
+          poolId: row.pool_id,
+          tokenA: row.token_a,
+          tokenB: row.token_b,
+          liquidityTokens: owned.toString(),
+          stakedTokens: stakedTokens.toString(),
+          sharePercentage: percentOf(owned, totalLiquidity),
+          price,
+          currentAmountA: currentA.toString(),
+          currentAmountB: currentB.toString(),
+          depositedAmountA: depositedA.toString(),
+          depositedAmountB: depositedB.toString(),
+          positionValue: positionValue.toString(),
+          hodlValue: hodlValue.toString(),
+          feesEarnedA: feesA.toString(),
+          feesEarnedB: feesB.toString(),
+          feesValue: feesValue.toString(),
+          impermanentLoss: impermanentLoss.toString(),
+          impermanentLossPercent: percentOf(impermanentLoss, hodlValue),
+          rewards,
+          rewardsValue: rewardsValue.toString(),
+          netPnl: netPnl.toString(),
+          netPnlPercent: percentOf(netPnl, hodlValue),
+        });
+      }
+
+      return { userId: req.userId, positions };
+    });
+  }
+);
@@ -0,0 +1,229 @@
+import { APIError } from "encore.dev/api";
+import { quoteExactIn, quoteExactOut, ratio, type PoolReserves, type TradeQuote } from "./amm_math";
+
+export const DEFAULT_MAX_HOPS = 3;
+export const MAX_ROUTE_HOPS = 4;
+
+export interface RoutablePool extends PoolReserves {
+  id: number;
+}
+
+export interface SwapHop {
+  poolId: number;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  fee: string;
+  spotPrice: number;
+  executionPrice: number;
+  priceImpact: number;
+}
+
+export interface SwapRoute {
+  route: string[];
+  pools: RoutablePool[];
+  hops: SwapHop[];
+  amountIn: bigint;
+  amountOut: bigint;
+  spotPrice: number;
+  executionPrice: number;
+  priceImpact: number;
+  fee: bigint;
+}
+
+function toHop(pool: RoutablePool, tokenIn: string, quote: TradeQuote): SwapHop {
+  return {
+    poolId: pool.id,
+    tokenIn,
+    tokenOut: pool.token_a === tokenIn ? pool.token_b : pool.token_a,
+    amountIn: quote.amountIn.toString(),
+    amountOut: quote.amountOut.toString(),
+    fee: quote.fee.toString(),
+    spotPrice: quote.spotPrice,
+    executionPrice: quote.executionPrice,
+    priceImpact: quote.priceImpact,
+  };
+}
+
+function summarize(pools: RoutablePool[], route: string[], hops: SwapHop[]): SwapRoute {
+  const amountIn = BigInt(hops[0].amountIn);
+  const amountOut = BigInt(hops[hops.length - 1].amountOut);
+
+  // Spot prices multiply along the path and price impact compounds hop by hop
+  const spotPrice = hops.reduce((acc, hop) => acc * hop.spotPrice, 1);
+  const priceImpact = (1 - hops.reduce((acc, hop) => acc * (1 - hop.priceImpact / 100), 1)) * 100;
+
+  // Express the compounded LP fee in units of the input token
+  let inputNetOfFees = amountIn;
+  for (const hop of hops) {
+    const hopAmountIn = BigInt(hop.amountIn);
+    if (hopAmountIn > 0n) {
+      inputNetOfFees = inputNetOfFees * (hopAmountIn - BigInt(hop.fee)) / hopAmountIn;
+    }
+  }
+
+  return {
+    route,
+    pools,
+    hops,
+    amountIn,
+    amountOut,
+    spotPrice,
+    executionPrice: ratio(amountOut, amountIn),
+    priceImpact: Math.round(priceImpact * 100) / 100,
+    fee: amountIn - inputNetOfFees,
+  };
+}
+
+// Quotes a single hop through `pool`, oriented by which side tokenIn is on.
+export function quoteHop(pool: RoutablePool, tokenIn: string, amountIn: bigint): SwapHop {
+  return toHop(pool, tokenIn, quoteExactIn(pool, tokenIn, amountIn));
+}
+
+// Walks amountIn through an ordered list of pools starting from tokenIn.
+export function quotePath(pools: RoutablePool[], tokenIn: string, amountIn: bigint): SwapRoute {
+  const hops: SwapHop[] = [];
+  const route = [tokenIn];
+  let currentToken = tokenIn;
+  let currentAmount = amountIn;
+
+  for (const pool of pools) {
+    if (pool.token_a !== currentToken && pool.token_b !== currentToken) {
+      throw APIError.invalidArgument(`Pool ${pool.id} does not trade ${currentToken}`);
+    }
+    const hop = quoteHop(pool, currentToken, currentAmount);
+    hops.push(hop);
+    currentToken = hop.tokenOut;
+    currentAmount = BigInt(hop.amountOut);
+    route.push(currentToken);
+  }
+
+  return summarize(pools, route, hops);
+}
+
+// Works backwards from the desired amountOut to the input needed at each hop.
+// Returns null when any pool on the path cannot supply the required amount.
+export function quotePathExactOut(pools: RoutablePool[], tokenIn: string, amountOut: bigint): SwapRoute | null {
+  const route = [tokenIn];
+  for (const pool of pools) {
+    const current = route[route.length - 1];
+    if (pool.token_a !== current && pool.token_b !== current) {
+      throw APIError.invalidArgument(`Pool ${pool.id} does not trade ${current}`);
+    }
+    route.push(pool.token_a === current ? pool.token_b : pool.token_a);
+  }
+
+  let required = amountOut;
+  for (let i = pools.length - 1; i >= 0; i--) {
+    const quote = quoteExactOut(pools[i], route[i], required);
+    if (!quote) return null;
+    required = quote.amountIn;
+  }
+
+  // Re-run forwards so every hop reflects the rounded-up inputs exactly as a swap would execute
+  return quotePath(pools, tokenIn, required);
+}
+
+// Enumerates simple paths of at most maxHops pools from tokenIn to tokenOut. When
+// tokenPath is given, only paths through exactly those tokens are returned (used to
+// execute a previously quoted route).
+function enumeratePaths(
+  pools: RoutablePool[],
+  tokenIn: string,
+  tokenOut: string,
+  maxHops: number,
+  tokenPath?: string[]
+): RoutablePool[][] {
+  if (tokenIn === tokenOut) {
+    throw APIError.invalidArgument("Input and output tokens must differ");
+  }
+  if (tokenPath) {
+    if (tokenPath.length < 2 || tokenPath[0] !== tokenIn || tokenPath[tokenPath.length - 1] !== tokenOut) {
+      throw APIError.invalidArgument("Route must start with tokenIn and end with tokenOut");
+    }
+    maxHops = tokenPath.length - 1;
+  }
+  if (maxHops < 1 || maxHops > MAX_ROUTE_HOPS) {
+    throw APIError.invalidArgument(`maxHops must be between 1 and ${MAX_ROUTE_HOPS}`);
+  }
+
+  const usable = pools.filter(p => BigInt(p.reserve_a) > 0n && BigInt(p.reserve_b) > 0n);
+  const byToken = new Map<string, RoutablePool[]>();
+  for (const pool of usable) {
+    for (const token of [pool.token_a, pool.token_b]) {
+      if (!byToken.has(token)) byToken.set(token, []);
+      byToken.get(token)!.push(pool);
+    }
+  }
+
+  const paths: RoutablePool[][] = [];
+  const visitedTokens = new Set<string>([tokenIn]);
+  const path: RoutablePool[] = [];
+
+  const search = (token: string) => {
+    if (path.length >= maxHops) return;
+    for (const pool of byToken.get(token) ?? []) {
+      const nextToken = pool.token_a === token ? pool.token_b : pool.token_a;
+      if (tokenPath && tokenPath[path.length + 1] !== nextToken) continue;
+      if (nextToken !== tokenOut && visitedTokens.has(nextToken)) continue;
+
+      path.push(pool);
+      if (nextToken === tokenOut) {
+        if (!tokenPath || path.length === tokenPath.length - 1) {
+          paths.push([...path]);
+        }
+      } else {
+        visitedTokens.add(nextToken);
+        search(nextToken);
+        visitedTokens.delete(nextToken);
+      }
+      path.pop();
+    }
+  };
+
+  search(tokenIn);
+  return paths;
+}
+
+// Finds the path that yields the most tokenOut for an exact amountIn.
+export function findBestRoute(
+  pools: RoutablePool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  maxHops: number = DEFAULT_MAX_HOPS,
+  tokenPath?: string[]
+): SwapRoute | null {
+  let best: SwapRoute | null = null;
+  for (const path of enumeratePaths(pools, tokenIn, tokenOut, maxHops, tokenPath)) {
+    const candidate = quotePath(path, tokenIn, amountIn);
+    if (candidate.amountOut === 0n) continue;
+    if (!best || candidate.amountOut > best.amountOut ||
+        (candidate.amountOut === best.amountOut && candidate.hops.length < best.hops.length)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
+
+// Finds the path that needs the least tokenIn to receive an exact amountOut.
+export function findBestRouteExactOut(
+  pools: RoutablePool[],
+  tokenIn: string,
+  tokenOut: string,
+  amountOut: bigint,
+  maxHops: number = DEFAULT_MAX_HOPS,
+  tokenPath?: string[]
+): SwapRoute | null {
+  let best: SwapRoute | null = null;
+  for (const path of enumeratePaths(pools, tokenIn, tokenOut, maxHops, tokenPath)) {
+    const candidate = quotePathExactOut(path, tokenIn, amountOut);
+    if (!candidate) continue;
+    if (!best || candidate.amountIn < best.amountIn ||
+        (candidate.amountIn === best.amountIn && candidate.hops.length < best.hops.length)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,271 @@
+import { api, APIError } from "encore.dev/api";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { requireAdmin } from "./admin";
+import { isPositiveInteger } from "./amm_math";
+import { movement, postJournalEntry, systemAccount, userAccount, type LedgerAccount } from "./ledger";
+
+const DEFAULT_LEDGER_LIMIT = 100;
+const MAX_LEDGER_LIMIT = 1000;
+
+export type TreasuryEntryType = 'swap_fee' | 'flash_loan_fee' | 'farm_refund' | 'withdrawal';
+
+export interface TreasuryBalance {
+  token: string;
+  balance: string;
+  totalAccrued: string;
+  totalWithdrawn: string;
+  lastUpdated: Date;
+}
+
+export interface TreasuryLedgerEntry {
+  id: number;
+  token: string;
+  amount: string; // Negative for withdrawals
+  entryType: TreasuryEntryType;
+  poolId?: number;
+  recipient?: string;
+  adminId?: string;
+  proposalId?: number;
+  actionIndex?: number; // The proposal action that made the withdrawal
+  reference?: string;
+  createdAt: Date;
+}
+
+export interface SetProtocolFeeRequest {
+  adminId: string;
+  poolId: number;
+  protocolFeeBps: number; // Share of each swap fee sent to the treasury, 0 turns the switch off
+}
+
+// Governance pays out of the treasury through treasury_transfer proposal actions instead.
+export interface TreasuryWithdrawRequest {
+  token: string;
+  amount: string;
+  recipient: string; // User credited with the withdrawn tokens
+  adminId: string;
+}
+
+interface LedgerRow {
+  id: number;
+  token: string;
+  amount: string;
+  entry_type: TreasuryEntryType;
+  pool_id: number | null;
+  recipient: string | null;
+  admin_id: string | null;
+  proposal_id: number | null;
+  action_index: number | null;
+  reference: string | null;
+  created_at: Date;
+}
+
+function toLedgerEntry(row: LedgerRow): TreasuryLedgerEntry {
+  return {
+    id: row.id,
+    token: row.token,
+    amount: row.amount,
+    entryType: row.entry_type,
+    poolId: row.pool_id ?? undefined,
+    recipient: row.recipient ?? undefined,
+    adminId: row.admin_id ?? undefined,
+    proposalId: row.proposal_id ?? undefined,
+    actionIndex: row.action_index ?? undefined,
+    reference: row.reference ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// Splits a swap fee between LPs and the treasury by the pool's protocol fee share.
+export function splitSwapFee(fee: bigint, protocolFeeBps: number): { lpFee: bigint; protocolFee: bigint } {
+  const protocolFee = fee * BigInt(protocolFeeBps) / 10000n;
+  return { lpFee: fee - protocolFee, protocolFee };
+}
+
+// Credits protocol revenue to the treasury inside the caller's transaction. Fees have already
+// been paid into the pools, so by default the journal moves them from the pools to the treasury.
+export async function accrueToTreasury(tx: any, entry: {
+  token: string;
+  amount: bigint;
+  entryType: Exclude<TreasuryEntryType, 'withdrawal'>;
+  account?: LedgerAccount; // Debited instead of the pools, e.g. a farm's unused reward budget
+  poolId?: number;
+  reference?: string;
+}) {
+  if (entry.amount <= 0n) return;
+  await postJournalEntry(tx, {
+    entryType: `treasury_${entry.entryType}`,
+    reference: entry.reference ?? (entry.poolId !== undefined ? `pool:${entry.poolId}` : undefined),
+    lines: movement(entry.account ?? systemAccount('amm_pools'), systemAccount('treasury'), entry.token, entry.amount),
+  });
+  await tx.exec`
+    INSERT INTO treasury_balances (token, balance, total_accrued)
+    VALUES (${entry.token}, ${entry.amount.toString()}, ${entry.amount.toString()})
+    ON CONFLICT (token) DO UPDATE SET
+      balance = treasury_balances.balance + EXCLUDED.balance,
+      total_accrued = treasury_balances.total_accrued + EXCLUDED.total_accrued,
+      last_updated = NOW()
+  `;
+  await tx.exec`
+    INSERT INTO treasury_ledger (token, amount, entry_type, pool_id, reference)
+    VALUES (${entry.token}, ${entry.amount.toString()}, ${entry.entryType}, ${entry.poolId ?? null}, ${entry.reference ?? null})
+  `;
+}
+
+// Moves tokens out of the treasury to a user's balance, or to the given journal account,
+// inside the caller's transaction. The caller must already have checked that the withdrawal
+// is authorized.
+export async function withdrawTreasuryFunds(tx: any, params: {
+  token: string;
+  amount: bigint;
+  recipient: string;
+  account?: LedgerAccount; // Credited instead of the recipient's balance, e.g. a farm's reward budget
+  adminId?: string;
+  proposalId?: number;
+  actionIndex?: number; // Set with proposalId; each action of a proposal withdraws at most once
+}): Promise<TreasuryLedgerEntry> {
+  const debited = await tx.queryRow<{ token: string }>`
+    UPDATE treasury_balances
+    SET balance = balance - ${params.amount.toString()},
+        total_withdrawn = total_withdrawn + ${params.amount.toString()},
+        last_updated = NOW()
+    WHERE token = ${params.token} AND balance >= ${params.amount.toString()}
+    RETURNING token
+  `;
+  if (!debited) {
+    throw APIError.failedPrecondition(`Insufficient ${params.token} in the treasury`);
+  }
+
+  await postJournalEntry(tx, {
+    entryType: 'treasury_withdrawal',
+    reference: params.proposalId !== undefined ? `proposal:${params.proposalId}` : undefined,
+    lines: movement(systemAccount('treasury'), params.account ?? userAccount(params.recipient), params.token, params.amount),
+  });
+
+  const row = await tx.queryRow<LedgerRow>`
+    INSERT INTO treasury_ledger (token, amount, entry_type, recipient, admin_id, proposal_id, action_index)
+    VALUES (
+      ${params.token}, ${(-params.amount).toString()}, 'withdrawal', ${params.recipient},
+      ${params.adminId ?? null}, ${params.proposalId ?? null}, ${params.actionIndex ?? null}
+    )
+    RETURNING *
+  `;
+  return toLedgerEntry(row!);
+}
+
+// Returns the treasury's balance of every token it has collected.
+export const getTreasuryBalances = api<void, { balances: TreasuryBalance[] }>(
+  { expose: true, method: "GET", path: "/amm/treasury" },
+  async () => {
+    return withPerformanceMonitoring("/amm/treasury", "GET", async () => {
+      const rows = await blockchainDB.queryAll<{
+        token: string;
+        balance: string;
+        total_accrued: string;
+        total_withdrawn: string;
+        last_updated: Date;
+      }>`
+        SELECT token, balance, total_accrued, total_withdrawn, last_updated
+        FROM treasury_balances
+        ORDER BY token
+      `;
+      return {
+        balances: rows.map(row => ({
+          token: row.token,
+          balance: row.balance,
+          totalAccrued: row.total_accrued,
+          totalWithdrawn: row.total_withdrawn,
+          lastUpdated: row.last_updated,
+        })),
+      };
+    });
+  }
+);
+
+// Returns the most recent treasury accruals and withdrawals, optionally for one token.
+export const getTreasuryLedger = api<{ token?: string; limit?: number }, { entries: TreasuryLedgerEntry[] }>(
+  { expose: true, method: "GET", path: "/amm/treasury/ledger" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/treasury/ledger", "GET", async () => {
+      const limit = req.limit ?? DEFAULT_LEDGER_LIMIT;
+      if (limit < 1 || limit > MAX_LEDGER_LIMIT) {
+        throw APIError.invalidArgument(`limit must be between 1 and ${MAX_LEDGER_LIMIT}`);
+      }
+
+      const rows = await blockchainDB.queryAll<LedgerRow>`
+        SELECT * FROM treasury_ledger
+        WHERE ${req.token ?? null}::text IS NULL OR token = ${req.token ?? null}
+        ORDER BY created_at DESC, id DESC
+        LIMIT ${limit}
+      `;
+      return { entries: rows.map(toLedgerEntry) };
+    });
+  }
+);
+
+// Sets the share of a pool's swap fees that goes to the treasury.
+export const setPoolProtocolFee = api<SetProtocolFeeRequest, { poolId: number; protocolFeeBps: number }>(
+  { expose: true, method: "POST", path: "/admin/pools/:poolId/protocol-fee" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/pools/protocol-fee", "POST", async () => {
+      const { protocolFeeBps } = req;
+      if (!Number.isInteger(protocolFeeBps) || protocolFeeBps < 0 || protocolFeeBps > 10000) {
+        throw APIError.invalidArgument("Protocol fee must be between 0 and 10000 basis points of the swap fee");
+      }
+
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const pool = await tx.queryRow<{ id: number }>`
+          UPDATE liquidity_pools SET protocol_fee_bps = ${protocolFeeBps}
+          WHERE id = ${req.poolId}
+          RETURNING id
+        `;
+        if (!pool) {
+          throw APIError.notFound("Liquidity pool not found");
+        }
+
+        await tx.commit();
+        return { poolId: req.poolId, protocolFeeBps };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Withdraws treasury funds to a recipient. Only admins can withdraw directly.
+export const withdrawFromTreasury = api<TreasuryWithdrawRequest, { entry: TreasuryLedgerEntry }>(
+  { expose: true, method: "POST", path: "/amm/treasury/withdraw" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/treasury/withdraw", "POST", async () => {
+      if (!isPositiveInteger(req.amount)) {
+        throw APIError.invalidArgument("Withdrawal amount must be a positive integer");
+      }
+      const amount = BigInt(req.amount);
+      if (!req.recipient) {
+        throw APIError.invalidArgument("recipient is required");
+      }
+
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const entry = await withdrawTreasuryFunds(tx, {
+          token: req.token,
+          amount,
+          recipient: req.recipient,
+          adminId: req.adminId,
+        });
+
+        await tx.commit();
+        return { entry };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
@@ -0,0 +1,540 @@
+import { api, APIError } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { requireAdmin } from "./admin";
+import { mintLiquidity, swapThroughPools, updateYieldFarmRewards, YIELD_FARMS_ACCOUNT, type MintablePool } from "./amm";
+import { isPositiveInteger } from "./amm_math";
+import { readPairTWAP } from "./amm_oracle";
+import { movement, postJournalEntry, systemAccount } from "./ledger";
+import { checkpointPositionFees, recordPositionDeposit, recordPositionWithdrawal } from "./amm_positions";
+import { publishPoolUpdate } from "./amm_events";
+
+const PRECISION = 10n ** 18n;
+// How far below the oracle price a harvest swap may fill. Covers the swap fee and the
+// harvest's own price impact; anything worse means the pool was pushed off its TWAP.
+const HARVEST_SLIPPAGE_BPS = 300n;
+
+export interface FarmVault {
+  id: number;
+  farmId: number;
+  poolId: number;
+  rewardToken: string;
+  totalShares: string;
+  totalStaked: string; // LP tokens the vault has staked in its farm
+  liquidityPerShare: number;
+  totalCompounded: string; // LP tokens added by harvests
+  harvestCount: number;
+  lastHarvestAt?: Date;
+  createdAt: Date;
+}
+
+export interface VaultPosition {
+  vaultId: number;
+  farmId: number;
+  poolId: number;
+  shares: string;
+  liquidityTokens: string; // LP tokens the shares redeem for now
+  sharePercentage: number;
+}
+
+export interface VaultDepositRequest {
+  userId: string;
+  vaultId: number;
+  amount: string; // Unstaked LP tokens of the farm's pool
+}
+
+export interface VaultWithdrawRequest {
+  userId: string;
+  vaultId: number;
+  shares: string;
+}
+
+export interface VaultHarvestResult {
+  vaultId: number;
+  rewardsHarvested: string;
+  liquidityAdded: string;
+}
+
+interface VaultRow {
+  id: number;
+  farm_id: number;
+  pool_id: number;
+  reward_token: string;
+  total_shares: string;
+  total_staked: string;
+  total_compounded: string;
+  harvest_count: number;
+  last_harvest_at: Date | null;
+  created_at: Date;
+}
+
+// The account a vault stakes under in staking_positions.
+function vaultAccount(vaultId: number): string {
+  return `vault:${vaultId}`;
+}
+
+function toFarmVault(row: VaultRow): FarmVault {
+  const totalShares = BigInt(row.total_shares);
+  return {
+    id: row.id,
+    farmId: row.farm_id,
+    poolId: row.pool_id,
+    rewardToken: row.reward_token,
+    totalShares: row.total_shares,
+    totalStaked: row.total_staked,
+    liquidityPerShare: totalShares > 0n ? Number(row.total_staked) / Number(row.total_shares) : 1,
+    totalCompounded: row.total_compounded,
+    harvestCount: row.harvest_count,
+    lastHarvestAt: row.last_harvest_at ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+async function selectVaultForUpdate(tx: any, vaultId: number): Promise<VaultRow> {
+  const vault = await tx.queryRow<VaultRow>`
+    SELECT v.id, v.farm_id, yf.pool_id, yf.reward_token, v.total_shares,
+           COALESCE(sp.staked_amount, 0)::text AS total_staked,
+           v.total_compounded, v.harvest_count, v.last_harvest_at, v.created_at
+    FROM farm_vaults v
+    JOIN yield_farming_pools yf ON yf.id = v.farm_id
+    LEFT JOIN staking_positions sp ON sp.farm_id = v.farm_id AND sp.user_id = 'vault:' || v.id
+    WHERE v.id = ${vaultId}
+    FOR UPDATE OF v
+  `;
+  if (!vault) {
+    throw APIError.notFound("Vault not found");
+  }
+  return vault;
+}
+
+// Brings the vault's farm stake up to date and changes it by `delta` LP tokens. With `claim`,
+// the rewards accrued so far are taken out of the stake and returned; otherwise they stay pending.
+async function settleVaultStake(tx: any, vault: VaultRow, delta: bigint, claim: boolean): Promise<bigint> {
+  await updateYieldFarmRewards(vault.farm_id, tx);
+  const farm = await tx.queryRow<{ acc_reward_per_share: string }>`
+    SELECT acc_reward_per_share FROM yield_farming_pools WHERE id = ${vault.farm_id}
+  `;
+  const accRewardPerShare = BigInt(farm!.acc_reward_per_share);
+  const account = vaultAccount(vault.id);
+
+  const position = await tx.queryRow<{ staked_amount: string; reward_debt: string; pending_rewards: string }>`
+    SELECT staked_amount, reward_debt, pending_rewards
+    FROM staking_positions
+    WHERE user_id = ${account} AND farm_id = ${vault.farm_id}
+    FOR UPDATE
+  `;
+  // Vaults never lock, so their effective stake is their staked amount
+  const staked = BigInt(position?.staked_amount ?? "0");
+  const accrued = position
+    ? BigInt(position.pending_rewards) + (staked * accRewardPerShare / PRECISION) - BigInt(position.reward_debt)
+    : 0n;
+
+  const newStaked = staked + delta;
+  const pending = claim ? 0n : accrued;
+  const claimed = claim ? accrued : 0n;
+
+  await tx.exec`
+    INSERT INTO staking_positions (user_id, farm_id, staked_amount, effective_stake, reward_debt, pending_rewards, rewards_claimed)
+    VALUES (
+      ${account}, ${vault.farm_id}, ${newStaked.toString()}, ${newStaked.toString()},
+      ${(newStaked * accRewardPerShare / PRECISION).toString()}, ${pending.toString()}, ${claimed.toString()}
+    )
+    ON CONFLICT (user_id, farm_id) DO UPDATE SET
+      staked_amount = EXCLUDED.staked_amount,
+      effective_stake = EXCLUDED.effective_stake,
+      reward_debt = EXCLUDED.reward_debt,
+      pending_rewards = EXCLUDED.pending_rewards,
+      rewards_claimed = staking_positions.rewards_claimed + EXCLUDED.rewards_claimed,
+      last_updated = NOW()
+  `;
+  if (delta !== 0n) {
+    await tx.exec`
+      UPDATE yield_farming_pools
+      SET total_staked = total_staked + ${delta.toString()},
+          total_effective_stake = total_effective_stake + ${delta.toString()}
+      WHERE id = ${vault.farm_id}
+    `;
+  }
+  return claimed;
+}
+
+// Prices the reward token in one of the pool's tokens off the TWAP, going through the vault's
+// own pool when the reward token only trades against its other token. Null without a price.
+async function harvestPrice(rewardToken: string, token: string, otherToken: string): Promise<number | null> {
+  const direct = await readPairTWAP(rewardToken, token);
+  if (direct) return direct;
+  const toOther = await readPairTWAP(rewardToken, otherToken);
+  const otherPrice = await readPairTWAP(otherToken, token);
+  return toOther && otherPrice ? toOther * otherPrice : null;
+}
+
+// Claims a vault's farm rewards, swaps them into the pool's two tokens, adds them as liquidity
+// and restakes the LP tokens, all inside the caller's transaction. Returns the pools touched.
+async function compoundVault(tx: any, vaultId: number): Promise<{ result: VaultHarvestResult; poolIds: Set<number> }> {
+  const vault = await selectVaultForUpdate(tx, vaultId);
+  const rewards = await settleVaultStake(tx, vault, 0n, true);
+  const poolIds = new Set<number>();
+
+  if (rewards === 0n) {
+    return { result: { vaultId, rewardsHarvested: "0", liquidityAdded: "0" }, poolIds };
+  }
+
+  const pool = await tx.queryRow<{ token_a: string; token_b: string }>`
+    SELECT token_a, token_b FROM liquidity_pools WHERE id = ${vault.pool_id}
+  `;
+  if (!pool) {
+    throw APIError.notFound("Liquidity pool not found");
+  }
+
+  // Split the rewards in half by value: a reward token that is one of the pool's tokens
+  // keeps half as is, otherwise each half is swapped into one side
+  const amounts: Record<string, bigint> = { [pool.token_a]: 0n, [pool.token_b]: 0n };
+  const half = rewards / 2n;
+  const portions: [string, bigint][] = [[pool.token_a, half], [pool.token_b, rewards - half]];
+  for (const [token, portion] of portions) {
+    if (token === vault.reward_token || portion === 0n) {
+      amounts[token] += portion;
+      continue;
+    }
+    // Anyone can trigger a harvest, so the swap must not fill far from the oracle price
+    const price = await harvestPrice(vault.reward_token, token, token === pool.token_a ? pool.token_b : pool.token_a);
+    if (!price) {
+      throw APIError.failedPrecondition(`No oracle price for ${vault.reward_token}/${token}`);
+    }
+    const minimumAmountOut = BigInt(Math.floor(Number(portion) * price)) * (10000n - HARVEST_SLIPPAGE_BPS) / 10000n;
+    const swap = await swapThroughPools(tx, {
+      tokenIn: vault.reward_token,
+      tokenOut: token,
+      amountIn: portion.toString(),
+      minimumAmountOut: minimumAmountOut.toString(),
+    });
+    swap.hops.forEach(hop => poolIds.add(hop.poolId));
+    amounts[token] += swap.amountOut;
+  }
+
+  const lockedPool = await tx.queryRow<MintablePool>`
+    SELECT id, reserve_a, reserve_b, total_liquidity, fee_rate, curve_type, amplification
+    FROM liquidity_pools
+    WHERE id = ${vault.pool_id}
+    FOR UPDATE
+  `;
+  // Swapping moves the price, so the two sides rarely match the pool ratio exactly;
+  // the excess of the larger side stays in the pool like any unbalanced deposit
+  const minted = await mintLiquidity(tx, vaultAccount(vaultId), lockedPool!, amounts[pool.token_a], amounts[pool.token_b]);
+  poolIds.add(vault.pool_id);
+
+  // Every reward token ends up in pool reserves: swapped halves in the pools on their route,
+  // the rest (and the swap outputs) in the vault's pool
+  await postJournalEntry(tx, {
+    entryType: 'vault_harvest',
+    reference: `vault:${vaultId}`,
+    lines: movement(YIELD_FARMS_ACCOUNT, systemAccount('amm_pools'), vault.reward_token, rewards),
+  });
+
+  await settleVaultStake(tx, vault, minted, false);
+  await tx.exec`
+    UPDATE farm_vaults
+    SET total_compounded = total_compounded + ${minted.toString()},
+        harvest_count = harvest_count + 1,
+        last_harvest_at = NOW()
+    WHERE id = ${vaultId}
+  `;
+
+  return {
+    result: { vaultId, rewardsHarvested: rewards.toString(), liquidityAdded: minted.toString() },
+    poolIds,
+  };
+}
+
+async function harvestInTransaction(vaultId: number): Promise<VaultHarvestResult> {
+  await using tx = await blockchainDB.begin();
+  try {
+    const { result, poolIds } = await compoundVault(tx, vaultId);
+    await tx.commit();
+    for (const poolId of poolIds) {
+      await publishPoolUpdate({ poolId, reason: 'swap' });
+    }
+    return result;
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+// Opens an auto-compounding vault on a farm. Vaults restake continuously, so farms with a
+// lock period are not supported.
+export const createFarmVault = api<{ adminId: string; farmId: number }, { vault: FarmVault }>(
+  { expose: true, method: "POST", path: "/admin/vaults" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/vaults", "POST", async () => {
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const farm = await tx.queryRow<{ id: number; lock_period_days: number; ended_at: Date | null }>`
+          SELECT id, lock_period_days, ended_at FROM yield_farming_pools WHERE id = ${req.farmId}
+        `;
+        if (!farm) {
+          throw APIError.notFound("Yield farm not found");
+        }
+        if (farm.ended_at) {
+          throw APIError.failedPrecondition("Yield farm has ended");
+        }
+        if (farm.lock_period_days > 0) {
+          throw APIError.failedPrecondition("Vaults are only available for farms without a lock period");
+        }
+
+        const created = await tx.queryRow<{ id: number }>`
+          INSERT INTO farm_vaults (farm_id) VALUES (${req.farmId})
+          ON CONFLICT (farm_id) DO NOTHING
+          RETURNING id
+        `;
+        if (!created) {
+          throw APIError.alreadyExists("A vault for this farm already exists");
+        }
+
+        const vault = await selectVaultForUpdate(tx, created.id);
+        await tx.commit();
+        return { vault: toFarmVault(vault) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Lists the auto-compounding vaults with their staked LP tokens and share price.
+export const getFarmVaults = api<void, { vaults: FarmVault[] }>(
+  { expose: true, method: "GET", path: "/amm/vaults" },
+  async () => {
+    return withPerformanceMonitoring("/amm/vaults", "GET", async () => {
+      const rows = await blockchainDB.queryAll<VaultRow>`
+        SELECT v.id, v.farm_id, yf.pool_id, yf.reward_token, v.total_shares,
+               COALESCE(sp.staked_amount, 0)::text AS total_staked,
+               v.total_compounded, v.harvest_count, v.last_harvest_at, v.created_at
+        FROM farm_vaults v
+        JOIN yield_farming_pools yf ON yf.id = v.farm_id
+        LEFT JOIN staking_positions sp ON sp.farm_id = v.farm_id AND sp.user_id = 'vault:' || v.id
+        ORDER BY v.id
+      `;
+      return { vaults: rows.map(toFarmVault) };
+    });
+  }
+);
+
+// Returns a user's vault shares and the LP tokens they are worth.
+export const getUserVaultPositions = api<{ userId: string }, { positions: VaultPosition[] }>(
+  { expose: true, method: "GET", path: "/amm/vaults/positions/:userId" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/vaults/positions", "GET", async () => {
+      const rows = await blockchainDB.queryAll<{
+        vault_id: number;
+        farm_id: number;
+        pool_id: number;
+        shares: string;
+        total_shares: string;
+        total_staked: string;
+      }>`
+        SELECT vp.vault_id, v.farm_id, yf.pool_id, vp.shares, v.total_shares,
+               COALESCE(sp.staked_amount, 0)::text AS total_staked
+        FROM vault_positions vp
+        JOIN farm_vaults v ON v.id = vp.vault_id
+        JOIN yield_farming_pools yf ON yf.id = v.farm_id
+        LEFT JOIN staking_positions sp ON sp.farm_id = v.farm_id AND sp.user_id = 'vault:' || v.id
+        WHERE vp.user_id = ${req.userId} AND vp.shares > 0
+        ORDER BY vp.vault_id
+      `;
+
+      const positions = rows.map(row => {
+        const shares = BigInt(row.shares);
+        const totalShares = BigInt(row.total_shares);
+        return {
+          vaultId: row.vault_id,
+          farmId: row.farm_id,
+          poolId: row.pool_id,
+          shares: row.shares,
+          liquidityTokens: (totalShares > 0n ? shares * BigInt(row.total_staked) / totalShares : 0n).toString(),
+          sharePercentage: totalShares > 0n ? Number(shares * 1000000n / totalShares) / 10000 : 0,
+        };
+      });
+
+      return { positions };
+    });
+  }
+);
+
+// Moves a user's unstaked LP tokens into a vault in exchange for vault shares.
+export const depositToVault = api<VaultDepositRequest, { shares: string }>(
+  { expose: true, method: "POST", path: "/amm/vaults/:vaultId/deposit" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/vaults/deposit", "POST", async () => {
+      if (!isPositiveInteger(req.amount)) {
+        throw APIError.invalidArgument("Deposit amount must be a positive integer");
+      }
+      const amount = BigInt(req.amount);
+
+      await using tx = await blockchainDB.begin();
+      try {
+        const vault = await selectVaultForUpdate(tx, req.vaultId);
+
+        const lpPosition = await tx.queryRow<{ id: number; liquidity_tokens: string }>`
+          SELECT id, liquidity_tokens FROM liquidity_positions
+          WHERE user_id = ${req.userId} AND pool_id = ${vault.pool_id}
+          FOR UPDATE
+        `;
+        if (!lpPosition || BigInt(lpPosition.liquidity_tokens) < amount) {
+          throw APIError.failedPrecondition("Insufficient LP tokens");
+        }
+
+        // Shares are priced against the stake before this deposit
+        const totalShares = BigInt(vault.total_shares);
+        const totalStaked = BigInt(vault.total_staked);
+        const shares = totalShares === 0n || totalStaked === 0n ? amount : amount * totalShares / totalStaked;
+        if (shares <= 0n) {
+          throw APIError.invalidArgument("Deposit is too small to mint any vault shares");
+        }
+
+        // The LP tokens leave the user's position, so its cost basis shrinks with them
+        const owned = await checkpointPositionFees(tx, req.userId, vault.pool_id);
+        await recordPositionWithdrawal(tx, req.userId, vault.pool_id, amount, owned);
+        await tx.exec`
+          UPDATE liquidity_positions
+          SET liquidity_tokens = liquidity_tokens - ${amount.toString()}, last_updated = NOW()
+          WHERE id = ${lpPosition.id}
+        `;
+
+        await settleVaultStake(tx, vault, amount, false);
+
+        await tx.exec`
+          UPDATE farm_vaults SET total_shares = total_shares + ${shares.toString()} WHERE id = ${vault.id}
+        `;
+        await tx.exec`
+          INSERT INTO vault_positions (vault_id, user_id, shares)
+          VALUES (${vault.id}, ${req.userId}, ${shares.toString()})
+          ON CONFLICT (vault_id, user_id)
+          DO UPDATE SET shares = vault_positions.shares + ${shares.toString()}, last_updated = NOW()
+        `;
+
+        await tx.commit();
+        return { shares: shares.toString() };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Redeems vault shares for LP tokens, including everything compounded since the deposit.
+export const withdrawFromVault = api<VaultWithdrawRequest, { liquidityTokens: string }>(
+  { expose: true, method: "POST", path: "/amm/vaults/:vaultId/withdraw" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/vaults/withdraw", "POST", async () => {
+      if (!isPositiveInteger(req.shares)) {
+        throw APIError.invalidArgument("Share amount must be a positive integer");
+      }
+      const shares = BigInt(req.shares);
+
+      await using tx = await blockchainDB.begin();
+      try {
+        const vault = await selectVaultForUpdate(tx, req.vaultId);
+
+        const position = await tx.queryRow<{ shares: string }>`
+          SELECT shares FROM vault_positions
+          WHERE vault_id = ${vault.id} AND user_id = ${req.userId}
+          FOR UPDATE
+        `;
+        if (!position || BigInt(position.shares) < shares) {
+          throw APIError.failedPrecondition("Insufficient vault shares");
+        }
+
+        const liquidityTokens = shares * BigInt(vault.total_staked) / BigInt(vault.total_shares);
+        if (liquidityTokens <= 0n) {
+          throw APIError.invalidArgument("Share amount too small to withdraw");
+        }
+
+        await settleVaultStake(tx, vault, -liquidityTokens, false);
+
+        await tx.exec`
+          UPDATE farm_vaults SET total_shares = total_shares - ${shares.toString()} WHERE id = ${vault.id}
+        `;
+        await tx.exec`
+          UPDATE vault_positions
+          SET shares = shares - ${shares.toString()}, last_updated = NOW()
+          WHERE vault_id = ${vault.id} AND user_id = ${req.userId}
+        `;
+
+        // Returned LP tokens join the user's position at their current underlying value
+        const pool = await tx.queryRow<{ reserve_a: string; reserve_b: string; total_liquidity: string }>`
+          SELECT reserve_a, reserve_b, total_liquidity FROM liquidity_pools WHERE id = ${vault.pool_id}
+        `;
+        const totalLiquidity = BigInt(pool!.total_liquidity);
+        await checkpointPositionFees(tx, req.userId, vault.pool_id);
+        await tx.exec`
+          INSERT INTO liquidity_positions (user_id, pool_id, liquidity_tokens, share_percentage)
+          VALUES (${req.userId}, ${vault.pool_id}, ${liquidityTokens.toString()},
+                  ${liquidityTokens.toString()}::numeric / ${totalLiquidity.toString()}::numeric * 100)
+          ON CONFLICT (user_id, pool_id)
+          DO UPDATE SET
+            liquidity_tokens = liquidity_positions.liquidity_tokens + ${liquidityTokens.toString()},
+            last_updated = NOW()
+        `;
+        await recordPositionDeposit(
+          tx, req.userId, vault.pool_id,
+          liquidityTokens * BigInt(pool!.reserve_a) / totalLiquidity,
+          liquidityTokens * BigInt(pool!.reserve_b) / totalLiquidity
+        );
+
+        await tx.commit();
+        return { liquidityTokens: liquidityTokens.toString() };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Compounds a vault now. Anyone may trigger a harvest, so its swaps only fill near the oracle
+// price; an hourly cron job also runs it.
+export const harvestVault = api<{ vaultId: number }, VaultHarvestResult>(
+  { expose: true, method: "POST", path: "/amm/vaults/:vaultId/harvest" },
+  async (req) => {
+    return withPerformanceMonitoring("/amm/vaults/harvest", "POST", async () => {
+      return harvestInTransaction(req.vaultId);
+    });
+  }
+);
+
+// Compounds every vault, each in its own transaction so one failing harvest does not block the rest.
+export const harvestAllVaults = api<void, { harvested: number; failed: number }>(
+  { expose: false, method: "POST", path: "/internal/amm/vaults/harvest" },
+  async () => {
+    const vaults = await blockchainDB.queryAll<{ id: number }>`
+      SELECT id FROM farm_vaults ORDER BY id
+    `;
+
+    let harvested = 0;
+    let failed = 0;
+    for (const { id } of vaults) {
+      try {
+        const result = await harvestInTransaction(id);
+        if (result.rewardsHarvested !== "0") harvested++;
+      } catch (error) {
+        failed++;
+        const message = error instanceof Error ? error.message : String(error);
+        log.warn("Vault harvest failed", { vaultId: id, error: message });
+      }
+    }
+    return { harvested, failed };
+  }
+);
+
+const _ = new CronJob("amm-vault-harvest", {
+  title: "Compound yield farm vaults",
+  every: "1h",
+  endpoint: harvestAllVaults,
+});
@@ -3,9 +3,17 @@ import { monitoredBlockchainDB as blockchainDB } from "./db";
 import { withPerformanceMonitoring } from "./health";
 import crypto from "crypto";
 
-const LARGE_TRANSFER_THRESHOLD = 1000000; // e.g., $1,000,000 USD value
-const TIME_LOCK_DURATION_MINUTES = 60; // 1 hour
-const MULTI_SIG_REQUIRED_SIGNATURES = 3;
+// Limits applied to new transfers, stored in bridge_limits and changed by governance proposals
+export interface BridgeLimits {
+  largeTransferThreshold: string; // Transfers above this are time-locked and need multi-sig approval
+  timeLockMinutes: number;
+  requiredSignatures: number;
+  maxPendingTransfers: number; // Pending transfers a user may start per hour
+  updatedByProposal?: number;
+  updatedAt: Date;
+}
+
+export type BridgeLimitsUpdate = Partial<Pick<BridgeLimits, 'largeTransferThreshold' | 'timeLockMinutes' | 'requiredSignatures' | 'maxPendingTransfers'>>;
 
 export interface BridgeRequest {
   userId: string;
@@ -56,6 +64,72 @@ export interface BridgeTransfer {
   };
 }
 
+interface BridgeLimitsRow {
+  large_transfer_threshold: string;
+  time_lock_minutes: number;
+  required_signatures: number;
+  max_pending_transfers: number;
+  updated_by_proposal: number | null;
+  updated_at: Date;
+}
+
+function toBridgeLimits(row: BridgeLimitsRow): BridgeLimits {
+  return {
+    largeTransferThreshold: row.large_transfer_threshold,
+    timeLockMinutes: row.time_lock_minutes,
+    requiredSignatures: row.required_signatures,
+    maxPendingTransfers: row.max_pending_transfers,
+    updatedByProposal: row.updated_by_proposal ?? undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+export async function loadBridgeLimits(db: any): Promise<BridgeLimits> {
+  const row = await db.queryRow`SELECT * FROM bridge_limits` as BridgeLimitsRow;
+  return toBridgeLimits(row);
+}
+
+export function validateBridgeLimits(changes: BridgeLimitsUpdate) {
+  const { largeTransferThreshold, timeLockMinutes, requiredSignatures, maxPendingTransfers } = changes;
+  if (largeTransferThreshold !== undefined && !(/^\d+$/.test(largeTransferThreshold) && BigInt(largeTransferThreshold) > 0n)) {
+    throw APIError.invalidArgument("Large transfer threshold must be a positive integer");
+  }
+  if (timeLockMinutes !== undefined && (!Number.isInteger(timeLockMinutes) || timeLockMinutes < 0)) {
+    throw APIError.invalidArgument("Time lock must be a whole number of minutes");
+  }
+  if (requiredSignatures !== undefined && (!Number.isInteger(requiredSignatures) || requiredSignatures < 1)) {
+    throw APIError.invalidArgument("Required signatures must be at least 1");
+  }
+  if (maxPendingTransfers !== undefined && (!Number.isInteger(maxPendingTransfers) || maxPendingTransfers < 1)) {
+    throw APIError.invalidArgument("Max pending transfers must be at least 1");
+  }
+}
+
+// Changes the given bridge limits inside the caller's transaction. The caller must already
+// have checked that the change is authorized.
+export async function updateBridgeLimits(tx: any, changes: BridgeLimitsUpdate, proposalId?: number): Promise<BridgeLimits> {
+  validateBridgeLimits(changes);
+  const row = await tx.queryRow`
+    UPDATE bridge_limits
+    SET large_transfer_threshold = COALESCE(${changes.largeTransferThreshold ?? null}::numeric, large_transfer_threshold),
+        time_lock_minutes = COALESCE(${changes.timeLockMinutes ?? null}::int, time_lock_minutes),
+        required_signatures = COALESCE(${changes.requiredSignatures ?? null}::int, required_signatures),
+        max_pending_transfers = COALESCE(${changes.maxPendingTransfers ?? null}::int, max_pending_transfers),
+        updated_by_proposal = ${proposalId ?? null},
+        updated_at = NOW()
+    RETURNING *
+  ` as BridgeLimitsRow;
+  return toBridgeLimits(row);
+}
+
+// Returns the limits applied to new bridge transfers.
+export const getBridgeLimits = api<void, { limits: BridgeLimits }>(
+  { expose: true, method: "GET", path: "/bridge/limits" },
+  async () => {
+    return { limits: await loadBridgeLimits(blockchainDB) };
+  }
+);
+
 // Initiates a cross-chain token transfer.
 export const initiateBridgeTransfer = api<BridgeRequest, BridgeResponse>(
   { expose: true, method: "POST", path: "/bridge/initiate" },
@@ -71,13 +145,15 @@ export const initiateBridgeTransfer = api<BridgeRequest, BridgeResponse>(
         throw APIError.invalidArgument("Cannot bridge to the same network.");
       }
 
+      const limits = await loadBridgeLimits(blockchainDB);
+
       const recentTransfers = await blockchainDB.queryRow<{ count: number }>`
         SELECT COUNT(*) as count FROM bridge_transfers 
         WHERE user_id = ${userId} 
         AND created_at > NOW() - INTERVAL '1 hour'
         AND status = 'pending'
       `;
-      if (recentTransfers && recentTransfers.count >= 5) {
+      if (recentTransfers && recentTransfers.count >= limits.maxPendingTransfers) {
         throw APIError.resourceExhausted("Too many pending bridge transfers. Please wait for completion.");
       }
 
@@ -103,8 +179,8 @@ export const initiateBridgeTransfer = api<BridgeRequest, BridgeResponse>(
       const initiationTxHash = "0x" + crypto.randomBytes(32).toString('hex');
       const fee = (transferAmount * 5n) / 1000n;
 
-      const isLargeTransfer = Number(transferAmount) > LARGE_TRANSFER_THRESHOLD;
-      const unlockTime = isLargeTransfer ? new Date(Date.now() + TIME_LOCK_DURATION_MINUTES * 60 * 1000) : null;
+      const isLargeTransfer = transferAmount > BigInt(limits.largeTransferThreshold);
+      const unlockTime = isLargeTransfer ? new Date(Date.now() + limits.timeLockMinutes * 60 * 1000) : null;
       
       await using tx = await blockchainDB.begin();
       try {
@@ -128,7 +204,7 @@ export const initiateBridgeTransfer = api<BridgeRequest, BridgeResponse>(
         if (isLargeTransfer) {
           await tx.exec`
             INSERT INTO multi_sig_transactions (bridge_transfer_id, required_signatures)
-            VALUES (${transfer.id}, ${MULTI_SIG_REQUIRED_SIGNATURES})
+            VALUES (${transfer.id}, ${limits.requiredSignatures})
           `;
         }
 
@@ -136,7 +212,7 @@ export const initiateBridgeTransfer = api<BridgeRequest, BridgeResponse>(
 
         let message = "Bridge transfer initiated successfully.";
         if (isLargeTransfer) {
-          message += ` This is a large transfer and is time-locked for ${TIME_LOCK_DURATION_MINUTES} minutes and requires multi-signature approval.`;
+          message += ` This is a large transfer and is time-locked for ${limits.timeLockMinutes} minutes and requires multi-signature approval.`;
         }
 
         return {
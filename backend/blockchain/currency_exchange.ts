@@ -4,6 +4,23 @@ import { withErrorHandling, generateRequestId, logRequest, logResponse } from ".
 import crypto from "crypto";
 import { publishTransactionConfirmation } from "./notifications";
 import { getCache, setCache, invalidateCache } from "../shared/cache";
+import { readPairTWAP } from "./amm_oracle";
+import { refreshExchangeRates } from "./rate_providers";
+import { movement, postJournalEntry, systemAccount, userAccount, type LedgerAccount } from "./ledger";
+import { generateMnemonic, receiveChainFromMnemonic } from "./hd_wallet";
+import { insertHdWallet } from "./wallets";
+
+const ORACLE_WINDOW_SECONDS = 1800;
+// Decimal places each exchange currency is traded and settled in. ASM trades against
+// every other currency here that has an ASM/<currency> row in currency_exchange_rates.
+export const CURRENCY_DECIMALS: Record<string, number> = { USD: 2, ASM: 8, ETH: 8, BTC: 8 };
+const QUOTE_TTL_SECONDS = 30;
+
+// Journal accounts: the desk users trade ASM against, the fees it keeps, and the source of
+// the demo starting balances
+const EXCHANGE_ACCOUNT = systemAccount('exchange');
+const EXCHANGE_FEES_ACCOUNT = systemAccount('exchange_fees');
+export const DEMO_FAUCET_ACCOUNT = systemAccount('demo_faucet');
 
 export interface ExchangeRate {
   id: number;
@@ -13,6 +30,7 @@ export interface ExchangeRate {
   volume24h: number;
   change24h: number;
   marketCap: number;
+  feeRate: number; // Fee on buys and sells of the pair, as a fraction of the trade value
   lastUpdated: Date;
 }
 
@@ -20,6 +38,7 @@ export interface UserWallet {
   id: number;
   userId: string;
   address: string;
+  derivationPath?: string; // BIP-44 receive chain of the wallet's addresses; unset for wallets without a mnemonic
   createdAt: Date;
   lastAccessed: Date;
 }
@@ -36,6 +55,9 @@ export interface CurrencyTransaction {
   feeAmount: number;
   status: string;
   blockchainTxHash?: string;
+  recurringBuyId?: number; // Set on executions of a recurring buy plan
+  counterpartyUserId?: string; // The other party of a transfer_in or transfer_out
+  memo?: string;
   createdAt: Date;
   completedAt?: Date;
 }
@@ -46,6 +68,7 @@ export interface UserBalance {
   currency: string;
   balance: number;
   lockedBalance: number;
+  decimals?: number; // Set for exchange currencies
   lastUpdated: Date;
 }
 
@@ -55,8 +78,10 @@ export interface ExchangeRatesResponse {
 
 export interface BuyTokenRequest {
   userId: string;
-  usdAmount: number;
+  usdAmount: number; // Amount of paymentCurrency to spend
   targetCurrency: string; // 'ASM'
+  paymentCurrency?: string; // 'USD' (default), 'ETH' or 'BTC'
+  quoteId?: string; // From /exchange/quote; the trade fills at the quote's locked rate
 }
 
 export interface BuyTokenResponse {
@@ -68,12 +93,13 @@ export interface BuyTokenResponse {
 export interface SellTokenRequest {
   userId: string;
   asmAmount: number;
-  targetCurrency: string; // 'USD'
+  targetCurrency: string; // 'USD', 'ETH' or 'BTC'
+  quoteId?: string; // From /exchange/quote; the trade fills at the quote's locked rate
 }
 
 export interface SellTokenResponse {
   transaction: CurrencyTransaction;
-  estimatedUsd: number;
+  estimatedUsd: number; // In targetCurrency
   totalFee: number;
 }
 
@@ -86,13 +112,33 @@ export interface UserBalancesResponse {
   wallet?: UserWallet;
 }
 
+export interface ExchangeQuoteRequest {
+  userId: string;
+  side: 'buy' | 'sell';
+  amount: number; // Currency to spend on a buy, ASM to sell on a sell
+  currency?: string; // Currency traded against ASM; defaults to USD
+}
+
+export interface ExchangeQuote {
+  quoteId: string;
+  userId: string;
+  side: 'buy' | 'sell';
+  fromCurrency: string;
+  toCurrency: string;
+  amountIn: number;
+  amountOut: number; // Guaranteed until expiresAt, after the fee
+  exchangeRate: number;
+  feeAmount: number;
+  expiresAt: Date;
+}
+
 export interface CreateWalletRequest {
   userId: string;
 }
 
 export interface CreateWalletResponse {
   wallet: UserWallet;
-  seedPhrase: string;
+  seedPhrase: string; // BIP-39 mnemonic; shown once, the wallet can be restored from it
 }
 
 // Rate limiting storage
@@ -169,8 +215,10 @@ export const getExchangeRates = api<void, ExchangeRatesResponse>(
           // Ensure exchange rates exist
           await ensureExchangeRatesExist();
           
-          // Update rates with some randomness to simulate market movement
-          await updateExchangeRates();
+          // Pull fresh rates from the configured providers
+          await refreshExchangeRates().catch(error => {
+            console.error('Failed to refresh exchange rates:', error);
+          });
 
           const rows = await blockchainDB.queryAll<{
             id: number;
@@ -180,6 +228,7 @@ export const getExchangeRates = api<void, ExchangeRatesResponse>(
             volume_24h: number;
             change_24h: number;
             market_cap: number;
+            fee_rate: number;
             last_updated: Date;
           }>`
             SELECT * FROM currency_exchange_rates 
@@ -194,6 +243,7 @@ export const getExchangeRates = api<void, ExchangeRatesResponse>(
             volume24h: row.volume_24h,
             change24h: row.change_24h,
             marketCap: row.market_cap,
+            feeRate: Number(row.fee_rate),
             lastUpdated: row.last_updated,
           }));
         }
@@ -262,41 +312,22 @@ export const createWallet = api<CreateWalletRequest, CreateWalletResponse>(
             throw APIError.alreadyExists("User already has a wallet");
           }
 
-          // Generate new wallet
-          const address = "0x" + crypto.randomBytes(20).toString('hex');
-          const privateKey = crypto.randomBytes(32).toString('hex');
-          const encryptedPrivateKey = crypto.createHash('sha256').update(privateKey + req.userId).digest('hex');
-          const seedPhrase = generateSeedPhrase();
-
-          const row = await blockchainDB.queryRow<{
-            id: number;
-            user_id: string;
-            address: string;
-            created_at: Date;
-            last_accessed: Date;
-          }>`
-            INSERT INTO user_wallets (user_id, address, private_key_encrypted)
-            VALUES (${req.userId}, ${address}, ${encryptedPrivateKey})
-            RETURNING id, user_id, address, created_at, last_accessed
-          `;
-
-          if (!row) {
-            throw new Error("Failed to create wallet");
+          // Generate a new mnemonic; the wallet address is its first receive address
+          const seedPhrase = generateMnemonic();
+          await using tx = await blockchainDB.begin();
+          let wallet: UserWallet;
+          try {
+            wallet = await insertHdWallet(tx, req.userId, receiveChainFromMnemonic(seedPhrase));
+            await tx.commit();
+          } catch (error) {
+            await tx.rollback();
+            throw error;
           }
 
           // Initialize user balances with default values
           await initializeUserBalances(req.userId);
 
-          return {
-            wallet: {
-              id: row.id,
-              userId: row.user_id,
-              address: row.address,
-              createdAt: row.created_at,
-              lastAccessed: row.last_accessed,
-            },
-            seedPhrase
-          };
+          return { wallet, seedPhrase };
         }
       );
 
@@ -351,6 +382,13 @@ export const getUserBalances = api<UserBalancesRequest, UserBalancesResponse>(
           // Ensure demo user data exists
           await ensureDemoUserExists(req.userId);
 
+          // Every exchange currency is listed, even before the user has held any
+          await blockchainDB.exec`
+            INSERT INTO user_balances (user_id, currency, balance)
+            SELECT ${req.userId}, currency, 0 FROM unnest(${Object.keys(CURRENCY_DECIMALS)}::text[]) AS currency
+            ON CONFLICT (user_id, currency) DO NOTHING
+          `;
+
           const balanceRows = await blockchainDB.queryAll<{
             id: number;
             user_id: string;
@@ -368,10 +406,11 @@ export const getUserBalances = api<UserBalancesRequest, UserBalancesResponse>(
             id: number;
             user_id: string;
             address: string;
+            derivation_path: string | null;
             created_at: Date;
             last_accessed: Date;
           }>`
-            SELECT id, user_id, address, created_at, last_accessed 
+            SELECT id, user_id, address, derivation_path, created_at, last_accessed 
             FROM user_wallets 
             WHERE user_id = ${req.userId}
           `;
@@ -382,6 +421,7 @@ export const getUserBalances = api<UserBalancesRequest, UserBalancesResponse>(
             currency: row.currency,
             balance: row.balance,
             lockedBalance: row.locked_balance,
+            decimals: CURRENCY_DECIMALS[row.currency],
             lastUpdated: row.last_updated,
           }));
 
@@ -389,6 +429,7 @@ export const getUserBalances = api<UserBalancesRequest, UserBalancesResponse>(
             id: walletRow.id,
             userId: walletRow.user_id,
             address: walletRow.address,
+            derivationPath: walletRow.derivation_path ?? undefined,
             createdAt: walletRow.created_at,
             lastAccessed: walletRow.last_accessed,
           } : undefined;
@@ -413,7 +454,168 @@ export const getUserBalances = api<UserBalancesRequest, UserBalancesResponse>(
   }
 );
 
-// Allows users to buy ASM tokens with USD.
+// Rate limiting: 10 purchases per hour per user, shared by manual and recurring buys.
+export function checkPurchaseRateLimit(userId: string): boolean {
+  return checkRateLimit(`buy-${userId}`, 10, 3600000);
+}
+
+// Moves the balances for a trade against the exchange desk and completes its transaction
+// record inside the caller's transaction. On a buy the user pays counterAmount, fee included;
+// on a sell they receive counterAmount and the fee is kept on top of it.
+export async function settleExchangeTrade(tx: any, transactionId: number, params: {
+  userId: string;
+  account?: LedgerAccount; // Traded from instead of the user's balance, e.g. flash loan funds held in the pools
+  side: 'buy' | 'sell';
+  asmAmount: number;
+  currency: string;
+  counterAmount: number;
+  feeAmount: number;
+}) {
+  const user = params.account ?? userAccount(params.userId);
+  const lines = params.side === 'buy'
+    ? [
+        ...movement(user, EXCHANGE_ACCOUNT, params.currency, params.counterAmount),
+        ...movement(EXCHANGE_ACCOUNT, user, 'ASM', params.asmAmount),
+      ]
+    : [
+        ...movement(user, EXCHANGE_ACCOUNT, 'ASM', params.asmAmount),
+        ...movement(EXCHANGE_ACCOUNT, user, params.currency, params.counterAmount),
+      ];
+
+  await postJournalEntry(tx, {
+    entryType: params.side,
+    reference: `currency_transaction:${transactionId}`,
+    lines: [...lines, ...movement(EXCHANGE_ACCOUNT, EXCHANGE_FEES_ACCOUNT, params.currency, params.feeAmount)],
+  });
+  await tx.exec`
+    UPDATE currency_transactions
+    SET status = 'completed', completed_at = NOW()
+    WHERE id = ${transactionId}
+  `;
+}
+
+interface CurrencyTransactionRow {
+  id: number;
+  user_id: string;
+  transaction_type: string;
+  from_currency: string;
+  to_currency: string;
+  from_amount: number;
+  to_amount: number;
+  exchange_rate: number;
+  fee_amount: number;
+  status: string;
+  created_at: Date;
+}
+
+// Buys ASM with the payment currency: checks the balance, prices the trade or redeems a
+// firm quote, moves the balances and records the transaction. Shared by buyTokens and the
+// recurring buy job, which links its executions through recurringBuyId.
+export async function executePurchase(params: {
+  userId: string;
+  amount: number;
+  paymentCurrency: string;
+  quoteId?: string;
+  recurringBuyId?: number;
+}): Promise<BuyTokenResponse> {
+  // Ensure demo user exists
+  await ensureDemoUserExists(params.userId);
+
+  // Check user payment currency balance
+  const balanceRow = await blockchainDB.queryRow<{ balance: number }>`
+    SELECT balance FROM user_balances 
+    WHERE user_id = ${params.userId} AND currency = ${params.paymentCurrency}
+  `;
+
+  if (!balanceRow || balanceRow.balance < params.amount) {
+    throw APIError.failedPrecondition(`Insufficient ${params.paymentCurrency} balance`);
+  }
+
+  // The quote claim, the transaction record and the settlement commit or roll back together,
+  // so a failed settlement neither burns the quote nor leaves a pending transaction behind
+  await using tx = await blockchainDB.begin();
+  let txRow: CurrencyTransactionRow;
+  let estimatedTokens: number;
+  let feeAmount: number;
+  try {
+    const priced = params.quoteId
+      ? await redeemExchangeQuote(tx, params.quoteId, params.userId, 'buy', params.amount, params.paymentCurrency)
+      : await quoteExchangeTrade('buy', params.amount, params.paymentCurrency);
+    estimatedTokens = priced.amountOut;
+    feeAmount = priced.feeAmount;
+
+    // Create transaction record
+    const inserted = await tx.queryRow<CurrencyTransactionRow>`
+      INSERT INTO currency_transactions (
+        user_id, transaction_type, from_currency, to_currency,
+        from_amount, to_amount, exchange_rate, fee_amount, status, recurring_buy_id
+      )
+      VALUES (
+        ${params.userId}, 'buy', ${params.paymentCurrency}, 'ASM',
+        ${params.amount}, ${estimatedTokens}, ${priced.rate}, ${feeAmount}, 'pending', ${params.recurringBuyId ?? null}
+      )
+      RETURNING *
+    `;
+    if (!inserted) {
+      throw new Error("Failed to create transaction");
+    }
+    txRow = inserted;
+
+    if (params.quoteId) {
+      await tx.exec`
+        UPDATE exchange_quotes SET transaction_id = ${txRow.id} WHERE id = ${params.quoteId}
+      `;
+    }
+
+    // Simulate instant execution for demo
+    await settleExchangeTrade(tx, txRow.id, {
+      userId: params.userId,
+      side: 'buy',
+      asmAmount: estimatedTokens,
+      currency: params.paymentCurrency,
+      counterAmount: params.amount,
+      feeAmount,
+    });
+
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+
+  const response = {
+    transaction: {
+      id: txRow.id,
+      userId: txRow.user_id,
+      transactionType: txRow.transaction_type,
+      fromCurrency: txRow.from_currency,
+      toCurrency: txRow.to_currency,
+      fromAmount: txRow.from_amount,
+      toAmount: txRow.to_amount,
+      exchangeRate: txRow.exchange_rate,
+      feeAmount: txRow.fee_amount,
+      status: 'completed',
+      recurringBuyId: params.recurringBuyId,
+      createdAt: txRow.created_at,
+      completedAt: new Date(),
+    },
+    estimatedTokens,
+    totalFee: feeAmount,
+  };
+
+  await publishTransactionConfirmation({
+    userId: params.userId,
+    type: 'buy',
+    status: 'completed',
+    message: `Successfully purchased ${response.estimatedTokens.toFixed(2)} ASM.`,
+    details: response.transaction,
+  });
+
+  invalidateCache(`user-balances:${params.userId}`);
+  return response;
+}
+
+// Allows users to buy ASM tokens with USD, ETH or BTC.
 export const buyTokens = api<BuyTokenRequest, BuyTokenResponse>(
   { expose: true, method: "POST", path: "/exchange/buy" },
   async (req) => {
@@ -428,8 +630,7 @@ export const buyTokens = api<BuyTokenRequest, BuyTokenResponse>(
         path: '/exchange/buy'
       });
 
-      // Rate limiting: 10 purchases per hour per user
-      if (!checkRateLimit(`buy-${req.userId}`, 10, 3600000)) {
+      if (!checkPurchaseRateLimit(req.userId)) {
         throw APIError.resourceExhausted("Rate limit exceeded for token purchases");
       }
 
@@ -439,128 +640,31 @@ export const buyTokens = api<BuyTokenRequest, BuyTokenResponse>(
         throw APIError.invalidArgument("User ID is required");
       }
 
-      if (!req.usdAmount || req.usdAmount <= 0) {
-        throw APIError.invalidArgument("USD amount must be positive");
-      }
+      const paymentCurrency = req.paymentCurrency ?? 'USD';
 
       if (req.targetCurrency !== 'ASM') {
         throw APIError.invalidArgument("Only ASM token purchases are supported");
       }
 
-      const result = await withErrorHandling(
-        'buy-tokens',
-        requestId,
-        async () => {
-          // Ensure demo user exists
-          await ensureDemoUserExists(req.userId);
-
-          // Get current exchange rate
-          const rateRow = await blockchainDB.queryRow<{ rate: number }>`
-            SELECT rate FROM currency_exchange_rates 
-            WHERE currency_pair = 'ASM/USD'
-            ORDER BY last_updated DESC 
-            LIMIT 1
-          `;
-
-          if (!rateRow) {
-            throw APIError.internal("Exchange rate not available");
-          }
-
-          const asmPerUsd = 1 / rateRow.rate; // Convert USD rate to ASM rate
-          const feePercentage = 0.025; // 2.5% fee
-          const feeAmount = req.usdAmount * feePercentage;
-          const netUsdAmount = req.usdAmount - feeAmount;
-          const estimatedTokens = netUsdAmount * asmPerUsd;
-
-          // Check user USD balance
-          const balanceRow = await blockchainDB.queryRow<{ balance: number }>`
-            SELECT balance FROM user_balances 
-            WHERE user_id = ${req.userId} AND currency = 'USD'
-          `;
-
-          if (!balanceRow || balanceRow.balance < req.usdAmount) {
-            throw APIError.failedPrecondition("Insufficient USD balance");
-          }
-
-          // Create transaction record
-          const txRow = await blockchainDB.queryRow<{
-            id: number;
-            user_id: string;
-            transaction_type: string;
-            from_currency: string;
-            to_currency: string;
-            from_amount: number;
-            to_amount: number;
-            exchange_rate: number;
-            fee_amount: number;
-            status: string;
-            created_at: Date;
-          }>`
-            INSERT INTO currency_transactions (
-              user_id, transaction_type, from_currency, to_currency,
-              from_amount, to_amount, exchange_rate, fee_amount, status
-            )
-            VALUES (
-              ${req.userId}, 'buy', 'USD', ${req.targetCurrency},
-              ${req.usdAmount}, ${estimatedTokens}, ${rateRow.rate}, ${feeAmount}, 'pending'
-            )
-            RETURNING *
-          `;
-
-          if (!txRow) {
-            throw new Error("Failed to create transaction");
-          }
-
-          // Update balances (simulate instant execution for demo)
-          await blockchainDB.exec`
-            UPDATE user_balances 
-            SET balance = balance - ${req.usdAmount}, last_updated = NOW()
-            WHERE user_id = ${req.userId} AND currency = 'USD'
-          `;
-
-          await blockchainDB.exec`
-            UPDATE user_balances 
-            SET balance = balance + ${estimatedTokens}, last_updated = NOW()
-            WHERE user_id = ${req.userId} AND currency = ${req.targetCurrency}
-          `;
-
-          // Mark transaction as completed
-          await blockchainDB.exec`
-            UPDATE currency_transactions 
-            SET status = 'completed', completed_at = NOW()
-            WHERE id = ${txRow.id}
-          `;
+      if (!isCounterCurrency(paymentCurrency)) {
+        throw APIError.invalidArgument(`Cannot buy ASM with ${paymentCurrency}`);
+      }
 
-          const response = {
-            transaction: {
-              id: txRow.id,
-              userId: txRow.user_id,
-              transactionType: txRow.transaction_type,
-              fromCurrency: txRow.from_currency,
-              toCurrency: txRow.to_currency,
-              fromAmount: txRow.from_amount,
-              toAmount: txRow.to_amount,
-              exchangeRate: txRow.exchange_rate,
-              feeAmount: txRow.fee_amount,
-              status: 'completed',
-              createdAt: txRow.created_at,
-              completedAt: new Date(),
-            },
-            estimatedTokens,
-            totalFee: feeAmount,
-          };
+      if (!req.usdAmount || req.usdAmount <= 0) {
+        throw APIError.invalidArgument(`${paymentCurrency} amount must be positive`);
+      }
 
-          await publishTransactionConfirmation({
-            userId: req.userId,
-            type: 'buy',
-            status: 'completed',
-            message: `Successfully purchased ${response.estimatedTokens.toFixed(2)} ${req.targetCurrency}.`,
-            details: response.transaction,
-          });
+      assertCurrencyPrecision(req.usdAmount, paymentCurrency);
 
-          invalidateCache(`user-balances:${req.userId}`);
-          return response;
-        }
+      const result = await withErrorHandling(
+        'buy-tokens',
+        requestId,
+        () => executePurchase({
+          userId: req.userId,
+          amount: req.usdAmount,
+          paymentCurrency,
+          quoteId: req.quoteId,
+        })
       );
 
       logResponse(requestId, 200, Date.now() - startTime);
@@ -577,7 +681,7 @@ export const buyTokens = api<BuyTokenRequest, BuyTokenResponse>(
   }
 );
 
-// Allows users to sell ASM tokens for USD.
+// Allows users to sell ASM tokens for USD, ETH or BTC.
 export const sellTokens = api<SellTokenRequest, SellTokenResponse>(
   { expose: true, method: "POST", path: "/exchange/sell" },
   async (req) => {
@@ -607,10 +711,12 @@ export const sellTokens = api<SellTokenRequest, SellTokenResponse>(
         throw APIError.invalidArgument("ASM amount must be positive");
       }
 
-      if (req.targetCurrency !== 'USD') {
-        throw APIError.invalidArgument("Only selling for USD is supported");
+      if (!isCounterCurrency(req.targetCurrency)) {
+        throw APIError.invalidArgument(`Cannot sell ASM for ${req.targetCurrency}`);
       }
 
+      assertCurrencyPrecision(req.asmAmount, 'ASM');
+
       const result = await withErrorHandling(
         'sell-tokens',
         requestId,
@@ -618,23 +724,6 @@ export const sellTokens = api<SellTokenRequest, SellTokenResponse>(
           // Ensure demo user exists
           await ensureDemoUserExists(req.userId);
 
-          // Get current exchange rate
-          const rateRow = await blockchainDB.queryRow<{ rate: number }>`
-            SELECT rate FROM currency_exchange_rates 
-            WHERE currency_pair = 'ASM/USD'
-            ORDER BY last_updated DESC 
-            LIMIT 1
-          `;
-
-          if (!rateRow) {
-            throw APIError.internal("Exchange rate not available");
-          }
-
-          const feePercentage = 0.025; // 2.5% fee
-          const estimatedUsd = req.asmAmount * rateRow.rate;
-          const feeAmount = estimatedUsd * feePercentage;
-          const netUsdAmount = estimatedUsd - feeAmount;
-
           // Check user ASM balance
           const balanceRow = await blockchainDB.queryRow<{ balance: number }>`
             SELECT balance FROM user_balances 
@@ -645,55 +734,57 @@ export const sellTokens = api<SellTokenRequest, SellTokenResponse>(
             throw APIError.failedPrecondition("Insufficient ASM balance");
           }
 
-          // Create transaction record
-          const txRow = await blockchainDB.queryRow<{
-            id: number;
-            user_id: string;
-            transaction_type: string;
-            from_currency: string;
-            to_currency: string;
-            from_amount: number;
-            to_amount: number;
-            exchange_rate: number;
-            fee_amount: number;
-            status: string;
-            created_at: Date;
-          }>`
-            INSERT INTO currency_transactions (
-              user_id, transaction_type, from_currency, to_currency,
-              from_amount, to_amount, exchange_rate, fee_amount, status
-            )
-            VALUES (
-              ${req.userId}, 'sell', 'ASM', ${req.targetCurrency},
-              ${req.asmAmount}, ${netUsdAmount}, ${rateRow.rate}, ${feeAmount}, 'pending'
-            )
-            RETURNING *
-          `;
-
-          if (!txRow) {
-            throw new Error("Failed to create transaction");
+          // Claim, record and settle in one transaction, as executePurchase does
+          await using tx = await blockchainDB.begin();
+          let txRow: CurrencyTransactionRow;
+          let netAmount: number;
+          let feeAmount: number;
+          try {
+            const priced = req.quoteId
+              ? await redeemExchangeQuote(tx, req.quoteId, req.userId, 'sell', req.asmAmount, req.targetCurrency)
+              : await quoteExchangeTrade('sell', req.asmAmount, req.targetCurrency);
+            netAmount = priced.amountOut;
+            feeAmount = priced.feeAmount;
+
+            // Create transaction record
+            const inserted = await tx.queryRow<CurrencyTransactionRow>`
+              INSERT INTO currency_transactions (
+                user_id, transaction_type, from_currency, to_currency,
+                from_amount, to_amount, exchange_rate, fee_amount, status
+              )
+              VALUES (
+                ${req.userId}, 'sell', 'ASM', ${req.targetCurrency},
+                ${req.asmAmount}, ${netAmount}, ${priced.rate}, ${feeAmount}, 'pending'
+              )
+              RETURNING *
+            `;
+            if (!inserted) {
+              throw new Error("Failed to create transaction");
+            }
+            txRow = inserted;
+
+            if (req.quoteId) {
+              await tx.exec`
+                UPDATE exchange_quotes SET transaction_id = ${txRow.id} WHERE id = ${req.quoteId}
+              `;
+            }
+
+            // Simulate instant execution for demo
+            await settleExchangeTrade(tx, txRow.id, {
+              userId: req.userId,
+              side: 'sell',
+              asmAmount: req.asmAmount,
+              currency: req.targetCurrency,
+              counterAmount: netAmount,
+              feeAmount,
+            });
+
+            await tx.commit();
+          } catch (error) {
+            await tx.rollback();
+            throw error;
           }
 
-          // Update balances (simulate instant execution for demo)
-          await blockchainDB.exec`
-            UPDATE user_balances 
-            SET balance = balance - ${req.asmAmount}, last_updated = NOW()
-            WHERE user_id = ${req.userId} AND currency = 'ASM'
-          `;
-
-          await blockchainDB.exec`
-            UPDATE user_balances 
-            SET balance = balance + ${netUsdAmount}, last_updated = NOW()
-            WHERE user_id = ${req.userId} AND currency = ${req.targetCurrency}
-          `;
-
-          // Mark transaction as completed
-          await blockchainDB.exec`
-            UPDATE currency_transactions 
-            SET status = 'completed', completed_at = NOW()
-            WHERE id = ${txRow.id}
-          `;
-
           const response = {
             transaction: {
               id: txRow.id,
@@ -709,7 +800,7 @@ export const sellTokens = api<SellTokenRequest, SellTokenResponse>(
               createdAt: txRow.created_at,
               completedAt: new Date(),
             },
-            estimatedUsd: netUsdAmount,
+            estimatedUsd: netAmount,
             totalFee: feeAmount,
           };
 
@@ -717,7 +808,7 @@ export const sellTokens = api<SellTokenRequest, SellTokenResponse>(
             userId: req.userId,
             type: 'sell',
             status: 'completed',
-            message: `Successfully sold ${req.asmAmount} ASM for $${response.estimatedUsd.toFixed(2)}.`,
+            message: `Successfully sold ${req.asmAmount} ASM for ${response.estimatedUsd.toFixed(CURRENCY_DECIMALS[req.targetCurrency])} ${req.targetCurrency}.`,
             details: response.transaction,
           });
 
@@ -791,6 +882,9 @@ export const getTransactionHistory = api<TransactionHistoryRequest, TransactionH
             fee_amount: number;
             status: string;
             blockchain_tx_hash: string | null;
+            recurring_buy_id: number | null;
+            counterparty_user_id: string | null;
+            memo: string | null;
             created_at: Date;
             completed_at: Date | null;
           }>`
@@ -812,6 +906,9 @@ export const getTransactionHistory = api<TransactionHistoryRequest, TransactionH
             feeAmount: row.fee_amount,
             status: row.status,
             blockchainTxHash: row.blockchain_tx_hash || undefined,
+            recurringBuyId: row.recurring_buy_id ?? undefined,
+            counterpartyUserId: row.counterparty_user_id ?? undefined,
+            memo: row.memo ?? undefined,
             createdAt: row.created_at,
             completedAt: row.completed_at || undefined,
           }));
@@ -832,6 +929,233 @@ export const getTransactionHistory = api<TransactionHistoryRequest, TransactionH
   }
 );
 
+function isCounterCurrency(currency: string): boolean {
+  return currency !== 'ASM' && CURRENCY_DECIMALS[currency] !== undefined;
+}
+
+// Rejects amounts with more decimal places than the currency settles in.
+export function assertCurrencyPrecision(amount: number, currency: string) {
+  const scaled = amount * 10 ** CURRENCY_DECIMALS[currency];
+  if (Math.abs(scaled - Math.round(scaled)) > 1e-6) {
+    throw APIError.invalidArgument(`${currency} amounts have at most ${CURRENCY_DECIMALS[currency]} decimal places`);
+  }
+}
+
+// Rounds an amount to the currency's precision. Payouts round down, so the exchange never
+// pays out more than it priced; fees round to the nearest unit; funds held against a
+// future payment round up.
+export function roundToCurrency(amount: number, currency: string, mode: 'down' | 'nearest' | 'up'): number {
+  const scale = 10 ** CURRENCY_DECIMALS[currency];
+  // The epsilon keeps float noise like 2.9999999999 from rounding a whole unit away
+  const scaled = mode === 'down'
+    ? Math.floor(amount * scale + 1e-9)
+    : mode === 'up' ? Math.ceil(amount * scale - 1e-9) : Math.round(amount * scale);
+  return scaled / scale;
+}
+
+// Prices ASM in the counter currency from the AMM pool's TWAP, which cannot be moved by a
+// single trade, falling back to the stored rate when no pool trades the pair. Also returns
+// the pair's fee rate.
+async function getAsmRate(currency: string): Promise<{ rate: number; feeRate: number }> {
+  const pair = await blockchainDB.queryRow<{ rate: number; fee_rate: number }>`
+    SELECT rate, fee_rate FROM currency_exchange_rates 
+    WHERE currency_pair = ${`ASM/${currency}`}
+    ORDER BY last_updated DESC 
+    LIMIT 1
+  `;
+  if (!pair) {
+    throw APIError.invalidArgument(`ASM/${currency} is not traded on the exchange`);
+  }
+
+  const twap = await readPairTWAP('ASM', currency, ORACLE_WINDOW_SECONDS);
+  const rate = twap && twap > 0 ? twap : Number(pair.rate);
+  if (!(rate > 0)) {
+    throw APIError.internal("Exchange rate not available");
+  }
+  return { rate, feeRate: Number(pair.fee_rate) };
+}
+
+export interface ExchangeTradeQuote {
+  rate: number; // Counter currency per ASM
+  feeAmount: number; // In the counter currency
+  amountOut: number; // ASM for a buy, counter currency for a sell, after the fee
+}
+
+// Prices a buy (counter currency in, ASM out) or a sell (ASM in, counter currency out) at the
+// current rate, net of the pair's fee and rounded to each currency's precision. Shared by
+// buyTokens, sellTokens and flash-loan exchange actions.
+export async function quoteExchangeTrade(
+  side: 'buy' | 'sell',
+  amountIn: number,
+  currency: string = 'USD'
+): Promise<ExchangeTradeQuote> {
+  if (!isCounterCurrency(currency)) {
+    throw APIError.invalidArgument(`ASM/${currency} is not traded on the exchange`);
+  }
+  const { rate, feeRate } = await getAsmRate(currency);
+
+  if (side === 'buy') {
+    const feeAmount = roundToCurrency(amountIn * feeRate, currency, 'nearest');
+    return { rate, feeAmount, amountOut: roundToCurrency((amountIn - feeAmount) / rate, 'ASM', 'down') };
+  }
+
+  const grossAmount = amountIn * rate;
+  const feeAmount = roundToCurrency(grossAmount * feeRate, currency, 'nearest');
+  return { rate, feeAmount, amountOut: roundToCurrency(grossAmount - feeAmount, currency, 'down') };
+}
+
+interface ExchangeQuoteRow {
+  id: string;
+  user_id: string;
+  side: 'buy' | 'sell';
+  from_currency: string;
+  to_currency: string;
+  amount_in: number;
+  amount_out: number;
+  exchange_rate: number;
+  fee_amount: number;
+  expires_at: Date;
+  used_at: Date | null;
+}
+
+// Claims a firm quote for a trade inside the caller's transaction, returning its locked
+// pricing. A quote fills once, only for the user, side and amount it was issued for, and only
+// before it expires.
+async function redeemExchangeQuote(
+  tx: any,
+  quoteId: string,
+  userId: string,
+  side: 'buy' | 'sell',
+  amountIn: number,
+  currency: string
+): Promise<ExchangeTradeQuote> {
+  const quote = await tx.queryRow`
+    SELECT * FROM exchange_quotes WHERE id = ${quoteId} AND user_id = ${userId}
+  ` as ExchangeQuoteRow | null;
+  if (!quote) {
+    throw APIError.notFound("Quote not found");
+  }
+  if (quote.side !== side) {
+    throw APIError.invalidArgument(`Quote was issued for a ${quote.side}`);
+  }
+  const quotedCurrency = side === 'buy' ? quote.from_currency : quote.to_currency;
+  if (quotedCurrency !== currency) {
+    throw APIError.invalidArgument(`Quote was issued for ASM/${quotedCurrency}`);
+  }
+  if (Math.abs(Number(quote.amount_in) - amountIn) >= 1e-8) {
+    throw APIError.invalidArgument(`Quote was issued for an amount of ${quote.amount_in}`);
+  }
+
+  const claimed = await tx.queryRow`
+    UPDATE exchange_quotes SET used_at = NOW()
+    WHERE id = ${quoteId} AND used_at IS NULL AND expires_at > NOW()
+    RETURNING id
+  ` as { id: string } | null;
+  if (!claimed) {
+    throw APIError.failedPrecondition(
+      quote.used_at ? "Quote has already been used" : "Quote has expired; request a new quote"
+    );
+  }
+
+  return {
+    rate: Number(quote.exchange_rate),
+    feeAmount: Number(quote.fee_amount),
+    amountOut: Number(quote.amount_out),
+  };
+}
+
+// Locks the current rate for a buy or sell for a short time. Pass the returned quote id to
+// buyTokens or sellTokens to fill at exactly the quoted amount.
+export const createExchangeQuote = api<ExchangeQuoteRequest, { quote: ExchangeQuote }>(
+  { expose: true, method: "POST", path: "/exchange/quote" },
+  async (req) => {
+    const requestId = generateRequestId();
+    const startTime = Date.now();
+
+    try {
+      logRequest({
+        requestId,
+        timestamp: new Date(),
+        method: 'POST',
+        path: '/exchange/quote'
+      });
+
+      // Rate limiting: 60 quotes per minute per user
+      if (!checkRateLimit(`quote-${req.userId}`, 60, 60000)) {
+        throw APIError.resourceExhausted("Rate limit exceeded for quotes");
+      }
+
+      if (!req.userId || typeof req.userId !== 'string') {
+        throw APIError.invalidArgument("User ID is required");
+      }
+
+      if (req.side !== 'buy' && req.side !== 'sell') {
+        throw APIError.invalidArgument("Side must be 'buy' or 'sell'");
+      }
+
+      const currency = req.currency ?? 'USD';
+      if (!isCounterCurrency(currency)) {
+        throw APIError.invalidArgument(`ASM/${currency} is not traded on the exchange`);
+      }
+
+      if (!req.amount || req.amount <= 0) {
+        throw APIError.invalidArgument("Amount must be positive");
+      }
+
+      assertCurrencyPrecision(req.amount, req.side === 'buy' ? currency : 'ASM');
+
+      const result = await withErrorHandling(
+        'create-exchange-quote',
+        requestId,
+        async () => {
+          const { rate, feeAmount, amountOut } = await quoteExchangeTrade(req.side, req.amount, currency);
+          const [fromCurrency, toCurrency] = req.side === 'buy' ? [currency, 'ASM'] : ['ASM', currency];
+          const quoteId = "q_" + crypto.randomBytes(16).toString('hex');
+          const expiresAt = new Date(Date.now() + QUOTE_TTL_SECONDS * 1000);
+
+          const row = await blockchainDB.queryRow<ExchangeQuoteRow>`
+            INSERT INTO exchange_quotes (
+              id, user_id, side, from_currency, to_currency,
+              amount_in, amount_out, exchange_rate, fee_amount, expires_at
+            )
+            VALUES (
+              ${quoteId}, ${req.userId}, ${req.side}, ${fromCurrency}, ${toCurrency},
+              ${req.amount}, ${amountOut}, ${rate}, ${feeAmount}, ${expiresAt}
+            )
+            RETURNING *
+          `;
+
+          return {
+            quote: {
+              quoteId: row!.id,
+              userId: row!.user_id,
+              side: row!.side,
+              fromCurrency: row!.from_currency,
+              toCurrency: row!.to_currency,
+              amountIn: Number(row!.amount_in),
+              amountOut: Number(row!.amount_out),
+              exchangeRate: Number(row!.exchange_rate),
+              feeAmount: Number(row!.fee_amount),
+              expiresAt: row!.expires_at,
+            },
+          };
+        }
+      );
+
+      logResponse(requestId, 200, Date.now() - startTime);
+      return result;
+    } catch (error) {
+      console.error(`[${requestId}] Failed to create exchange quote:`, error);
+      logResponse(requestId, error instanceof APIError ? 400 : 500, Date.now() - startTime);
+
+      if (error instanceof APIError) {
+        throw error;
+      }
+      throw APIError.internal("Failed to create exchange quote");
+    }
+  }
+);
+
 async function ensureExchangeRatesExist(): Promise<void> {
   try {
     const existingRates = await blockchainDB.queryRow<{ count: number }>`
@@ -867,12 +1191,25 @@ async function initializeUserBalances(userId: string): Promise<void> {
       'BTC': 0.00
     };
 
-    for (const currency of currencies) {
-      await blockchainDB.exec`
+    await using tx = await blockchainDB.begin();
+    try {
+      // Only currencies the user has no balance in yet get the starting amount
+      const missing = await tx.queryAll<{ currency: string }>`
         INSERT INTO user_balances (user_id, currency, balance)
-        VALUES (${userId}, ${currency}, ${defaultBalances[currency as keyof typeof defaultBalances]})
+        SELECT ${userId}, currency, 0 FROM unnest(${currencies}::text[]) AS currency
         ON CONFLICT (user_id, currency) DO NOTHING
+        RETURNING currency
       `;
+      await postJournalEntry(tx, {
+        entryType: 'demo_grant',
+        lines: missing.flatMap(({ currency }) =>
+          movement(DEMO_FAUCET_ACCOUNT, userAccount(userId), currency, defaultBalances[currency as keyof typeof defaultBalances])
+        ),
+      });
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
     }
   } catch (error) {
     console.error(`Failed to initialize user balances for ${userId}:`, error);
@@ -912,16 +1249,22 @@ async function ensureDemoUserExists(userId: string): Promise<void> {
       console.log(`Creating demo user balances for ${userId}...`);
       
       // Initialize balances with default values
-      await blockchainDB.exec`
-        INSERT INTO user_balances (user_id, currency, balance)
-        VALUES 
-          (${userId}, 'USD', 1000.00),
-          (${userId}, 'ASM', 500000.00),
-          (${userId}, 'ETH', 1.5),
-          (${userId}, 'BTC', 0.05)
-        ON CONFLICT (user_id, currency) DO UPDATE
-        SET balance = EXCLUDED.balance, last_updated = NOW()
-      `;
+      await using tx = await blockchainDB.begin();
+      try {
+        await postJournalEntry(tx, {
+          entryType: 'demo_grant',
+          lines: [
+            ...movement(DEMO_FAUCET_ACCOUNT, userAccount(userId), 'USD', 1000.00),
+            ...movement(DEMO_FAUCET_ACCOUNT, userAccount(userId), 'ASM', 500000.00),
+            ...movement(DEMO_FAUCET_ACCOUNT, userAccount(userId), 'ETH', 1.5),
+            ...movement(DEMO_FAUCET_ACCOUNT, userAccount(userId), 'BTC', 0.05),
+          ],
+        });
+        await tx.commit();
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
       
       console.log(`Demo user balances created for ${userId}`);
     }
@@ -931,56 +1274,6 @@ async function ensureDemoUserExists(userId: string): Promise<void> {
   }
 }
 
-async function updateExchangeRates(): Promise<void> {
-  try {
-    // Simulate market movement with small random changes
-    const pairs = ['ASM/USD', 'ASM/ETH', 'ASM/BTC'];
-    
-    for (const pair of pairs) {
-      const currentRate = await blockchainDB.queryRow<{ rate: number; change_24h: number }>`
-        SELECT rate, change_24h FROM currency_exchange_rates 
-        WHERE currency_pair = ${pair}
-        ORDER BY last_updated DESC 
-        LIMIT 1
-      `;
-
-      if (currentRate) {
-        // Random change between -5% and +5%
-        const changePercent = (Math.random() - 0.5) * 0.1;
-        const newRate = currentRate.rate * (1 + changePercent);
-        const newChange24h = currentRate.change_24h + (changePercent * 100);
-        const newVolume = Math.random() * 2000000 + 500000;
-
-        await blockchainDB.exec`
-          UPDATE currency_exchange_rates 
-          SET rate = ${newRate}, 
-              change_24h = ${newChange24h},
-              volume_24h = ${newVolume},
-              last_updated = NOW()
-          WHERE currency_pair = ${pair}
-        `;
-      }
-    }
-  } catch (error) {
-    console.error('Failed to update exchange rates:', error);
-    // Don't throw here as this is a background operation
-  }
-}
-
-function generateSeedPhrase(): string {
-  const words = [
-    'abandon', 'ability', 'able', 'about', 'above', 'absent', 'absorb', 'abstract',
-    'absurd', 'abuse', 'access', 'accident', 'account', 'accuse', 'achieve', 'acid',
-    'acoustic', 'acquire', 'across', 'act', 'action', 'actor', 'actress', 'actual'
-  ];
-  
-  const phrase = [];
-  for (let i = 0; i < 12; i++) {
-    phrase.push(words[Math.floor(Math.random() * words.length)]);
-  }
-  
-  return phrase.join(' ');
-}
 CREATE TABLE interstellar_flows (
   id SERIAL PRIMARY KEY,
   designation TEXT NOT NULL,
@@ -1,6 +1,8 @@
 import { monitoredBlockchainDB as blockchainDB } from "./db";
 import { api } from "encore.dev/api";
 import crypto from "crypto";
+import { DEMO_FAUCET_ACCOUNT } from "./currency_exchange";
+import { movement, postJournalEntry, userAccount } from "./ledger";
 
 async function seedBlocksAndTransactions(): Promise<void> {
   const existingBlockCount = await blockchainDB.queryRow<{ count: number }>`
@@ -159,16 +161,29 @@ async function seedUserWalletAndBalances(): Promise<void> {
     VALUES (${userId}, ${address}, ${encryptedPrivateKey})
   `;
 
-  await blockchainDB.exec`
-    INSERT INTO user_balances (user_id, currency, balance)
-    VALUES 
-      (${userId}, 'USD', 1000.00),
-      (${userId}, 'ASM', 500000.00),
-      (${userId}, 'ETH', 1.5),
-      (${userId}, 'BTC', 0.05)
-    ON CONFLICT (user_id, currency) DO UPDATE
-    SET balance = EXCLUDED.balance;
-  `;
+  const seeded: Record<string, number> = { USD: 1000.00, ASM: 500000.00, ETH: 1.5, BTC: 0.05 };
+
+  await using tx = await blockchainDB.begin();
+  try {
+    const current = await tx.queryAll<{ currency: string; balance: number }>`
+      SELECT currency, balance FROM user_balances
+      WHERE user_id = ${userId} AND currency = ANY(${Object.keys(seeded)})
+      FOR UPDATE
+    `;
+
+    // The seeded amounts replace whatever the user held, so post the difference
+    await postJournalEntry(tx, {
+      entryType: 'demo_grant',
+      lines: Object.entries(seeded).flatMap(([currency, amount]) => {
+        const held = Number(current.find(row => row.currency === currency)?.balance ?? 0);
+        return movement(DEMO_FAUCET_ACCOUNT, userAccount(userId), currency, amount - held);
+      }),
+    });
+    await tx.commit();
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
 }
 
 export const seedBlockchainData = api<void, { success: boolean; message: string }>(
@@ -1,9 +1,45 @@
 import { api, APIError } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import crypto from "crypto";
 import { monitoredBlockchainDB as blockchainDB } from "./db";
 import { withPerformanceMonitoring } from "./health";
+import { requireAdmin } from "./admin";
+import { FEE_TIERS, YIELD_FARMS_ACCOUNT } from "./amm";
+import { isPositiveInteger } from "./amm_math";
+import { insertYieldFarm, validateYieldFarm, type YieldFarmSettings } from "./amm_farms";
+import { withdrawTreasuryFunds } from "./amm_treasury";
+import { updateBridgeLimits, validateBridgeLimits } from "./bridge";
 
-const PROPOSAL_DURATION_DAYS = 7;
 const MIN_PROPOSAL_THRESHOLD = "1000000000000000000000000"; // 1,000,000 ASM
+const MAX_PROPOSAL_ACTIONS = 10;
+
+export type ProposalActionType = 'set_pool_fee_rate' | 'start_yield_farm' | 'update_bridge_limits' | 'treasury_transfer';
+
+// A change applied when the proposal is executed. Each type uses its own fields:
+//   set_pool_fee_rate: poolId, feeRate (one of the AMM fee tiers)
+//   start_yield_farm: poolId, rewardToken, rewardRate, durationDays and optionally rewardBudget,
+//     lockPeriodDays, earlyUnstakePenaltyBps; the farm starts on execution, funded by the treasury
+//   update_bridge_limits: any of largeTransferThreshold, timeLockMinutes, requiredSignatures, maxPendingTransfers
+//   treasury_transfer: token, amount, recipient
+export interface ProposalAction {
+  type: ProposalActionType;
+  poolId?: number;
+  feeRate?: number;
+  rewardToken?: string;
+  rewardRate?: string;
+  durationDays?: number;
+  rewardBudget?: string;
+  lockPeriodDays?: number;
+  earlyUnstakePenaltyBps?: number;
+  largeTransferThreshold?: string;
+  timeLockMinutes?: number;
+  requiredSignatures?: number;
+  maxPendingTransfers?: number;
+  token?: string;
+  amount?: string;
+  recipient?: string;
+}
 
 export interface Proposal {
   id: number;
@@ -12,24 +48,357 @@ export interface Proposal {
   description: string;
   startTime: Date;
   endTime: Date;
-  status: 'pending' | 'active' | 'succeeded' | 'defeated' | 'executed';
+  // active -> defeated, or -> queued until eta -> executed; active and queued proposals can be cancelled
+  status: ProposalStatus;
   forVotes: string;
   againstVotes: string;
   abstainVotes: string;
+  quorumVotes: string; // For, against and abstain votes needed for the result to count
+  approvalThresholdBps: number; // For votes must exceed this share of the for and against votes
+  timelockHours: number; // Delay between a proposal passing and becoming executable
+  actions: ProposalAction[];
+  snapshotAt?: Date; // When the balances that give voting power were taken
+  eta?: Date; // When a queued proposal can be executed
+  finalizedAt?: Date;
+  cancelledAt?: Date;
   executionTxHash?: string;
+  executedAt?: Date;
+  transitions: ProposalTransition[];
+  createdAt: Date;
+}
+
+export type ProposalStatus = 'pending' | 'active' | 'defeated' | 'queued' | 'executed' | 'cancelled';
+
+export interface ProposalTransition {
+  fromStatus?: ProposalStatus;
+  toStatus: ProposalStatus;
+  actor?: string; // Unset for changes made by the finalizer
+  reason?: string;
   createdAt: Date;
 }
 
+export interface GovernanceParameters {
+  votingPeriodHours: number;
+  quorumVotes: string;
+  approvalThresholdBps: number;
+  timelockHours: number;
+  updatedBy?: string;
+  updatedAt: Date;
+}
+
+export interface UpdateGovernanceParametersRequest {
+  adminId: string;
+  votingPeriodHours?: number;
+  quorumVotes?: string;
+  approvalThresholdBps?: number;
+  timelockHours?: number;
+}
+
+export interface ProposalTally {
+  totalVotes: bigint;
+  quorumReached: boolean;
+  approved: boolean;
+}
+
 export interface CreateProposalRequest {
   proposerId: string;
   title: string;
   description: string;
+  actions?: ProposalAction[];
 }
 
 export interface VoteRequest {
   proposalId: number;
   voterId: string;
-  voteOption: 'for' | 'against' | 'abstain';
+  voteOption: VoteOption;
+}
+
+export type VoteOption = 'for' | 'against' | 'abstain';
+
+export interface ProposalVote {
+  voterId: string;
+  voteOption: VoteOption;
+  votingWeight: string; // The voter's ASM balance in the proposal's snapshot
+  votedAt: Date; // When the vote was last cast or changed
+}
+
+interface ProposalRow {
+  id: number;
+  proposer_id: string;
+  title: string;
+  description: string;
+  start_time: Date;
+  end_time: Date;
+  status: ProposalStatus;
+  for_votes: string;
+  against_votes: string;
+  abstain_votes: string;
+  quorum_votes: string;
+  approval_threshold_bps: number;
+  timelock_hours: number;
+  actions: ProposalAction[];
+  snapshot_at: Date | null;
+  eta: Date | null;
+  finalized_at: Date | null;
+  cancelled_at: Date | null;
+  execution_tx_hash: string | null;
+  executed_at: Date | null;
+  created_at: Date;
+}
+
+interface VoteRow {
+  voter_id: string;
+  vote_option: VoteOption;
+  voting_weight: string;
+  timestamp: Date;
+}
+
+interface TransitionRow {
+  proposal_id: number;
+  from_status: ProposalStatus | null;
+  to_status: ProposalStatus;
+  actor: string | null;
+  reason: string | null;
+  created_at: Date;
+}
+
+interface ParametersRow {
+  voting_period_hours: number;
+  quorum_votes: string;
+  approval_threshold_bps: number;
+  timelock_hours: number;
+  updated_by: string | null;
+  updated_at: Date;
+}
+
+function toProposal(row: ProposalRow, transitions: TransitionRow[]): Proposal {
+  return {
+    id: row.id,
+    proposerId: row.proposer_id,
+    title: row.title,
+    description: row.description,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    status: row.status,
+    forVotes: row.for_votes,
+    againstVotes: row.against_votes,
+    abstainVotes: row.abstain_votes,
+    quorumVotes: row.quorum_votes,
+    approvalThresholdBps: row.approval_threshold_bps,
+    timelockHours: row.timelock_hours,
+    actions: row.actions,
+    snapshotAt: row.snapshot_at ?? undefined,
+    eta: row.eta ?? undefined,
+    finalizedAt: row.finalized_at ?? undefined,
+    cancelledAt: row.cancelled_at ?? undefined,
+    executionTxHash: row.execution_tx_hash ?? undefined,
+    executedAt: row.executed_at ?? undefined,
+    transitions: transitions.map(t => ({
+      fromStatus: t.from_status ?? undefined,
+      toStatus: t.to_status,
+      actor: t.actor ?? undefined,
+      reason: t.reason ?? undefined,
+      createdAt: t.created_at,
+    })),
+    createdAt: row.created_at,
+  };
+}
+
+function toGovernanceParameters(row: ParametersRow): GovernanceParameters {
+  return {
+    votingPeriodHours: row.voting_period_hours,
+    quorumVotes: row.quorum_votes,
+    approvalThresholdBps: row.approval_threshold_bps,
+    timelockHours: row.timelock_hours,
+    updatedBy: row.updated_by ?? undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+// Maps proposal rows to proposals along with their transitions, oldest first.
+async function withTransitions(db: any, rows: ProposalRow[]): Promise<Proposal[]> {
+  const ids = rows.map(r => r.id);
+  const transitions = await db.queryAll`
+    SELECT proposal_id, from_status, to_status, actor, reason, created_at
+    FROM governance_proposal_transitions
+    WHERE proposal_id = ANY(${ids})
+    ORDER BY created_at, id
+  ` as TransitionRow[];
+  return rows.map(row => toProposal(row, transitions.filter(t => t.proposal_id === row.id)));
+}
+
+async function recordTransition(tx: any, proposalId: number, from: ProposalStatus | null, to: ProposalStatus, actor: string | null, reason: string | null) {
+  await tx.exec`
+    INSERT INTO governance_proposal_transitions (proposal_id, from_status, to_status, actor, reason)
+    VALUES (${proposalId}, ${from}, ${to}, ${actor}, ${reason})
+  `;
+}
+
+// Applies a proposal's quorum and approval thresholds to its votes. Abstentions count towards
+// quorum but not approval.
+export function tallyProposal(votes: {
+  forVotes: bigint;
+  againstVotes: bigint;
+  abstainVotes: bigint;
+  quorumVotes: bigint;
+  approvalThresholdBps: number;
+}): ProposalTally {
+  const totalVotes = votes.forVotes + votes.againstVotes + votes.abstainVotes;
+  const decisive = votes.forVotes + votes.againstVotes;
+  return {
+    totalVotes,
+    quorumReached: totalVotes >= votes.quorumVotes && totalVotes > 0n,
+    approved: decisive > 0n && votes.forVotes * 10000n > BigInt(votes.approvalThresholdBps) * decisive,
+  };
+}
+
+function formatShare(part: bigint, whole: bigint): string {
+  return whole === 0n ? '0%' : `${Number(part * 10000n / whole) / 100}%`;
+}
+
+// Settles an active proposal whose voting period is over: queues it behind its timelock if it
+// passed, defeats it otherwise.
+async function finalizeProposal(tx: any, proposal: ProposalRow, now: Date): Promise<ProposalStatus> {
+  const forVotes = BigInt(proposal.for_votes);
+  const againstVotes = BigInt(proposal.against_votes);
+  const tally = tallyProposal({
+    forVotes,
+    againstVotes,
+    abstainVotes: BigInt(proposal.abstain_votes),
+    quorumVotes: BigInt(proposal.quorum_votes),
+    approvalThresholdBps: proposal.approval_threshold_bps,
+  });
+  const approval = formatShare(forVotes, forVotes + againstVotes);
+
+  let status: ProposalStatus;
+  let reason: string;
+  let eta: Date | null = null;
+  if (!tally.quorumReached) {
+    status = 'defeated';
+    reason = `Quorum not reached: ${tally.totalVotes} of ${proposal.quorum_votes} votes`;
+  } else if (!tally.approved) {
+    status = 'defeated';
+    reason = `Approval of ${approval} did not exceed the ${proposal.approval_threshold_bps / 100}% threshold`;
+  } else {
+    status = 'queued';
+    eta = new Date(now.getTime() + proposal.timelock_hours * 60 * 60 * 1000);
+    reason = `Passed with ${approval} approval; executable after the ${proposal.timelock_hours}h timelock`;
+  }
+
+  await tx.exec`
+    UPDATE governance_proposals
+    SET status = ${status}, eta = ${eta}, finalized_at = ${now}
+    WHERE id = ${proposal.id}
+  `;
+  await recordTransition(tx, proposal.id, 'active', status, null, reason);
+  return status;
+}
+
+// Checks an action's fields and returns it with only the fields its type uses.
+function normalizeAction(action: ProposalAction): ProposalAction {
+  switch (action.type) {
+    case 'set_pool_fee_rate': {
+      const { poolId, feeRate } = action;
+      if (!Number.isInteger(poolId)) {
+        throw APIError.invalidArgument("set_pool_fee_rate needs a poolId");
+      }
+      if (feeRate === undefined || !FEE_TIERS.includes(feeRate)) {
+        throw APIError.invalidArgument(`Fee rate must be one of ${FEE_TIERS.join(", ")}`);
+      }
+      return { type: action.type, poolId, feeRate };
+    }
+    case 'start_yield_farm': {
+      const { poolId, rewardToken, rewardRate, durationDays, rewardBudget, lockPeriodDays, earlyUnstakePenaltyBps } = action;
+      if (!Number.isInteger(poolId) || !rewardToken) {
+        throw APIError.invalidArgument("start_yield_farm needs a poolId and rewardToken");
+      }
+      if (!isPositiveInteger(rewardRate) || (rewardBudget !== undefined && !isPositiveInteger(rewardBudget))) {
+        throw APIError.invalidArgument("Reward rate and budget must be positive integers");
+      }
+      if (durationDays === undefined || !(durationDays > 0)) {
+        throw APIError.invalidArgument("Farm duration must be a positive number of days");
+      }
+      validateYieldFarm(farmSettings({ type: action.type, poolId, rewardToken, rewardRate, durationDays, rewardBudget, lockPeriodDays, earlyUnstakePenaltyBps }, new Date()));
+      return { type: action.type, poolId, rewardToken, rewardRate, durationDays, rewardBudget, lockPeriodDays, earlyUnstakePenaltyBps };
+    }
+    case 'update_bridge_limits': {
+      const { largeTransferThreshold, timeLockMinutes, requiredSignatures, maxPendingTransfers } = action;
+      const changes = { largeTransferThreshold, timeLockMinutes, requiredSignatures, maxPendingTransfers };
+      if (Object.values(changes).every(v => v === undefined)) {
+        throw APIError.invalidArgument("update_bridge_limits needs at least one limit");
+      }
+      validateBridgeLimits(changes);
+      return { type: action.type, ...changes };
+    }
+    case 'treasury_transfer': {
+      const { token, amount, recipient } = action;
+      if (!token || !recipient) {
+        throw APIError.invalidArgument("treasury_transfer needs a token and recipient");
+      }
+      if (!isPositiveInteger(amount)) {
+        throw APIError.invalidArgument("Treasury transfer amount must be a positive integer");
+      }
+      return { type: action.type, token, amount, recipient };
+    }
+    default:
+      throw APIError.invalidArgument(`Unknown proposal action: ${(action as ProposalAction).type}`);
+  }
+}
+
+function farmSettings(action: ProposalAction, startTime: Date): YieldFarmSettings {
+  return {
+    poolId: action.poolId!,
+    rewardToken: action.rewardToken!,
+    rewardRate: BigInt(action.rewardRate!),
+    startTime,
+    endTime: new Date(startTime.getTime() + action.durationDays! * 24 * 60 * 60 * 1000),
+    rewardBudget: action.rewardBudget !== undefined ? BigInt(action.rewardBudget) : undefined,
+    lockPeriodDays: action.lockPeriodDays ?? 0,
+    earlyUnstakePenaltyBps: action.earlyUnstakePenaltyBps,
+  };
+}
+
+// Applies one action of an executing proposal inside its transaction.
+async function applyAction(tx: any, proposalId: number, actionIndex: number, action: ProposalAction) {
+  switch (action.type) {
+    case 'set_pool_fee_rate': {
+      const pool = await tx.queryRow<{ id: number }>`
+        UPDATE liquidity_pools SET fee_rate = ${action.feeRate!}, last_updated = NOW()
+        WHERE id = ${action.poolId!}
+        RETURNING id
+      `;
+      if (!pool) {
+        throw APIError.notFound(`Liquidity pool ${action.poolId} not found`);
+      }
+      break;
+    }
+    case 'start_yield_farm': {
+      const settings = farmSettings(action, new Date());
+      const rewardBudget = validateYieldFarm(settings);
+      const farm = await insertYieldFarm(tx, settings, rewardBudget, `proposal:${proposalId}`);
+      await withdrawTreasuryFunds(tx, {
+        token: settings.rewardToken,
+        amount: rewardBudget,
+        recipient: `farm:${farm.id}`,
+        account: YIELD_FARMS_ACCOUNT,
+        proposalId,
+        actionIndex,
+      });
+      break;
+    }
+    case 'update_bridge_limits':
+      await updateBridgeLimits(tx, action, proposalId);
+      break;
+    case 'treasury_transfer':
+      await withdrawTreasuryFunds(tx, {
+        token: action.token!,
+        amount: BigInt(action.amount!),
+        recipient: action.recipient!,
+        proposalId,
+        actionIndex,
+      });
+      break;
+  }
 }
 
 // Creates a new governance proposal.
@@ -38,6 +407,10 @@ export const createProposal = api<CreateProposalRequest, { proposal: Proposal }>
   async (req) => {
     return withPerformanceMonitoring("/governance/proposals", "POST", async () => {
       const { proposerId, title, description } = req;
+      if ((req.actions?.length ?? 0) > MAX_PROPOSAL_ACTIONS) {
+        throw APIError.invalidArgument(`A proposal can have at most ${MAX_PROPOSAL_ACTIONS} actions`);
+      }
+      const actions = (req.actions ?? []).map(normalizeAction);
 
       // Check if proposer has enough ASM to create a proposal
       const balance = await blockchainDB.queryRow<{ balance: string }>`
@@ -47,30 +420,39 @@ export const createProposal = api<CreateProposalRequest, { proposal: Proposal }>
         throw APIError.permissionDenied("Insufficient ASM balance to create a proposal.");
       }
 
-      const startTime = new Date();
-      const endTime = new Date(startTime.getTime() + PROPOSAL_DURATION_DAYS * 24 * 60 * 60 * 1000);
+      await using tx = await blockchainDB.begin();
+      try {
+        const params = await tx.queryRow<ParametersRow>`SELECT * FROM governance_parameters`;
+        const startTime = new Date();
+        const endTime = new Date(startTime.getTime() + params!.voting_period_hours * 60 * 60 * 1000);
 
-      const proposal = await blockchainDB.queryRow<any>`
-        INSERT INTO governance_proposals (proposer_id, title, description, start_time, end_time, status)
-        VALUES (${proposerId}, ${title}, ${description}, ${startTime}, ${endTime}, 'active')
-        RETURNING *
-      `;
+        const proposal = await tx.queryRow<ProposalRow>`
+          INSERT INTO governance_proposals (
+            proposer_id, title, description, start_time, end_time, status, actions,
+            quorum_votes, approval_threshold_bps, timelock_hours, snapshot_at
+          )
+          VALUES (
+            ${proposerId}, ${title}, ${description}, ${startTime}, ${endTime}, 'active', ${JSON.stringify(actions)},
+            ${params!.quorum_votes}, ${params!.approval_threshold_bps}, ${params!.timelock_hours}, ${startTime}
+          )
+          RETURNING *
+        `;
+        // Votes are weighed by these balances, not by whatever the voters hold when they vote
+        await tx.exec`
+          INSERT INTO governance_voting_snapshots (proposal_id, address, balance)
+          SELECT ${proposal!.id}, address, balance
+          FROM token_balances
+          WHERE token_contract = 'ASM_CONTRACT_ADDRESS' AND balance > 0
+        `;
+        await recordTransition(tx, proposal!.id, null, 'active', proposerId, null);
 
-      return {
-        proposal: {
-          id: proposal.id,
-          proposerId: proposal.proposer_id,
-          title: proposal.title,
-          description: proposal.description,
-          startTime: proposal.start_time,
-          endTime: proposal.end_time,
-          status: proposal.status,
-          forVotes: proposal.for_votes,
-          againstVotes: proposal.against_votes,
-          abstainVotes: proposal.abstain_votes,
-          createdAt: proposal.created_at,
-        }
-      };
+        const [created] = await withTransitions(tx, [proposal!]);
+        await tx.commit();
+        return { proposal: created };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
     });
   }
 );
@@ -79,54 +461,47 @@ export const createProposal = api<CreateProposalRequest, { proposal: Proposal }>
 export const listProposals = api<void, { proposals: Proposal[] }>(
   { expose: true, method: "GET", path: "/governance/proposals" },
   async () => {
-    const proposals = await blockchainDB.queryAll<any>`
+    const proposals = await blockchainDB.queryAll<ProposalRow>`
       SELECT * FROM governance_proposals ORDER BY created_at DESC
     `;
-    return {
-      proposals: proposals.map(p => ({
-        id: p.id,
-        proposerId: p.proposer_id,
-        title: p.title,
-        description: p.description,
-        startTime: p.start_time,
-        endTime: p.end_time,
-        status: p.status,
-        forVotes: p.for_votes,
-        againstVotes: p.against_votes,
-        abstainVotes: p.abstain_votes,
-        createdAt: p.created_at,
-        executionTxHash: p.execution_tx_hash,
-      }))
-    };
+    return { proposals: await withTransitions(blockchainDB, proposals) };
   }
 );
 
-// Casts a vote on a proposal.
+// Casts a vote on a proposal, weighed by the voter's ASM balance in the proposal's snapshot.
+// Voting again changes the vote: the previous weight is taken off the option it was cast for.
 export const castVote = api<VoteRequest, { success: boolean }>(
   { expose: true, method: "POST", path: "/governance/vote" },
   async (req) => {
     return withPerformanceMonitoring("/governance/vote", "POST", async () => {
       const { proposalId, voterId, voteOption } = req;
-
-      const proposal = await blockchainDB.queryRow<{ status: string; end_time: Date }>`
-        SELECT status, end_time FROM governance_proposals WHERE id = ${proposalId}
-      `;
-      if (!proposal || proposal.status !== 'active' || new Date() > new Date(proposal.end_time)) {
-        throw APIError.failedPrecondition("Proposal is not active for voting.");
-      }
-
-      // Get voter's ASM balance for voting weight
-      const balance = await blockchainDB.queryRow<{ balance: string }>`
-        SELECT balance FROM token_balances WHERE address = ${voterId} AND token_contract = 'ASM_CONTRACT_ADDRESS'
-      `;
-      const votingWeight = balance ? BigInt(balance.balance) : 0n;
-
-      if (votingWeight === 0n) {
-        throw APIError.permissionDenied("No voting power (zero ASM balance).");
+      if (!['for', 'against', 'abstain'].includes(voteOption)) {
+        throw APIError.invalidArgument("voteOption must be for, against or abstain");
       }
 
       await using tx = await blockchainDB.begin();
       try {
+        // Locking the proposal serializes its votes, so a re-vote always sees the vote it replaces
+        const proposal = await tx.queryRow<{ status: string; end_time: Date }>`
+          SELECT status, end_time FROM governance_proposals WHERE id = ${proposalId} FOR UPDATE
+        `;
+        if (!proposal || proposal.status !== 'active' || new Date() > new Date(proposal.end_time)) {
+          throw APIError.failedPrecondition("Proposal is not active for voting.");
+        }
+
+        const snapshot = await tx.queryRow<{ balance: string }>`
+          SELECT balance FROM governance_voting_snapshots WHERE proposal_id = ${proposalId} AND address = ${voterId}
+        `;
+        const votingWeight = snapshot ? BigInt(snapshot.balance) : 0n;
+        if (votingWeight === 0n) {
+          throw APIError.permissionDenied("No voting power (zero ASM balance when the proposal was created).");
+        }
+
+        const previous = await tx.queryRow<{ vote_option: VoteOption; voting_weight: string }>`
+          SELECT vote_option, voting_weight FROM governance_votes
+          WHERE proposal_id = ${proposalId} AND voter_id = ${voterId}
+        `;
+
         await tx.exec`
           INSERT INTO governance_votes (proposal_id, voter_id, vote_option, voting_weight)
           VALUES (${proposalId}, ${voterId}, ${voteOption}, ${votingWeight.toString()})
@@ -136,10 +511,18 @@ export const castVote = api<VoteRequest, { success: boolean }>(
             timestamp = NOW()
         `;
 
-        const voteColumn = `${voteOption}_votes`;
+        const delta = (option: VoteOption) => {
+          let change = option === voteOption ? votingWeight : 0n;
+          if (previous && previous.vote_option === option) {
+            change -= BigInt(previous.voting_weight);
+          }
+          return change.toString();
+        };
         await tx.exec`
           UPDATE governance_proposals
-          SET ${voteColumn} = ${voteColumn} + ${votingWeight.toString()}
+          SET for_votes = for_votes + ${delta('for')},
+              against_votes = against_votes + ${delta('against')},
+              abstain_votes = abstain_votes + ${delta('abstain')}
           WHERE id = ${proposalId}
         `;
 
@@ -152,3 +535,223 @@ export const castVote = api<VoteRequest, { success: boolean }>(
     });
   }
 );
+
+// Lists the votes cast on a proposal, heaviest first.
+export const listProposalVotes = api<{ id: number }, { votes: ProposalVote[] }>(
+  { expose: true, method: "GET", path: "/governance/proposals/:id/votes" },
+  async ({ id }) => {
+    return withPerformanceMonitoring("/governance/proposals/:id/votes", "GET", async () => {
+      const proposal = await blockchainDB.queryRow<{ id: number }>`
+        SELECT id FROM governance_proposals WHERE id = ${id}
+      `;
+      if (!proposal) {
+        throw APIError.notFound("Proposal not found");
+      }
+
+      const rows = await blockchainDB.queryAll<VoteRow>`
+        SELECT voter_id, vote_option, voting_weight, timestamp
+        FROM governance_votes
+        WHERE proposal_id = ${id}
+        ORDER BY voting_weight DESC, timestamp
+      `;
+      return {
+        votes: rows.map(row => ({
+          voterId: row.voter_id,
+          voteOption: row.vote_option,
+          votingWeight: row.voting_weight,
+          votedAt: row.timestamp,
+        })),
+      };
+    });
+  }
+);
+
+// Executes a queued proposal once its timelock has passed: applies all of its actions in one
+// transaction, so either every action takes effect or none does, and records the execution hash.
+export const executeProposal = api<{ id: number; executorId?: string }, { proposal: Proposal }>(
+  { expose: true, method: "POST", path: "/governance/proposals/:id/execute" },
+  async ({ id, executorId }) => {
+    return withPerformanceMonitoring("/governance/proposals/:id/execute", "POST", async () => {
+      await using tx = await blockchainDB.begin();
+      try {
+        const proposal = await tx.queryRow<ProposalRow>`
+          SELECT * FROM governance_proposals WHERE id = ${id} FOR UPDATE
+        `;
+        if (!proposal) {
+          throw APIError.notFound("Proposal not found");
+        }
+        if (proposal.status === 'executed') {
+          throw APIError.alreadyExists("Proposal has already been executed");
+        }
+        if (proposal.status !== 'queued') {
+          throw APIError.failedPrecondition(`Only queued proposals can be executed; this one is ${proposal.status}`);
+        }
+        if (proposal.eta && new Date(proposal.eta) > new Date()) {
+          throw APIError.failedPrecondition(`Proposal is timelocked until ${new Date(proposal.eta).toISOString()}`);
+        }
+
+        for (const [index, action] of proposal.actions.entries()) {
+          await applyAction(tx, id, index, action);
+        }
+
+        const executedAt = new Date();
+        const executionTxHash = "0x" + crypto.createHash('sha256')
+          .update(JSON.stringify({ proposalId: id, actions: proposal.actions, executedAt: executedAt.toISOString() }))
+          .digest('hex');
+        const executed = await tx.queryRow<ProposalRow>`
+          UPDATE governance_proposals
+          SET status = 'executed', execution_tx_hash = ${executionTxHash}, executed_at = ${executedAt}
+          WHERE id = ${id}
+          RETURNING *
+        `;
+        await recordTransition(tx, id, 'queued', 'executed', executorId ?? null, `Execution ${executionTxHash}`);
+
+        const [result] = await withTransitions(tx, [executed!]);
+        await tx.commit();
+        return { proposal: result };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Lets the proposer withdraw a proposal that is still being voted on or waiting in the timelock.
+export const cancelProposal = api<{ id: number; proposerId: string; reason?: string }, { proposal: Proposal }>(
+  { expose: true, method: "POST", path: "/governance/proposals/:id/cancel" },
+  async ({ id, proposerId, reason }) => {
+    return withPerformanceMonitoring("/governance/proposals/:id/cancel", "POST", async () => {
+      await using tx = await blockchainDB.begin();
+      try {
+        const proposal = await tx.queryRow<ProposalRow>`
+          SELECT * FROM governance_proposals WHERE id = ${id} FOR UPDATE
+        `;
+        if (!proposal) {
+          throw APIError.notFound("Proposal not found");
+        }
+        if (proposal.proposer_id !== proposerId) {
+          throw APIError.permissionDenied("Only the proposer can cancel a proposal");
+        }
+        if (!['pending', 'active', 'queued'].includes(proposal.status)) {
+          throw APIError.failedPrecondition(`A ${proposal.status} proposal cannot be cancelled`);
+        }
+
+        const cancelled = await tx.queryRow<ProposalRow>`
+          UPDATE governance_proposals
+          SET status = 'cancelled', cancelled_at = NOW(), eta = NULL
+          WHERE id = ${id}
+          RETURNING *
+        `;
+        await recordTransition(tx, id, proposal.status, 'cancelled', proposerId, reason ?? null);
+
+        const [result] = await withTransitions(tx, [cancelled!]);
+        await tx.commit();
+        return { proposal: result };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Finalizes every active proposal whose voting period has ended, each in its own transaction.
+// Called by the cron job below.
+export const finalizeEndedProposals = api<void, { queued: number; defeated: number }>(
+  { expose: false, method: "POST", path: "/internal/governance/finalize" },
+  async () => {
+    const now = new Date();
+    const ended = await blockchainDB.queryAll<{ id: number }>`
+      SELECT id FROM governance_proposals
+      WHERE status = 'active' AND end_time <= ${now}
+      ORDER BY end_time, id
+    `;
+
+    let queued = 0;
+    let defeated = 0;
+    for (const { id } of ended) {
+      await using tx = await blockchainDB.begin();
+      try {
+        const proposal = await tx.queryRow<ProposalRow>`
+          SELECT * FROM governance_proposals
+          WHERE id = ${id} AND status = 'active' AND end_time <= ${now}
+          FOR UPDATE SKIP LOCKED
+        `;
+        if (proposal) {
+          const status = await finalizeProposal(tx, proposal, now);
+          if (status === 'queued') queued++;
+          else defeated++;
+        }
+        await tx.commit();
+      } catch (error) {
+        await tx.rollback();
+        log.error(error, "Failed to finalize proposal", { proposalId: id });
+      }
+    }
+
+    if (ended.length > 0) {
+      log.info("Finalized governance proposals", { queued, defeated });
+    }
+    return { queued, defeated };
+  }
+);
+
+const _ = new CronJob("governance-finalizer", {
+  title: "Finalize governance proposals after voting ends",
+  every: "5m",
+  endpoint: finalizeEndedProposals,
+});
+
+// Returns the voting period, thresholds and timelock applied to new proposals.
+export const getGovernanceParameters = api<void, { parameters: GovernanceParameters }>(
+  { expose: true, method: "GET", path: "/governance/parameters" },
+  async () => {
+    const row = await blockchainDB.queryRow<ParametersRow>`SELECT * FROM governance_parameters`;
+    return { parameters: toGovernanceParameters(row!) };
+  }
+);
+
+// Changes the governance parameters. Proposals already created keep the values they started with.
+export const updateGovernanceParameters = api<UpdateGovernanceParametersRequest, { parameters: GovernanceParameters }>(
+  { expose: true, method: "POST", path: "/admin/governance/parameters" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/governance/parameters", "POST", async () => {
+      const { votingPeriodHours, quorumVotes, approvalThresholdBps, timelockHours } = req;
+      if (votingPeriodHours !== undefined && (!Number.isInteger(votingPeriodHours) || votingPeriodHours < 1)) {
+        throw APIError.invalidArgument("Voting period must be at least 1 hour");
+      }
+      if (quorumVotes !== undefined && !/^\d+$/.test(quorumVotes)) {
+        throw APIError.invalidArgument("Quorum must be a whole number of votes");
+      }
+      if (approvalThresholdBps !== undefined && (!Number.isInteger(approvalThresholdBps) || approvalThresholdBps < 0 || approvalThresholdBps >= 10000)) {
+        throw APIError.invalidArgument("Approval threshold must be between 0 and 9999 basis points");
+      }
+      if (timelockHours !== undefined && (!Number.isInteger(timelockHours) || timelockHours < 0)) {
+        throw APIError.invalidArgument("Timelock must be a whole number of hours");
+      }
+
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const row = await tx.queryRow<ParametersRow>`
+          UPDATE governance_parameters
+          SET voting_period_hours = COALESCE(${votingPeriodHours ?? null}::int, voting_period_hours),
+              quorum_votes = COALESCE(${quorumVotes ?? null}::numeric, quorum_votes),
+              approval_threshold_bps = COALESCE(${approvalThresholdBps ?? null}::int, approval_threshold_bps),
+              timelock_hours = COALESCE(${timelockHours ?? null}::int, timelock_hours),
+              updated_by = ${req.adminId},
+              updated_at = NOW()
+          RETURNING *
+        `;
+
+        await tx.commit();
+        return { parameters: toGovernanceParameters(row!) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
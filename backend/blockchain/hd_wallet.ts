@@ -0,0 +1,299 @@
+import { APIError } from "encore.dev/api";
+import crypto from "crypto";
+import { BIP39_ENGLISH_WORDLIST } from "./bip39_wordlist";
+
+// BIP-44 path of account 0's external (receive) chain for coin type 60. Receive address i is
+// its non-hardened child i.
+export const RECEIVE_CHAIN_PATH = "m/44'/60'/0'/0";
+export const HARDENED_OFFSET = 0x80000000;
+
+const MNEMONIC_WORD_COUNTS = [12, 15, 18, 21, 24];
+const PBKDF2_ROUNDS = 2048;
+
+// secp256k1 field prime and group order
+const CURVE_P = 2n ** 256n - 2n ** 32n - 977n;
+const CURVE_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+export interface HDNode {
+  privateKey?: Buffer; // Absent for a public-only node, which can only derive non-hardened children
+  publicKey: Buffer; // Compressed, 33 bytes
+  chainCode: Buffer;
+}
+
+const WORD_INDEX = new Map(BIP39_ENGLISH_WORDLIST.map((word, index) => [word, index]));
+
+function normalizeMnemonic(mnemonic: string): string {
+  return mnemonic.normalize('NFKD').trim().toLowerCase().split(/\s+/).join(' ');
+}
+
+function toBits(bytes: Buffer): string {
+  return [...bytes].map(b => b.toString(2).padStart(8, '0')).join('');
+}
+
+function checksumBits(entropy: Buffer): string {
+  return toBits(crypto.createHash('sha256').update(entropy).digest()).slice(0, entropy.length / 4);
+}
+
+// Encodes 128-256 bits of entropy as a mnemonic: the entropy plus the leading bits of its
+// SHA-256 as checksum, split into 11-bit word indexes.
+export function entropyToMnemonic(entropy: Buffer): string {
+  if (entropy.length < 16 || entropy.length > 32 || entropy.length % 4 !== 0) {
+    throw new Error("Entropy must be 16 to 32 bytes, in steps of 4");
+  }
+  const bits = toBits(entropy) + checksumBits(entropy);
+  const words: string[] = [];
+  for (let i = 0; i < bits.length; i += 11) {
+    words.push(BIP39_ENGLISH_WORDLIST[parseInt(bits.slice(i, i + 11), 2)]);
+  }
+  return words.join(' ');
+}
+
+export function generateMnemonic(strengthBits: number = 128): string {
+  return entropyToMnemonic(crypto.randomBytes(strengthBits / 8));
+}
+
+// Decodes a mnemonic back to its entropy, rejecting unknown words and bad checksums.
+export function mnemonicToEntropy(mnemonic: string): Buffer {
+  const words = normalizeMnemonic(mnemonic).split(' ');
+  if (!MNEMONIC_WORD_COUNTS.includes(words.length)) {
+    throw APIError.invalidArgument(`Mnemonic must have ${MNEMONIC_WORD_COUNTS.join(', ')} words`);
+  }
+
+  const bits = words.map(word => {
+    const index = WORD_INDEX.get(word);
+    if (index === undefined) {
+      throw APIError.invalidArgument(`Unknown mnemonic word: ${word}`);
+    }
+    return index.toString(2).padStart(11, '0');
+  }).join('');
+
+  const entropyBits = bits.length / 33 * 32;
+  const entropy = Buffer.from(bits.slice(0, entropyBits).match(/.{8}/g)!.map(byte => parseInt(byte, 2)));
+  if (checksumBits(entropy) !== bits.slice(entropyBits)) {
+    throw APIError.invalidArgument("Mnemonic checksum is invalid");
+  }
+  return entropy;
+}
+
+export function mnemonicToSeed(mnemonic: string, passphrase: string = ''): Buffer {
+  mnemonicToEntropy(mnemonic);
+  return crypto.pbkdf2Sync(
+    Buffer.from(normalizeMnemonic(mnemonic), 'utf8'),
+    Buffer.from('mnemonic' + passphrase.normalize('NFKD'), 'utf8'),
+    PBKDF2_ROUNDS,
+    64,
+    'sha512'
+  );
+}
+
+// Keccak-256 as used for Ethereum-style addresses (the original Keccak padding, not SHA3-256).
+const KECCAK_ROUNDS = 24;
+const MASK_64 = (1n << 64n) - 1n;
+const { KECCAK_ROUND_CONSTANTS, KECCAK_ROTATIONS } = (() => {
+  const constants: bigint[] = [];
+  let lfsr = 1;
+  for (let round = 0; round < KECCAK_ROUNDS; round++) {
+    let constant = 0n;
+    for (let j = 0; j < 7; j++) {
+      if (lfsr & 1) constant ^= 1n << BigInt((1 << j) - 1);
+      lfsr = lfsr & 0x80 ? ((lfsr << 1) ^ 0x71) & 0xff : (lfsr << 1) & 0xff;
+    }
+    constants.push(constant);
+  }
+
+  const rotations = new Array<number>(25).fill(0);
+  let x = 1;
+  let y = 0;
+  for (let t = 0; t < 24; t++) {
+    rotations[x + 5 * y] = ((t + 1) * (t + 2) / 2) % 64;
+    [x, y] = [y, (2 * x + 3 * y) % 5];
+  }
+  return { KECCAK_ROUND_CONSTANTS: constants, KECCAK_ROTATIONS: rotations };
+})();
+
+function rotl64(value: bigint, bits: number): bigint {
+  if (bits === 0) return value;
+  return ((value << BigInt(bits)) | (value >> BigInt(64 - bits))) & MASK_64;
+}
+
+function keccakF(state: bigint[]) {
+  for (let round = 0; round < KECCAK_ROUNDS; round++) {
+    const columns = [0, 1, 2, 3, 4].map(x => state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20]);
+    for (let x = 0; x < 5; x++) {
+      const d = columns[(x + 4) % 5] ^ rotl64(columns[(x + 1) % 5], 1);
+      for (let y = 0; y < 25; y += 5) state[x + y] ^= d;
+    }
+
+    const moved = new Array<bigint>(25);
+    for (let x = 0; x < 5; x++) {
+      for (let y = 0; y < 5; y++) {
+        moved[y + 5 * ((2 * x + 3 * y) % 5)] = rotl64(state[x + 5 * y], KECCAK_ROTATIONS[x + 5 * y]);
+      }
+    }
+
+    for (let y = 0; y < 25; y += 5) {
+      for (let x = 0; x < 5; x++) {
+        state[x + y] = moved[x + y] ^ (~moved[(x + 1) % 5 + y] & MASK_64 & moved[(x + 2) % 5 + y]);
+      }
+    }
+    state[0] ^= KECCAK_ROUND_CONSTANTS[round];
+  }
+}
+
+export function keccak256(data: Buffer): Buffer {
+  const rate = 136;
+  const padded = Buffer.alloc((Math.floor(data.length / rate) + 1) * rate);
+  data.copy(padded);
+  padded[data.length] ^= 0x01;
+  padded[padded.length - 1] ^= 0x80;
+
+  const state = new Array<bigint>(25).fill(0n);
+  for (let offset = 0; offset < padded.length; offset += rate) {
+    for (let lane = 0; lane < rate / 8; lane++) {
+      state[lane] ^= padded.readBigUInt64LE(offset + lane * 8);
+    }
+    keccakF(state);
+  }
+
+  const digest = Buffer.alloc(32);
+  for (let lane = 0; lane < 4; lane++) {
+    digest.writeBigUInt64LE(state[lane], lane * 8);
+  }
+  return digest;
+}
+
+// secp256k1 point arithmetic, needed only to add points for public child derivation;
+// scalar multiplication is left to OpenSSL through ECDH.
+type Point = { x: bigint; y: bigint };
+
+function mod(value: bigint, modulus: bigint = CURVE_P): bigint {
+  const result = value % modulus;
+  return result >= 0n ? result : result + modulus;
+}
+
+function modInverse(value: bigint): bigint {
+  let result = 1n;
+  let base = mod(value);
+  let exponent = CURVE_P - 2n;
+  while (exponent > 0n) {
+    if (exponent & 1n) result = result * base % CURVE_P;
+    base = base * base % CURVE_P;
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function bufferToBigInt(bytes: Buffer): bigint {
+  return BigInt('0x' + bytes.toString('hex'));
+}
+
+function bigIntToBuffer32(value: bigint): Buffer {
+  return Buffer.from(value.toString(16).padStart(64, '0'), 'hex');
+}
+
+function uncompressPublicKey(publicKey: Buffer): Buffer {
+  return crypto.ECDH.convertKey(publicKey, 'secp256k1', undefined, undefined, 'uncompressed') as Buffer;
+}
+
+function decodePoint(publicKey: Buffer): Point {
+  const uncompressed = uncompressPublicKey(publicKey);
+  return { x: bufferToBigInt(uncompressed.subarray(1, 33)), y: bufferToBigInt(uncompressed.subarray(33)) };
+}
+
+function encodePoint(point: Point): Buffer {
+  return Buffer.concat([Buffer.from([point.y & 1n ? 0x03 : 0x02]), bigIntToBuffer32(point.x)]);
+}
+
+function addPoints(a: Point, b: Point): Point | null {
+  let slope: bigint;
+  if (a.x === b.x) {
+    if (mod(a.y + b.y) === 0n) return null;
+    slope = mod(3n * a.x * a.x * modInverse(2n * a.y));
+  } else {
+    slope = mod((b.y - a.y) * modInverse(b.x - a.x));
+  }
+  const x = mod(slope * slope - a.x - b.x);
+  return { x, y: mod(slope * (a.x - x) - a.y) };
+}
+
+function publicKeyFromPrivate(privateKey: Buffer): Buffer {
+  const ecdh = crypto.createECDH('secp256k1');
+  ecdh.setPrivateKey(privateKey);
+  return ecdh.getPublicKey(null, 'compressed');
+}
+
+function nodeFromPrivateKey(privateKey: Buffer, chainCode: Buffer): HDNode {
+  return { privateKey, publicKey: publicKeyFromPrivate(privateKey), chainCode };
+}
+
+// BIP-32 master node: HMAC-SHA512 of the seed keyed with "Bitcoin seed".
+export function masterNodeFromSeed(seed: Buffer): HDNode {
+  const digest = crypto.createHmac('sha512', 'Bitcoin seed').update(seed).digest();
+  const key = bufferToBigInt(digest.subarray(0, 32));
+  if (key === 0n || key >= CURVE_N) {
+    throw new Error("Seed produces an invalid master key");
+  }
+  return nodeFromPrivateKey(digest.subarray(0, 32), digest.subarray(32));
+}
+
+// BIP-32 child key derivation. Indexes from HARDENED_OFFSET up are hardened and need the
+// private key; public-only nodes derive public children by point addition. The spec's
+// invalid-child case (probability below 2^-127) is reported as an error.
+export function deriveChild(node: HDNode, index: number): HDNode {
+  const hardened = index >= HARDENED_OFFSET;
+  if (hardened && !node.privateKey) {
+    throw new Error("Hardened derivation needs the private key");
+  }
+
+  const serializedIndex = Buffer.alloc(4);
+  serializedIndex.writeUInt32BE(index);
+  const data = hardened
+    ? Buffer.concat([Buffer.alloc(1), node.privateKey!, serializedIndex])
+    : Buffer.concat([node.publicKey, serializedIndex]);
+  const digest = crypto.createHmac('sha512', node.chainCode).update(data).digest();
+  const tweak = bufferToBigInt(digest.subarray(0, 32));
+  const chainCode = digest.subarray(32);
+  if (tweak >= CURVE_N) {
+    throw new Error(`Child ${index} is invalid`);
+  }
+
+  if (node.privateKey) {
+    const key = mod(tweak + bufferToBigInt(node.privateKey), CURVE_N);
+    if (key === 0n) {
+      throw new Error(`Child ${index} is invalid`);
+    }
+    return nodeFromPrivateKey(bigIntToBuffer32(key), chainCode);
+  }
+
+  const point = addPoints(decodePoint(publicKeyFromPrivate(digest.subarray(0, 32))), decodePoint(node.publicKey));
+  if (!point) {
+    throw new Error(`Child ${index} is invalid`);
+  }
+  return { publicKey: encodePoint(point), chainCode };
+}
+
+// Derives a path such as m/44'/60'/0'/0 from the given node (the master node for paths
+// starting with m).
+export function derivePath(node: HDNode, path: string): HDNode {
+  const segments = path.split('/');
+  if (segments[0] !== 'm') {
+    throw new Error(`Derivation path must start with m: ${path}`);
+  }
+  return segments.slice(1).reduce((parent, segment) => {
+    const match = /^(\d+)('?)$/.exec(segment);
+    if (!match || Number(match[1]) >= HARDENED_OFFSET) {
+      throw new Error(`Invalid derivation path segment: ${segment}`);
+    }
+    return deriveChild(parent, Number(match[1]) + (match[2] ? HARDENED_OFFSET : 0));
+  }, node);
+}
+
+// The receive chain node of a mnemonic's wallet.
+export function receiveChainFromMnemonic(mnemonic: string, passphrase: string = ''): HDNode {
+  return derivePath(masterNodeFromSeed(mnemonicToSeed(mnemonic, passphrase)), RECEIVE_CHAIN_PATH);
+}
+
+// Ethereum-style address: the last 20 bytes of the Keccak-256 of the uncompressed public key.
+export function addressFromPublicKey(publicKey: Buffer): string {
+  return '0x' + keccak256(uncompressPublicKey(publicKey).subarray(1)).subarray(12).toString('hex');
+}
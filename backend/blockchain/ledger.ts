@@ -0,0 +1,396 @@
+import { api, APIError } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { requireAdmin } from "./admin";
+
+// Amounts are taken as given by the caller: exchange amounts are numbers, AMM token amounts
+// are bigints or integer strings.
+export type LedgerAmount = number | bigint | string;
+
+// A user account maps onto one side of a user_balances row; system accounts (the exchange
+// desk, the AMM pools, the treasury, ...) only exist in the journal.
+export interface LedgerAccount {
+  type: 'user' | 'system';
+  name: string;
+  locked?: boolean; // User accounts only: the locked_balance side
+}
+
+export interface JournalLine {
+  account: LedgerAccount;
+  currency: string;
+  amount: LedgerAmount; // Positive credits the account, negative debits it
+}
+
+export interface JournalEntry {
+  entryType: string;
+  reference?: string;
+  lines: JournalLine[];
+}
+
+export interface BalanceDiscrepancy {
+  runId: number;
+  userId: string;
+  currency: string;
+  expectedBalance: number;
+  actualBalance: number;
+  expectedLockedBalance: number;
+  actualLockedBalance: number;
+  detectedAt: Date;
+}
+
+export interface ReconciliationRun {
+  id: number;
+  accountsChecked: number;
+  discrepancies: number;
+  startedAt: Date;
+  completedAt?: Date;
+}
+
+export interface LedgerLine {
+  entryId: number;
+  entryType: string;
+  reference?: string;
+  accountType: 'user' | 'system';
+  account: string;
+  locked: boolean;
+  currency: string;
+  amount: number;
+  createdAt: Date;
+}
+
+interface DiscrepancyRow {
+  run_id: number;
+  user_id: string;
+  currency: string;
+  expected_balance: string;
+  actual_balance: string;
+  expected_locked_balance: string;
+  actual_locked_balance: string;
+  detected_at: Date;
+}
+
+interface ReconciliationRunRow {
+  id: number;
+  accounts_checked: number;
+  discrepancies: number;
+  started_at: Date;
+  completed_at: Date | null;
+}
+
+const DEFAULT_JOURNAL_LIMIT = 100;
+const MAX_JOURNAL_LIMIT = 500;
+
+export function userAccount(userId: string): LedgerAccount {
+  return { type: 'user', name: userId };
+}
+
+export function lockedAccount(userId: string): LedgerAccount {
+  return { type: 'user', name: userId, locked: true };
+}
+
+export function systemAccount(name: string): LedgerAccount {
+  return { type: 'system', name };
+}
+
+function negate(amount: LedgerAmount): LedgerAmount {
+  if (typeof amount === 'string') {
+    return amount.startsWith('-') ? amount.slice(1) : `-${amount}`;
+  }
+  return -amount;
+}
+
+// The two lines that move an amount from one account to another.
+export function movement(from: LedgerAccount, to: LedgerAccount, currency: string, amount: LedgerAmount): JournalLine[] {
+  return [
+    { account: from, currency, amount: negate(amount) },
+    { account: to, currency, amount },
+  ];
+}
+
+function toBalanceDiscrepancy(row: DiscrepancyRow): BalanceDiscrepancy {
+  return {
+    runId: row.run_id,
+    userId: row.user_id,
+    currency: row.currency,
+    expectedBalance: Number(row.expected_balance),
+    actualBalance: Number(row.actual_balance),
+    expectedLockedBalance: Number(row.expected_locked_balance),
+    actualLockedBalance: Number(row.actual_locked_balance),
+    detectedAt: row.detected_at,
+  };
+}
+
+function toReconciliationRun(row: ReconciliationRunRow): ReconciliationRun {
+  return {
+    id: row.id,
+    accountsChecked: row.accounts_checked,
+    discrepancies: row.discrepancies,
+    startedAt: row.started_at,
+    completedAt: row.completed_at ?? undefined,
+  };
+}
+
+// Posts a journal entry and applies its user lines to user_balances, inside the caller's
+// transaction. Every change to a user_balances amount goes through here. Lines must sum to zero per
+// currency, and a user account may not end up below zero. Returns the entry id, or null
+// when every line rounds to zero.
+export async function postJournalEntry(tx: any, entry: JournalEntry): Promise<number | null> {
+  const header = await tx.queryRow<{ id: number }>`
+    INSERT INTO ledger_entries (entry_type, reference)
+    VALUES (${entry.entryType}, ${entry.reference ?? null})
+    RETURNING id
+  `;
+  const entryId = header!.id;
+
+  let posted = 0;
+  for (const line of entry.lines) {
+    const amount = line.amount.toString();
+    const inserted = await tx.queryRow<{ id: number }>`
+      INSERT INTO ledger_lines (entry_id, account_type, account, locked, currency, amount)
+      SELECT ${entryId}, ${line.account.type}, ${line.account.name}, ${line.account.locked ?? false},
+             ${line.currency}, ROUND(${amount}::numeric, 8)
+      WHERE ROUND(${amount}::numeric, 8) <> 0
+      RETURNING id
+    `;
+    if (inserted) posted++;
+  }
+  if (posted === 0) {
+    // Every line rounded to zero; the header stays, as the journal is append-only
+    return null;
+  }
+
+  const unbalanced = await tx.queryRow<{ currency: string }>`
+    SELECT currency FROM ledger_lines
+    WHERE entry_id = ${entryId}
+    GROUP BY currency
+    HAVING SUM(amount) <> 0
+    LIMIT 1
+  `;
+  if (unbalanced) {
+    throw APIError.internal(`Journal entry ${entry.entryType} does not balance in ${unbalanced.currency}`);
+  }
+
+  // Lock the affected balances in a fixed order before checking them
+  await tx.queryAll`
+    SELECT b.id FROM user_balances b
+    WHERE (b.user_id, b.currency) IN (
+      SELECT account, currency FROM ledger_lines WHERE entry_id = ${entryId} AND account_type = 'user'
+    )
+    ORDER BY b.id
+    FOR UPDATE
+  `;
+
+  const shortfall = await tx.queryRow<{ currency: string; in_locked: boolean }>`
+    WITH deltas AS (
+      SELECT account AS user_id, currency,
+             COALESCE(SUM(amount) FILTER (WHERE NOT locked), 0) AS available,
+             COALESCE(SUM(amount) FILTER (WHERE locked), 0) AS locked
+      FROM ledger_lines
+      WHERE entry_id = ${entryId} AND account_type = 'user'
+      GROUP BY account, currency
+    )
+    SELECT d.currency, COALESCE(b.balance, 0) + d.available >= 0 AS in_locked
+    FROM deltas d
+    LEFT JOIN user_balances b ON b.user_id = d.user_id AND b.currency = d.currency
+    WHERE COALESCE(b.balance, 0) + d.available < 0
+       OR COALESCE(b.locked_balance, 0) + d.locked < 0
+    LIMIT 1
+  `;
+  if (shortfall) {
+    throw APIError.failedPrecondition(
+      shortfall.in_locked ? `Insufficient locked ${shortfall.currency} balance` : `Insufficient ${shortfall.currency} balance`
+    );
+  }
+
+  await tx.exec`
+    INSERT INTO user_balances (user_id, currency, balance, locked_balance)
+    SELECT account, currency,
+           COALESCE(SUM(amount) FILTER (WHERE NOT locked), 0),
+           COALESCE(SUM(amount) FILTER (WHERE locked), 0)
+    FROM ledger_lines
+    WHERE entry_id = ${entryId} AND account_type = 'user'
+    GROUP BY account, currency
+    ON CONFLICT (user_id, currency) DO UPDATE
+    SET balance = user_balances.balance + EXCLUDED.balance,
+        locked_balance = user_balances.locked_balance + EXCLUDED.locked_balance,
+        last_updated = NOW()
+  `;
+
+  return entryId;
+}
+
+// Recomputes every user balance from the journal and records the ones user_balances
+// disagrees with.
+export async function reconcileBalances(): Promise<{ run: ReconciliationRun; discrepancies: BalanceDiscrepancy[] }> {
+  const run = await blockchainDB.queryRow<{ id: number }>`
+    INSERT INTO reconciliation_runs DEFAULT VALUES RETURNING id
+  `;
+
+  // One statement, so the journal and the balances are read from the same snapshot
+  const rows = await blockchainDB.queryAll<DiscrepancyRow>`
+    WITH journal AS (
+      SELECT account AS user_id, currency,
+             COALESCE(SUM(amount) FILTER (WHERE NOT locked), 0) AS balance,
+             COALESCE(SUM(amount) FILTER (WHERE locked), 0) AS locked_balance
+      FROM ledger_lines
+      WHERE account_type = 'user'
+      GROUP BY account, currency
+    )
+    INSERT INTO balance_discrepancies (
+      run_id, user_id, currency,
+      expected_balance, actual_balance, expected_locked_balance, actual_locked_balance
+    )
+    SELECT ${run!.id}, COALESCE(j.user_id, b.user_id), COALESCE(j.currency, b.currency),
+           COALESCE(j.balance, 0), COALESCE(b.balance, 0),
+           COALESCE(j.locked_balance, 0), COALESCE(b.locked_balance, 0)
+    FROM journal j
+    FULL OUTER JOIN user_balances b ON b.user_id = j.user_id AND b.currency = j.currency
+    WHERE COALESCE(j.balance, 0) <> COALESCE(b.balance, 0)
+       OR COALESCE(j.locked_balance, 0) <> COALESCE(b.locked_balance, 0)
+    RETURNING *
+  `;
+
+  const checked = await blockchainDB.queryRow<{ count: number }>`
+    SELECT COUNT(*)::int AS count FROM (
+      SELECT user_id, currency FROM user_balances
+      UNION
+      SELECT account, currency FROM ledger_lines WHERE account_type = 'user'
+    ) accounts
+  `;
+
+  const completed = await blockchainDB.queryRow<ReconciliationRunRow>`
+    UPDATE reconciliation_runs
+    SET accounts_checked = ${checked!.count}, discrepancies = ${rows.length}, completed_at = NOW()
+    WHERE id = ${run!.id}
+    RETURNING *
+  `;
+
+  if (rows.length > 0) {
+    log.error("user balances drifted from the journal", {
+      runId: run!.id,
+      discrepancies: rows.length,
+      accounts: rows.slice(0, 20).map(r => `${r.user_id}/${r.currency}`),
+    });
+  }
+
+  return { run: toReconciliationRun(completed!), discrepancies: rows.map(toBalanceDiscrepancy) };
+}
+
+// Runs a reconciliation pass. Called by the cron job below.
+export const runBalanceReconciliation = api<void, { runId: number; discrepancies: number }>(
+  { expose: false, method: "POST", path: "/internal/ledger/reconcile" },
+  async () => {
+    const { run } = await reconcileBalances();
+    return { runId: run.id, discrepancies: run.discrepancies };
+  }
+);
+
+const _ = new CronJob("ledger-reconciliation", {
+  title: "Reconcile user balances against the journal",
+  every: "1h",
+  endpoint: runBalanceReconciliation,
+});
+
+// Runs a reconciliation pass on demand.
+export const reconcileLedger = api<{ adminId: string }, { run: ReconciliationRun; discrepancies: BalanceDiscrepancy[] }>(
+  { expose: true, method: "POST", path: "/admin/ledger/reconcile" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/ledger/reconcile", "POST", async () => {
+      await requireAdmin(blockchainDB, req.adminId);
+      return reconcileBalances();
+    });
+  }
+);
+
+// Reports the discrepancies found by the latest reconciliation run (or the given one),
+// optionally for a single user or currency.
+export const getBalanceDiscrepancies = api<
+  { adminId: string; userId?: string; currency?: string; runId?: number },
+  { run: ReconciliationRun | null; discrepancies: BalanceDiscrepancy[] }
+>(
+  { expose: true, method: "GET", path: "/admin/ledger/discrepancies" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/ledger/discrepancies", "GET", async () => {
+      await requireAdmin(blockchainDB, req.adminId);
+
+      const run = req.runId !== undefined
+        ? await blockchainDB.queryRow<ReconciliationRunRow>`
+            SELECT * FROM reconciliation_runs WHERE id = ${req.runId}
+          `
+        : await blockchainDB.queryRow<ReconciliationRunRow>`
+            SELECT * FROM reconciliation_runs WHERE completed_at IS NOT NULL
+            ORDER BY id DESC LIMIT 1
+          `;
+      if (!run) {
+        if (req.runId !== undefined) {
+          throw APIError.notFound("Reconciliation run not found");
+        }
+        return { run: null, discrepancies: [] };
+      }
+
+      const rows = await blockchainDB.queryAll<DiscrepancyRow>`
+        SELECT * FROM balance_discrepancies
+        WHERE run_id = ${run.id}
+          AND (${req.userId ?? null}::text IS NULL OR user_id = ${req.userId ?? null})
+          AND (${req.currency ?? null}::text IS NULL OR currency = ${req.currency ?? null})
+        ORDER BY user_id, currency
+      `;
+
+      return { run: toReconciliationRun(run), discrepancies: rows.map(toBalanceDiscrepancy) };
+    });
+  }
+);
+
+// Lists the journal lines posted against a user's balances, newest first.
+export const getUserJournal = api<
+  { adminId: string; userId: string; currency?: string; limit?: number },
+  { lines: LedgerLine[] }
+>(
+  { expose: true, method: "GET", path: "/admin/ledger/entries" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/ledger/entries", "GET", async () => {
+      await requireAdmin(blockchainDB, req.adminId);
+      if (!req.userId) {
+        throw APIError.invalidArgument("userId is required");
+      }
+      const limit = Math.min(Math.max(req.limit ?? DEFAULT_JOURNAL_LIMIT, 1), MAX_JOURNAL_LIMIT);
+
+      const rows = await blockchainDB.queryAll<{
+        entry_id: number;
+        entry_type: string;
+        reference: string | null;
+        account_type: 'user' | 'system';
+        account: string;
+        locked: boolean;
+        currency: string;
+        amount: string;
+        created_at: Date;
+      }>`
+        SELECT l.entry_id, e.entry_type, e.reference, l.account_type, l.account, l.locked,
+               l.currency, l.amount::text AS amount, e.created_at
+        FROM ledger_lines l
+        JOIN ledger_entries e ON e.id = l.entry_id
+        WHERE l.account_type = 'user' AND l.account = ${req.userId}
+          AND (${req.currency ?? null}::text IS NULL OR l.currency = ${req.currency ?? null})
+        ORDER BY l.id DESC
+        LIMIT ${limit}
+      `;
+
+      return {
+        lines: rows.map(row => ({
+          entryId: row.entry_id,
+          entryType: row.entry_type,
+          reference: row.reference ?? undefined,
+          accountType: row.account_type,
+          account: row.account,
+          locked: row.locked,
+          currency: row.currency,
+          amount: Number(row.amount),
+          createdAt: row.created_at,
+        })),
+      };
+    });
+  }
+);
@@ -1,6 +1,7 @@
 import { api, APIError } from "encore.dev/api";
 import { monitoredBlockchainDB as blockchainDB } from "./db";
 import { withPerformanceMonitoring } from "./health";
+import { movement, postJournalEntry, userAccount } from "./ledger";
 
 export interface NFT {
   id: number;
@@ -81,12 +82,11 @@ export const buyNFT = api<{ listingId: number; buyerId: string }, { success: boo
         }
 
         // Transfer funds
-        await tx.exec`
-          UPDATE user_balances SET balance = balance - ${listing.price} WHERE user_id = ${buyerId} AND currency = ${listing.currency}
-        `;
-        await tx.exec`
-          UPDATE user_balances SET balance = balance + ${listing.price} WHERE user_id = ${listing.seller_id} AND currency = ${listing.currency}
-        `;
+        await postJournalEntry(tx, {
+          entryType: 'nft_sale',
+          reference: `nft_listing:${listingId}`,
+          lines: movement(userAccount(buyerId), userAccount(listing.seller_id), listing.currency, listing.price),
+        });
 
         // Transfer NFT ownership
         await tx.exec`
@@ -95,7 +95,7 @@ export const buyNFT = api<{ listingId: number; buyerId: string }, { success: boo
 
         // Update listing status
         await tx.exec`
-          UPDATE nft_listings SET status = 'sold' WHERE id = ${listingId}
+          UPDATE nft_listings SET status = 'sold', buyer_id = ${buyerId}, sold_at = NOW() WHERE id = ${listingId}
         `;
 
         await tx.commit();
@@ -0,0 +1,24 @@
+-- Resting limit and stop orders against AMM pools
+CREATE TABLE IF NOT EXISTS amm_orders (
+    id BIGSERIAL PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    pool_id BIGINT NOT NULL REFERENCES liquidity_pools(id),
+    order_type TEXT NOT NULL CHECK (order_type IN ('limit', 'stop')),
+    token_in TEXT NOT NULL,
+    token_out TEXT NOT NULL,
+    amount_in DECIMAL(78, 0) NOT NULL CHECK (amount_in > 0),
+    trigger_price DOUBLE PRECISION NOT NULL CHECK (trigger_price > 0), -- token_out per token_in
+    minimum_amount_out DECIMAL(78, 0) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'cancelled')),
+    amount_out DECIMAL(78, 0),
+    tx_hash TEXT,
+    last_error TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    filled_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_amm_orders_pool_open ON amm_orders(pool_id, created_at) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_amm_orders_user_status ON amm_orders(user_id, status);
+
+COMMENT ON TABLE amm_orders IS 'Limit and stop orders that fill through the AMM swap path once the pool price crosses trigger_price. Open order funds are held in user_balances.locked_balance.';
@@ -0,0 +1,78 @@
+-- Time-weighted average price oracle for AMM pools.
+-- Each pool accumulates price * seconds for both directions; the TWAP over a window is the
+-- change in the accumulator divided by the window length.
+
+ALTER TABLE liquidity_pools
+ADD COLUMN IF NOT EXISTS price_a_cumulative NUMERIC NOT NULL DEFAULT 0, -- sum of (reserve_b / reserve_a) * seconds
+ADD COLUMN IF NOT EXISTS price_b_cumulative NUMERIC NOT NULL DEFAULT 0, -- sum of (reserve_a / reserve_b) * seconds
+ADD COLUMN IF NOT EXISTS price_timestamp TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+
+-- One row per reserve change, used to look up the accumulator at the start of a window
+CREATE TABLE IF NOT EXISTS pool_price_observations (
+  id BIGSERIAL PRIMARY KEY,
+  pool_id BIGINT NOT NULL REFERENCES liquidity_pools(id),
+  observed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  price_a_cumulative NUMERIC NOT NULL,
+  price_b_cumulative NUMERIC NOT NULL,
+  reserve_a DECIMAL(78, 0) NOT NULL, -- Reserves in effect from observed_at until the next observation
+  reserve_b DECIMAL(78, 0) NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_pool_price_observations_pool_time ON pool_price_observations(pool_id, observed_at DESC);
+
+COMMENT ON TABLE pool_price_observations IS 'Snapshots of the pool price accumulators taken on every reserve change, backing the TWAP oracle.';
+
+-- Accumulate the price that was in effect before the reserves change.
+-- clock_timestamp() is used so that pools updated late in a long transaction are still accumulated correctly.
+CREATE OR REPLACE FUNCTION accumulate_pool_price()
+RETURNS TRIGGER AS $$
+DECLARE
+  now_ts TIMESTAMP WITH TIME ZONE := GREATEST(clock_timestamp(), OLD.price_timestamp);
+  elapsed NUMERIC := EXTRACT(EPOCH FROM (now_ts - OLD.price_timestamp));
+BEGIN
+  IF OLD.reserve_a > 0 AND OLD.reserve_b > 0 THEN
+    NEW.price_a_cumulative := OLD.price_a_cumulative + (OLD.reserve_b / OLD.reserve_a) * elapsed;
+    NEW.price_b_cumulative := OLD.price_b_cumulative + (OLD.reserve_a / OLD.reserve_b) * elapsed;
+  END IF;
+  NEW.price_timestamp := now_ts;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_pool_price_observation()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO pool_price_observations (
+    pool_id, observed_at, price_a_cumulative, price_b_cumulative, reserve_a, reserve_b
+  )
+  VALUES (
+    NEW.id, NEW.price_timestamp, NEW.price_a_cumulative, NEW.price_b_cumulative, NEW.reserve_a, NEW.reserve_b
+  );
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_accumulate_pool_price ON liquidity_pools;
+CREATE TRIGGER trigger_accumulate_pool_price
+  BEFORE UPDATE OF reserve_a, reserve_b ON liquidity_pools
+  FOR EACH ROW
+  WHEN (OLD.reserve_a IS DISTINCT FROM NEW.reserve_a OR OLD.reserve_b IS DISTINCT FROM NEW.reserve_b)
+  EXECUTE FUNCTION accumulate_pool_price();
+
+DROP TRIGGER IF EXISTS trigger_record_pool_price_update ON liquidity_pools;
+CREATE TRIGGER trigger_record_pool_price_update
+  AFTER UPDATE OF reserve_a, reserve_b ON liquidity_pools
+  FOR EACH ROW
+  WHEN (OLD.reserve_a IS DISTINCT FROM NEW.reserve_a OR OLD.reserve_b IS DISTINCT FROM NEW.reserve_b)
+  EXECUTE FUNCTION record_pool_price_observation();
+
+DROP TRIGGER IF EXISTS trigger_record_pool_price_insert ON liquidity_pools;
+CREATE TRIGGER trigger_record_pool_price_insert
+  AFTER INSERT ON liquidity_pools
+  FOR EACH ROW
+  EXECUTE FUNCTION record_pool_price_observation();
+
+-- Seed an initial observation for existing pools so windows can start from now
+INSERT INTO pool_price_observations (pool_id, observed_at, price_a_cumulative, price_b_cumulative, reserve_a, reserve_b)
+SELECT id, price_timestamp, price_a_cumulative, price_b_cumulative, reserve_a, reserve_b
+FROM liquidity_pools;
@@ -0,0 +1,19 @@
+-- Per-event price and volume ticks for AMM pools, used to build OHLCV candles
+
+CREATE TABLE IF NOT EXISTS pool_ticks (
+  id BIGSERIAL PRIMARY KEY,
+  pool_id BIGINT NOT NULL REFERENCES liquidity_pools(id),
+  tick_type TEXT NOT NULL CHECK (tick_type IN ('swap', 'liquidity_add', 'liquidity_remove')),
+  price DOUBLE PRECISION NOT NULL, -- token_a priced in token_b after the event
+  amount_a DECIMAL(78, 0) NOT NULL DEFAULT 0, -- token_a moved by the event (swap volume or liquidity)
+  amount_b DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  fee_a DECIMAL(78, 0) NOT NULL DEFAULT 0, -- LP fee collected, in the token that was sold
+  fee_b DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  reserve_a DECIMAL(78, 0) NOT NULL,
+  reserve_b DECIMAL(78, 0) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pool_ticks_pool_time ON pool_ticks(pool_id, created_at);
+
+COMMENT ON TABLE pool_ticks IS 'One row per swap or liquidity change on an AMM pool, bucketed into OHLCV candles on read.';
@@ -0,0 +1,12 @@
+-- Permissionless pool creation: fee tiers, locked minimum liquidity and on-chain registration
+
+ALTER TABLE liquidity_pools
+ADD COLUMN IF NOT EXISTS pool_address TEXT UNIQUE,
+ADD COLUMN IF NOT EXISTS creator_id TEXT,
+ADD COLUMN IF NOT EXISTS minimum_liquidity DECIMAL(78, 0) NOT NULL DEFAULT 0; -- LP tokens minted to nobody at creation
+
+-- A pair may only have one pool, whichever way round its tokens were listed
+CREATE UNIQUE INDEX IF NOT EXISTS idx_liquidity_pools_unordered_pair
+  ON liquidity_pools (LEAST(token_a, token_b), GREATEST(token_a, token_b));
+
+COMMENT ON COLUMN liquidity_pools.minimum_liquidity IS 'LP tokens permanently locked when the pool was created, preventing share-inflation attacks on the first deposit.';
@@ -0,0 +1,12 @@
+-- Pricing curve per pool: constant product (x * y = k) or StableSwap for correlated assets
+ALTER TABLE liquidity_pools
+ADD COLUMN IF NOT EXISTS curve_type TEXT NOT NULL DEFAULT 'constant_product',
+ADD COLUMN IF NOT EXISTS amplification INTEGER; -- StableSwap A; NULL for constant-product pools
+
+ALTER TABLE liquidity_pools ADD CONSTRAINT check_curve_type
+    CHECK (curve_type IN ('constant_product', 'stable'));
+
+ALTER TABLE liquidity_pools ADD CONSTRAINT check_stable_amplification
+    CHECK (curve_type <> 'stable' OR amplification > 0);
+
+COMMENT ON COLUMN liquidity_pools.amplification IS 'StableSwap amplification coefficient. Higher values keep the price closer to 1:1 over a wider range of reserves.';
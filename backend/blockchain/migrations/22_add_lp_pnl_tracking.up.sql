@@ -0,0 +1,31 @@
+-- LP PnL reporting: per-LP-token fee growth on pools, cost basis and fee checkpoints on positions
+
+ALTER TABLE liquidity_pools
+ADD COLUMN IF NOT EXISTS fee_growth_a DECIMAL(78, 0) NOT NULL DEFAULT 0, -- Swap fees per LP token, scaled by 1e18
+ADD COLUMN IF NOT EXISTS fee_growth_b DECIMAL(78, 0) NOT NULL DEFAULT 0;
+
+ALTER TABLE liquidity_positions
+ADD COLUMN IF NOT EXISTS deposited_a DECIMAL(78, 0) NOT NULL DEFAULT 0, -- Net tokens deposited, reduced pro rata on withdrawal
+ADD COLUMN IF NOT EXISTS deposited_b DECIMAL(78, 0) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS fee_growth_a_last DECIMAL(78, 0) NOT NULL DEFAULT 0, -- Pool fee growth at the last checkpoint
+ADD COLUMN IF NOT EXISTS fee_growth_b_last DECIMAL(78, 0) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS fees_earned_a DECIMAL(78, 0) NOT NULL DEFAULT 0, -- Fees accrued up to the last checkpoint
+ADD COLUMN IF NOT EXISTS fees_earned_b DECIMAL(78, 0) NOT NULL DEFAULT 0;
+
+ALTER TABLE staking_positions
+ADD COLUMN IF NOT EXISTS rewards_claimed DECIMAL(78, 0) NOT NULL DEFAULT 0;
+
+-- Existing positions have no recorded deposits, so measure them from today's reserves.
+-- LP tokens staked in the pool's farms still belong to the position.
+WITH owned AS (
+  SELECT lp.id, lp.liquidity_tokens + COALESCE(SUM(sp.staked_amount), 0) AS tokens
+  FROM liquidity_positions lp
+  LEFT JOIN yield_farming_pools yf ON yf.pool_id = lp.pool_id
+  LEFT JOIN staking_positions sp ON sp.farm_id = yf.id AND sp.user_id = lp.user_id
+  GROUP BY lp.id, lp.liquidity_tokens
+)
+UPDATE liquidity_positions lp
+SET deposited_a = FLOOR(owned.tokens * p.reserve_a / p.total_liquidity),
+    deposited_b = FLOOR(owned.tokens * p.reserve_b / p.total_liquidity)
+FROM owned, liquidity_pools p
+WHERE owned.id = lp.id AND p.id = lp.pool_id AND p.total_liquidity > 0;
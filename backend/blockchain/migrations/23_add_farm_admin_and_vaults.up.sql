@@ -0,0 +1,50 @@
+-- Admin-launched yield farms with funded reward budgets, and auto-compounding farm vaults
+
+CREATE TABLE admin_users (
+  user_id TEXT PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE yield_farming_pools
+  ADD COLUMN reward_budget DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  ADD COLUMN rewards_emitted DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  ADD COLUMN last_reward_time TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  ADD COLUMN created_by TEXT,
+  ADD COLUMN ended_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing farms are budgeted for their full schedule, so they keep emitting as before
+UPDATE yield_farming_pools
+SET reward_budget = reward_rate * GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (end_time - start_time)))),
+    last_reward_time = start_time;
+
+ALTER TABLE yield_farming_pools ADD CONSTRAINT check_rewards_within_budget
+  CHECK (rewards_emitted <= reward_budget);
+
+CREATE TABLE farm_vaults (
+  id BIGSERIAL PRIMARY KEY,
+  farm_id BIGINT NOT NULL UNIQUE REFERENCES yield_farming_pools(id),
+  total_shares DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  total_compounded DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  harvest_count INTEGER NOT NULL DEFAULT 0,
+  last_harvest_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE vault_positions (
+  id BIGSERIAL PRIMARY KEY,
+  vault_id BIGINT NOT NULL REFERENCES farm_vaults(id),
+  user_id TEXT NOT NULL,
+  shares DECIMAL(78, 0) NOT NULL DEFAULT 0 CHECK (shares >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(vault_id, user_id)
+);
+
+CREATE INDEX idx_vault_positions_user ON vault_positions(user_id);
+
+COMMENT ON TABLE admin_users IS 'Users allowed to call admin endpoints such as farm management.';
+COMMENT ON COLUMN yield_farming_pools.reward_budget IS 'Reward tokens funded for the farm. Emissions stop once rewards_emitted reaches it.';
+COMMENT ON COLUMN yield_farming_pools.last_reward_time IS 'Time up to which emissions have been accrued into acc_reward_per_share.';
+COMMENT ON TABLE farm_vaults IS 'Auto-compounding vaults. Each vault stakes in its farm as the account vault:<id> and reinvests harvested rewards as LP tokens.';
+COMMENT ON COLUMN farm_vaults.total_compounded IS 'LP tokens added to the vault stake by harvests.';
+COMMENT ON TABLE vault_positions IS 'User shares of a farm vault''s staked LP tokens.';
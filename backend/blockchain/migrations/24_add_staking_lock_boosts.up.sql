@@ -0,0 +1,26 @@
+-- Lock-duration reward boosts: stakers choose a lock and are weighted by a boosted effective stake
+
+ALTER TABLE staking_positions
+  ADD COLUMN effective_stake DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  ADD COLUMN lock_days INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE yield_farming_pools
+  ADD COLUMN total_effective_stake DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  ADD COLUMN early_unstake_penalty_bps INTEGER
+    CHECK (early_unstake_penalty_bps BETWEEN 0 AND 10000);
+
+-- Existing stakes keep their unboosted weight
+UPDATE staking_positions SET effective_stake = staked_amount;
+
+UPDATE yield_farming_pools yf
+SET total_effective_stake = COALESCE(
+  (SELECT SUM(sp.effective_stake) FROM staking_positions sp WHERE sp.farm_id = yf.id), 0
+);
+
+ALTER TABLE staking_positions ADD CONSTRAINT check_positive_effective_stake
+  CHECK (effective_stake >= 0);
+
+COMMENT ON COLUMN staking_positions.effective_stake IS 'staked_amount scaled by the lock boost; rewards are split by this weight.';
+COMMENT ON COLUMN staking_positions.lock_days IS 'Lock duration the position was staked with. The boost lapses once locked_until has passed.';
+COMMENT ON COLUMN yield_farming_pools.total_effective_stake IS 'Sum of effective_stake over the farm''s positions; the denominator for acc_reward_per_share.';
+COMMENT ON COLUMN yield_farming_pools.early_unstake_penalty_bps IS 'Share of LP tokens forfeited when unstaking before locked_until. NULL rejects early unstakes.';
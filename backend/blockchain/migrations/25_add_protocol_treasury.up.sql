@@ -0,0 +1,33 @@
+-- Protocol fee switch on AMM pools and the treasury that collects it
+
+ALTER TABLE liquidity_pools
+  ADD COLUMN protocol_fee_bps INTEGER NOT NULL DEFAULT 0 CHECK (protocol_fee_bps >= 0 AND protocol_fee_bps <= 10000);
+
+CREATE TABLE treasury_balances (
+  token TEXT PRIMARY KEY,
+  balance DECIMAL(78, 0) NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  total_accrued DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  total_withdrawn DECIMAL(78, 0) NOT NULL DEFAULT 0,
+  last_updated TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE treasury_ledger (
+  id BIGSERIAL PRIMARY KEY,
+  token TEXT NOT NULL,
+  amount DECIMAL(78, 0) NOT NULL, -- Positive for accruals, negative for withdrawals
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('swap_fee', 'flash_loan_fee', 'withdrawal')),
+  pool_id BIGINT REFERENCES liquidity_pools(id),
+  recipient TEXT,
+  admin_id TEXT,
+  proposal_id BIGINT REFERENCES governance_proposals(id),
+  reference TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_treasury_ledger_token ON treasury_ledger(token, created_at DESC);
+-- An executed proposal authorizes a single withdrawal
+CREATE UNIQUE INDEX idx_treasury_ledger_proposal ON treasury_ledger(proposal_id) WHERE proposal_id IS NOT NULL;
+
+COMMENT ON COLUMN liquidity_pools.protocol_fee_bps IS 'Share of each swap fee, in basis points of the fee, paid to the treasury instead of LPs.';
+COMMENT ON TABLE treasury_balances IS 'Protocol revenue held by the treasury, by token.';
+COMMENT ON TABLE treasury_ledger IS 'Every treasury accrual and withdrawal. Withdrawals record the admin or executed governance proposal that authorized them.';
@@ -0,0 +1,21 @@
+-- Firm exchange quotes: a rate locked for a short time that buy/sell honor by quote id
+
+CREATE TABLE exchange_quotes (
+  id TEXT PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+  from_currency TEXT NOT NULL,
+  to_currency TEXT NOT NULL,
+  amount_in DECIMAL(20, 8) NOT NULL,
+  amount_out DECIMAL(20, 8) NOT NULL,
+  exchange_rate DECIMAL(20, 8) NOT NULL,
+  fee_amount DECIMAL(20, 8) NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  transaction_id BIGINT REFERENCES currency_transactions(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_exchange_quotes_user ON exchange_quotes(user_id, created_at DESC);
+
+COMMENT ON TABLE exchange_quotes IS 'Rates locked by /exchange/quote. A quote can be used once, before expires_at.';
@@ -0,0 +1,29 @@
+-- Exchange rates come from pluggable providers, aggregated by median, instead of random drift
+
+CREATE TABLE manual_exchange_rates (
+  currency_pair TEXT PRIMARY KEY,
+  rate DOUBLE PRECISION NOT NULL CHECK (rate > 0),
+  valid_until TIMESTAMP WITH TIME ZONE NOT NULL,
+  set_by TEXT NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE exchange_rate_feeds (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  source TEXT NOT NULL, -- http(s) URL or local file path of a JSON rate document
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE exchange_rate_history ADD COLUMN provider_rates JSONB;
+
+-- Accepted rates are now recorded explicitly along with the provider quotes behind them
+DROP TRIGGER IF EXISTS trigger_log_exchange_rate_change ON currency_exchange_rates;
+DROP FUNCTION IF EXISTS log_exchange_rate_change();
+
+COMMENT ON TABLE manual_exchange_rates IS 'Operator-set rates, reported by the manual rate provider until valid_until.';
+COMMENT ON TABLE exchange_rate_feeds IS 'File or HTTP rate feeds polled by the exchange rate refresh.';
+COMMENT ON COLUMN exchange_rate_history.provider_rates IS 'Provider quotes accepted into and rejected from the aggregated rate.';
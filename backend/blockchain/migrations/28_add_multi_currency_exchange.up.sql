@@ -0,0 +1,20 @@
+-- ASM trades against every configured pair, each with its own fee
+
+ALTER TABLE currency_exchange_rates
+  ADD COLUMN fee_rate DECIMAL(6, 5) NOT NULL DEFAULT 0.025 CHECK (fee_rate >= 0 AND fee_rate < 1);
+
+UPDATE currency_exchange_rates SET fee_rate = 0.01 WHERE currency_pair IN ('ASM/ETH', 'ASM/BTC');
+
+-- ASM is worth fractions of a satoshi, which 8 decimal places round to zero
+ALTER TABLE currency_exchange_rates ALTER COLUMN rate TYPE DECIMAL(38, 18);
+ALTER TABLE exchange_rate_history ALTER COLUMN rate TYPE DECIMAL(38, 18);
+ALTER TABLE currency_transactions ALTER COLUMN exchange_rate TYPE DECIMAL(38, 18);
+ALTER TABLE exchange_quotes ALTER COLUMN exchange_rate TYPE DECIMAL(38, 18);
+
+-- Restore the seeded rates that the narrower column had rounded away
+UPDATE currency_exchange_rates SET rate = 0.000000005
+WHERE currency_pair = 'ASM/ETH' AND rate IN (0.00000001, 0.0000001);
+UPDATE currency_exchange_rates SET rate = 0.0000000003
+WHERE currency_pair = 'ASM/BTC' AND rate IN (0.00000001, 0.0000001);
+
+COMMENT ON COLUMN currency_exchange_rates.fee_rate IS 'Exchange fee for buys and sells on the pair, as a fraction of the trade value.';
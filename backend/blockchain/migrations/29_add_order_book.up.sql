@@ -0,0 +1,52 @@
+-- Central limit order book for the exchange pairs
+
+CREATE TABLE exchange_orders (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  pair TEXT NOT NULL, -- 'BASE/QUOTE', as in currency_exchange_rates
+  side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+  order_type TEXT NOT NULL CHECK (order_type IN ('limit', 'market')),
+  price DECIMAL(38, 18) CHECK (price > 0), -- quote per base; NULL for market orders
+  quantity DECIMAL(20, 8) NOT NULL CHECK (quantity > 0), -- in the base currency
+  filled_quantity DECIMAL(20, 8) NOT NULL DEFAULT 0,
+  locked_amount DECIMAL(20, 8) NOT NULL DEFAULT 0 CHECK (locked_amount >= 0), -- quote for buys, base for sells
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'partially_filled', 'filled', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (filled_quantity >= 0 AND filled_quantity <= quantity),
+  CHECK ((order_type = 'limit') = (price IS NOT NULL))
+);
+
+-- Resting orders in matching order: best price first, then oldest
+CREATE INDEX idx_exchange_orders_book ON exchange_orders(pair, side, price, created_at, id)
+  WHERE status IN ('open', 'partially_filled');
+CREATE INDEX idx_exchange_orders_user ON exchange_orders(user_id, created_at DESC);
+
+CREATE TABLE exchange_trades (
+  id BIGSERIAL PRIMARY KEY,
+  pair TEXT NOT NULL,
+  buy_order_id BIGINT NOT NULL REFERENCES exchange_orders(id),
+  sell_order_id BIGINT NOT NULL REFERENCES exchange_orders(id),
+  taker_side TEXT NOT NULL CHECK (taker_side IN ('buy', 'sell')),
+  price DECIMAL(38, 18) NOT NULL,
+  quantity DECIMAL(20, 8) NOT NULL CHECK (quantity > 0),
+  quote_amount DECIMAL(20, 8) NOT NULL CHECK (quote_amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_exchange_trades_pair ON exchange_trades(pair, id DESC);
+
+-- Book changes, polled by the blockchain monitor stream
+CREATE TABLE order_book_events (
+  id BIGSERIAL PRIMARY KEY,
+  pair TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('level', 'trade')),
+  side TEXT NOT NULL CHECK (side IN ('buy', 'sell')),
+  price DECIMAL(38, 18) NOT NULL,
+  quantity DECIMAL(20, 8) NOT NULL,
+  trade_id BIGINT REFERENCES exchange_trades(id),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+COMMENT ON TABLE exchange_orders IS 'Limit and market orders on the exchange pairs. Open order funds are held in user_balances.locked_balance; locked_amount is the part still held for this order.';
+COMMENT ON TABLE order_book_events IS 'Level events carry the new total quantity resting at side/price (0 when the level empties); trade events carry the taker side, price and quantity of a fill.';
@@ -0,0 +1,26 @@
+-- Recurring (dollar-cost averaging) buys of ASM, executed by a cron job
+
+CREATE TABLE recurring_buys (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  payment_currency TEXT NOT NULL DEFAULT 'USD',
+  amount DECIMAL(20, 8) NOT NULL CHECK (amount > 0), -- In payment_currency, per execution
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'cancelled')),
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_result TEXT CHECK (last_result IN ('completed', 'skipped')),
+  last_skip_reason TEXT,
+  executions INTEGER NOT NULL DEFAULT 0,
+  skipped_executions INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_recurring_buys_due ON recurring_buys(next_run_at) WHERE status = 'active';
+CREATE INDEX idx_recurring_buys_user ON recurring_buys(user_id);
+
+ALTER TABLE currency_transactions ADD COLUMN recurring_buy_id BIGINT REFERENCES recurring_buys(id);
+CREATE INDEX idx_currency_transactions_recurring_buy ON currency_transactions(recurring_buy_id) WHERE recurring_buy_id IS NOT NULL;
+
+COMMENT ON TABLE recurring_buys IS 'Plans that buy a fixed amount of ASM daily or weekly through the regular purchase path. Completed executions are the currency_transactions rows linked by recurring_buy_id.';
@@ -0,0 +1,28 @@
+-- Peer-to-peer transfers between user balances
+
+CREATE TABLE balance_transfers (
+  id BIGSERIAL PRIMARY KEY,
+  from_user_id TEXT NOT NULL,
+  to_user_id TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  amount DECIMAL(20, 8) NOT NULL CHECK (amount > 0),
+  memo TEXT,
+  idempotency_key TEXT NOT NULL,
+  payment_uri TEXT, -- The vqc: URI the transfer was paid from, if any
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (from_user_id, idempotency_key),
+  CHECK (from_user_id <> to_user_id)
+);
+
+CREATE INDEX idx_balance_transfers_to_user ON balance_transfers(to_user_id, created_at DESC);
+
+-- Each transfer is recorded for both parties: a transfer_out row for the sender and a
+-- transfer_in row for the recipient
+ALTER TABLE currency_transactions
+  ADD COLUMN transfer_id BIGINT REFERENCES balance_transfers(id),
+  ADD COLUMN counterparty_user_id TEXT,
+  ADD COLUMN memo TEXT;
+
+CREATE INDEX idx_currency_transactions_transfer ON currency_transactions(transfer_id) WHERE transfer_id IS NOT NULL;
+
+COMMENT ON TABLE balance_transfers IS 'Transfers between user balances. A retried request with the same sender and idempotency_key returns the original transfer.';
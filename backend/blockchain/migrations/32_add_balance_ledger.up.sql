@@ -0,0 +1,87 @@
+-- Double-entry journal behind user_balances
+
+CREATE TABLE ledger_entries (
+  id BIGSERIAL PRIMARY KEY,
+  entry_type TEXT NOT NULL, -- 'buy', 'swap', 'transfer', 'order_hold', ...
+  reference TEXT, -- What the entry belongs to, e.g. 'transfer:42' or 'pool:7'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Positive amounts credit the account, negative amounts debit it. The lines of an entry
+-- sum to zero per currency. Amounts use the same scale as user_balances so replaying the
+-- journal rounds exactly as the balances did.
+CREATE TABLE ledger_lines (
+  id BIGSERIAL PRIMARY KEY,
+  entry_id BIGINT NOT NULL REFERENCES ledger_entries(id),
+  account_type TEXT NOT NULL CHECK (account_type IN ('user', 'system')),
+  account TEXT NOT NULL, -- user_id for user accounts, e.g. 'exchange' or 'amm_pools' for system accounts
+  locked BOOLEAN NOT NULL DEFAULT false, -- User lines against locked_balance rather than balance
+  currency TEXT NOT NULL,
+  amount DECIMAL(38, 8) NOT NULL CHECK (amount <> 0),
+  CHECK (account_type = 'user' OR NOT locked)
+);
+
+CREATE INDEX idx_ledger_lines_entry ON ledger_lines(entry_id);
+CREATE INDEX idx_ledger_lines_account ON ledger_lines(account_type, account, currency);
+CREATE INDEX idx_ledger_entries_created ON ledger_entries(created_at DESC);
+
+-- The journal is append-only: corrections are posted as new entries
+CREATE OR REPLACE FUNCTION reject_ledger_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The balance ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_ledger_mutation();
+
+CREATE TRIGGER trigger_ledger_lines_append_only
+  BEFORE UPDATE OR DELETE ON ledger_lines
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_ledger_mutation();
+
+-- Open the journal with the balances as they stand, against the opening_balances account
+WITH opening AS (
+  INSERT INTO ledger_entries (entry_type, reference)
+  VALUES ('opening_balance', 'migration:32')
+  RETURNING id
+), user_lines AS (
+  SELECT user_id, false AS locked, currency, balance AS amount FROM user_balances WHERE balance <> 0
+  UNION ALL
+  SELECT user_id, true, currency, locked_balance FROM user_balances WHERE locked_balance <> 0
+)
+INSERT INTO ledger_lines (entry_id, account_type, account, locked, currency, amount)
+SELECT opening.id, 'user', user_id, locked, currency, amount FROM opening, user_lines
+UNION ALL
+SELECT opening.id, 'system', 'opening_balances', false, currency, -SUM(amount)
+FROM opening, user_lines
+GROUP BY opening.id, currency;
+
+CREATE TABLE reconciliation_runs (
+  id BIGSERIAL PRIMARY KEY,
+  accounts_checked INTEGER NOT NULL DEFAULT 0,
+  discrepancies INTEGER NOT NULL DEFAULT 0,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE balance_discrepancies (
+  id BIGSERIAL PRIMARY KEY,
+  run_id BIGINT NOT NULL REFERENCES reconciliation_runs(id),
+  user_id TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  expected_balance DECIMAL(38, 8) NOT NULL, -- From the journal
+  actual_balance DECIMAL(38, 8) NOT NULL, -- From user_balances
+  expected_locked_balance DECIMAL(38, 8) NOT NULL,
+  actual_locked_balance DECIMAL(38, 8) NOT NULL,
+  detected_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_balance_discrepancies_run ON balance_discrepancies(run_id);
+CREATE INDEX idx_balance_discrepancies_user ON balance_discrepancies(user_id, currency);
+
+COMMENT ON TABLE ledger_entries IS 'Append-only double-entry journal. Every change to user_balances is posted here first; see ledger.ts.';
+COMMENT ON TABLE balance_discrepancies IS 'User balances that did not match the journal when a reconciliation run recomputed them.';
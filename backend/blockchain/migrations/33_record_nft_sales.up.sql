@@ -0,0 +1,8 @@
+-- Record who bought a listing and when, so NFT sales can be costed for gain/loss reports
+
+ALTER TABLE nft_listings
+  ADD COLUMN buyer_id TEXT,
+  ADD COLUMN sold_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_nft_listings_seller_sold ON nft_listings(seller_id, sold_at) WHERE status = 'sold';
+CREATE INDEX idx_nft_listings_buyer_sold ON nft_listings(buyer_id, sold_at) WHERE status = 'sold';
@@ -0,0 +1,21 @@
+-- Wallets derived from a BIP-39 mnemonic along BIP-44 paths. The wallet keeps the public
+-- node of its receive chain so new receive addresses can be derived without the mnemonic.
+-- Wallets created before this have NULL derivation columns and a single address.
+ALTER TABLE user_wallets
+  ADD COLUMN derivation_path TEXT,
+  ADD COLUMN receive_public_key TEXT,
+  ADD COLUMN receive_chain_code TEXT;
+
+CREATE TABLE wallet_addresses (
+  id BIGSERIAL PRIMARY KEY,
+  wallet_id BIGINT NOT NULL REFERENCES user_wallets(id) ON DELETE CASCADE,
+  address TEXT NOT NULL UNIQUE,
+  derivation_index INTEGER NOT NULL CHECK (derivation_index >= 0),
+  label TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (wallet_id, derivation_index)
+);
+
+CREATE INDEX idx_wallet_addresses_lower_address ON wallet_addresses(LOWER(address));
+
+COMMENT ON TABLE wallet_addresses IS 'Receive addresses of HD wallets. Index 0 is the wallet''s own user_wallets address.';
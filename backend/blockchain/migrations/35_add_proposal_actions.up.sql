@@ -0,0 +1,21 @@
+-- Executable governance proposals: each proposal carries the actions it applies when executed
+
+ALTER TABLE governance_proposals
+  ADD COLUMN actions JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN executed_at TIMESTAMP WITH TIME ZONE;
+
+-- Bridge limits, previously constants in bridge.ts, so proposals can change them
+CREATE TABLE bridge_limits (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  large_transfer_threshold DECIMAL(78, 0) NOT NULL DEFAULT 1000000 CHECK (large_transfer_threshold > 0),
+  time_lock_minutes INTEGER NOT NULL DEFAULT 60 CHECK (time_lock_minutes >= 0),
+  required_signatures INTEGER NOT NULL DEFAULT 3 CHECK (required_signatures > 0),
+  max_pending_transfers INTEGER NOT NULL DEFAULT 5 CHECK (max_pending_transfers > 0),
+  updated_by_proposal BIGINT REFERENCES governance_proposals(id),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO bridge_limits DEFAULT VALUES;
+
+COMMENT ON COLUMN governance_proposals.actions IS 'Typed actions (pool fee changes, farm launches, bridge limits, treasury transfers) applied atomically on execution.';
+COMMENT ON TABLE bridge_limits IS 'Single row of bridge limits: transfers above large_transfer_threshold are time-locked and need multi-sig approval.';
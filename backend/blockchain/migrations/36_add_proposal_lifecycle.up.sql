@@ -0,0 +1,40 @@
+-- Proposal lifecycle: proposals are finalized after voting ends, passed ones wait out a
+-- timelock before they can be executed, and proposers can cancel them
+
+CREATE TABLE governance_parameters (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id),
+  voting_period_hours INTEGER NOT NULL DEFAULT 168 CHECK (voting_period_hours > 0),
+  quorum_votes DECIMAL(78, 0) NOT NULL DEFAULT 4000000000000000000000000 CHECK (quorum_votes >= 0), -- 4,000,000 ASM
+  approval_threshold_bps INTEGER NOT NULL DEFAULT 5000 CHECK (approval_threshold_bps >= 0 AND approval_threshold_bps < 10000),
+  timelock_hours INTEGER NOT NULL DEFAULT 48 CHECK (timelock_hours >= 0),
+  updated_by TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO governance_parameters DEFAULT VALUES;
+
+-- Each proposal keeps the thresholds in force when it was created
+ALTER TABLE governance_proposals
+  ADD COLUMN quorum_votes DECIMAL(78, 0) NOT NULL DEFAULT 4000000000000000000000000,
+  ADD COLUMN approval_threshold_bps INTEGER NOT NULL DEFAULT 5000,
+  ADD COLUMN timelock_hours INTEGER NOT NULL DEFAULT 48,
+  ADD COLUMN eta TIMESTAMP WITH TIME ZONE, -- When a queued proposal becomes executable
+  ADD COLUMN finalized_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN cancelled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE governance_proposal_transitions (
+  id BIGSERIAL PRIMARY KEY,
+  proposal_id BIGINT NOT NULL REFERENCES governance_proposals(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  actor TEXT, -- The user behind the change; NULL for the finalizer
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_governance_proposal_transitions_proposal ON governance_proposal_transitions(proposal_id, created_at);
+CREATE INDEX idx_governance_proposals_active_end ON governance_proposals(end_time) WHERE status = 'active';
+
+COMMENT ON TABLE governance_parameters IS 'Single row of governance settings applied to new proposals.';
+COMMENT ON COLUMN governance_proposals.approval_threshold_bps IS 'For votes must exceed this share, in basis points, of the for and against votes.';
+COMMENT ON TABLE governance_proposal_transitions IS 'Every status change of a proposal, from creation to execution, defeat or cancellation.';
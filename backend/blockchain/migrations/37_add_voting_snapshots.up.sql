@@ -0,0 +1,24 @@
+-- Voting power comes from ASM balances snapshotted when a proposal is created, so tokens moved
+-- after that cannot be voted with again from another address
+
+CREATE TABLE governance_voting_snapshots (
+  proposal_id BIGINT NOT NULL REFERENCES governance_proposals(id) ON DELETE CASCADE,
+  address TEXT NOT NULL,
+  balance DECIMAL(78, 0) NOT NULL CHECK (balance > 0),
+  PRIMARY KEY (proposal_id, address)
+);
+
+ALTER TABLE governance_proposals ADD COLUMN snapshot_at TIMESTAMP WITH TIME ZONE;
+
+-- Proposals still being voted on get a snapshot of the balances as they are now
+INSERT INTO governance_voting_snapshots (proposal_id, address, balance)
+SELECT p.id, b.address, b.balance
+FROM governance_proposals p
+JOIN token_balances b ON b.token_contract = 'ASM_CONTRACT_ADDRESS' AND b.balance > 0
+WHERE p.status = 'active';
+
+UPDATE governance_proposals SET snapshot_at = NOW() WHERE status = 'active';
+
+CREATE INDEX idx_governance_votes_proposal ON governance_votes(proposal_id, timestamp);
+
+COMMENT ON TABLE governance_voting_snapshots IS 'ASM balance of every holder when a proposal was created; the voting power for that proposal.';
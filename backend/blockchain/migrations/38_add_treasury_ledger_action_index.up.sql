@@ -0,0 +1,6 @@
+-- A proposal can pay out of the treasury once per action instead of once in total
+
+ALTER TABLE treasury_ledger ADD COLUMN action_index INTEGER; -- The paying action's position in the proposal
+
+DROP INDEX idx_treasury_ledger_proposal;
+CREATE UNIQUE INDEX idx_treasury_ledger_proposal_action ON treasury_ledger(proposal_id, action_index) WHERE proposal_id IS NOT NULL;
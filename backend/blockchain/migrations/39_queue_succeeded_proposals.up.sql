@@ -0,0 +1,11 @@
+-- Passed proposals are queued behind the timelock; proposals that passed before the lifecycle
+-- existed are queued as already executable
+
+INSERT INTO governance_proposal_transitions (proposal_id, from_status, to_status, reason)
+SELECT id, 'succeeded', 'queued', 'Queued when the proposal lifecycle was introduced'
+FROM governance_proposals
+WHERE status = 'succeeded';
+
+UPDATE governance_proposals
+SET status = 'queued', eta = NOW(), finalized_at = COALESCE(finalized_at, NOW())
+WHERE status = 'succeeded';
@@ -0,0 +1,21 @@
+-- The oracle accumulates the pricing curve's spot price instead of the reserve ratio, which is
+-- only the price of constant product pools. The app stores the price after every reserve change.
+
+ALTER TABLE liquidity_pools
+ADD COLUMN spot_price_a NUMERIC, -- Price of token_a in token_b at the current reserves; NULL falls back to reserve_b / reserve_a
+ADD COLUMN spot_price_b NUMERIC; -- Price of token_b in token_a
+
+CREATE OR REPLACE FUNCTION accumulate_pool_price()
+RETURNS TRIGGER AS $$
+DECLARE
+  now_ts TIMESTAMP WITH TIME ZONE := GREATEST(clock_timestamp(), OLD.price_timestamp);
+  elapsed NUMERIC := EXTRACT(EPOCH FROM (now_ts - OLD.price_timestamp));
+BEGIN
+  IF OLD.reserve_a > 0 AND OLD.reserve_b > 0 THEN
+    NEW.price_a_cumulative := OLD.price_a_cumulative + COALESCE(OLD.spot_price_a, OLD.reserve_b / OLD.reserve_a) * elapsed;
+    NEW.price_b_cumulative := OLD.price_b_cumulative + COALESCE(OLD.spot_price_b, OLD.reserve_a / OLD.reserve_b) * elapsed;
+  END IF;
+  NEW.price_timestamp := now_ts;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
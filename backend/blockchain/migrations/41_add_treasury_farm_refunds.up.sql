@@ -0,0 +1,5 @@
+-- Unused reward budgets of proposal-funded farms go back to the treasury when the farm ends
+
+ALTER TABLE treasury_ledger DROP CONSTRAINT treasury_ledger_entry_type_check;
+ALTER TABLE treasury_ledger ADD CONSTRAINT treasury_ledger_entry_type_check
+  CHECK (entry_type IN ('swap_fee', 'flash_loan_fee', 'farm_refund', 'withdrawal'));
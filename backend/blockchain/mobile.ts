@@ -15,6 +15,7 @@ export interface QRCodeRequest {
     to?: string;
     amount?: string;
     token?: string;
+    memo?: string; // Shown to the payer and recorded on the transfer
     txData?: string;
   };
 }
@@ -78,6 +79,9 @@ export const generateTransactionQRCode = api<QRCodeRequest, QRCodeResponse>(
         if (req.data.token) {
           payload += `&token=${req.data.token}`;
         }
+        if (req.data.memo) {
+          payload += `&memo=${encodeURIComponent(req.data.memo)}`;
+        }
         break;
       default:
         throw APIError.invalidArgument("Invalid QR code type.");
@@ -123,7 +127,7 @@ export const getMobileTransactionHistory = api<TransactionHistoryRequest, Transa
       SELECT 
         ct.id, ct.transaction_type, ct.from_currency, ct.to_currency,
         ct.from_amount, ct.to_amount, ct.exchange_rate, ct.fee_amount,
-        ct.status, ct.created_at
+        ct.status, ct.counterparty_user_id, ct.memo, ct.created_at
       FROM currency_transactions ct
       WHERE ct.user_id = $1
       ORDER BY ct.created_at DESC
@@ -4,7 +4,7 @@ import log from "encore.dev/log";
 
 export interface TransactionConfirmationEvent {
   userId: string;
-  type: 'buy' | 'sell' | 'swap' | 'liquidity_add' | 'liquidity_remove';
+  type: 'buy' | 'sell' | 'swap' | 'liquidity_add' | 'liquidity_remove' | 'order_fill' | 'recurring_buy' | 'transfer';
   status: 'completed' | 'failed';
   message: string;
   details: any;
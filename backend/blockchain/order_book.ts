@@ -0,0 +1,595 @@
+import { api, APIError } from "encore.dev/api";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { publishTransactionConfirmation } from "./notifications";
+import { assertCurrencyPrecision, CURRENCY_DECIMALS, roundToCurrency } from "./currency_exchange";
+import { lockedAccount, movement, postJournalEntry, userAccount } from "./ledger";
+
+export type OrderSide = 'buy' | 'sell';
+export type ExchangeOrderType = 'limit' | 'market';
+export type ExchangeOrderStatus = 'open' | 'partially_filled' | 'filled' | 'cancelled';
+
+export interface ExchangeOrder {
+  id: number;
+  userId: string;
+  pair: string;
+  side: OrderSide;
+  orderType: ExchangeOrderType;
+  price?: number; // Quote per base; absent for market orders
+  quantity: number; // In the base currency
+  filledQuantity: number;
+  lockedAmount: number; // Funds still held for the order: quote for buys, base for sells
+  status: ExchangeOrderStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ExchangeTrade {
+  id: number;
+  pair: string;
+  buyOrderId: number;
+  sellOrderId: number;
+  takerSide: OrderSide;
+  price: number;
+  quantity: number;
+  quoteAmount: number;
+  createdAt: Date;
+}
+
+export interface PlaceExchangeOrderRequest {
+  userId: string;
+  pair: string; // e.g. 'ASM/USD'
+  side: OrderSide;
+  orderType: ExchangeOrderType;
+  quantity: number; // In the base currency
+  price?: number; // Required for limit orders
+}
+
+export interface PlaceExchangeOrderResponse {
+  order: ExchangeOrder;
+  trades: ExchangeTrade[];
+}
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+  orders: number;
+}
+
+export interface OrderBookDepth {
+  pair: string;
+  bids: OrderBookLevel[]; // Best (highest) first
+  asks: OrderBookLevel[]; // Best (lowest) first
+  spread?: number;
+  lastPrice?: number;
+  timestamp: Date;
+}
+
+// A resting order as seen by the matcher, in price-time priority.
+export interface RestingOrder {
+  id: number;
+  price: number;
+  remaining: number;
+}
+
+export interface OrderFill {
+  makerOrderId: number;
+  price: number;
+  quantity: number;
+  quoteAmount: number;
+}
+
+interface ExchangeOrderRow {
+  id: number;
+  user_id: string;
+  pair: string;
+  side: OrderSide;
+  order_type: ExchangeOrderType;
+  price: number | null;
+  quantity: number;
+  filled_quantity: number;
+  locked_amount: number;
+  status: ExchangeOrderStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface ExchangeTradeRow {
+  id: number;
+  pair: string;
+  buy_order_id: number;
+  sell_order_id: number;
+  taker_side: OrderSide;
+  price: number;
+  quantity: number;
+  quote_amount: number;
+  created_at: Date;
+}
+
+function toExchangeOrder(row: ExchangeOrderRow): ExchangeOrder {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    pair: row.pair,
+    side: row.side,
+    orderType: row.order_type,
+    price: row.price === null ? undefined : Number(row.price),
+    quantity: Number(row.quantity),
+    filledQuantity: Number(row.filled_quantity),
+    lockedAmount: Number(row.locked_amount),
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toExchangeTrade(row: ExchangeTradeRow): ExchangeTrade {
+  return {
+    id: row.id,
+    pair: row.pair,
+    buyOrderId: row.buy_order_id,
+    sellOrderId: row.sell_order_id,
+    takerSide: row.taker_side,
+    price: Number(row.price),
+    quantity: Number(row.quantity),
+    quoteAmount: Number(row.quote_amount),
+    createdAt: row.created_at,
+  };
+}
+
+// Splits 'BASE/QUOTE' into its currencies, rejecting pairs the exchange cannot settle.
+export function parsePair(pair: string): { base: string; quote: string } {
+  const [base, quote, ...rest] = (pair ?? '').split('/');
+  if (!base || !quote || rest.length > 0 || base === quote) {
+    throw APIError.invalidArgument("Pair must look like 'ASM/USD'");
+  }
+  if (CURRENCY_DECIMALS[base] === undefined || CURRENCY_DECIMALS[quote] === undefined) {
+    throw APIError.invalidArgument(`Unsupported trading pair: ${pair}`);
+  }
+  return { base, quote };
+}
+
+// Matches a taker against resting orders on the other side, which must already be in
+// price-time priority. Each fill trades at the maker's price and stops at the taker's limit,
+// if any. A budget caps the quote a buyer can spend, for market buys. Quote amounts round
+// down to the quote currency's precision; a fill too small to settle ends the match.
+export function matchOrder(
+  taker: { side: OrderSide; quantity: number; limitPrice: number | null; budget?: number },
+  book: RestingOrder[],
+  pair: { base: string; quote: string }
+): { fills: OrderFill[]; remaining: number } {
+  const fills: OrderFill[] = [];
+  let remaining = taker.quantity;
+  let budget = taker.budget;
+
+  for (const maker of book) {
+    if (remaining <= 0) break;
+    if (taker.limitPrice !== null) {
+      const crosses = taker.side === 'buy' ? maker.price <= taker.limitPrice : maker.price >= taker.limitPrice;
+      if (!crosses) break;
+    }
+
+    let quantity = Math.min(remaining, maker.remaining);
+    if (budget !== undefined) {
+      quantity = Math.min(quantity, roundToCurrency(budget / maker.price, pair.base, 'down'));
+    }
+    const quoteAmount = roundToCurrency(maker.price * quantity, pair.quote, 'down');
+    if (quantity <= 0 || quoteAmount <= 0) break;
+
+    fills.push({ makerOrderId: maker.id, price: maker.price, quantity, quoteAmount });
+    remaining = roundToCurrency(remaining - quantity, pair.base, 'nearest');
+    if (budget !== undefined) {
+      budget = roundToCurrency(budget - quoteAmount, pair.quote, 'nearest');
+    }
+  }
+
+  return { fills, remaining };
+}
+
+// Moves funds from a user's balance into locked_balance, failing if they cannot cover it.
+async function holdFunds(tx: any, userId: string, currency: string, amount: number) {
+  await postJournalEntry(tx, {
+    entryType: 'order_hold',
+    lines: movement(userAccount(userId), lockedAccount(userId), currency, amount),
+  });
+}
+
+// Returns whatever an order still holds to the owner's available balance.
+async function releaseOrderFunds(tx: any, order: ExchangeOrderRow) {
+  const amount = Number(order.locked_amount);
+  if (amount <= 0) return;
+
+  const { base, quote } = parsePair(order.pair);
+  await postJournalEntry(tx, {
+    entryType: 'order_release',
+    reference: `exchange_order:${order.id}`,
+    lines: movement(lockedAccount(order.user_id), userAccount(order.user_id), order.side === 'buy' ? quote : base, amount),
+  });
+  await tx.exec`
+    UPDATE exchange_orders SET locked_amount = 0, updated_at = NOW() WHERE id = ${order.id}
+  `;
+}
+
+// Records the total now resting at a price level, for the order book stream.
+async function recordLevelChange(tx: any, pair: string, side: OrderSide, price: number) {
+  await tx.exec`
+    INSERT INTO order_book_events (pair, event_type, side, price, quantity)
+    SELECT ${pair}, 'level', ${side}, ${price}, COALESCE(SUM(quantity - filled_quantity), 0)
+    FROM exchange_orders
+    WHERE pair = ${pair} AND side = ${side} AND price = ${price}
+      AND status IN ('open', 'partially_filled')
+  `;
+}
+
+// Settles one fill: the buyer's held quote goes to the seller and the seller's held base
+// goes to the buyer.
+async function settleFill(
+  tx: any,
+  pair: string,
+  buy: { orderId: number; userId: string },
+  sell: { orderId: number; userId: string },
+  takerSide: OrderSide,
+  fill: OrderFill
+): Promise<ExchangeTradeRow> {
+  const { base, quote } = parsePair(pair);
+
+  await postJournalEntry(tx, {
+    entryType: 'order_fill',
+    reference: `exchange_orders:${buy.orderId},${sell.orderId}`,
+    lines: [
+      ...movement(lockedAccount(buy.userId), userAccount(sell.userId), quote, fill.quoteAmount),
+      ...movement(lockedAccount(sell.userId), userAccount(buy.userId), base, fill.quantity),
+    ],
+  });
+
+  for (const order of [buy, sell]) {
+    const held = order === buy ? fill.quoteAmount : fill.quantity;
+    await tx.exec`
+      UPDATE exchange_orders
+      SET filled_quantity = filled_quantity + ${fill.quantity},
+          locked_amount = locked_amount - ${held},
+          status = CASE WHEN filled_quantity + ${fill.quantity} >= quantity THEN 'filled' ELSE 'partially_filled' END,
+          updated_at = NOW()
+      WHERE id = ${order.orderId}
+    `;
+  }
+
+  const trade = await tx.queryRow<ExchangeTradeRow>`
+    INSERT INTO exchange_trades (pair, buy_order_id, sell_order_id, taker_side, price, quantity, quote_amount)
+    VALUES (${pair}, ${buy.orderId}, ${sell.orderId}, ${takerSide}, ${fill.price}, ${fill.quantity}, ${fill.quoteAmount})
+    RETURNING *
+  `;
+
+  await tx.exec`
+    INSERT INTO currency_transactions (
+      user_id, transaction_type, from_currency, to_currency,
+      from_amount, to_amount, exchange_rate, fee_amount, status, completed_at
+    )
+    VALUES
+      (${buy.userId}, 'trade', ${quote}, ${base}, ${fill.quoteAmount}, ${fill.quantity}, ${fill.price}, 0, 'completed', NOW()),
+      (${sell.userId}, 'trade', ${base}, ${quote}, ${fill.quantity}, ${fill.quoteAmount}, ${fill.price}, 0, 'completed', NOW())
+  `;
+  await tx.exec`
+    INSERT INTO order_book_events (pair, event_type, side, price, quantity, trade_id)
+    VALUES (${pair}, 'trade', ${takerSide}, ${fill.price}, ${fill.quantity}, ${trade!.id})
+  `;
+
+  return trade!;
+}
+
+// Places a limit or market order. The order matches immediately against the other side of
+// the book; whatever is left of a limit order rests on the book, and whatever is left of a
+// market order is cancelled.
+export const placeExchangeOrder = api<PlaceExchangeOrderRequest, PlaceExchangeOrderResponse>(
+  { expose: true, method: "POST", path: "/exchange/orders" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/orders", "POST", async () => {
+      if (!req.userId || !req.pair || !req.side || !req.orderType) {
+        throw APIError.invalidArgument("Missing required parameters");
+      }
+      if (req.side !== 'buy' && req.side !== 'sell') {
+        throw APIError.invalidArgument("Side must be 'buy' or 'sell'");
+      }
+      if (req.orderType !== 'limit' && req.orderType !== 'market') {
+        throw APIError.invalidArgument("Order type must be 'limit' or 'market'");
+      }
+      const pair = parsePair(req.pair);
+      if (!(req.quantity > 0)) {
+        throw APIError.invalidArgument("Quantity must be positive");
+      }
+      assertCurrencyPrecision(req.quantity, pair.base);
+      if (req.orderType === 'limit' && !(req.price! > 0)) {
+        throw APIError.invalidArgument("Limit orders need a positive price");
+      }
+      if (req.orderType === 'market' && req.price !== undefined) {
+        throw APIError.invalidArgument("Market orders take no price");
+      }
+      const limitPrice = req.orderType === 'limit' ? req.price! : null;
+
+      await using tx = await blockchainDB.begin();
+
+      try {
+        const listed = await tx.queryRow<{ currency_pair: string }>`
+          SELECT currency_pair FROM currency_exchange_rates WHERE currency_pair = ${req.pair}
+        `;
+        if (!listed) {
+          throw APIError.notFound(`Trading pair not found: ${req.pair}`);
+        }
+
+        // Hold the funds the order can spend. A market buy's spend is only known once it has
+        // matched, so it is held per match below, up to the buyer's available balance.
+        let budget: number | undefined;
+        let held = 0;
+        if (req.side === 'sell') {
+          held = req.quantity;
+          await holdFunds(tx, req.userId, pair.base, held);
+        } else if (limitPrice !== null) {
+          held = roundToCurrency(limitPrice * req.quantity, pair.quote, 'up');
+          await holdFunds(tx, req.userId, pair.quote, held);
+        } else {
+          const balance = await tx.queryRow<{ balance: number }>`
+            SELECT balance FROM user_balances
+            WHERE user_id = ${req.userId} AND currency = ${pair.quote}
+            FOR UPDATE
+          `;
+          budget = Number(balance?.balance ?? 0);
+          if (budget <= 0) {
+            throw APIError.failedPrecondition(`Insufficient ${pair.quote} balance`);
+          }
+        }
+
+        const taker = await tx.queryRow<ExchangeOrderRow>`
+          INSERT INTO exchange_orders (user_id, pair, side, order_type, price, quantity, locked_amount)
+          VALUES (${req.userId}, ${req.pair}, ${req.side}, ${req.orderType}, ${limitPrice}, ${req.quantity}, ${held})
+          RETURNING *
+        `;
+
+        // Lock the crossing side of the book in price-time priority
+        const makerSide: OrderSide = req.side === 'buy' ? 'sell' : 'buy';
+        const makers = req.side === 'buy'
+          ? await tx.queryAll<ExchangeOrderRow>`
+              SELECT * FROM exchange_orders
+              WHERE pair = ${req.pair} AND side = 'sell' AND status IN ('open', 'partially_filled')
+                AND (${limitPrice}::numeric IS NULL OR price <= ${limitPrice})
+              ORDER BY price ASC, created_at ASC, id ASC
+              LIMIT 500
+              FOR UPDATE
+            `
+          : await tx.queryAll<ExchangeOrderRow>`
+              SELECT * FROM exchange_orders
+              WHERE pair = ${req.pair} AND side = 'buy' AND status IN ('open', 'partially_filled')
+                AND (${limitPrice}::numeric IS NULL OR price >= ${limitPrice})
+              ORDER BY price DESC, created_at ASC, id ASC
+              LIMIT 500
+              FOR UPDATE
+            `;
+
+        const { fills, remaining } = matchOrder(
+          { side: req.side, quantity: req.quantity, limitPrice, budget },
+          makers.map(m => ({ id: m.id, price: Number(m.price), remaining: Number(m.quantity) - Number(m.filled_quantity) })),
+          pair
+        );
+
+        if (budget !== undefined && fills.length > 0) {
+          const spend = roundToCurrency(fills.reduce((sum, f) => sum + f.quoteAmount, 0), pair.quote, 'nearest');
+          await holdFunds(tx, req.userId, pair.quote, spend);
+          await tx.exec`UPDATE exchange_orders SET locked_amount = ${spend} WHERE id = ${taker!.id}`;
+        }
+
+        const makersById = new Map(makers.map(m => [m.id, m]));
+        const trades: ExchangeTradeRow[] = [];
+        for (const fill of fills) {
+          const maker = makersById.get(fill.makerOrderId)!;
+          const takerRef = { orderId: taker!.id, userId: req.userId };
+          const makerRef = { orderId: maker.id, userId: maker.user_id };
+          trades.push(await settleFill(
+            tx,
+            req.pair,
+            req.side === 'buy' ? takerRef : makerRef,
+            req.side === 'buy' ? makerRef : takerRef,
+            req.side,
+            fill
+          ));
+        }
+
+        // A market order never rests
+        if (req.orderType === 'market' && remaining > 0) {
+          await tx.exec`
+            UPDATE exchange_orders SET status = 'cancelled', updated_at = NOW() WHERE id = ${taker!.id}
+          `;
+        }
+
+        // Buys that filled below their limit, and the unfilled part of a market order, leave
+        // funds held that no longer back anything
+        const touchedIds = [taker!.id, ...new Set(fills.map(f => f.makerOrderId))];
+        const finished = await tx.queryAll<ExchangeOrderRow>`
+          SELECT * FROM exchange_orders
+          WHERE id = ANY(${touchedIds}) AND status IN ('filled', 'cancelled') AND locked_amount > 0
+        `;
+        for (const order of finished) {
+          await releaseOrderFunds(tx, order);
+        }
+
+        for (const price of new Set(fills.map(f => f.price))) {
+          await recordLevelChange(tx, req.pair, makerSide, price);
+        }
+        if (limitPrice !== null && remaining > 0) {
+          await recordLevelChange(tx, req.pair, req.side, limitPrice);
+        }
+
+        const updated = await tx.queryAll<ExchangeOrderRow>`
+          SELECT * FROM exchange_orders WHERE id = ANY(${touchedIds})
+        `;
+
+        await tx.commit();
+
+        await notifyFills(updated, fills, taker!.id);
+
+        const order = updated.find(o => o.id === taker!.id)!;
+        return { order: toExchangeOrder(order), trades: trades.map(toExchangeTrade) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Tells each owner how much of their order the last match filled.
+async function notifyFills(orders: ExchangeOrderRow[], fills: OrderFill[], takerOrderId: number) {
+  for (const order of orders) {
+    const { base } = parsePair(order.pair);
+    const ownFills = order.id === takerOrderId ? fills : fills.filter(f => f.makerOrderId === order.id);
+    const filled = roundToCurrency(ownFills.reduce((sum, f) => sum + f.quantity, 0), base, 'nearest');
+    if (filled <= 0) continue;
+
+    await publishTransactionConfirmation({
+      userId: order.user_id,
+      type: 'order_fill',
+      status: 'completed',
+      message: `Your ${order.side} order #${order.id} on ${order.pair} filled ${filled} ${base} (${Number(order.filled_quantity)} of ${Number(order.quantity)} filled).`,
+      details: {
+        orderId: order.id,
+        pair: order.pair,
+        side: order.side,
+        filledNow: filled,
+        filledQuantity: Number(order.filled_quantity),
+        quantity: Number(order.quantity),
+        status: order.status,
+      },
+    });
+  }
+}
+
+// Cancels the unfilled part of an order and releases its held funds.
+export const cancelExchangeOrder = api<{ orderId: number; userId: string }, { order: ExchangeOrder }>(
+  { expose: true, method: "POST", path: "/exchange/orders/:orderId/cancel" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/orders/cancel", "POST", async () => {
+      await using tx = await blockchainDB.begin();
+
+      try {
+        const order = await tx.queryRow<ExchangeOrderRow>`
+          SELECT * FROM exchange_orders WHERE id = ${req.orderId} FOR UPDATE
+        `;
+        if (!order || order.user_id !== req.userId) {
+          throw APIError.notFound("Order not found");
+        }
+        if (order.status !== 'open' && order.status !== 'partially_filled') {
+          throw APIError.failedPrecondition(`Order is already ${order.status}`);
+        }
+
+        await tx.exec`
+          UPDATE exchange_orders SET status = 'cancelled', updated_at = NOW() WHERE id = ${order.id}
+        `;
+        await releaseOrderFunds(tx, order);
+        await recordLevelChange(tx, order.pair, order.side, Number(order.price));
+
+        const row = await tx.queryRow<ExchangeOrderRow>`
+          SELECT * FROM exchange_orders WHERE id = ${order.id}
+        `;
+
+        await tx.commit();
+
+        return { order: toExchangeOrder(row!) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Lists a user's orders, optionally filtered by pair or status.
+export const listExchangeOrders = api<{ userId: string; pair?: string; status?: ExchangeOrderStatus }, { orders: ExchangeOrder[] }>(
+  { expose: true, method: "GET", path: "/exchange/orders" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/orders", "GET", async () => {
+      if (!req.userId) {
+        throw APIError.invalidArgument("userId is required");
+      }
+
+      const pair = req.pair ?? null;
+      const status = req.status ?? null;
+      const rows = await blockchainDB.queryAll<ExchangeOrderRow>`
+        SELECT * FROM exchange_orders
+        WHERE user_id = ${req.userId}
+          AND (${pair}::text IS NULL OR pair = ${pair})
+          AND (${status}::text IS NULL OR status = ${status})
+        ORDER BY created_at DESC
+        LIMIT 200
+      `;
+
+      return { orders: rows.map(toExchangeOrder) };
+    });
+  }
+);
+
+// Returns the aggregated price levels on each side of a pair's book.
+export const getOrderBookDepth = api<{ pair: string; levels?: number }, OrderBookDepth>(
+  { expose: true, method: "GET", path: "/exchange/orderbook" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/orderbook", "GET", async () => {
+      parsePair(req.pair);
+      const levels = Math.min(Math.max(req.levels ?? 20, 1), 100);
+
+      const toLevel = (row: { price: number; quantity: number; orders: number }): OrderBookLevel => ({
+        price: Number(row.price),
+        quantity: Number(row.quantity),
+        orders: Number(row.orders),
+      });
+
+      const bids = await blockchainDB.queryAll<{ price: number; quantity: number; orders: number }>`
+        SELECT price, SUM(quantity - filled_quantity) AS quantity, COUNT(*) AS orders
+        FROM exchange_orders
+        WHERE pair = ${req.pair} AND side = 'buy' AND status IN ('open', 'partially_filled')
+        GROUP BY price
+        ORDER BY price DESC
+        LIMIT ${levels}
+      `;
+      const asks = await blockchainDB.queryAll<{ price: number; quantity: number; orders: number }>`
+        SELECT price, SUM(quantity - filled_quantity) AS quantity, COUNT(*) AS orders
+        FROM exchange_orders
+        WHERE pair = ${req.pair} AND side = 'sell' AND status IN ('open', 'partially_filled')
+        GROUP BY price
+        ORDER BY price ASC
+        LIMIT ${levels}
+      `;
+      const lastTrade = await blockchainDB.queryRow<{ price: number }>`
+        SELECT price FROM exchange_trades WHERE pair = ${req.pair} ORDER BY id DESC LIMIT 1
+      `;
+
+      const depth: OrderBookDepth = {
+        pair: req.pair,
+        bids: bids.map(toLevel),
+        asks: asks.map(toLevel),
+        lastPrice: lastTrade ? Number(lastTrade.price) : undefined,
+        timestamp: new Date(),
+      };
+      if (depth.bids.length > 0 && depth.asks.length > 0) {
+        depth.spread = depth.asks[0].price - depth.bids[0].price;
+      }
+      return depth;
+    });
+  }
+);
+
+// Returns a pair's most recent trades, newest first.
+export const getExchangeTrades = api<{ pair: string; limit?: number }, { trades: ExchangeTrade[] }>(
+  { expose: true, method: "GET", path: "/exchange/trades" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/trades", "GET", async () => {
+      parsePair(req.pair);
+      const limit = Math.min(Math.max(req.limit ?? 50, 1), 200);
+
+      const rows = await blockchainDB.queryAll<ExchangeTradeRow>`
+        SELECT * FROM exchange_trades
+        WHERE pair = ${req.pair}
+        ORDER BY id DESC
+        LIMIT ${limit}
+      `;
+
+      return { trades: rows.map(toExchangeTrade) };
+    });
+  }
+);
@@ -0,0 +1,360 @@
+import { api, APIError } from "encore.dev/api";
+import log from "encore.dev/log";
+import { readFile } from "fs/promises";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { requireAdmin } from "./admin";
+import { readPairTWAP } from "./amm_oracle";
+
+export const EXCHANGE_RATE_PAIRS = ['ASM/USD', 'ASM/ETH', 'ASM/BTC'];
+const MAX_RATE_AGE_SECONDS = 300;
+const MAX_PROVIDER_DEVIATION = 0.05; // Quotes more than 5% from the median are rejected
+const FEED_TIMEOUT_MS = 2000;
+const AMM_TWAP_WINDOW_SECONDS = 1800;
+const DEFAULT_MANUAL_RATE_SECONDS = 3600;
+
+export interface ProviderRate {
+  pair: string;
+  rate: number;
+  observedAt: Date;
+}
+
+// A source of exchange rates. Providers return what they have for the requested pairs and
+// leave out pairs they cannot price.
+export interface RateProvider {
+  name: string;
+  fetchRates(pairs: string[]): Promise<ProviderRate[]>;
+}
+
+export interface SourcedRate extends ProviderRate {
+  source: string;
+}
+
+export interface RejectedRate extends SourcedRate {
+  reason: 'stale' | 'deviation';
+}
+
+export interface AggregatedRate {
+  pair: string;
+  rate: number | null; // Null when no quote survived the guards
+  accepted: SourcedRate[];
+  rejected: RejectedRate[];
+}
+
+export interface ManualRateRequest {
+  adminId: string;
+  pair: string; // e.g. 'ASM/USD'
+  rate: number;
+  validForSeconds?: number; // Defaults to an hour
+}
+
+export interface RateFeedRequest {
+  adminId: string;
+  name: string;
+  source: string; // http(s) URL or file path of the feed document
+  enabled?: boolean;
+}
+
+export interface RateFeed {
+  id: number;
+  name: string;
+  source: string;
+  enabled: boolean;
+  createdBy: string;
+  updatedAt: Date;
+}
+
+// Rates that never change, always reported as current. Useful for pegged pairs and tests.
+export function fixedRateProvider(name: string, rates: Record<string, number>): RateProvider {
+  return {
+    name,
+    async fetchRates(pairs) {
+      const observedAt = new Date();
+      return pairs.filter(pair => rates[pair] > 0).map(pair => ({ pair, rate: rates[pair], observedAt }));
+    },
+  };
+}
+
+// Operator-set rates from manual_exchange_rates, reported until they run out.
+export function manualRateProvider(): RateProvider {
+  return {
+    name: 'manual',
+    async fetchRates(pairs) {
+      const rows = await blockchainDB.queryAll<{ currency_pair: string; rate: number }>`
+        SELECT currency_pair, rate FROM manual_exchange_rates
+        WHERE currency_pair = ANY(${pairs}) AND valid_until > NOW()
+      `;
+      const observedAt = new Date();
+      return rows.map(row => ({ pair: row.currency_pair, rate: Number(row.rate), observedAt }));
+    },
+  };
+}
+
+// Reads a JSON rate document from an http(s) URL or a local file:
+//   { "timestamp": "2026-01-01T00:00:00Z", "rates": { "ASM/USD": 0.0000125 } }
+// The timestamp is when the rates were observed, and drives the staleness guard.
+export function feedRateProvider(name: string, source: string): RateProvider {
+  return {
+    name,
+    async fetchRates(pairs) {
+      let body: string;
+      if (/^https?:\/\//.test(source)) {
+        const resp = await fetch(source, { signal: AbortSignal.timeout(FEED_TIMEOUT_MS) });
+        if (!resp.ok) {
+          throw new Error(`Rate feed ${name} returned HTTP ${resp.status}`);
+        }
+        body = await resp.text();
+      } else {
+        body = await readFile(source, 'utf8');
+      }
+
+      const doc = JSON.parse(body) as { timestamp?: string; rates?: Record<string, unknown> };
+      const observedAt = new Date(doc.timestamp ?? NaN);
+      if (isNaN(observedAt.getTime()) || !doc.rates) {
+        throw new Error(`Rate feed ${name} is missing its timestamp or rates`);
+      }
+
+      const rates: ProviderRate[] = [];
+      for (const pair of pairs) {
+        const rate = Number(doc.rates[pair]);
+        if (rate > 0 && isFinite(rate)) {
+          rates.push({ pair, rate, observedAt });
+        }
+      }
+      return rates;
+    },
+  };
+}
+
+// Prices pairs from the AMM pools that trade them, using the pool TWAP so a single swap
+// cannot move the rate.
+export function ammRateProvider(windowSeconds: number = AMM_TWAP_WINDOW_SECONDS): RateProvider {
+  return {
+    name: 'amm',
+    async fetchRates(pairs) {
+      const rates: ProviderRate[] = [];
+      for (const pair of pairs) {
+        const [base, quote] = pair.split('/');
+        const rate = await readPairTWAP(base, quote, windowSeconds);
+        if (rate && rate > 0 && isFinite(rate)) {
+          rates.push({ pair, rate, observedAt: new Date() });
+        }
+      }
+      return rates;
+    },
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Combines provider quotes for one pair into a single rate. Quotes older than maxAgeSeconds
+// are dropped, then quotes further than maxDeviation from the median of the rest, and the
+// rate is the median of what remains.
+export function aggregateRates(
+  pair: string,
+  quotes: SourcedRate[],
+  now: Date = new Date(),
+  maxAgeSeconds: number = MAX_RATE_AGE_SECONDS,
+  maxDeviation: number = MAX_PROVIDER_DEVIATION
+): AggregatedRate {
+  const rejected: RejectedRate[] = [];
+  const fresh: SourcedRate[] = [];
+  for (const quote of quotes.filter(q => q.pair === pair)) {
+    if (now.getTime() - quote.observedAt.getTime() > maxAgeSeconds * 1000) {
+      rejected.push({ ...quote, reason: 'stale' });
+    } else {
+      fresh.push(quote);
+    }
+  }
+  if (fresh.length === 0) {
+    return { pair, rate: null, accepted: [], rejected };
+  }
+
+  const center = median(fresh.map(q => q.rate));
+  const accepted: SourcedRate[] = [];
+  for (const quote of fresh) {
+    if (Math.abs(quote.rate - center) / center > maxDeviation) {
+      rejected.push({ ...quote, reason: 'deviation' });
+    } else {
+      accepted.push(quote);
+    }
+  }
+
+  return {
+    pair,
+    rate: accepted.length > 0 ? median(accepted.map(q => q.rate)) : null,
+    accepted,
+    rejected,
+  };
+}
+
+// The providers consulted on each refresh: the AMM, manual rates and every enabled feed.
+export async function loadRateProviders(): Promise<RateProvider[]> {
+  const feeds = await blockchainDB.queryAll<{ name: string; source: string }>`
+    SELECT name, source FROM exchange_rate_feeds WHERE enabled = true ORDER BY id
+  `;
+  return [
+    ammRateProvider(),
+    manualRateProvider(),
+    ...feeds.map(feed => feedRateProvider(`feed:${feed.name}`, feed.source)),
+  ];
+}
+
+// Collects quotes from every provider, aggregates them per pair and writes each accepted
+// rate to currency_exchange_rates and exchange_rate_history. A pair without an accepted
+// rate keeps its previous one. A failing provider is skipped rather than failing the refresh.
+export async function refreshExchangeRates(
+  providers?: RateProvider[],
+  pairs: string[] = EXCHANGE_RATE_PAIRS
+): Promise<AggregatedRate[]> {
+  const sources = providers ?? await loadRateProviders();
+
+  const quotes: SourcedRate[] = [];
+  for (const provider of sources) {
+    try {
+      const rates = await provider.fetchRates(pairs);
+      quotes.push(...rates.map(rate => ({ ...rate, source: provider.name })));
+    } catch (error) {
+      log.warn("exchange rate provider failed", {
+        provider: provider.name,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const results: AggregatedRate[] = [];
+  for (const pair of pairs) {
+    const result = aggregateRates(pair, quotes);
+    results.push(result);
+    if (result.rate === null) {
+      if (result.rejected.length > 0) {
+        log.warn("no exchange rate accepted", { pair, rejected: result.rejected.length });
+      }
+      continue;
+    }
+
+    // 24h change is measured against the last accepted rate from at least a day ago
+    const dayAgo = await blockchainDB.queryRow<{ rate: number }>`
+      SELECT rate FROM exchange_rate_history
+      WHERE currency_pair = ${pair} AND timestamp <= NOW() - INTERVAL '24 hours'
+      ORDER BY timestamp DESC
+      LIMIT 1
+    `;
+
+    const updated = await blockchainDB.queryRow<{ volume_24h: number; change_24h: number; market_cap: number }>`
+      UPDATE currency_exchange_rates
+      SET rate = ${result.rate},
+          change_24h = COALESCE(${dayAgo ? (result.rate - Number(dayAgo.rate)) / Number(dayAgo.rate) * 100 : null}::numeric, change_24h),
+          last_updated = NOW()
+      WHERE currency_pair = ${pair}
+      RETURNING volume_24h, change_24h, market_cap
+    `;
+    if (!updated) continue;
+
+    await blockchainDB.exec`
+      INSERT INTO exchange_rate_history (
+        currency_pair, rate, volume_24h, change_24h, market_cap, source, provider_rates
+      )
+      VALUES (
+        ${pair}, ${result.rate}, ${updated.volume_24h}, ${updated.change_24h}, ${updated.market_cap},
+        ${result.accepted.map(q => q.source).join(',')},
+        ${JSON.stringify({ accepted: result.accepted, rejected: result.rejected })}
+      )
+    `;
+  }
+  return results;
+}
+
+// Sets an operator rate for a pair, reported by the manual provider until it expires.
+export const setManualExchangeRate = api<ManualRateRequest, { pair: string; rate: number; validUntil: Date }>(
+  { expose: true, method: "POST", path: "/admin/exchange/manual-rates" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/exchange/manual-rates", "POST", async () => {
+      const validForSeconds = req.validForSeconds ?? DEFAULT_MANUAL_RATE_SECONDS;
+      if (!EXCHANGE_RATE_PAIRS.includes(req.pair)) {
+        throw APIError.invalidArgument(`Unsupported currency pair ${req.pair}`);
+      }
+      if (!(req.rate > 0) || !isFinite(req.rate)) {
+        throw APIError.invalidArgument("Rate must be positive");
+      }
+      if (!Number.isInteger(validForSeconds) || validForSeconds <= 0) {
+        throw APIError.invalidArgument("validForSeconds must be a positive integer");
+      }
+
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const validUntil = new Date(Date.now() + validForSeconds * 1000);
+        await tx.exec`
+          INSERT INTO manual_exchange_rates (currency_pair, rate, valid_until, set_by)
+          VALUES (${req.pair}, ${req.rate}, ${validUntil}, ${req.adminId})
+          ON CONFLICT (currency_pair) DO UPDATE SET
+            rate = EXCLUDED.rate,
+            valid_until = EXCLUDED.valid_until,
+            set_by = EXCLUDED.set_by,
+            updated_at = NOW()
+        `;
+
+        await tx.commit();
+        return { pair: req.pair, rate: req.rate, validUntil };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Registers a file or HTTP rate feed, or updates an existing one by name.
+export const upsertExchangeRateFeed = api<RateFeedRequest, { feed: RateFeed }>(
+  { expose: true, method: "POST", path: "/admin/exchange/feeds" },
+  async (req) => {
+    return withPerformanceMonitoring("/admin/exchange/feeds", "POST", async () => {
+      if (!req.name || !req.source) {
+        throw APIError.invalidArgument("name and source are required");
+      }
+
+      await using tx = await blockchainDB.begin();
+      try {
+        await requireAdmin(tx, req.adminId);
+
+        const row = await tx.queryRow<{
+          id: number;
+          name: string;
+          source: string;
+          enabled: boolean;
+          created_by: string;
+          updated_at: Date;
+        }>`
+          INSERT INTO exchange_rate_feeds (name, source, enabled, created_by)
+          VALUES (${req.name}, ${req.source}, ${req.enabled ?? true}, ${req.adminId})
+          ON CONFLICT (name) DO UPDATE SET
+            source = EXCLUDED.source,
+            enabled = EXCLUDED.enabled,
+            updated_at = NOW()
+          RETURNING id, name, source, enabled, created_by, updated_at
+        `;
+
+        await tx.commit();
+        return {
+          feed: {
+            id: row!.id,
+            name: row!.name,
+            source: row!.source,
+            enabled: row!.enabled,
+            createdBy: row!.created_by,
+            updatedAt: row!.updated_at,
+          },
+        };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
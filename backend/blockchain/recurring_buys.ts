@@ -0,0 +1,403 @@
+import { api, APIError } from "encore.dev/api";
+import { CronJob } from "encore.dev/cron";
+import log from "encore.dev/log";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { publishTransactionConfirmation } from "./notifications";
+import {
+  assertCurrencyPrecision,
+  checkPurchaseRateLimit,
+  CURRENCY_DECIMALS,
+  executePurchase,
+  type CurrencyTransaction,
+} from "./currency_exchange";
+
+export type RecurringBuyFrequency = 'daily' | 'weekly';
+export type RecurringBuyStatus = 'active' | 'paused' | 'cancelled';
+
+const FREQUENCY_MS: Record<RecurringBuyFrequency, number> = {
+  daily: 24 * 3600 * 1000,
+  weekly: 7 * 24 * 3600 * 1000,
+};
+
+export interface RecurringBuy {
+  id: number;
+  userId: string;
+  paymentCurrency: string;
+  amount: number; // In paymentCurrency, per execution
+  frequency: RecurringBuyFrequency;
+  status: RecurringBuyStatus;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  lastResult?: 'completed' | 'skipped';
+  lastSkipReason?: string;
+  executions: number;
+  skippedExecutions: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateRecurringBuyRequest {
+  userId: string;
+  amount: number;
+  paymentCurrency?: string; // Defaults to USD
+  frequency: RecurringBuyFrequency;
+  startAt?: Date; // First execution; defaults to now
+}
+
+export interface UpdateRecurringBuyRequest {
+  planId: number;
+  userId: string;
+  amount?: number;
+  frequency?: RecurringBuyFrequency;
+  status?: 'active' | 'paused';
+}
+
+interface RecurringBuyRow {
+  id: number;
+  user_id: string;
+  payment_currency: string;
+  amount: number;
+  frequency: RecurringBuyFrequency;
+  status: RecurringBuyStatus;
+  next_run_at: Date;
+  last_run_at: Date | null;
+  last_result: 'completed' | 'skipped' | null;
+  last_skip_reason: string | null;
+  executions: number;
+  skipped_executions: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+function toRecurringBuy(row: RecurringBuyRow): RecurringBuy {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    paymentCurrency: row.payment_currency,
+    amount: Number(row.amount),
+    frequency: row.frequency,
+    status: row.status,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at ?? undefined,
+    lastResult: row.last_result ?? undefined,
+    lastSkipReason: row.last_skip_reason ?? undefined,
+    executions: row.executions,
+    skippedExecutions: row.skipped_executions,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// The first run strictly after `now` on the plan's schedule. Runs missed while the job was
+// not running are dropped rather than bought all at once.
+export function nextRunAfter(scheduledAt: Date, frequency: RecurringBuyFrequency, now: Date): Date {
+  const step = FREQUENCY_MS[frequency];
+  const elapsed = Math.max(0, now.getTime() - scheduledAt.getTime());
+  return new Date(scheduledAt.getTime() + (Math.floor(elapsed / step) + 1) * step);
+}
+
+function validatePlan(amount: number, paymentCurrency: string, frequency: RecurringBuyFrequency) {
+  if (paymentCurrency === 'ASM' || CURRENCY_DECIMALS[paymentCurrency] === undefined) {
+    throw APIError.invalidArgument(`Cannot buy ASM with ${paymentCurrency}`);
+  }
+  if (!(amount > 0)) {
+    throw APIError.invalidArgument("Amount must be positive");
+  }
+  assertCurrencyPrecision(amount, paymentCurrency);
+  if (!FREQUENCY_MS[frequency]) {
+    throw APIError.invalidArgument("Frequency must be 'daily' or 'weekly'");
+  }
+}
+
+async function getOwnPlan(planId: number, userId: string): Promise<RecurringBuyRow> {
+  const row = await blockchainDB.queryRow<RecurringBuyRow>`
+    SELECT * FROM recurring_buys WHERE id = ${planId}
+  `;
+  if (!row || row.user_id !== userId) {
+    throw APIError.notFound("Recurring buy not found");
+  }
+  return row;
+}
+
+// Creates a plan that buys a fixed amount of ASM every day or week.
+export const createRecurringBuy = api<CreateRecurringBuyRequest, { plan: RecurringBuy }>(
+  { expose: true, method: "POST", path: "/exchange/recurring-buys" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/recurring-buys", "POST", async () => {
+      if (!req.userId) {
+        throw APIError.invalidArgument("userId is required");
+      }
+      const paymentCurrency = req.paymentCurrency ?? 'USD';
+      validatePlan(req.amount, paymentCurrency, req.frequency);
+
+      const startAt = req.startAt ? new Date(req.startAt) : new Date();
+      if (isNaN(startAt.getTime())) {
+        throw APIError.invalidArgument("Invalid start time");
+      }
+
+      const row = await blockchainDB.queryRow<RecurringBuyRow>`
+        INSERT INTO recurring_buys (user_id, payment_currency, amount, frequency, next_run_at)
+        VALUES (${req.userId}, ${paymentCurrency}, ${req.amount}, ${req.frequency}, ${startAt})
+        RETURNING *
+      `;
+
+      return { plan: toRecurringBuy(row!) };
+    });
+  }
+);
+
+// Lists a user's recurring buy plans, cancelled ones included.
+export const listRecurringBuys = api<{ userId: string }, { plans: RecurringBuy[] }>(
+  { expose: true, method: "GET", path: "/exchange/recurring-buys" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/recurring-buys", "GET", async () => {
+      if (!req.userId) {
+        throw APIError.invalidArgument("userId is required");
+      }
+
+      const rows = await blockchainDB.queryAll<RecurringBuyRow>`
+        SELECT * FROM recurring_buys
+        WHERE user_id = ${req.userId}
+        ORDER BY created_at DESC
+      `;
+
+      return { plans: rows.map(toRecurringBuy) };
+    });
+  }
+);
+
+// Returns a plan with the purchases it has made, newest first.
+export const getRecurringBuy = api<{ planId: number; userId: string }, { plan: RecurringBuy; executions: CurrencyTransaction[] }>(
+  { expose: true, method: "GET", path: "/exchange/recurring-buys/:planId" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/recurring-buys/get", "GET", async () => {
+      const plan = await getOwnPlan(req.planId, req.userId);
+
+      const rows = await blockchainDB.queryAll<{
+        id: number;
+        user_id: string;
+        transaction_type: string;
+        from_currency: string;
+        to_currency: string;
+        from_amount: number;
+        to_amount: number;
+        exchange_rate: number;
+        fee_amount: number;
+        status: string;
+        created_at: Date;
+        completed_at: Date | null;
+      }>`
+        SELECT * FROM currency_transactions
+        WHERE recurring_buy_id = ${plan.id}
+        ORDER BY created_at DESC
+        LIMIT 100
+      `;
+
+      return {
+        plan: toRecurringBuy(plan),
+        executions: rows.map(row => ({
+          id: row.id,
+          userId: row.user_id,
+          transactionType: row.transaction_type,
+          fromCurrency: row.from_currency,
+          toCurrency: row.to_currency,
+          fromAmount: Number(row.from_amount),
+          toAmount: Number(row.to_amount),
+          exchangeRate: Number(row.exchange_rate),
+          feeAmount: Number(row.fee_amount),
+          status: row.status,
+          recurringBuyId: plan.id,
+          createdAt: row.created_at,
+          completedAt: row.completed_at ?? undefined,
+        })),
+      };
+    });
+  }
+);
+
+// Changes a plan's amount or frequency, or pauses and resumes it. A resumed plan whose next
+// run has passed runs on the next job pass.
+export const updateRecurringBuy = api<UpdateRecurringBuyRequest, { plan: RecurringBuy }>(
+  { expose: true, method: "POST", path: "/exchange/recurring-buys/:planId" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/recurring-buys/update", "POST", async () => {
+      const plan = await getOwnPlan(req.planId, req.userId);
+      if (plan.status === 'cancelled') {
+        throw APIError.failedPrecondition("Recurring buy is cancelled");
+      }
+      if (req.status !== undefined && req.status !== 'active' && req.status !== 'paused') {
+        throw APIError.invalidArgument("Status must be 'active' or 'paused'");
+      }
+
+      const amount = req.amount ?? Number(plan.amount);
+      const frequency = req.frequency ?? plan.frequency;
+      validatePlan(amount, plan.payment_currency, frequency);
+      const status = req.status ?? plan.status;
+
+      const row = await blockchainDB.queryRow<RecurringBuyRow>`
+        UPDATE recurring_buys
+        SET amount = ${amount},
+            frequency = ${frequency},
+            status = ${status},
+            next_run_at = CASE
+              WHEN ${status} = 'active' AND status = 'paused' THEN GREATEST(next_run_at, NOW())
+              ELSE next_run_at
+            END,
+            updated_at = NOW()
+        WHERE id = ${plan.id}
+        RETURNING *
+      `;
+
+      return { plan: toRecurringBuy(row!) };
+    });
+  }
+);
+
+// Cancels a plan for good. Its past executions stay linked to it.
+export const cancelRecurringBuy = api<{ planId: number; userId: string }, { plan: RecurringBuy }>(
+  { expose: true, method: "POST", path: "/exchange/recurring-buys/:planId/cancel" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/recurring-buys/cancel", "POST", async () => {
+      const plan = await getOwnPlan(req.planId, req.userId);
+      if (plan.status === 'cancelled') {
+        throw APIError.failedPrecondition("Recurring buy is already cancelled");
+      }
+
+      const row = await blockchainDB.queryRow<RecurringBuyRow>`
+        UPDATE recurring_buys SET status = 'cancelled', updated_at = NOW()
+        WHERE id = ${plan.id}
+        RETURNING *
+      `;
+
+      return { plan: toRecurringBuy(row!) };
+    });
+  }
+);
+
+// Claims a due plan by moving it to its next run, so a slow or crashed execution is skipped
+// rather than repeated. Returns null if the plan is no longer due.
+async function claimDuePlan(planId: number, now: Date): Promise<RecurringBuyRow | null> {
+  await using tx = await blockchainDB.begin();
+
+  try {
+    const plan = await tx.queryRow<RecurringBuyRow>`
+      SELECT * FROM recurring_buys
+      WHERE id = ${planId} AND status = 'active' AND next_run_at <= ${now}
+      FOR UPDATE SKIP LOCKED
+    `;
+    if (!plan) {
+      await tx.rollback();
+      return null;
+    }
+
+    await tx.exec`
+      UPDATE recurring_buys
+      SET next_run_at = ${nextRunAfter(plan.next_run_at, plan.frequency, now)},
+          last_run_at = ${now},
+          updated_at = NOW()
+      WHERE id = ${plan.id}
+    `;
+
+    await tx.commit();
+    return plan;
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+async function recordSkip(plan: RecurringBuyRow, reason: string) {
+  const row = await blockchainDB.queryRow<{ next_run_at: Date }>`
+    UPDATE recurring_buys
+    SET last_result = 'skipped',
+        last_skip_reason = ${reason},
+        skipped_executions = skipped_executions + 1,
+        updated_at = NOW()
+    WHERE id = ${plan.id}
+    RETURNING next_run_at
+  `;
+
+  log.warn("Skipped recurring buy", { planId: plan.id, userId: plan.user_id, reason });
+  await publishTransactionConfirmation({
+    userId: plan.user_id,
+    type: 'recurring_buy',
+    status: 'failed',
+    message: `Your recurring buy of ${Number(plan.amount)} ${plan.payment_currency} of ASM was skipped: ${reason}.`,
+    details: {
+      planId: plan.id,
+      amount: Number(plan.amount),
+      paymentCurrency: plan.payment_currency,
+      reason,
+      nextRunAt: row?.next_run_at,
+    },
+  });
+}
+
+// Runs one claimed plan through the regular purchase path.
+async function executePlan(plan: RecurringBuyRow): Promise<boolean> {
+  if (!checkPurchaseRateLimit(plan.user_id)) {
+    await recordSkip(plan, "Rate limit exceeded for token purchases");
+    return false;
+  }
+
+  try {
+    await executePurchase({
+      userId: plan.user_id,
+      amount: Number(plan.amount),
+      paymentCurrency: plan.payment_currency,
+      recurringBuyId: plan.id,
+    });
+  } catch (error) {
+    await recordSkip(plan, error instanceof Error ? error.message : String(error));
+    return false;
+  }
+
+  await blockchainDB.exec`
+    UPDATE recurring_buys
+    SET last_result = 'completed',
+        last_skip_reason = NULL,
+        executions = executions + 1,
+        updated_at = NOW()
+    WHERE id = ${plan.id}
+  `;
+  return true;
+}
+
+// Executes every active plan that is due, each claimed on its own so one failing plan does
+// not hold up the rest.
+export const executeDueRecurringBuys = api<void, { executed: number; skipped: number }>(
+  { expose: false, method: "POST", path: "/internal/exchange/recurring-buys/execute" },
+  async () => {
+    const now = new Date();
+    const due = await blockchainDB.queryAll<{ id: number }>`
+      SELECT id FROM recurring_buys
+      WHERE status = 'active' AND next_run_at <= ${now}
+      ORDER BY next_run_at ASC, id ASC
+    `;
+
+    let executed = 0;
+    let skipped = 0;
+    for (const { id } of due) {
+      const plan = await claimDuePlan(id, now);
+      if (!plan) continue;
+
+      if (await executePlan(plan)) {
+        executed++;
+      } else {
+        skipped++;
+      }
+    }
+
+    if (due.length > 0) {
+      log.info("Ran recurring buys", { executed, skipped });
+    }
+    return { executed, skipped };
+  }
+);
+
+const _ = new CronJob("exchange-recurring-buys", {
+  title: "Execute due recurring ASM buys",
+  every: "15m",
+  endpoint: executeDueRecurringBuys,
+});
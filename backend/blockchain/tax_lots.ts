@@ -0,0 +1,464 @@
+import { api, APIError } from "encore.dev/api";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { readPairTWAP } from "./amm_oracle";
+import { CURRENCY_DECIMALS, roundToCurrency } from "./currency_exchange";
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'lifo', 'average'];
+// Gains and cost basis are reported in USD; USD itself is cash, not a holding
+const REPORT_CURRENCY = 'USD';
+const LONG_TERM_DAYS = 365;
+// Quantities below this are float residue from splitting lots
+const QUANTITY_EPSILON = 1e-9;
+
+// One change to a holding. A trade becomes a disposal of what was given and an acquisition
+// of what was received, both at the trade's USD value.
+export interface HoldingEvent {
+  kind: 'acquire' | 'dispose' | 'transfer_out'; // transfer_out removes lots without realizing a gain
+  asset: string; // A currency or token symbol, or 'NFT #<id>'
+  quantity: number;
+  usdValue: number | null; // Cost for acquisitions, proceeds for disposals; null when it could not be priced
+  occurredAt: Date;
+  source: string; // 'buy', 'sell', 'swap', 'trade', 'transfer_in', 'transfer_out', 'nft_sale', 'nft_purchase'
+  reference: string; // e.g. 'currency_transaction:12' or 'nft_listing:3'
+}
+
+export interface TaxLot {
+  asset: string;
+  quantity: number; // Still held
+  costBasis: number; // USD, for the quantity still held
+  acquiredAt: Date; // For average cost, the earliest acquisition in the pool
+  source: string;
+  reference: string;
+  complete: boolean; // False when the acquisition could not be priced
+}
+
+export interface RealizedGain {
+  asset: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  acquiredAt?: Date; // Unset for average cost and for quantities with no recorded acquisition
+  disposedAt: Date;
+  holdingPeriod: 'short' | 'long' | 'unknown';
+  source: string;
+  reference: string;
+  complete: boolean; // False when proceeds or cost basis are missing, so the gain is partial
+}
+
+export interface AssetHolding {
+  asset: string;
+  quantity: number;
+  costBasis: number;
+  marketPrice?: number; // Current USD price, when the asset has one
+  marketValue?: number;
+  unrealizedGain?: number;
+  complete: boolean;
+}
+
+export interface GainSummary {
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+  shortTermGain: number;
+  longTermGain: number;
+  incompleteDisposals: number;
+}
+
+export interface CostBasisRequest {
+  userId: string;
+  method?: CostBasisMethod; // Defaults to fifo
+}
+
+export interface CostBasisResponse {
+  method: CostBasisMethod;
+  holdings: AssetHolding[];
+  lots: TaxLot[];
+  realized: GainSummary; // Over the user's whole history
+  unrealizedGain: number; // Over the holdings that have a market price
+}
+
+export interface TaxReportRequest {
+  userId: string;
+  method?: CostBasisMethod;
+  from?: Date; // Disposals on or after; defaults to the start of the current year
+  to?: Date; // Disposals before; defaults to now
+  format?: 'csv' | 'json';
+}
+
+export interface TaxReportResponse {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+interface HoldingTransactionRow {
+  id: number;
+  transaction_type: string;
+  from_currency: string;
+  to_currency: string;
+  from_amount: string;
+  to_amount: string;
+  created_at: Date;
+}
+
+interface NFTSaleRow {
+  id: number;
+  nft_id: number;
+  seller_id: string;
+  buyer_id: string;
+  price: string;
+  currency: string;
+  sold_at: Date;
+}
+
+function roundUsd(amount: number): number {
+  return roundToCurrency(amount, REPORT_CURRENCY, 'nearest');
+}
+
+function holdingPeriod(acquiredAt: Date | undefined, disposedAt: Date): RealizedGain['holdingPeriod'] {
+  if (!acquiredAt) return 'unknown';
+  const days = (disposedAt.getTime() - acquiredAt.getTime()) / (24 * 3600 * 1000);
+  return days > LONG_TERM_DAYS ? 'long' : 'short';
+}
+
+// Replays holding events in time order and matches each disposal against the open lots:
+// oldest first for fifo, newest first for lifo, and one pooled lot per asset for average
+// cost. Disposals beyond the recorded acquisitions are reported with a zero, incomplete
+// cost basis.
+export function matchLots(events: HoldingEvent[], method: CostBasisMethod): { lots: TaxLot[]; realized: RealizedGain[] } {
+  const holdings = new Map<string, TaxLot[]>();
+  const realized: RealizedGain[] = [];
+  const ordered = [...events].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+
+  for (const event of ordered) {
+    const lots = holdings.get(event.asset) ?? [];
+    holdings.set(event.asset, lots);
+
+    if (event.kind === 'acquire') {
+      const lot: TaxLot = {
+        asset: event.asset,
+        quantity: event.quantity,
+        costBasis: event.usdValue ?? 0,
+        acquiredAt: event.occurredAt,
+        source: event.source,
+        reference: event.reference,
+        complete: event.usdValue !== null,
+      };
+      if (method === 'average' && lots.length > 0) {
+        lots[0].quantity += lot.quantity;
+        lots[0].costBasis += lot.costBasis;
+        lots[0].complete = lots[0].complete && lot.complete;
+      } else {
+        lots.push(lot);
+      }
+      continue;
+    }
+
+    const proceedsPerUnit = (event.usdValue ?? 0) / event.quantity;
+    let remaining = event.quantity;
+    while (remaining > QUANTITY_EPSILON && lots.length > 0) {
+      const index = method === 'lifo' ? lots.length - 1 : 0;
+      const lot = lots[index];
+      const used = Math.min(remaining, lot.quantity);
+      const cost = lot.costBasis * used / lot.quantity;
+
+      lot.quantity -= used;
+      lot.costBasis -= cost;
+      if (lot.quantity <= QUANTITY_EPSILON) {
+        lots.splice(index, 1);
+      }
+      remaining -= used;
+
+      if (event.kind === 'dispose') {
+        const acquiredAt = method === 'average' ? undefined : lot.acquiredAt;
+        realized.push({
+          asset: event.asset,
+          quantity: used,
+          proceeds: proceedsPerUnit * used,
+          costBasis: cost,
+          gain: proceedsPerUnit * used - cost,
+          acquiredAt,
+          disposedAt: event.occurredAt,
+          holdingPeriod: holdingPeriod(acquiredAt, event.occurredAt),
+          source: event.source,
+          reference: event.reference,
+          complete: event.usdValue !== null && lot.complete,
+        });
+      }
+    }
+
+    if (remaining > QUANTITY_EPSILON && event.kind === 'dispose') {
+      realized.push({
+        asset: event.asset,
+        quantity: remaining,
+        proceeds: proceedsPerUnit * remaining,
+        costBasis: 0,
+        gain: proceedsPerUnit * remaining,
+        disposedAt: event.occurredAt,
+        holdingPeriod: 'unknown',
+        source: event.source,
+        reference: event.reference,
+        complete: false,
+      });
+    }
+  }
+
+  return { lots: [...holdings.values()].flat(), realized };
+}
+
+export function summarizeGains(realized: RealizedGain[]): GainSummary {
+  const sum = (rows: RealizedGain[], field: 'proceeds' | 'costBasis' | 'gain') =>
+    roundUsd(rows.reduce((acc, row) => acc + row[field], 0));
+  return {
+    proceeds: sum(realized, 'proceeds'),
+    costBasis: sum(realized, 'costBasis'),
+    gain: sum(realized, 'gain'),
+    shortTermGain: sum(realized.filter(r => r.holdingPeriod !== 'long'), 'gain'),
+    longTermGain: sum(realized.filter(r => r.holdingPeriod === 'long'), 'gain'),
+    incompleteDisposals: realized.filter(r => !r.complete).length,
+  };
+}
+
+// The ASM/<currency> rate in effect at a point in time, or the current one when `at` is not
+// given. Null when no rate was recorded by then, so the event is reported as incomplete
+// rather than priced at today's rate.
+async function asmRateAt(currency: string, at?: Date): Promise<number | null> {
+  const pair = `ASM/${currency}`;
+  const row = at
+    ? await blockchainDB.queryRow<{ rate: string }>`
+        SELECT rate FROM exchange_rate_history
+        WHERE currency_pair = ${pair} AND timestamp <= ${at}
+        ORDER BY timestamp DESC
+        LIMIT 1
+      `
+    : await blockchainDB.queryRow<{ rate: string }>`
+        SELECT rate FROM currency_exchange_rates WHERE currency_pair = ${pair} ORDER BY last_updated DESC LIMIT 1
+      `;
+  const rate = Number(row?.rate ?? 0);
+  return rate > 0 ? rate : null;
+}
+
+// USD price of an asset at a point in time (or now). Exchange currencies are priced from the
+// exchange rate history; AMM tokens only have a current price, from their USD pool.
+async function usdPriceAt(asset: string, at?: Date): Promise<number | null> {
+  if (asset === REPORT_CURRENCY) return 1;
+  if (CURRENCY_DECIMALS[asset] !== undefined) {
+    const asmUsd = await asmRateAt(REPORT_CURRENCY, at);
+    if (asset === 'ASM' || asmUsd === null) return asmUsd;
+    const asmRate = await asmRateAt(asset, at);
+    return asmRate === null ? null : asmUsd / asmRate;
+  }
+  if (at || asset.startsWith('NFT #')) return null;
+  return readPairTWAP(asset, REPORT_CURRENCY);
+}
+
+async function usdValueAt(asset: string, quantity: number, at: Date): Promise<number | null> {
+  const price = await usdPriceAt(asset, at);
+  return price === null ? null : price * quantity;
+}
+
+// The events of a swap of one asset for another: the USD leg, if there is one, sets the value.
+async function exchangeEvents(
+  given: { asset: string; quantity: number },
+  received: { asset: string; quantity: number },
+  occurredAt: Date,
+  source: string,
+  reference: string
+): Promise<HoldingEvent[]> {
+  const usdValue = received.asset === REPORT_CURRENCY ? received.quantity
+    : given.asset === REPORT_CURRENCY ? given.quantity
+    : await usdValueAt(given.asset, given.quantity, occurredAt) ?? await usdValueAt(received.asset, received.quantity, occurredAt);
+
+  const events: HoldingEvent[] = [];
+  if (given.asset !== REPORT_CURRENCY) {
+    events.push({ kind: 'dispose', ...given, usdValue, occurredAt, source, reference });
+  }
+  if (received.asset !== REPORT_CURRENCY) {
+    events.push({ kind: 'acquire', ...received, usdValue, occurredAt, source, reference });
+  }
+  return events;
+}
+
+// Builds a user's holding events from their completed exchange and AMM transactions and
+// their NFT sales and purchases.
+export async function loadHoldingEvents(userId: string): Promise<HoldingEvent[]> {
+  const transactions = await blockchainDB.queryAll<HoldingTransactionRow>`
+    SELECT id, transaction_type, from_currency, to_currency, from_amount::text, to_amount::text, created_at
+    FROM currency_transactions
+    WHERE user_id = ${userId} AND status = 'completed'
+    ORDER BY created_at, id
+  `;
+
+  const events: HoldingEvent[] = [];
+  for (const row of transactions) {
+    const reference = `currency_transaction:${row.id}`;
+    const given = { asset: row.from_currency, quantity: Number(row.from_amount) };
+    const received = { asset: row.to_currency, quantity: Number(row.to_amount) };
+
+    switch (row.transaction_type) {
+      case 'buy':
+      case 'sell':
+      case 'swap':
+      case 'trade':
+        events.push(...await exchangeEvents(given, received, row.created_at, row.transaction_type, reference));
+        break;
+      case 'transfer_in':
+        if (received.asset !== REPORT_CURRENCY) {
+          const usdValue = await usdValueAt(received.asset, received.quantity, row.created_at);
+          events.push({ kind: 'acquire', ...received, usdValue, occurredAt: row.created_at, source: 'transfer_in', reference });
+        }
+        break;
+      case 'transfer_out':
+        if (given.asset !== REPORT_CURRENCY) {
+          events.push({ kind: 'transfer_out', ...given, usdValue: null, occurredAt: row.created_at, source: 'transfer_out', reference });
+        }
+        break;
+    }
+  }
+
+  const sales = await blockchainDB.queryAll<NFTSaleRow>`
+    SELECT id, nft_id, seller_id, buyer_id, price::text, currency, sold_at
+    FROM nft_listings
+    WHERE status = 'sold' AND sold_at IS NOT NULL AND (seller_id = ${userId} OR buyer_id = ${userId})
+  `;
+  for (const sale of sales) {
+    const nft = { asset: `NFT #${sale.nft_id}`, quantity: 1 };
+    const payment = { asset: sale.currency, quantity: Number(sale.price) };
+    const reference = `nft_listing:${sale.id}`;
+    events.push(...sale.seller_id === userId
+      ? await exchangeEvents(nft, payment, sale.sold_at, 'nft_sale', reference)
+      : await exchangeEvents(payment, nft, sale.sold_at, 'nft_purchase', reference));
+  }
+
+  return events;
+}
+
+function assertMethod(method: string): asserts method is CostBasisMethod {
+  if (!COST_BASIS_METHODS.includes(method as CostBasisMethod)) {
+    throw APIError.invalidArgument(`Method must be one of ${COST_BASIS_METHODS.join(', ')}`);
+  }
+}
+
+// Groups open lots into one holding per asset and values them at current prices.
+async function valueHoldings(lots: TaxLot[]): Promise<AssetHolding[]> {
+  const byAsset = new Map<string, AssetHolding>();
+  for (const lot of lots) {
+    const holding = byAsset.get(lot.asset) ?? { asset: lot.asset, quantity: 0, costBasis: 0, complete: true };
+    holding.quantity += lot.quantity;
+    holding.costBasis += lot.costBasis;
+    holding.complete = holding.complete && lot.complete;
+    byAsset.set(lot.asset, holding);
+  }
+
+  const holdings: AssetHolding[] = [];
+  for (const holding of byAsset.values()) {
+    const marketPrice = await usdPriceAt(holding.asset);
+    holding.costBasis = roundUsd(holding.costBasis);
+    if (marketPrice !== null) {
+      holding.marketPrice = marketPrice;
+      holding.marketValue = roundUsd(holding.quantity * marketPrice);
+      holding.unrealizedGain = roundUsd(holding.marketValue - holding.costBasis);
+    }
+    holdings.push(holding);
+  }
+  return holdings.sort((a, b) => a.asset.localeCompare(b.asset));
+}
+
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toGainsCsv(realized: RealizedGain[]): string {
+  const header = [
+    'asset', 'quantity', 'acquired_at', 'disposed_at', 'proceeds_usd', 'cost_basis_usd', 'gain_usd',
+    'holding_period', 'source', 'reference', 'complete',
+  ];
+  const rows = realized.map(row => [
+    row.asset,
+    row.quantity,
+    row.acquiredAt?.toISOString(),
+    row.disposedAt.toISOString(),
+    roundUsd(row.proceeds).toFixed(2),
+    roundUsd(row.costBasis).toFixed(2),
+    roundUsd(row.gain).toFixed(2),
+    row.holdingPeriod,
+    row.source,
+    row.reference,
+    row.complete ? 'yes' : 'no',
+  ]);
+  return [header, ...rows].map(fields => fields.map(csvField).join(',')).join('\n') + '\n';
+}
+
+// Returns a user's open tax lots and holdings with their cost basis and unrealized gain,
+// along with the gains realized over their whole history.
+export const getCostBasis = api<CostBasisRequest, CostBasisResponse>(
+  { expose: true, method: "GET", path: "/exchange/cost-basis/:userId" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/cost-basis", "GET", async () => {
+      const method = req.method ?? 'fifo';
+      assertMethod(method);
+
+      const { lots, realized } = matchLots(await loadHoldingEvents(req.userId), method);
+      const holdings = await valueHoldings(lots);
+
+      return {
+        method,
+        holdings,
+        lots: lots.map(lot => ({ ...lot, costBasis: roundUsd(lot.costBasis) })),
+        realized: summarizeGains(realized),
+        unrealizedGain: roundUsd(holdings.reduce((acc, h) => acc + (h.unrealizedGain ?? 0), 0)),
+      };
+    });
+  }
+);
+
+// Exports the gains and losses realized in a date range as CSV or JSON. Lots are matched over
+// the user's whole history, so disposals in the range carry their original cost basis.
+export const exportTaxReport = api<TaxReportRequest, TaxReportResponse>(
+  { expose: true, method: "GET", path: "/exchange/tax-report/:userId" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/tax-report", "GET", async () => {
+      const method = req.method ?? 'fifo';
+      assertMethod(method);
+      const format = req.format ?? 'csv';
+      if (format !== 'csv' && format !== 'json') {
+        throw APIError.invalidArgument("Format must be csv or json");
+      }
+      const to = req.to ? new Date(req.to) : new Date();
+      const from = req.from ? new Date(req.from) : new Date(Date.UTC(to.getUTCFullYear(), 0, 1));
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+        throw APIError.invalidArgument("The report range must have from before to");
+      }
+
+      const { lots, realized } = matchLots(await loadHoldingEvents(req.userId), method);
+      const inRange = realized.filter(r => r.disposedAt >= from && r.disposedAt < to);
+      const filename = `gains-${req.userId}-${from.toISOString().slice(0, 10)}-${to.toISOString().slice(0, 10)}-${method}.${format}`;
+
+      if (format === 'csv') {
+        return { filename, contentType: 'text/csv', content: toGainsCsv(inRange) };
+      }
+
+      const report = {
+        userId: req.userId,
+        method,
+        from,
+        to,
+        generatedAt: new Date(),
+        summary: summarizeGains(inRange),
+        realized: inRange.map(row => ({
+          ...row,
+          proceeds: roundUsd(row.proceeds),
+          costBasis: roundUsd(row.costBasis),
+          gain: roundUsd(row.gain),
+        })),
+        holdings: await valueHoldings(lots),
+      };
+      return { filename, contentType: 'application/json', content: JSON.stringify(report, null, 2) };
+    });
+  }
+);
@@ -1,12 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   addLiquidity,
+  createPool,
+  executeSwap,
+  getSwapQuote,
+  MINIMUM_LIQUIDITY,
+  removeLiquidity,
   stakeLPTokens,
   unstakeLPTokens,
   claimRewards,
   getUserStakingPositions,
   getYieldFarms,
 } from '../amm';
+import { getPoolOraclePrice } from '../amm_oracle';
 import { blockchainDB } from '../db';
 import { createWallet, getUserBalances } from '../currency_exchange';
 
@@ -81,6 +87,13 @@ describe('AMM & Yield Farming API', () => {
     ).rejects.toThrow('Insufficient LP tokens');
   });
 
+  it('should reject stake and unstake amounts that are not integers', async () => {
+    await expect(stakeLPTokens({ userId: testUserId, farmId, amount: '0.5' }))
+      .rejects.toThrow('Stake amount must be a positive integer');
+    await expect(unstakeLPTokens({ userId: testUserId, stakingPositionId: 1, amount: '' }))
+      .rejects.toThrow('Unstake amount must be a positive integer');
+  });
+
   it('should allow a user to unstake their tokens', async () => {
     const lpPositions = await blockchainDB.queryRow<{ liquidity_tokens: string }>`
       SELECT liquidity_tokens FROM liquidity_positions WHERE user_id = ${testUserId} AND pool_id = ${poolId}
@@ -155,4 +168,209 @@ describe('AMM & Yield Farming API', () => {
     // Cleanup test farm
     await blockchainDB.exec`DELETE FROM yield_farming_pools WHERE id = ${farmWithLock.id}`;
   });
+
+  it('should allow a user to remove liquidity and receive both tokens', async () => {
+    const lpPosition = await blockchainDB.queryRow<{ liquidity_tokens: string }>`
+      SELECT liquidity_tokens FROM liquidity_positions WHERE user_id = ${testUserId} AND pool_id = ${poolId}
+    `;
+    const burnAmount = (BigInt(lpPosition!.liquidity_tokens) / 2n).toString();
+
+    const balancesBefore = await blockchainDB.queryAll<{ currency: string; balance: string }>`
+      SELECT currency, balance::text AS balance FROM user_balances WHERE user_id = ${testUserId}
+    `;
+
+    const response = await removeLiquidity({
+      userId: testUserId,
+      poolId,
+      liquidityTokens: burnAmount,
+    });
+
+    expect(response.liquidityTokensBurned).toBe(burnAmount);
+    expect(BigInt(response.amountA)).toBeGreaterThan(0n);
+    expect(BigInt(response.amountB)).toBeGreaterThan(0n);
+
+    const remaining = await blockchainDB.queryRow<{ liquidity_tokens: string }>`
+      SELECT liquidity_tokens FROM liquidity_positions WHERE user_id = ${testUserId} AND pool_id = ${poolId}
+    `;
+    expect(BigInt(remaining!.liquidity_tokens)).toBe(BigInt(lpPosition!.liquidity_tokens) - BigInt(burnAmount));
+
+    const balancesAfter = await blockchainDB.queryAll<{ currency: string; balance: string }>`
+      SELECT currency, balance::text AS balance FROM user_balances WHERE user_id = ${testUserId}
+    `;
+    const asmBefore = Number(balancesBefore.find(b => b.currency === 'ASM')!.balance);
+    const asmAfter = Number(balancesAfter.find(b => b.currency === 'ASM')!.balance);
+    expect(asmAfter).toBeGreaterThan(asmBefore);
+  });
+
+  it('should reject removal when the quoted amounts exceed slippage tolerance', async () => {
+    const lpPosition = await blockchainDB.queryRow<{ liquidity_tokens: string }>`
+      SELECT liquidity_tokens FROM liquidity_positions WHERE user_id = ${testUserId} AND pool_id = ${poolId}
+    `;
+
+    await expect(
+      removeLiquidity({
+        userId: testUserId,
+        poolId,
+        liquidityTokens: lpPosition!.liquidity_tokens,
+        slippageTolerance: 0.5,
+        expectedAmountA: '1000000000000000000000000000',
+        expectedAmountB: '0',
+      })
+    ).rejects.toThrow('Slippage tolerance exceeded');
+  });
+
+  it('should not accept a slippage tolerance without the quoted amounts it applies to', async () => {
+    const lpPosition = await blockchainDB.queryRow<{ liquidity_tokens: string }>`
+      SELECT liquidity_tokens FROM liquidity_positions WHERE user_id = ${testUserId} AND pool_id = ${poolId}
+    `;
+
+    await expect(
+      removeLiquidity({ userId: testUserId, poolId, liquidityTokens: lpPosition!.liquidity_tokens, slippageTolerance: 0.5 })
+    ).rejects.toThrow('A slippage tolerance needs expectedAmountA and expectedAmountB');
+  });
+
+  it('should not allow removing LP tokens that are staked', async () => {
+    const lpPosition = await blockchainDB.queryRow<{ liquidity_tokens: string }>`
+      SELECT liquidity_tokens FROM liquidity_positions WHERE user_id = ${testUserId} AND pool_id = ${poolId}
+    `;
+    const allTokens = lpPosition!.liquidity_tokens;
+
+    await stakeLPTokens({ userId: testUserId, farmId, amount: allTokens });
+
+    await expect(
+      removeLiquidity({ userId: testUserId, poolId, liquidityTokens: allTokens })
+    ).rejects.toThrow('LP tokens are staked');
+  });
+
+  it('should reject liquidity token amounts that are not integers', async () => {
+    await expect(
+      removeLiquidity({ userId: testUserId, poolId, liquidityTokens: '1.5' })
+    ).rejects.toThrow('Liquidity token amount must be a positive integer');
+  });
+});
+
+describe('Permissionless Pool Creation', () => {
+  const testUserId = 'test-user-pool-creation';
+
+  beforeEach(async () => {
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance)
+      VALUES (${testUserId}, 'TSTA', 10000000), (${testUserId}, 'TSTB', 10000000)
+      ON CONFLICT (user_id, currency) DO UPDATE SET balance = EXCLUDED.balance;
+    `;
+  });
+
+  afterEach(async () => {
+    const pools = await blockchainDB.queryAll<{ id: number; pool_address: string | null }>`
+      SELECT id, pool_address FROM liquidity_pools WHERE creator_id = ${testUserId}
+    `;
+    for (const pool of pools) {
+      await blockchainDB.exec`DELETE FROM liquidity_positions WHERE pool_id = ${pool.id}`;
+      await blockchainDB.exec`DELETE FROM pool_ticks WHERE pool_id = ${pool.id}`;
+      await blockchainDB.exec`DELETE FROM pool_price_observations WHERE pool_id = ${pool.id}`;
+      await blockchainDB.exec`DELETE FROM contracts WHERE contract_address = ${pool.pool_address}`;
+      await blockchainDB.exec`DELETE FROM liquidity_pools WHERE id = ${pool.id}`;
+    }
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id = ${testUserId}`;
+  });
+
+  it('should create a pool and lock the minimum liquidity', async () => {
+    const response = await createPool({
+      userId: testUserId,
+      tokenA: 'TSTA',
+      tokenB: 'TSTB',
+      amountA: '4000000',
+      amountB: '1000000',
+      feeRate: 0.0005,
+    });
+
+    expect(response.pool.feeRate).toBe(0.0005);
+    expect(response.pool.poolAddress).toMatch(/^0x[0-9a-f]{40}$/);
+    expect(response.pool.totalLiquidity).toBe('2000000');
+    expect(response.lockedLiquidity).toBe(MINIMUM_LIQUIDITY.toString());
+    expect(BigInt(response.liquidityTokens)).toBe(2000000n - MINIMUM_LIQUIDITY);
+
+    const contract = await blockchainDB.queryRow<{ contract_type: string }>`
+      SELECT contract_type FROM contracts WHERE contract_address = ${response.pool.poolAddress}
+    `;
+    expect(contract?.contract_type).toBe('amm_pool');
+  });
+
+  it('should reject a duplicate pair regardless of token order', async () => {
+    await createPool({ userId: testUserId, tokenA: 'TSTA', tokenB: 'TSTB', amountA: '1000000', amountB: '1000000' });
+
+    await expect(
+      createPool({ userId: testUserId, tokenA: 'TSTB', tokenB: 'TSTA', amountA: '1000000', amountB: '1000000' })
+    ).rejects.toThrow('A pool for this token pair already exists');
+  });
+
+  it('should create a stable pool that quotes near par', async () => {
+    const response = await createPool({
+      userId: testUserId,
+      tokenA: 'TSTA',
+      tokenB: 'TSTB',
+      amountA: '5000000',
+      amountB: '5000000',
+      feeRate: 0.0005,
+      curveType: 'stable',
+      amplification: 200,
+    });
+    expect(response.pool.curveType).toBe('stable');
+    expect(response.pool.amplification).toBe(200);
+
+    const quote = await getSwapQuote({ tokenIn: 'TSTA', tokenOut: 'TSTB', amountIn: '1000000' });
+    expect(quote.executionPrice).toBeGreaterThan(0.99);
+  });
+
+  it('should price stable pools on their curve in ticks and the oracle', async () => {
+    const { pool } = await createPool({
+      userId: testUserId,
+      tokenA: 'TSTA',
+      tokenB: 'TSTB',
+      amountA: '5000000',
+      amountB: '5000000',
+      feeRate: 0.0005,
+      curveType: 'stable',
+      amplification: 200,
+    });
+    await executeSwap({ userId: testUserId, tokenIn: 'TSTA', tokenOut: 'TSTB', amountIn: '2000000', minimumAmountOut: '0', slippageTolerance: 0.5 });
+
+    // The reserve ratio has fallen well below par, but the curve still prices near it
+    const reserves = await blockchainDB.queryRow<{ reserve_a: string; reserve_b: string }>`
+      SELECT reserve_a::text AS reserve_a, reserve_b::text AS reserve_b FROM liquidity_pools WHERE id = ${pool.id}
+    `;
+    expect(Number(reserves!.reserve_b) / Number(reserves!.reserve_a)).toBeLessThan(0.5);
+
+    const tick = await blockchainDB.queryRow<{ price: number }>`
+      SELECT price FROM pool_ticks WHERE pool_id = ${pool.id} ORDER BY id DESC LIMIT 1
+    `;
+    const twap = await getPoolOraclePrice({ poolId: pool.id, windowSeconds: 60 });
+    expect(tick!.price).toBeGreaterThan(0.9);
+    expect(twap.spotPriceA).toBeCloseTo(tick!.price, 9);
+    expect(twap.priceA).toBeGreaterThan(0.9);
+  });
+
+  it('should reject fee rates outside the supported tiers', async () => {
+    await expect(
+      createPool({ userId: testUserId, tokenA: 'TSTA', tokenB: 'TSTB', amountA: '1000000', amountB: '1000000', feeRate: 0.02 })
+    ).rejects.toThrow('Fee rate must be one of');
+
+    const balance = await blockchainDB.queryRow<{ balance: string }>`
+      SELECT balance::text AS balance FROM user_balances WHERE user_id = ${testUserId} AND currency = 'TSTA'
+    `;
+    expect(Number(balance!.balance)).toBe(10000000);
+  });
+
+  it('should reject quote amounts that are not integers', async () => {
+    await expect(getSwapQuote({ tokenIn: 'TSTA', tokenOut: 'TSTB', amountIn: '1.5' }))
+      .rejects.toThrow('Input amount must be a positive integer');
+    await expect(getSwapQuote({ tokenIn: 'TSTA', tokenOut: 'TSTB', amountOut: '-3' }))
+      .rejects.toThrow('Output amount must be a positive integer');
+  });
+
+  it('should reject initial amounts that are not integers', async () => {
+    await expect(
+      createPool({ userId: testUserId, tokenA: 'TSTA', tokenB: 'TSTB', amountA: '1e6', amountB: '1000000' })
+    ).rejects.toThrow('Initial amounts must be positive integers');
+  });
 });
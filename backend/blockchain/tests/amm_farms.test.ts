@@ -0,0 +1,232 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { claimRewards, createPool, getUserStakingPositions, stakeLPTokens, unstakeLPTokens } from '../amm';
+import { createYieldFarm, endYieldFarm, extendYieldFarm } from '../amm_farms';
+import { blockchainDB } from '../db';
+
+describe('Yield Farm Administration', () => {
+  const adminId = 'test-admin-farms';
+  const userId = 'test-user-farms';
+  let poolId: number;
+
+  const getBalance = async (user: string, currency: string) => {
+    const row = await blockchainDB.queryRow<{ balance: string }>`
+      SELECT balance::text AS balance FROM user_balances WHERE user_id = ${user} AND currency = ${currency}
+    `;
+    return Number(row?.balance ?? 0);
+  };
+
+  beforeEach(async () => {
+    await blockchainDB.exec`INSERT INTO admin_users (user_id) VALUES (${adminId}) ON CONFLICT DO NOTHING`;
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance)
+      VALUES (${adminId}, 'FRMR', 1000000), (${userId}, 'FRMA', 10000000), (${userId}, 'FRMB', 10000000),
+             (${userId}, 'FRMR', 0)
+      ON CONFLICT (user_id, currency) DO UPDATE SET balance = EXCLUDED.balance;
+    `;
+
+    const { pool } = await createPool({ userId, tokenA: 'FRMA', tokenB: 'FRMB', amountA: '1000000', amountB: '1000000' });
+    poolId = pool.id;
+  });
+
+  afterEach(async () => {
+    const pool = await blockchainDB.queryRow<{ pool_address: string }>`
+      SELECT pool_address FROM liquidity_pools WHERE id = ${poolId}
+    `;
+    await blockchainDB.exec`
+      DELETE FROM staking_positions WHERE farm_id IN (SELECT id FROM yield_farming_pools WHERE pool_id = ${poolId})
+    `;
+    await blockchainDB.exec`DELETE FROM yield_farming_pools WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM liquidity_positions WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_ticks WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_price_observations WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM contracts WHERE contract_address = ${pool?.pool_address}`;
+    await blockchainDB.exec`DELETE FROM liquidity_pools WHERE id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id IN (${adminId}, ${userId})`;
+    await blockchainDB.exec`DELETE FROM admin_users WHERE user_id = ${adminId}`;
+  });
+
+  const launchFarm = (rewardBudget: string) => createYieldFarm({
+    adminId,
+    poolId,
+    rewardToken: 'FRMR',
+    rewardRate: '1000',
+    endTime: new Date(Date.now() + 3600 * 1000),
+    rewardBudget,
+  });
+
+  it('should reject callers that are not admins', async () => {
+    await expect(
+      createYieldFarm({
+        adminId: userId,
+        poolId,
+        rewardToken: 'FRMR',
+        rewardRate: '1000',
+        endTime: new Date(Date.now() + 3600 * 1000),
+      })
+    ).rejects.toThrow('Admin privileges required');
+  });
+
+  it('should debit the budget from the admin and stop emitting once it is paid out', async () => {
+    const { farm } = await launchFarm('1500');
+    expect(await getBalance(adminId, 'FRMR')).toBe(1000000 - 1500);
+
+    await stakeLPTokens({ userId, farmId: farm.id, amount: '500000' });
+    // Long enough for the rate to exceed the budget
+    await new Promise(resolve => setTimeout(resolve, 2500));
+
+    const { positions } = await getUserStakingPositions({ userId });
+    const stakingPositionId = positions.find(p => p.farmId === farm.id)!.id;
+    const { claimedAmount } = await claimRewards({ userId, stakingPositionId });
+
+    expect(BigInt(claimedAmount)).toBeLessThanOrEqual(1500n);
+    expect(BigInt(claimedAmount)).toBeGreaterThan(1400n);
+
+    const updated = await blockchainDB.queryRow<{ is_active: boolean; rewards_emitted: string }>`
+      SELECT is_active, rewards_emitted::text AS rewards_emitted FROM yield_farming_pools WHERE id = ${farm.id}
+    `;
+    expect(updated!.rewards_emitted).toBe('1500');
+    expect(updated!.is_active).toBe(false);
+  });
+
+  it('should refund the unemitted budget when a farm is ended', async () => {
+    const { farm } = await launchFarm('100000');
+
+    const { farm: ended, refunded } = await endYieldFarm({ adminId, farmId: farm.id });
+
+    // Nothing was staked, so nothing was emitted
+    expect(refunded).toBe('100000');
+    expect(ended.isActive).toBe(false);
+    expect(ended.endedAt).toBeDefined();
+    expect(await getBalance(adminId, 'FRMR')).toBe(1000000);
+
+    await expect(
+      extendYieldFarm({ adminId, farmId: farm.id, endTime: new Date(Date.now() + 7200 * 1000) })
+    ).rejects.toThrow('Yield farm has ended');
+  });
+
+  it('should refund the budget to the admin who funded it, not the one ending the farm', async () => {
+    const otherAdminId = 'test-admin-farms-other';
+    await blockchainDB.exec`INSERT INTO admin_users (user_id) VALUES (${otherAdminId}) ON CONFLICT DO NOTHING`;
+    try {
+      const { farm } = await launchFarm('100000');
+      const { refunded } = await endYieldFarm({ adminId: otherAdminId, farmId: farm.id });
+
+      expect(refunded).toBe('100000');
+      expect(await getBalance(adminId, 'FRMR')).toBe(1000000);
+      expect(await getBalance(otherAdminId, 'FRMR')).toBe(0);
+    } finally {
+      await blockchainDB.exec`DELETE FROM user_balances WHERE user_id = ${otherAdminId}`;
+      await blockchainDB.exec`DELETE FROM admin_users WHERE user_id = ${otherAdminId}`;
+    }
+  });
+
+  it('should weight locked stakes by their boost and enforce the farm minimum lock', async () => {
+    const { farm } = await createYieldFarm({
+      adminId,
+      poolId,
+      rewardToken: 'FRMR',
+      rewardRate: '1000',
+      endTime: new Date(Date.now() + 3600 * 1000),
+      rewardBudget: '100000',
+      lockPeriodDays: 7,
+    });
+
+    await expect(
+      stakeLPTokens({ userId, farmId: farm.id, amount: '1000', lockDays: 3 })
+    ).rejects.toThrow('Lock duration must be between 7');
+
+    const { effectiveStake, lockedUntil } = await stakeLPTokens({ userId, farmId: farm.id, amount: '1000', lockDays: 90 });
+    expect(effectiveStake).toBe('1500');
+    expect(lockedUntil).toBeDefined();
+
+    const { positions } = await getUserStakingPositions({ userId });
+    const position = positions.find(p => p.farmId === farm.id)!;
+    expect(position.lockDays).toBe(90);
+    expect(position.boostMultiplier).toBe(1.5);
+
+    // The farm forbids early unstaking
+    await expect(
+      unstakeLPTokens({ userId, stakingPositionId: position.id, amount: '1000' })
+    ).rejects.toThrow('Stake is time-locked');
+  });
+
+  it('should boost a top-up by the time left on the lock, not the length it started at', async () => {
+    const { farm } = await launchFarm('100000');
+    await stakeLPTokens({ userId, farmId: farm.id, amount: '10', lockDays: 365 });
+
+    // The year-long lock is three days from ending when a large stake is added with a week's lock
+    await blockchainDB.exec`
+      UPDATE staking_positions SET locked_until = NOW() + INTERVAL '3 days' WHERE farm_id = ${farm.id}
+    `;
+    const { effectiveStake } = await stakeLPTokens({ userId, farmId: farm.id, amount: '10000', lockDays: 7 });
+    expect(effectiveStake).toBe('11011');
+
+    const { positions } = await getUserStakingPositions({ userId });
+    const position = positions.find(p => p.farmId === farm.id)!;
+    expect(position).toMatchObject({ lockDays: 7, boostMultiplier: 1.1 });
+
+    // A top-up without a new lock earns the tier of the time left, here just under 40 days
+    await blockchainDB.exec`
+      UPDATE staking_positions SET locked_until = NOW() + INTERVAL '40 days' WHERE farm_id = ${farm.id}
+    `;
+    const topUp = await stakeLPTokens({ userId, farmId: farm.id, amount: '10', lockDays: 0 });
+    expect(topUp.effectiveStake).toBe('12525');
+  });
+
+  it('should stop boosting a lock when it lapses, without the position being touched', async () => {
+    const { farm } = await launchFarm('100000');
+    await stakeLPTokens({ userId, farmId: farm.id, amount: '1000', lockDays: 90 });
+
+    // Emissions started 20 seconds ago and the lock lapsed halfway through
+    await blockchainDB.exec`
+      UPDATE yield_farming_pools
+      SET start_time = NOW() - INTERVAL '20 seconds', last_reward_time = NOW() - INTERVAL '20 seconds'
+      WHERE id = ${farm.id}
+    `;
+    await blockchainDB.exec`
+      UPDATE staking_positions SET locked_until = NOW() - INTERVAL '10 seconds' WHERE farm_id = ${farm.id}
+    `;
+
+    await extendYieldFarm({ adminId, farmId: farm.id, endTime: new Date(Date.now() + 7200 * 1000) });
+
+    const farmRow = await blockchainDB.queryRow<{ total_effective_stake: string }>`
+      SELECT total_effective_stake::text AS total_effective_stake FROM yield_farming_pools WHERE id = ${farm.id}
+    `;
+    expect(farmRow!.total_effective_stake).toBe('1000');
+
+    const { positions } = await getUserStakingPositions({ userId });
+    const position = positions.find(p => p.farmId === farm.id)!;
+    expect(position).toMatchObject({ effectiveStake: '1000', boostMultiplier: 1 });
+
+    // The sole staker still earns every emitted reward, boosted or not
+    const { claimedAmount } = await claimRewards({ userId, stakingPositionId: position.id });
+    expect(BigInt(claimedAmount)).toBeGreaterThan(19000n);
+    expect(BigInt(claimedAmount)).toBeLessThanOrEqual(21000n);
+  });
+
+  it('should forfeit the early unstake penalty when leaving a lock early', async () => {
+    const { farm } = await createYieldFarm({
+      adminId,
+      poolId,
+      rewardToken: 'FRMR',
+      rewardRate: '1000',
+      endTime: new Date(Date.now() + 3600 * 1000),
+      rewardBudget: '100000',
+      earlyUnstakePenaltyBps: 1000,
+    });
+
+    await stakeLPTokens({ userId, farmId: farm.id, amount: '10000', lockDays: 30 });
+    const { positions } = await getUserStakingPositions({ userId });
+    const position = positions.find(p => p.farmId === farm.id)!;
+
+    const { penalty } = await unstakeLPTokens({ userId, stakingPositionId: position.id, amount: '10000' });
+    expect(penalty).toBe('1000');
+
+    const farmRow = await blockchainDB.queryRow<{ total_staked: string; total_effective_stake: string }>`
+      SELECT total_staked::text AS total_staked, total_effective_stake::text AS total_effective_stake
+      FROM yield_farming_pools WHERE id = ${farm.id}
+    `;
+    expect(farmRow!.total_staked).toBe('0');
+    expect(farmRow!.total_effective_stake).toBe('0');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createPool, executeFlashLoan } from '../amm';
+import { blockchainDB } from '../db';
+
+describe('Flash Loan Actions', () => {
+  const userId = 'test-user-flash-loan';
+  let poolId: number;
+
+  const getBalance = async (currency: string) => {
+    const row = await blockchainDB.queryRow<{ balance: string }>`
+      SELECT balance::text AS balance FROM user_balances WHERE user_id = ${userId} AND currency = ${currency}
+    `;
+    return Number(row?.balance ?? 0);
+  };
+
+  const getReserves = async () => {
+    return blockchainDB.queryRow<{ reserve_a: string; reserve_b: string }>`
+      SELECT reserve_a::text AS reserve_a, reserve_b::text AS reserve_b FROM liquidity_pools WHERE id = ${poolId}
+    `;
+  };
+
+  beforeEach(async () => {
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance)
+      VALUES (${userId}, 'FLSH', 10000000), (${userId}, 'USD', 10000000)
+      ON CONFLICT (user_id, currency) DO UPDATE SET balance = EXCLUDED.balance;
+    `;
+
+    const { pool } = await createPool({
+      userId,
+      tokenA: 'FLSH',
+      tokenB: 'USD',
+      amountA: '1000000',
+      amountB: '1000000',
+    });
+    poolId = pool.id;
+  });
+
+  afterEach(async () => {
+    const pool = await blockchainDB.queryRow<{ pool_address: string }>`
+      SELECT pool_address FROM liquidity_pools WHERE id = ${poolId}
+    `;
+    await blockchainDB.exec`DELETE FROM flash_loans WHERE user_id = ${userId}`;
+    await blockchainDB.exec`DELETE FROM flash_loan_locks WHERE user_id = ${userId}`;
+    await blockchainDB.exec`DELETE FROM liquidity_positions WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_ticks WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_price_observations WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM contracts WHERE contract_address = ${pool?.pool_address}`;
+    await blockchainDB.exec`DELETE FROM liquidity_pools WHERE id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ${userId}`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id = ${userId}`;
+  });
+
+  it('should return a revert reason and leave state untouched on a failing dry run', async () => {
+    const reservesBefore = await getReserves();
+    const balanceBefore = await getBalance('FLSH');
+
+    const result = await executeFlashLoan({
+      userId,
+      loanToken: 'FLSH',
+      loanAmount: '10000',
+      dryRun: true,
+      payload: [
+        { type: 'swap', tokenIn: 'FLSH', tokenOut: 'USD', amountIn: '10000', route: ['FLSH', 'USD'] },
+        { type: 'repay_swap', tokenIn: 'USD' },
+      ],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.dryRun).toBe(true);
+    expect(result.txHash).toBeUndefined();
+    expect(result.revertReason).toContain('USD');
+    expect(result.trace.map(step => step.action)).toEqual(['borrow', 'swap']);
+    expect(BigInt(result.trace[1].balances.USD)).toBeGreaterThan(0n);
+
+    expect(await getReserves()).toEqual(reservesBefore);
+    expect(await getBalance('FLSH')).toBe(balanceBefore);
+  });
+
+  it('should reject amounts that are not integers before running the loan', async () => {
+    await expect(
+      executeFlashLoan({ userId, loanToken: 'FLSH', loanAmount: '1.5', payload: [{ type: 'repay_swap', tokenIn: 'USD' }] })
+    ).rejects.toThrow('Flash loan amount must be a positive integer');
+    await expect(
+      executeFlashLoan({
+        userId,
+        loanToken: 'FLSH',
+        loanAmount: '10000',
+        dryRun: true,
+        payload: [{ type: 'swap', tokenIn: 'FLSH', tokenOut: 'USD', amountIn: 'abc' }],
+      })
+    ).rejects.toThrow('swap amountIn must be a positive integer');
+  });
+
+  it('should repay from withdrawn liquidity and settle the remainder to the user', async () => {
+    const balanceBefore = await getBalance('USD');
+
+    const result = await executeFlashLoan({
+      userId,
+      loanToken: 'FLSH',
+      loanAmount: '10000',
+      payload: [
+        { type: 'remove_liquidity', poolId, liquidityTokens: '20000' },
+      ],
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.txHash).toBeDefined();
+    expect(result.trace.map(step => step.action)).toEqual(['borrow', 'remove_liquidity', 'repay']);
+    // 20000 LP tokens withdraw 20000 FLSH; 10005 of it repays the loan and fee
+    expect(result.profit).toBe('9995');
+    expect(await getBalance('USD')).toBe(balanceBefore + 20000);
+  });
+
+  it('should trade exchange legs against the desk rather than the pools', async () => {
+    const result = await executeFlashLoan({
+      userId,
+      loanToken: 'FLSH',
+      loanAmount: '10000',
+      payload: [
+        { type: 'remove_liquidity', poolId, liquidityTokens: '20000' },
+        { type: 'exchange_buy', amountIn: '100' },
+      ],
+    });
+    expect(result.success).toBe(true);
+
+    const trade = await blockchainDB.queryRow<{ id: number; to_amount: string; status: string }>`
+      SELECT id, to_amount::bigint::text AS to_amount, status FROM currency_transactions
+      WHERE user_id = ${userId} AND transaction_type = 'buy'
+    `;
+    expect(trade!.status).toBe('completed');
+
+    // The pools pay the desk 100 USD and take the ASM it sells; the user is only paid at settlement
+    const lines = await blockchainDB.queryAll<{ account: string; currency: string; amount: string }>`
+      SELECT l.account, l.currency, SUM(l.amount)::bigint::text AS amount
+      FROM ledger_lines l
+      JOIN ledger_entries e ON e.id = l.entry_id
+      WHERE e.reference = ${`currency_transaction:${trade!.id}`} AND l.account_type = 'system' AND l.account = 'amm_pools'
+      GROUP BY l.account, l.currency
+      ORDER BY l.currency
+    `;
+    expect(lines).toEqual([
+      { account: 'amm_pools', currency: 'ASM', amount: trade!.to_amount },
+      { account: 'amm_pools', currency: 'USD', amount: '-100' },
+    ]);
+    expect(await getBalance('ASM')).toBe(Number(trade!.to_amount));
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { getPoolCandles } from '../amm_history';
+import { executeSwap } from '../amm';
+import { blockchainDB } from '../db';
+
+describe('AMM Price History', () => {
+  const testUserId = 'test-user-amm-history';
+  let poolId: number;
+
+  beforeEach(async () => {
+    const pool = await blockchainDB.queryRow<{ id: number }>`
+      SELECT id FROM liquidity_pools WHERE token_a = 'ASM' AND token_b = 'USD'
+    `;
+    poolId = pool!.id;
+
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance)
+      VALUES (${testUserId}, 'ASM', 10000000000), (${testUserId}, 'USD', 0)
+      ON CONFLICT (user_id, currency) DO UPDATE SET balance = EXCLUDED.balance;
+    `;
+  });
+
+  afterEach(async () => {
+    await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ${testUserId}`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id = ${testUserId}`;
+  });
+
+  it('should record swaps as candle volume and 24h stats', async () => {
+    const before = await getPoolCandles({ poolId, interval: '1m' });
+
+    await executeSwap({
+      userId: testUserId,
+      tokenIn: 'ASM',
+      tokenOut: 'USD',
+      amountIn: '1000000000',
+      minimumAmountOut: '0',
+      slippageTolerance: 0.5,
+    });
+
+    const after = await getPoolCandles({ poolId, interval: '1m' });
+    expect(after.candles.length).toBeGreaterThan(0);
+    expect(after.stats24h.trades).toBe(before.stats24h.trades + 1);
+    expect(BigInt(after.stats24h.volumeA)).toBe(BigInt(before.stats24h.volumeA) + 1000000000n);
+    expect(BigInt(after.stats24h.feesA)).toBeGreaterThan(BigInt(before.stats24h.feesA));
+
+    const latest = after.candles[after.candles.length - 1];
+    expect(latest.low).toBeLessThanOrEqual(latest.close);
+    expect(latest.high).toBeGreaterThanOrEqual(latest.close);
+  });
+
+  it('should report TVL from the current reserves', async () => {
+    const response = await getPoolCandles({ poolId });
+    const pool = await blockchainDB.queryRow<{ reserve_b: string }>`
+      SELECT reserve_b::text FROM liquidity_pools WHERE id = ${poolId}
+    `;
+
+    expect(response.interval).toBe('1h');
+    expect(response.stats24h.tvlInTokenB).toBe((BigInt(pool!.reserve_b) * 2n).toString());
+  });
+
+  it('should reject an unsupported interval', async () => {
+    await expect(
+      getPoolCandles({ poolId, interval: '2h' as any })
+    ).rejects.toThrow('Interval must be one of');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect } from 'vitest';
+import {
+  effectiveStake,
+  getAmountIn,
+  getAmountOut,
+  lockBoostBps,
+  orientReserves,
+  quoteExactIn,
+  quoteExactOut,
+  stableInvariant,
+  stableSwapCurve,
+  PoolReserves,
+} from '../amm_math';
+
+describe('AMM Math', () => {
+  const pool: PoolReserves = {
+    token_a: 'ASM',
+    token_b: 'USD',
+    reserve_a: '1000000000000000000000',
+    reserve_b: '4000000000000000000000',
+    fee_rate: 0.003,
+  };
+
+  it('should orient reserves by the input token in both directions', () => {
+    const forward = orientReserves(pool, 'ASM');
+    const backward = orientReserves(pool, 'USD');
+
+    expect(forward.reserveIn).toBe(BigInt(pool.reserve_a));
+    expect(forward.tokenOut).toBe('USD');
+    expect(backward.reserveIn).toBe(BigInt(pool.reserve_b));
+    expect(backward.tokenOut).toBe('ASM');
+    expect(() => orientReserves(pool, 'ETH')).toThrow();
+  });
+
+  it('should report spot price as tokenOut per tokenIn', () => {
+    expect(quoteExactIn(pool, 'ASM', 1000n).spotPrice).toBeCloseTo(4);
+    expect(quoteExactIn(pool, 'USD', 1000n).spotPrice).toBeCloseTo(0.25);
+  });
+
+  it('should measure price impact as the gap between spot and execution price', () => {
+    // Selling 10% of the input reserve moves the post-fee price by amountIn / (reserveIn + amountIn)
+    const amountIn = 100000000000000000000n;
+    const quote = quoteExactIn(pool, 'ASM', amountIn);
+    const afterFee = amountIn * 9970n / 10000n;
+    const expected = Number(afterFee) / (1000e18 + Number(afterFee)) * 100;
+
+    expect(quote.priceImpact).toBeCloseTo(expected, 6);
+    expect(quote.executionPrice).toBeLessThan(quote.spotPrice);
+    expect(quote.fee).toBe(amountIn - afterFee);
+  });
+
+  it('should report the same price impact for an equivalent trade in either direction', () => {
+    const asmQuote = quoteExactIn(pool, 'ASM', 10000000000000000000n);
+    const usdQuote = quoteExactIn(pool, 'USD', 40000000000000000000n);
+
+    expect(asmQuote.priceImpact).toBeCloseTo(usdQuote.priceImpact, 6);
+  });
+
+  it('should return the smallest input that buys an exact output', () => {
+    const reserveIn = BigInt(pool.reserve_a);
+    const reserveOut = BigInt(pool.reserve_b);
+    const amountOut = 123456789000000000000n;
+    const amountIn = getAmountIn(amountOut, reserveIn, reserveOut, 30n)!;
+
+    expect(getAmountOut(amountIn, reserveIn, reserveOut, 30n)).toBeGreaterThanOrEqual(amountOut);
+    expect(getAmountOut(amountIn - 1n, reserveIn, reserveOut, 30n)).toBeLessThan(amountOut);
+  });
+
+  it('should reject exact-output quotes the pool cannot fill', () => {
+    expect(quoteExactOut(pool, 'ASM', BigInt(pool.reserve_b))).toBeNull();
+    expect(quoteExactOut(pool, 'ASM', 1000000000000000000n)!.amountOut).toBeGreaterThanOrEqual(1000000000000000000n);
+  });
+});
+
+describe('StableSwap Curve', () => {
+  const stablePool: PoolReserves = {
+    token_a: 'ASM',
+    token_b: 'WASM',
+    reserve_a: '1000000000000000000000',
+    reserve_b: '1000000000000000000000',
+    fee_rate: 0.0005,
+    curve_type: 'stable',
+    amplification: 100,
+  };
+  const constantProductPool: PoolReserves = { ...stablePool, curve_type: 'constant_product', amplification: null };
+
+  it('should price a balanced pool at par with far less impact than constant product', () => {
+    const amountIn = 100000000000000000000n;
+    const stable = quoteExactIn(stablePool, 'ASM', amountIn);
+    const constantProduct = quoteExactIn(constantProductPool, 'ASM', amountIn);
+
+    expect(stable.spotPrice).toBeCloseTo(1, 9);
+    expect(stable.executionPrice).toBeGreaterThan(0.99);
+    expect(stable.priceImpact).toBeLessThan(constantProduct.priceImpact / 10);
+  });
+
+  it('should never decrease the invariant across a swap', () => {
+    const reserveIn = BigInt(stablePool.reserve_a);
+    const reserveOut = BigInt(stablePool.reserve_b);
+    const amountIn = 250000000000000000000n;
+    const { amountOut } = quoteExactIn(stablePool, 'ASM', amountIn);
+
+    const before = stableInvariant(reserveIn, reserveOut, 100n);
+    const after = stableInvariant(reserveIn + amountIn, reserveOut - amountOut, 100n);
+    expect(after).toBeGreaterThanOrEqual(before);
+  });
+
+  it('should fall back towards constant product pricing as the pool becomes imbalanced', () => {
+    const curve = stableSwapCurve(100);
+    const balanced = curve.spotPrice(1000n * 10n ** 18n, 1000n * 10n ** 18n);
+    const imbalanced = curve.spotPrice(1900n * 10n ** 18n, 100n * 10n ** 18n);
+
+    expect(imbalanced).toBeLessThan(balanced);
+    expect(imbalanced).toBeGreaterThan(100 / 1900);
+  });
+
+  it('should quote exact outputs that are always filled', () => {
+    const amountOut = 500000000000000000000n;
+    const quote = quoteExactOut(stablePool, 'WASM', amountOut)!;
+
+    expect(quote.amountOut).toBeGreaterThanOrEqual(amountOut);
+    expect(quoteExactIn(stablePool, 'WASM', quote.amountIn - 2n).amountOut).toBeLessThan(amountOut);
+    expect(quoteExactOut(stablePool, 'WASM', BigInt(stablePool.reserve_a))).toBeNull();
+  });
+
+  it('should mint fewer LP tokens for a one-sided deposit than for a balanced one', () => {
+    const curve = stableSwapCurve(100);
+    const reserve = 1000000000000000000000n;
+    const supply = stableInvariant(reserve, reserve, 100n);
+
+    const balanced = curve.liquidityToMint(50n * 10n ** 18n, 50n * 10n ** 18n, reserve, reserve, supply, 5n);
+    const oneSided = curve.liquidityToMint(100n * 10n ** 18n, 0n, reserve, reserve, supply, 5n);
+
+    expect(balanced).toBe(supply / 20n);
+    expect(oneSided).toBeLessThan(balanced);
+    expect(oneSided).toBeGreaterThan(0n);
+  });
+
+  it('should boost stakes by the highest lock tier reached', () => {
+    expect(lockBoostBps(0)).toBe(10000);
+    expect(lockBoostBps(29)).toBe(11000);
+    expect(lockBoostBps(30)).toBe(12500);
+    expect(lockBoostBps(365)).toBe(20000);
+
+    expect(effectiveStake(1000n, 0)).toBe(1000n);
+    expect(effectiveStake(1000n, 90)).toBe(1500n);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { getPoolOraclePrice, readPairTWAP } from '../amm_oracle';
+import { blockchainDB } from '../db';
+
+describe('AMM TWAP Oracle', () => {
+  const getPoolId = async () => {
+    const pool = await blockchainDB.queryRow<{ id: number }>`
+      SELECT id FROM liquidity_pools WHERE token_a = 'ASM' AND token_b = 'USD'
+    `;
+    return pool!.id;
+  };
+
+  it('should return a positive time-weighted price for both directions', async () => {
+    const twap = await getPoolOraclePrice({ poolId: await getPoolId(), windowSeconds: 600 });
+
+    expect(twap.tokenA).toBe('ASM');
+    expect(twap.tokenB).toBe('USD');
+    expect(twap.priceA).toBeGreaterThan(0);
+    expect(twap.priceB).toBeGreaterThan(0);
+    expect(twap.windowSeconds).toBeLessThanOrEqual(600);
+  });
+
+  it('should quote a pair in either orientation', async () => {
+    const asmInUsd = await readPairTWAP('ASM', 'USD', 600);
+    const usdInAsm = await readPairTWAP('USD', 'ASM', 600);
+
+    expect(asmInUsd).toBeGreaterThan(0);
+    expect(usdInAsm).toBeGreaterThan(asmInUsd!);
+  });
+
+  it('should return null for a pair without a pool', async () => {
+    expect(await readPairTWAP('ASM', 'DOGE')).toBeNull();
+  });
+
+  it('should reject invalid windows', async () => {
+    await expect(
+      getPoolOraclePrice({ poolId: await getPoolId(), windowSeconds: 0 })
+    ).rejects.toThrow('windowSeconds must be between');
+  });
+
+  it('should reject unknown pools', async () => {
+    await expect(getPoolOraclePrice({ poolId: 999999 })).rejects.toThrow('Liquidity pool not found');
+  });
+});
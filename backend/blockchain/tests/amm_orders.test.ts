@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createAMMOrder, cancelAMMOrder, listAMMOrders, matchPoolOrders } from '../amm_orders';
+import { blockchainDB } from '../db';
+
+describe('AMM Limit & Stop Orders', () => {
+  const testUserId = 'test-user-amm-orders';
+
+  const getBalance = async (currency: string) => {
+    return blockchainDB.queryRow<{ balance: string; locked_balance: string }>`
+      SELECT balance::text, locked_balance::text FROM user_balances
+      WHERE user_id = ${testUserId} AND currency = ${currency}
+    `;
+  };
+
+  beforeEach(async () => {
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance, locked_balance)
+      VALUES (${testUserId}, 'ASM', 10000000000, 0), (${testUserId}, 'USD', 0, 0)
+      ON CONFLICT (user_id, currency) DO UPDATE SET balance = EXCLUDED.balance, locked_balance = 0;
+    `;
+  });
+
+  afterEach(async () => {
+    await blockchainDB.exec`DELETE FROM amm_orders WHERE user_id = ${testUserId}`;
+    await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ${testUserId}`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id = ${testUserId}`;
+  });
+
+  it('should lock the input amount while an order is open', async () => {
+    const { order } = await createAMMOrder({
+      userId: testUserId,
+      orderType: 'limit',
+      tokenIn: 'ASM',
+      tokenOut: 'USD',
+      amountIn: '1000000000',
+      triggerPrice: 1, // Far above the pool price, so it stays open
+    });
+
+    expect(order.status).toBe('open');
+    const balance = await getBalance('ASM');
+    expect(Number(balance!.balance)).toBe(9000000000);
+    expect(Number(balance!.locked_balance)).toBe(1000000000);
+  });
+
+  it('should release locked funds when an order is cancelled', async () => {
+    const { order } = await createAMMOrder({
+      userId: testUserId,
+      orderType: 'limit',
+      tokenIn: 'ASM',
+      tokenOut: 'USD',
+      amountIn: '1000000000',
+      triggerPrice: 1,
+    });
+
+    const { order: cancelled } = await cancelAMMOrder({ orderId: order.id, userId: testUserId });
+    expect(cancelled.status).toBe('cancelled');
+
+    const balance = await getBalance('ASM');
+    expect(Number(balance!.balance)).toBe(10000000000);
+    expect(Number(balance!.locked_balance)).toBe(0);
+
+    await expect(
+      cancelAMMOrder({ orderId: order.id, userId: testUserId })
+    ).rejects.toThrow('Order is already cancelled');
+  });
+
+  it('should reject orders larger than the available balance', async () => {
+    await expect(
+      createAMMOrder({
+        userId: testUserId,
+        orderType: 'stop',
+        tokenIn: 'ASM',
+        tokenOut: 'USD',
+        amountIn: '20000000000',
+        triggerPrice: 0.00001,
+      })
+    ).rejects.toThrow('Insufficient ASM balance');
+  });
+
+  it('should fill a limit order once the pool price crosses it', async () => {
+    const { order } = await createAMMOrder({
+      userId: testUserId,
+      orderType: 'limit',
+      tokenIn: 'ASM',
+      tokenOut: 'USD',
+      amountIn: '1000000000',
+      triggerPrice: 0.000001, // Below the seeded ASM/USD price, so it is immediately fillable
+    });
+
+    await matchPoolOrders(order.poolId);
+
+    const { orders } = await listAMMOrders({ userId: testUserId, status: 'filled' });
+    expect(orders.length).toBe(1);
+    expect(orders[0].id).toBe(order.id);
+    expect(BigInt(orders[0].amountOut!)).toBeGreaterThan(0n);
+
+    const asm = await getBalance('ASM');
+    const usd = await getBalance('USD');
+    expect(Number(asm!.locked_balance)).toBe(0);
+    expect(Number(usd!.balance)).toBeGreaterThan(0);
+  });
+});
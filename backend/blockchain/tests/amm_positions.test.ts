@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createPool, executeSwap, removeLiquidity } from '../amm';
+import { getLiquidityPositionPnL } from '../amm_positions';
+import { blockchainDB } from '../db';
+
+describe('LP PnL Reporting', () => {
+  const lpUserId = 'test-user-lp-pnl';
+  const traderId = 'test-user-lp-pnl-trader';
+  let poolId: number;
+
+  beforeEach(async () => {
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance)
+      VALUES (${lpUserId}, 'PNLA', 10000000), (${lpUserId}, 'PNLB', 10000000),
+             (${traderId}, 'PNLA', 10000000), (${traderId}, 'PNLB', 0)
+      ON CONFLICT (user_id, currency) DO UPDATE SET balance = EXCLUDED.balance;
+    `;
+
+    const { pool } = await createPool({
+      userId: lpUserId,
+      tokenA: 'PNLA',
+      tokenB: 'PNLB',
+      amountA: '1000000',
+      amountB: '1000000',
+      feeRate: 0.01,
+    });
+    poolId = pool.id;
+  });
+
+  afterEach(async () => {
+    const pool = await blockchainDB.queryRow<{ pool_address: string }>`
+      SELECT pool_address FROM liquidity_pools WHERE id = ${poolId}
+    `;
+    await blockchainDB.exec`DELETE FROM liquidity_positions WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_ticks WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_price_observations WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM contracts WHERE contract_address = ${pool?.pool_address}`;
+    await blockchainDB.exec`DELETE FROM liquidity_pools WHERE id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id IN (${lpUserId}, ${traderId})`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id IN (${lpUserId}, ${traderId})`;
+  });
+
+  const getPosition = async () => {
+    const { positions } = await getLiquidityPositionPnL({ userId: lpUserId });
+    return positions.find(p => p.poolId === poolId)!;
+  };
+
+  it('should value a fresh position at its deposit with no impermanent loss', async () => {
+    const position = await getPosition();
+
+    expect(position.depositedAmountA).toBe('1000000');
+    expect(position.depositedAmountB).toBe('1000000');
+    expect(BigInt(position.feesEarnedA)).toBe(0n);
+    // Only the locked minimum liquidity separates the position from its deposit
+    expect(BigInt(position.hodlValue) - BigInt(position.positionValue)).toBeLessThanOrEqual(2000n);
+  });
+
+  it('should report fees earned and impermanent loss after the price moves', async () => {
+    await executeSwap({
+      userId: traderId,
+      tokenIn: 'PNLA',
+      tokenOut: 'PNLB',
+      amountIn: '500000',
+      minimumAmountOut: '0',
+      slippageTolerance: 50,
+      route: ['PNLA', 'PNLB'],
+    });
+
+    const position = await getPosition();
+
+    // 1% of the input, less the share owed to the locked minimum liquidity
+    expect(BigInt(position.feesEarnedA)).toBeGreaterThan(4900n);
+    expect(BigInt(position.feesEarnedB)).toBe(0n);
+    expect(BigInt(position.impermanentLoss)).toBeLessThan(0n);
+    expect(position.impermanentLossPercent).toBeLessThan(-1);
+  });
+
+  it('should scale the cost basis down when liquidity is withdrawn', async () => {
+    const before = await getPosition();
+    const burn = (BigInt(before.liquidityTokens) / 2n).toString();
+
+    await removeLiquidity({ userId: lpUserId, poolId, liquidityTokens: burn });
+
+    const after = await getPosition();
+    expect(Number(after.depositedAmountA)).toBeCloseTo(Number(before.depositedAmountA) / 2, -1);
+    expect(Number(after.depositedAmountB)).toBeCloseTo(Number(before.depositedAmountB) / 2, -1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { findBestRoute, findBestRouteExactOut, quotePath, RoutablePool } from '../amm_router';
+
+describe('AMM Router', () => {
+  const pools: RoutablePool[] = [
+    { id: 1, token_a: 'ASM', token_b: 'USD', reserve_a: '1000000000000000000000000', reserve_b: '12500000000000000000', fee_rate: 0.003 },
+    { id: 2, token_a: 'ASM', token_b: 'ETH', reserve_a: '1000000000000000000000000', reserve_b: '5000000000000000', fee_rate: 0.003 },
+    { id: 3, token_a: 'USD', token_b: 'ETH', reserve_a: '2500000000000000000', reserve_b: '1000000000000000', fee_rate: 0.003 },
+    { id: 4, token_a: 'ETH', token_b: 'BTC', reserve_a: '1000000000000000000', reserve_b: '50000000000000000', fee_rate: 0.003 },
+  ];
+
+  it('should route a pair with no direct pool through an intermediate token', () => {
+    const route = findBestRoute(pools, 'ASM', 'BTC', 1000000000000000000000n);
+
+    expect(route).not.toBeNull();
+    expect(route!.route[0]).toBe('ASM');
+    expect(route!.route[route!.route.length - 1]).toBe('BTC');
+    expect(route!.hops.length).toBeGreaterThan(1);
+    expect(route!.amountOut).toBeGreaterThan(0n);
+  });
+
+  it('should chain hop amounts so each hop spends the previous output', () => {
+    const route = findBestRoute(pools, 'USD', 'BTC', 100000000000000000n)!;
+
+    for (let i = 1; i < route.hops.length; i++) {
+      expect(route.hops[i].amountIn).toBe(route.hops[i - 1].amountOut);
+      expect(route.hops[i].tokenIn).toBe(route.hops[i - 1].tokenOut);
+    }
+    expect(route.hops[route.hops.length - 1].amountOut).toBe(route.amountOut.toString());
+  });
+
+  it('should return null when no path exists within maxHops', () => {
+    expect(findBestRoute(pools, 'ASM', 'BTC', 1000n, 1)).toBeNull();
+  });
+
+  it('should only use the requested token path when one is given', () => {
+    const route = findBestRoute(pools, 'ASM', 'ETH', 1000000000000000000000n, 3, ['ASM', 'USD', 'ETH'])!;
+
+    expect(route.route).toEqual(['ASM', 'USD', 'ETH']);
+    expect(route.hops.map(h => h.poolId)).toEqual([1, 3]);
+  });
+
+  it('should reject a token path that does not match the swap tokens', () => {
+    expect(() => findBestRoute(pools, 'ASM', 'ETH', 1000n, 3, ['USD', 'ETH'])).toThrow();
+  });
+
+  it('should orient reserves by the input token', () => {
+    const forward = quotePath([pools[0]], 'USD', 1000000000000000n);
+    const backward = quotePath([pools[0]], 'ASM', 1000000000000000n);
+
+    expect(forward.route).toEqual(['USD', 'ASM']);
+    expect(backward.route).toEqual(['ASM', 'USD']);
+    // USD is scarce in this pool, so selling USD must yield far more ASM than the reverse
+    expect(forward.amountOut).toBeGreaterThan(backward.amountOut);
+  });
+
+  it('should find the cheapest route for an exact output across hops', () => {
+    const amountOut = 10000000000000n;
+    const route = findBestRouteExactOut(pools, 'ASM', 'BTC', amountOut)!;
+
+    expect(route.route[0]).toBe('ASM');
+    expect(route.route[route.route.length - 1]).toBe('BTC');
+    expect(route.amountOut).toBeGreaterThanOrEqual(amountOut);
+    expect(findBestRoute(pools, 'ASM', 'BTC', route.amountIn)!.amountOut).toBeGreaterThanOrEqual(amountOut);
+  });
+});
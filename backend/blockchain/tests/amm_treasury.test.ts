@@ -0,0 +1,83 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createPool, executeSwap } from '../amm';
+import { getTreasuryBalances, setPoolProtocolFee, withdrawFromTreasury } from '../amm_treasury';
+import { blockchainDB } from '../db';
+
+describe('Protocol Treasury', () => {
+  const adminId = 'test-admin-treasury';
+  const userId = 'test-user-treasury';
+  let poolId: number;
+
+  const getTreasuryBalance = async (token: string) => {
+    const { balances } = await getTreasuryBalances();
+    return balances.find(b => b.token === token)?.balance ?? '0';
+  };
+
+  const getJournalTreasuryBalance = async (token: string) => {
+    const row = await blockchainDB.queryRow<{ balance: string }>`
+      SELECT COALESCE(SUM(amount), 0)::bigint::text AS balance FROM ledger_lines
+      WHERE account_type = 'system' AND account = 'treasury' AND currency = ${token}
+    `;
+    return BigInt(row!.balance);
+  };
+
+  beforeEach(async () => {
+    await blockchainDB.exec`INSERT INTO admin_users (user_id) VALUES (${adminId}) ON CONFLICT DO NOTHING`;
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance)
+      VALUES (${userId}, 'TRSA', 10000000), (${userId}, 'TRSB', 10000000)
+      ON CONFLICT (user_id, currency) DO UPDATE SET balance = EXCLUDED.balance;
+    `;
+
+    const { pool } = await createPool({ userId, tokenA: 'TRSA', tokenB: 'TRSB', amountA: '1000000', amountB: '1000000' });
+    poolId = pool.id;
+  });
+
+  afterEach(async () => {
+    const pool = await blockchainDB.queryRow<{ pool_address: string }>`
+      SELECT pool_address FROM liquidity_pools WHERE id = ${poolId}
+    `;
+    await blockchainDB.exec`DELETE FROM treasury_ledger WHERE token IN ('TRSA', 'TRSB')`;
+    await blockchainDB.exec`DELETE FROM treasury_balances WHERE token IN ('TRSA', 'TRSB')`;
+    await blockchainDB.exec`DELETE FROM liquidity_positions WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_ticks WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_price_observations WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM contracts WHERE contract_address = ${pool?.pool_address}`;
+    await blockchainDB.exec`DELETE FROM liquidity_pools WHERE id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ${userId}`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id IN (${adminId}, ${userId})`;
+    await blockchainDB.exec`DELETE FROM admin_users WHERE user_id = ${adminId}`;
+  });
+
+  it('should pay the protocol share of swap fees to the treasury and keep it out of reserves', async () => {
+    await setPoolProtocolFee({ adminId, poolId, protocolFeeBps: 5000 });
+    const journalBefore = await getJournalTreasuryBalance('TRSA');
+
+    await executeSwap({ userId, tokenIn: 'TRSA', tokenOut: 'TRSB', amountIn: '100000', minimumAmountOut: '0', slippageTolerance: 0.5 });
+
+    // 0.3% of 100000 is 300, half of which goes to the treasury
+    expect(await getTreasuryBalance('TRSA')).toBe('150');
+    expect(await getJournalTreasuryBalance('TRSA') - journalBefore).toBe(150n);
+    const pool = await blockchainDB.queryRow<{ reserve_a: string }>`
+      SELECT reserve_a::text AS reserve_a FROM liquidity_pools WHERE id = ${poolId}
+    `;
+    expect(pool!.reserve_a).toBe('1099850');
+  });
+
+  it('should only let admins withdraw', async () => {
+    await setPoolProtocolFee({ adminId, poolId, protocolFeeBps: 10000 });
+    await executeSwap({ userId, tokenIn: 'TRSA', tokenOut: 'TRSB', amountIn: '100000', minimumAmountOut: '0', slippageTolerance: 0.5 });
+
+    await expect(
+      withdrawFromTreasury({ token: 'TRSA', amount: '100', recipient: userId, adminId: userId })
+    ).rejects.toThrow('Admin privileges required');
+
+    const { entry } = await withdrawFromTreasury({ token: 'TRSA', amount: '100', recipient: adminId, adminId });
+    expect(entry).toMatchObject({ amount: '-100', adminId, recipient: adminId });
+    expect(await getTreasuryBalance('TRSA')).toBe('200');
+
+    await expect(
+      withdrawFromTreasury({ token: 'TRSA', amount: '201', recipient: adminId, adminId })
+    ).rejects.toThrow('Insufficient TRSA in the treasury');
+  });
+});
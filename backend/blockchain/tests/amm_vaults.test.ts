@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createPool } from '../amm';
+import { createYieldFarm } from '../amm_farms';
+import { createFarmVault, depositToVault, getUserVaultPositions, harvestVault, withdrawFromVault } from '../amm_vaults';
+import { blockchainDB } from '../db';
+
+describe('Auto-Compounding Vaults', () => {
+  const adminId = 'test-admin-vaults';
+  const userId = 'test-user-vaults';
+  let poolId: number;
+  let vaultId: number;
+
+  const getHeldLP = async () => {
+    const row = await blockchainDB.queryRow<{ liquidity_tokens: string }>`
+      SELECT liquidity_tokens::text AS liquidity_tokens FROM liquidity_positions WHERE user_id = ${userId} AND pool_id = ${poolId}
+    `;
+    return BigInt(row?.liquidity_tokens ?? '0');
+  };
+
+  const getFarmsBalance = async () => {
+    const row = await blockchainDB.queryRow<{ balance: string }>`
+      SELECT COALESCE(SUM(amount), 0)::bigint::text AS balance FROM ledger_lines
+      WHERE account_type = 'system' AND account = 'yield_farms' AND currency = 'VLTA'
+    `;
+    return BigInt(row!.balance);
+  };
+
+  beforeEach(async () => {
+    await blockchainDB.exec`INSERT INTO admin_users (user_id) VALUES (${adminId}) ON CONFLICT DO NOTHING`;
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance)
+      VALUES (${adminId}, 'VLTA', 1000000), (${userId}, 'VLTA', 10000000), (${userId}, 'VLTB', 10000000)
+      ON CONFLICT (user_id, currency) DO UPDATE SET balance = EXCLUDED.balance;
+    `;
+
+    const { pool } = await createPool({ userId, tokenA: 'VLTA', tokenB: 'VLTB', amountA: '1000000', amountB: '1000000' });
+    poolId = pool.id;
+
+    // Rewards are paid in one of the pool's own tokens, so a harvest swaps half through the pool
+    const { farm } = await createYieldFarm({
+      adminId,
+      poolId,
+      rewardToken: 'VLTA',
+      rewardRate: '10000',
+      endTime: new Date(Date.now() + 3600 * 1000),
+      rewardBudget: '500000',
+    });
+    const { vault } = await createFarmVault({ adminId, farmId: farm.id });
+    vaultId = vault.id;
+  });
+
+  afterEach(async () => {
+    const pool = await blockchainDB.queryRow<{ pool_address: string }>`
+      SELECT pool_address FROM liquidity_pools WHERE id = ${poolId}
+    `;
+    await blockchainDB.exec`DELETE FROM vault_positions WHERE vault_id = ${vaultId}`;
+    await blockchainDB.exec`DELETE FROM farm_vaults WHERE id = ${vaultId}`;
+    await blockchainDB.exec`
+      DELETE FROM staking_positions WHERE farm_id IN (SELECT id FROM yield_farming_pools WHERE pool_id = ${poolId})
+    `;
+    await blockchainDB.exec`DELETE FROM yield_farming_pools WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM liquidity_positions WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_ticks WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM pool_price_observations WHERE pool_id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM contracts WHERE contract_address = ${pool?.pool_address}`;
+    await blockchainDB.exec`DELETE FROM liquidity_pools WHERE id = ${poolId}`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id IN (${adminId}, ${userId})`;
+    await blockchainDB.exec`DELETE FROM admin_users WHERE user_id = ${adminId}`;
+  });
+
+  it('should mint shares one to one for the first deposit', async () => {
+    const { shares } = await depositToVault({ userId, vaultId, amount: '400000' });
+    expect(shares).toBe('400000');
+
+    const { positions } = await getUserVaultPositions({ userId });
+    const position = positions.find(p => p.vaultId === vaultId)!;
+    expect(position.liquidityTokens).toBe('400000');
+    expect(position.sharePercentage).toBe(100);
+  });
+
+  it('should compound harvested rewards into more LP tokens per share', async () => {
+    const heldBefore = await getHeldLP();
+    await depositToVault({ userId, vaultId, amount: '400000' });
+    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    const harvest = await harvestVault({ vaultId });
+    expect(BigInt(harvest.rewardsHarvested)).toBeGreaterThan(0n);
+    expect(BigInt(harvest.liquidityAdded)).toBeGreaterThan(0n);
+
+    const { liquidityTokens } = await withdrawFromVault({ userId, vaultId, shares: '400000' });
+    expect(BigInt(liquidityTokens)).toBe(400000n + BigInt(harvest.liquidityAdded));
+    expect(await getHeldLP()).toBe(heldBefore + BigInt(harvest.liquidityAdded));
+  });
+
+  it('should move harvested rewards out of the farm account', async () => {
+    await depositToVault({ userId, vaultId, amount: '400000' });
+    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    const farmsBefore = await getFarmsBalance();
+    const harvest = await harvestVault({ vaultId });
+    expect(await getFarmsBalance()).toBe(farmsBefore - BigInt(harvest.rewardsHarvested));
+  });
+
+  it('should refuse a harvest when the pool is pushed off its oracle price', async () => {
+    await depositToVault({ userId, vaultId, amount: '400000' });
+    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    // Skew the reserves without touching the TWAP history, as a front-running swap would
+    await blockchainDB.exec`UPDATE liquidity_pools SET reserve_b = reserve_b / 2 WHERE id = ${poolId}`;
+    await expect(harvestVault({ vaultId })).rejects.toThrow('Slippage tolerance exceeded');
+  });
+
+  it('should reject deposit amounts that are not integers', async () => {
+    await expect(depositToVault({ userId, vaultId, amount: '0.5' })).rejects.toThrow('Deposit amount must be a positive integer');
+  });
+});
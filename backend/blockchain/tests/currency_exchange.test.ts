@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { getExchangeRates, createWallet, getUserBalances, buyTokens, sellTokens, getTransactionHistory } from '../currency_exchange';
+import { getExchangeRates, createWallet, getUserBalances, buyTokens, sellTokens, getTransactionHistory, createExchangeQuote } from '../currency_exchange';
 import { blockchainDB } from '../db';
 
 describe('Currency Exchange API', () => {
@@ -7,6 +7,7 @@ describe('Currency Exchange API', () => {
 
   beforeEach(async () => {
     // Clean up test data
+    await blockchainDB.exec`DELETE FROM exchange_quotes WHERE user_id LIKE 'test-%'`;
     await blockchainDB.exec`DELETE FROM user_wallets WHERE user_id LIKE 'test-%'`;
     await blockchainDB.exec`DELETE FROM user_balances WHERE user_id LIKE 'test-%'`;
     await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id LIKE 'test-%'`;
@@ -14,6 +15,7 @@ describe('Currency Exchange API', () => {
 
   afterEach(async () => {
     // Clean up test data
+    await blockchainDB.exec`DELETE FROM exchange_quotes WHERE user_id LIKE 'test-%'`;
     await blockchainDB.exec`DELETE FROM user_wallets WHERE user_id LIKE 'test-%'`;
     await blockchainDB.exec`DELETE FROM user_balances WHERE user_id LIKE 'test-%'`;
     await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id LIKE 'test-%'`;
@@ -174,6 +176,72 @@ describe('Currency Exchange API', () => {
 
       await expect(sellTokens(request)).rejects.toThrow();
     });
+
+    it('should sell ASM for ETH at the pair fee', async () => {
+      const { rates } = await getExchangeRates();
+      const ethRate = rates.find(r => r.currencyPair === 'ASM/ETH')!;
+
+      const response = await sellTokens({ userId: testUserId, asmAmount: 1000, targetCurrency: 'ETH' });
+
+      expect(ethRate.feeRate).toBe(0.01);
+      expect(response.transaction.toCurrency).toBe('ETH');
+      expect(response.totalFee).toBeCloseTo(1000 * response.transaction.exchangeRate * 0.01, 7);
+
+      const { balances } = await getUserBalances({ userId: testUserId });
+      const eth = balances.find(b => b.currency === 'ETH')!;
+      expect(eth.balance).toBeCloseTo(response.estimatedUsd, 7);
+      expect(eth.decimals).toBe(8);
+    });
+
+    it('should reject amounts finer than the currency precision', async () => {
+      await expect(sellTokens({ userId: testUserId, asmAmount: 1.123456789, targetCurrency: 'USD' }))
+        .rejects.toThrow('decimal places');
+    });
+  });
+
+  describe('createExchangeQuote', () => {
+    beforeEach(async () => {
+      // Ensure user exists with balances
+      await getUserBalances({ userId: testUserId });
+    });
+
+    it('should fill a buy at exactly the quoted amount', async () => {
+      const { quote } = await createExchangeQuote({ userId: testUserId, side: 'buy', amount: 100 });
+
+      expect(quote.quoteId).toBeDefined();
+      expect(new Date(quote.expiresAt).getTime()).toBeGreaterThan(Date.now());
+
+      // Move the live rate; the quote must still be honored
+      await blockchainDB.exec`
+        UPDATE currency_exchange_rates SET rate = rate * 2 WHERE currency_pair = 'ASM/USD'
+      `;
+      try {
+        const response = await buyTokens({ userId: testUserId, usdAmount: 100, targetCurrency: 'ASM', quoteId: quote.quoteId });
+        expect(response.estimatedTokens).toBe(quote.amountOut);
+        expect(response.transaction.exchangeRate).toBe(quote.exchangeRate);
+      } finally {
+        await blockchainDB.exec`
+          UPDATE currency_exchange_rates SET rate = rate / 2 WHERE currency_pair = 'ASM/USD'
+        `;
+      }
+
+      await expect(
+        buyTokens({ userId: testUserId, usdAmount: 100, targetCurrency: 'ASM', quoteId: quote.quoteId })
+      ).rejects.toThrow('already been used');
+    });
+
+    it('should reject expired quotes and quotes for another amount', async () => {
+      const { quote } = await createExchangeQuote({ userId: testUserId, side: 'sell', amount: 1000 });
+
+      await expect(
+        sellTokens({ userId: testUserId, asmAmount: 500, targetCurrency: 'USD', quoteId: quote.quoteId })
+      ).rejects.toThrow('Quote was issued for an amount');
+
+      await blockchainDB.exec`UPDATE exchange_quotes SET expires_at = NOW() WHERE id = ${quote.quoteId}`;
+      await expect(
+        sellTokens({ userId: testUserId, asmAmount: 1000, targetCurrency: 'USD', quoteId: quote.quoteId })
+      ).rejects.toThrow('Quote has expired');
+    });
   });
 
   describe('getTransactionHistory', () => {
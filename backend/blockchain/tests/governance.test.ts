@@ -1,5 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { createProposal, listProposals, castVote } from '../governance';
+import {
+  cancelProposal,
+  castVote,
+  createProposal,
+  executeProposal,
+  finalizeEndedProposals,
+  listProposals,
+  listProposalVotes,
+  tallyProposal,
+} from '../governance';
+import { endYieldFarm } from '../amm_farms';
+import { getBridgeLimits } from '../bridge';
 import { blockchainDB } from '../db';
 
 describe('Governance API', () => {
@@ -108,4 +119,245 @@ describe('Governance API', () => {
       })
     ).rejects.toThrow('Proposal is not active for voting.');
   });
+
+  describe('voting power', () => {
+    const otherVoterId = 'test-governance-other-voter';
+    const weight = '2000000000000000000000000';
+
+    afterEach(async () => {
+      await blockchainDB.exec`DELETE FROM governance_votes WHERE voter_id = ${otherVoterId}`;
+      await blockchainDB.exec`DELETE FROM token_balances WHERE address = ${otherVoterId}`;
+    });
+
+    const findProposal = async (id: number) => (await listProposals()).proposals.find(p => p.id === id)!;
+
+    it('should weigh votes by the balance snapshotted at proposal creation', async () => {
+      const { proposal } = await createProposal({ proposerId: testUserId, title: 'Snapshot', description: 'Weighed at creation.' });
+      expect(proposal.snapshotAt).toBeDefined();
+
+      // Tokens moved to another address after the snapshot carry no voting power there
+      await blockchainDB.exec`
+        UPDATE token_balances SET balance = '0' WHERE address = ${testUserId} AND token_contract = ${asmContractAddress}
+      `;
+      await blockchainDB.exec`
+        INSERT INTO token_balances (address, token_contract, balance)
+        VALUES (${otherVoterId}, ${asmContractAddress}, ${weight})
+      `;
+
+      await castVote({ proposalId: proposal.id, voterId: testUserId, voteOption: 'for' });
+      await expect(castVote({ proposalId: proposal.id, voterId: otherVoterId, voteOption: 'for' }))
+        .rejects.toThrow('No voting power');
+
+      expect((await findProposal(proposal.id)).forVotes).toBe(weight);
+    });
+
+    it('should move the previous weight when a voter votes again', async () => {
+      const { proposal } = await createProposal({ proposerId: testUserId, title: 'Re-vote', description: 'Changing sides.' });
+
+      await castVote({ proposalId: proposal.id, voterId: testUserId, voteOption: 'for' });
+      await castVote({ proposalId: proposal.id, voterId: testUserId, voteOption: 'for' });
+      expect((await findProposal(proposal.id)).forVotes).toBe(weight);
+
+      await castVote({ proposalId: proposal.id, voterId: testUserId, voteOption: 'against' });
+      expect(await findProposal(proposal.id)).toMatchObject({ forVotes: '0', againstVotes: weight, abstainVotes: '0' });
+
+      const { votes } = await listProposalVotes({ id: proposal.id });
+      expect(votes).toHaveLength(1);
+      expect(votes[0]).toMatchObject({ voterId: testUserId, voteOption: 'against', votingWeight: weight });
+    });
+
+    it('should not list votes of a missing proposal', async () => {
+      await expect(listProposalVotes({ id: -1 })).rejects.toThrow('Proposal not found');
+    });
+  });
+
+  describe('executable proposals', () => {
+    // Treasury payouts are journaled, so each run pays a fresh recipient
+    const recipient = `test-governance-recipient-${Date.now().toString(36)}`;
+    let poolId: number;
+
+    // A proposal that passed and has waited out its timelock
+    const queuedProposal = async (actions: Parameters<typeof createProposal>[0]['actions']) => {
+      const { proposal } = await createProposal({ proposerId: testUserId, title: 'Executable', description: 'Changes things.', actions });
+      await blockchainDB.exec`
+        UPDATE governance_proposals SET status = 'queued', eta = NOW() - INTERVAL '1 minute' WHERE id = ${proposal.id}
+      `;
+      return proposal.id;
+    };
+
+    beforeEach(async () => {
+      const pool = await blockchainDB.queryRow<{ id: number }>`
+        INSERT INTO liquidity_pools (token_a, token_b) VALUES ('GOVA', 'GOVB') RETURNING id
+      `;
+      poolId = pool!.id;
+      await blockchainDB.exec`INSERT INTO treasury_balances (token, balance) VALUES ('GOVA', 1000000)`;
+    });
+
+    afterEach(async () => {
+      await blockchainDB.exec`UPDATE bridge_limits SET large_transfer_threshold = 1000000, time_lock_minutes = 60, updated_by_proposal = NULL`;
+      await blockchainDB.exec`DELETE FROM treasury_ledger WHERE token = 'GOVA'`;
+      await blockchainDB.exec`DELETE FROM treasury_balances WHERE token = 'GOVA'`;
+      await blockchainDB.exec`DELETE FROM yield_farming_pools WHERE pool_id = ${poolId}`;
+      await blockchainDB.exec`DELETE FROM liquidity_pools WHERE id = ${poolId}`;
+    });
+
+    it('should validate actions when the proposal is created', async () => {
+      await expect(queuedProposal([{ type: 'set_pool_fee_rate', poolId: 1, feeRate: 0.02 }]))
+        .rejects.toThrow('Fee rate must be one of');
+      await expect(queuedProposal([{ type: 'mint_tokens' as any }])).rejects.toThrow('Unknown proposal action');
+    });
+
+    it('should record one treasury withdrawal per paying action', async () => {
+      const id = await queuedProposal([
+        { type: 'treasury_transfer', token: 'GOVA', amount: '1', recipient },
+        { type: 'start_yield_farm', poolId, rewardToken: 'GOVA', rewardRate: '1', durationDays: 1 },
+        { type: 'treasury_transfer', token: 'GOVA', amount: '2', recipient },
+      ]);
+
+      await executeProposal({ id });
+
+      const rows = await blockchainDB.queryAll<{ amount: string; action_index: number }>`
+        SELECT amount::text AS amount, action_index FROM treasury_ledger WHERE proposal_id = ${id} ORDER BY action_index
+      `;
+      expect(rows).toEqual([
+        { amount: '-1', action_index: 0 },
+        { amount: '-86400', action_index: 1 },
+        { amount: '-2', action_index: 2 },
+      ]);
+    });
+
+    it('should refund the unused budget of a proposal farm to the treasury', async () => {
+      const adminId = 'test-governance-admin';
+      await blockchainDB.exec`INSERT INTO admin_users (user_id) VALUES (${adminId}) ON CONFLICT DO NOTHING`;
+      try {
+        const id = await queuedProposal([
+          { type: 'start_yield_farm', poolId, rewardToken: 'GOVA', rewardRate: '1', durationDays: 1 },
+        ]);
+        await executeProposal({ id });
+        const farm = await blockchainDB.queryRow<{ id: number }>`SELECT id FROM yield_farming_pools WHERE pool_id = ${poolId}`;
+
+        // Nothing was staked, so the whole budget goes back
+        const { refunded } = await endYieldFarm({ adminId, farmId: farm!.id });
+        expect(refunded).toBe('86400');
+
+        const treasury = await blockchainDB.queryRow<{ balance: string }>`
+          SELECT balance::text AS balance FROM treasury_balances WHERE token = 'GOVA'
+        `;
+        expect(treasury!.balance).toBe('1000000');
+        const adminLines = await blockchainDB.queryRow<{ count: number }>`
+          SELECT COUNT(*)::int AS count FROM ledger_lines WHERE account_type = 'user' AND account = ${adminId}
+        `;
+        expect(adminLines!.count).toBe(0);
+      } finally {
+        await blockchainDB.exec`DELETE FROM admin_users WHERE user_id = ${adminId}`;
+      }
+    });
+
+    it('should apply every action and record the execution hash', async () => {
+      const id = await queuedProposal([
+        { type: 'set_pool_fee_rate', poolId, feeRate: 0.01 },
+        { type: 'update_bridge_limits', largeTransferThreshold: '5000000', timeLockMinutes: 120 },
+        { type: 'start_yield_farm', poolId, rewardToken: 'GOVA', rewardRate: '1', durationDays: 1 },
+      ]);
+
+      const { proposal } = await executeProposal({ id });
+      expect(proposal.status).toBe('executed');
+      expect(proposal.executionTxHash).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(proposal.actions).toHaveLength(3);
+
+      const pool = await blockchainDB.queryRow<{ fee_rate: number }>`SELECT fee_rate FROM liquidity_pools WHERE id = ${poolId}`;
+      expect(Number(pool!.fee_rate)).toBe(0.01);
+      const { limits } = await getBridgeLimits();
+      expect(limits).toMatchObject({ largeTransferThreshold: '5000000', timeLockMinutes: 120, updatedByProposal: id });
+      const farm = await blockchainDB.queryRow<{ reward_budget: string; created_by: string }>`
+        SELECT reward_budget::text AS reward_budget, created_by FROM yield_farming_pools WHERE pool_id = ${poolId}
+      `;
+      expect(farm).toEqual({ reward_budget: '86400', created_by: `proposal:${id}` });
+
+      await expect(executeProposal({ id })).rejects.toThrow('already been executed');
+    });
+
+    it('should apply nothing when an action fails', async () => {
+      const id = await queuedProposal([
+        { type: 'set_pool_fee_rate', poolId, feeRate: 0.0005 },
+        { type: 'treasury_transfer', token: 'GOVA', amount: '2000000', recipient },
+      ]);
+
+      await expect(executeProposal({ id })).rejects.toThrow('Insufficient GOVA in the treasury');
+
+      const pool = await blockchainDB.queryRow<{ fee_rate: number }>`SELECT fee_rate FROM liquidity_pools WHERE id = ${poolId}`;
+      expect(Number(pool!.fee_rate)).toBe(0.003);
+      const proposal = (await listProposals()).proposals.find(p => p.id === id);
+      expect(proposal!.status).toBe('queued');
+    });
+
+    it('should only execute queued proposals after their timelock', async () => {
+      const { proposal } = await createProposal({ proposerId: testUserId, title: 'Still voting', description: 'Active.' });
+      await expect(executeProposal({ id: proposal.id })).rejects.toThrow('Only queued proposals can be executed');
+
+      await blockchainDB.exec`
+        UPDATE governance_proposals SET status = 'queued', eta = NOW() + INTERVAL '1 hour' WHERE id = ${proposal.id}
+      `;
+      await expect(executeProposal({ id: proposal.id })).rejects.toThrow('Proposal is timelocked until');
+    });
+  });
+
+  describe('lifecycle', () => {
+    const quorum = 4000000000000000000000000n;
+
+    const endedProposal = async (votes: { for: bigint; against: bigint; abstain: bigint }) => {
+      const { proposal } = await createProposal({ proposerId: testUserId, title: 'Ended', description: 'Voting is over.' });
+      await blockchainDB.exec`
+        UPDATE governance_proposals
+        SET for_votes = ${votes.for.toString()}, against_votes = ${votes.against.toString()},
+            abstain_votes = ${votes.abstain.toString()}, end_time = NOW() - INTERVAL '1 minute'
+        WHERE id = ${proposal.id}
+      `;
+      return proposal.id;
+    };
+
+    const findProposal = async (id: number) => (await listProposals()).proposals.find(p => p.id === id)!;
+
+    it('should apply quorum and approval thresholds', () => {
+      const tally = (forVotes: bigint, againstVotes: bigint, abstainVotes: bigint) =>
+        tallyProposal({ forVotes, againstVotes, abstainVotes, quorumVotes: 100n, approvalThresholdBps: 5000 });
+
+      expect(tally(60n, 40n, 0n)).toEqual({ totalVotes: 100n, quorumReached: true, approved: true });
+      expect(tally(50n, 50n, 0n).approved).toBe(false);
+      expect(tally(30n, 10n, 50n).quorumReached).toBe(false);
+      expect(tally(20n, 10n, 70n)).toMatchObject({ quorumReached: true, approved: true });
+      expect(tally(0n, 0n, 100n).approved).toBe(false);
+    });
+
+    it('should queue passed proposals behind the timelock and defeat the rest', async () => {
+      const passed = await endedProposal({ for: quorum, against: 1n, abstain: 0n });
+      const noQuorum = await endedProposal({ for: 10n, against: 0n, abstain: 0n });
+      const rejected = await endedProposal({ for: quorum, against: quorum, abstain: 0n });
+
+      await finalizeEndedProposals();
+
+      const queued = await findProposal(passed);
+      expect(queued.status).toBe('queued');
+      expect(new Date(queued.eta!).getTime() - new Date(queued.finalizedAt!).getTime()).toBe(48 * 3600 * 1000);
+      expect(queued.transitions.map(t => [t.fromStatus, t.toStatus])).toEqual([[undefined, 'active'], ['active', 'queued']]);
+
+      expect(await findProposal(noQuorum)).toMatchObject({ status: 'defeated' });
+      expect((await findProposal(noQuorum)).transitions[1].reason).toContain('Quorum not reached');
+      expect(await findProposal(rejected)).toMatchObject({ status: 'defeated' });
+    });
+
+    it('should let only the proposer cancel an unfinished proposal', async () => {
+      const { proposal } = await createProposal({ proposerId: testUserId, title: 'Cancel me', description: 'Changed my mind.' });
+
+      await expect(cancelProposal({ id: proposal.id, proposerId: 'someone-else' })).rejects.toThrow('Only the proposer');
+
+      const { proposal: cancelled } = await cancelProposal({ id: proposal.id, proposerId: testUserId, reason: 'Superseded' });
+      expect(cancelled.status).toBe('cancelled');
+      expect(cancelled.transitions[1]).toMatchObject({ fromStatus: 'active', toStatus: 'cancelled', actor: testUserId, reason: 'Superseded' });
+
+      await expect(cancelProposal({ id: proposal.id, proposerId: testUserId })).rejects.toThrow('cannot be cancelled');
+      await expect(castVote({ proposalId: proposal.id, voterId: testUserId, voteOption: 'for' }))
+        .rejects.toThrow('Proposal is not active for voting.');
+    });
+  });
 });
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  getBalanceDiscrepancies,
+  getUserJournal,
+  lockedAccount,
+  movement,
+  postJournalEntry,
+  reconcileLedger,
+  systemAccount,
+  userAccount,
+} from '../ledger';
+import { transferBalance } from '../transfers';
+import { blockchainDB } from '../db';
+
+describe('Balance Ledger', () => {
+  const adminId = 'test-admin-ledger';
+  // The journal is append-only, so each run works with fresh users
+  const runSuffix = Date.now().toString(36);
+  const alice = `test-user-ledger-a-${runSuffix}`;
+  const bob = `test-user-ledger-b-${runSuffix}`;
+
+  const balanceOf = async (userId: string, currency: string) => {
+    const row = await blockchainDB.queryRow<{ balance: string; locked_balance: string }>`
+      SELECT balance::text, locked_balance::text FROM user_balances WHERE user_id = ${userId} AND currency = ${currency}
+    `;
+    return { balance: Number(row?.balance ?? 0), locked: Number(row?.locked_balance ?? 0) };
+  };
+
+  const post = async (entry: Parameters<typeof postJournalEntry>[1]) => {
+    await using tx = await blockchainDB.begin();
+    try {
+      await postJournalEntry(tx, entry);
+      await tx.commit();
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+  };
+
+  beforeEach(async () => {
+    await blockchainDB.exec`INSERT INTO admin_users (user_id) VALUES (${adminId}) ON CONFLICT DO NOTHING`;
+    await post({
+      entryType: 'test_funding',
+      lines: movement(systemAccount('test_faucet'), userAccount(alice), 'USD', 100),
+    });
+  });
+
+  afterEach(async () => {
+    const users = [alice, bob];
+    await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ANY(${users})`;
+    await blockchainDB.exec`DELETE FROM balance_transfers WHERE from_user_id = ANY(${users})`;
+    await blockchainDB.exec`DELETE FROM user_wallets WHERE user_id = ANY(${users})`;
+    await blockchainDB.exec`DELETE FROM admin_users WHERE user_id = ${adminId}`;
+    // Leave the balances matching the journal so later reconciliation runs stay clean
+    await blockchainDB.exec`
+      UPDATE user_balances b
+      SET balance = j.balance, locked_balance = j.locked_balance
+      FROM (
+        SELECT account, currency,
+               COALESCE(SUM(amount) FILTER (WHERE NOT locked), 0) AS balance,
+               COALESCE(SUM(amount) FILTER (WHERE locked), 0) AS locked_balance
+        FROM ledger_lines WHERE account_type = 'user' AND account = ANY(${users})
+        GROUP BY account, currency
+      ) j
+      WHERE b.user_id = j.account AND b.currency = j.currency
+    `;
+  });
+
+  it('should apply a balanced entry to the user balances', async () => {
+    await post({
+      entryType: 'test_hold',
+      lines: [
+        ...movement(userAccount(alice), lockedAccount(alice), 'USD', 30),
+        ...movement(userAccount(alice), userAccount(bob), 'USD', 20.5),
+      ],
+    });
+
+    expect(await balanceOf(alice, 'USD')).toEqual({ balance: 49.5, locked: 30 });
+    expect(await balanceOf(bob, 'USD')).toEqual({ balance: 20.5, locked: 0 });
+
+    const { lines } = await getUserJournal({ adminId, userId: alice });
+    expect(lines.map(l => [l.entryType, l.locked, l.amount])).toEqual([
+      ['test_hold', false, -20.5],
+      ['test_hold', true, 30],
+      ['test_hold', false, -30],
+      ['test_funding', false, 100],
+    ]);
+  });
+
+  it('should reject unbalanced entries and overdrafts', async () => {
+    await expect(post({
+      entryType: 'test_unbalanced',
+      lines: [{ account: userAccount(alice), currency: 'USD', amount: 5 }],
+    })).rejects.toThrow('does not balance in USD');
+
+    await expect(post({
+      entryType: 'test_overdraft',
+      lines: movement(userAccount(alice), userAccount(bob), 'USD', 100.01),
+    })).rejects.toThrow('Insufficient USD balance');
+
+    expect(await balanceOf(alice, 'USD')).toEqual({ balance: 100, locked: 0 });
+  });
+
+  it('should journal transfers', async () => {
+    await blockchainDB.exec`
+      INSERT INTO user_wallets (user_id, address, private_key_encrypted)
+      VALUES (${bob}, ${'0x' + runSuffix.padStart(40, '0')}, 'test')
+    `;
+    await transferBalance({ userId: alice, idempotencyKey: 'ledger-1', toUserId: bob, amount: 40, currency: 'USD' });
+
+    const { lines } = await getUserJournal({ adminId, userId: bob, currency: 'USD' });
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ entryType: 'transfer', amount: 40 });
+  });
+
+  it('should flag balances that drift from the journal', async () => {
+    await blockchainDB.exec`
+      UPDATE user_balances SET balance = balance + 7 WHERE user_id = ${alice} AND currency = 'USD'
+    `;
+
+    const { run } = await reconcileLedger({ adminId });
+    expect(run.completedAt).toBeDefined();
+
+    const { discrepancies } = await getBalanceDiscrepancies({ adminId, runId: run.id, userId: alice });
+    expect(discrepancies).toHaveLength(1);
+    expect(discrepancies[0]).toMatchObject({ currency: 'USD', expectedBalance: 100, actualBalance: 107 });
+
+    await expect(getBalanceDiscrepancies({ adminId: bob })).rejects.toThrow('Admin privileges required');
+  });
+
+  it('should not allow journal lines to be changed', async () => {
+    await expect(blockchainDB.exec`
+      UPDATE ledger_lines SET amount = 1 WHERE account = ${alice}
+    `).rejects.toThrow('append-only');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  cancelExchangeOrder,
+  getOrderBookDepth,
+  listExchangeOrders,
+  matchOrder,
+  placeExchangeOrder,
+} from '../order_book';
+import { blockchainDB } from '../db';
+
+describe('Exchange Order Book', () => {
+  const seller = 'test-user-book-seller';
+  const buyer = 'test-user-book-buyer';
+  const pair = { base: 'ASM', quote: 'USD' };
+
+  const getBalance = async (userId: string, currency: string) => {
+    const row = await blockchainDB.queryRow<{ balance: string; locked_balance: string }>`
+      SELECT balance::text, locked_balance::text FROM user_balances
+      WHERE user_id = ${userId} AND currency = ${currency}
+    `;
+    return { balance: Number(row?.balance ?? 0), locked: Number(row?.locked_balance ?? 0) };
+  };
+
+  const cleanUp = async () => {
+    const users = [seller, buyer];
+    await blockchainDB.exec`
+      DELETE FROM order_book_events
+      WHERE pair = 'ASM/USD' AND price IN (0.4, 0.5, 0.55, 0.6)
+    `;
+    await blockchainDB.exec`
+      DELETE FROM exchange_trades
+      WHERE buy_order_id IN (SELECT id FROM exchange_orders WHERE user_id = ANY(${users}))
+         OR sell_order_id IN (SELECT id FROM exchange_orders WHERE user_id = ANY(${users}))
+    `;
+    await blockchainDB.exec`DELETE FROM exchange_orders WHERE user_id = ANY(${users})`;
+    await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ANY(${users})`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id = ANY(${users})`;
+  };
+
+  beforeEach(async () => {
+    await cleanUp();
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance, locked_balance)
+      VALUES (${seller}, 'ASM', 5000, 0), (${seller}, 'USD', 0, 0),
+             (${buyer}, 'ASM', 0, 0), (${buyer}, 'USD', 1000, 0)
+    `;
+  });
+
+  afterEach(cleanUp);
+
+  describe('matchOrder', () => {
+    const book = [
+      { id: 1, price: 0.5, remaining: 100 },
+      { id: 2, price: 0.5, remaining: 100 },
+      { id: 3, price: 0.6, remaining: 100 },
+    ];
+
+    it('should fill in price-time priority at the maker price', () => {
+      const { fills, remaining } = matchOrder({ side: 'buy', quantity: 250, limitPrice: 0.6 }, book, pair);
+
+      expect(fills.map(f => [f.makerOrderId, f.quantity, f.price])).toEqual([[1, 100, 0.5], [2, 100, 0.5], [3, 50, 0.6]]);
+      expect(fills[2].quoteAmount).toBe(30);
+      expect(remaining).toBe(0);
+    });
+
+    it('should stop at the taker limit', () => {
+      const { fills, remaining } = matchOrder({ side: 'buy', quantity: 250, limitPrice: 0.55 }, book, pair);
+
+      expect(fills).toHaveLength(2);
+      expect(remaining).toBe(50);
+    });
+
+    it('should cap a market buy at its budget', () => {
+      const { fills, remaining } = matchOrder({ side: 'buy', quantity: 300, limitPrice: null, budget: 75 }, book, pair);
+
+      expect(fills.map(f => f.quantity)).toEqual([100, 50]);
+      expect(remaining).toBe(150);
+    });
+  });
+
+  it('should hold funds for a resting limit order and release them on cancel', async () => {
+    const { order, trades } = await placeExchangeOrder({
+      userId: seller, pair: 'ASM/USD', side: 'sell', orderType: 'limit', quantity: 1000, price: 0.5,
+    });
+
+    expect(trades).toHaveLength(0);
+    expect(order.status).toBe('open');
+    expect(await getBalance(seller, 'ASM')).toEqual({ balance: 4000, locked: 1000 });
+
+    const depth = await getOrderBookDepth({ pair: 'ASM/USD' });
+    expect(depth.asks.find(l => l.price === 0.5)?.quantity).toBeGreaterThanOrEqual(1000);
+
+    const { order: cancelled } = await cancelExchangeOrder({ orderId: order.id, userId: seller });
+    expect(cancelled.status).toBe('cancelled');
+    expect(await getBalance(seller, 'ASM')).toEqual({ balance: 5000, locked: 0 });
+
+    await expect(cancelExchangeOrder({ orderId: order.id, userId: seller })).rejects.toThrow('Order is already cancelled');
+  });
+
+  it('should partially fill a resting order and refund price improvement', async () => {
+    const { order: ask } = await placeExchangeOrder({
+      userId: seller, pair: 'ASM/USD', side: 'sell', orderType: 'limit', quantity: 1000, price: 0.5,
+    });
+
+    const { order: bid, trades } = await placeExchangeOrder({
+      userId: buyer, pair: 'ASM/USD', side: 'buy', orderType: 'limit', quantity: 400, price: 0.6,
+    });
+
+    expect(bid.status).toBe('filled');
+    expect(trades).toHaveLength(1);
+    expect(trades[0].price).toBe(0.5);
+    expect(trades[0].quoteAmount).toBe(200);
+
+    // 240 USD was held at the limit price; the 40 saved by filling at 0.5 comes back
+    expect(await getBalance(buyer, 'USD')).toEqual({ balance: 800, locked: 0 });
+    expect(await getBalance(buyer, 'ASM')).toEqual({ balance: 400, locked: 0 });
+    expect(await getBalance(seller, 'USD')).toEqual({ balance: 200, locked: 0 });
+    expect(await getBalance(seller, 'ASM')).toEqual({ balance: 4000, locked: 600 });
+
+    const { orders } = await listExchangeOrders({ userId: seller, pair: 'ASM/USD' });
+    expect(orders.find(o => o.id === ask.id)).toMatchObject({ status: 'partially_filled', filledQuantity: 400 });
+  });
+
+  it('should cancel the unfilled part of a market order', async () => {
+    await placeExchangeOrder({
+      userId: seller, pair: 'ASM/USD', side: 'sell', orderType: 'limit', quantity: 100, price: 0.4,
+    });
+
+    const { order, trades } = await placeExchangeOrder({
+      userId: buyer, pair: 'ASM/USD', side: 'buy', orderType: 'market', quantity: 100000,
+    });
+
+    expect(trades.length).toBeGreaterThan(0);
+    expect(order.status).toBe('cancelled');
+    expect(order.lockedAmount).toBe(0);
+    expect((await getBalance(buyer, 'USD')).locked).toBe(0);
+  });
+
+  it('should reject orders the user cannot fund', async () => {
+    await expect(placeExchangeOrder({
+      userId: buyer, pair: 'ASM/USD', side: 'buy', orderType: 'limit', quantity: 10000, price: 0.5,
+    })).rejects.toThrow('Insufficient USD balance');
+
+    await expect(placeExchangeOrder({
+      userId: buyer, pair: 'ASM/USD', side: 'sell', orderType: 'market', quantity: 10,
+    })).rejects.toThrow('Insufficient ASM balance');
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createPool } from '../amm';
+import {
+  aggregateRates,
+  ammRateProvider,
+  feedRateProvider,
+  fixedRateProvider,
+  refreshExchangeRates,
+  type SourcedRate,
+} from '../rate_providers';
+import { blockchainDB } from '../db';
+
+describe('Exchange Rate Providers', () => {
+  const now = new Date('2026-01-01T00:05:00Z');
+  const quote = (source: string, rate: number, ageSeconds = 0): SourcedRate => ({
+    pair: 'ASM/USD',
+    rate,
+    source,
+    observedAt: new Date(now.getTime() - ageSeconds * 1000),
+  });
+
+  describe('aggregateRates', () => {
+    it('should take the median of fresh quotes', () => {
+      const result = aggregateRates('ASM/USD', [quote('a', 1.0), quote('b', 1.02), quote('c', 1.01), quote('d', 0.99)], now);
+
+      expect(result.rate).toBeCloseTo(1.005);
+      expect(result.accepted).toHaveLength(4);
+    });
+
+    it('should reject stale quotes and outliers', () => {
+      const result = aggregateRates('ASM/USD', [quote('a', 1.0), quote('b', 1.01), quote('c', 2.0), quote('d', 1.0, 600)], now);
+
+      expect(result.rate).toBeCloseTo(1.005);
+      expect(result.rejected.map(r => [r.source, r.reason])).toEqual([['d', 'stale'], ['c', 'deviation']]);
+    });
+
+    it('should return no rate when every quote is rejected', () => {
+      expect(aggregateRates('ASM/USD', [quote('a', 1.0, 600)], now).rate).toBeNull();
+      expect(aggregateRates('ASM/USD', [quote('a', 1.0), quote('b', 2.0)], now).rate).toBeNull();
+    });
+  });
+
+  describe('feedRateProvider', () => {
+    let server: http.Server;
+    let feedUrl: string;
+    let dir: string;
+    const document = { timestamp: new Date().toISOString(), rates: { 'ASM/USD': 0.0000125, 'ASM/ETH': 'bad' } };
+
+    beforeAll(async () => {
+      server = http.createServer((req, res) => {
+        res.writeHead(req.url === '/rates.json' ? 200 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(document));
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      feedUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      dir = await mkdtemp(path.join(os.tmpdir(), 'rate-feed-'));
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read rates from an HTTP feed and skip pairs it cannot price', async () => {
+      const rates = await feedRateProvider('stand-in', `${feedUrl}/rates.json`).fetchRates(['ASM/USD', 'ASM/ETH', 'ASM/BTC']);
+
+      expect(rates).toHaveLength(1);
+      expect(rates[0].rate).toBe(0.0000125);
+      expect(rates[0].observedAt.toISOString()).toBe(document.timestamp);
+    });
+
+    it('should fail on an HTTP error', async () => {
+      await expect(feedRateProvider('stand-in', `${feedUrl}/missing`).fetchRates(['ASM/USD'])).rejects.toThrow('HTTP 404');
+    });
+
+    it('should read rates from a file feed', async () => {
+      const file = path.join(dir, 'rates.json');
+      await writeFile(file, JSON.stringify(document));
+
+      const rates = await feedRateProvider('file', file).fetchRates(['ASM/USD']);
+      expect(rates[0].rate).toBe(0.0000125);
+    });
+  });
+
+  describe('ammRateProvider', () => {
+    const userId = 'test-user-rate-providers';
+    let poolId: number;
+
+    beforeAll(async () => {
+      await blockchainDB.exec`
+        INSERT INTO user_balances (user_id, currency, balance)
+        VALUES (${userId}, 'RTPA', 10000000), (${userId}, 'RTPB', 10000000)
+        ON CONFLICT (user_id, currency) DO UPDATE SET balance = EXCLUDED.balance;
+      `;
+      const { pool } = await createPool({ userId, tokenA: 'RTPA', tokenB: 'RTPB', amountA: '1000000', amountB: '2000000' });
+      poolId = pool.id;
+    });
+
+    afterAll(async () => {
+      const pool = await blockchainDB.queryRow<{ pool_address: string }>`
+        SELECT pool_address FROM liquidity_pools WHERE id = ${poolId}
+      `;
+      await blockchainDB.exec`DELETE FROM liquidity_positions WHERE pool_id = ${poolId}`;
+      await blockchainDB.exec`DELETE FROM pool_ticks WHERE pool_id = ${poolId}`;
+      await blockchainDB.exec`DELETE FROM pool_price_observations WHERE pool_id = ${poolId}`;
+      await blockchainDB.exec`DELETE FROM contracts WHERE contract_address = ${pool?.pool_address}`;
+      await blockchainDB.exec`DELETE FROM liquidity_pools WHERE id = ${poolId}`;
+      await blockchainDB.exec`DELETE FROM user_balances WHERE user_id = ${userId}`;
+    });
+
+    it('should price a pair from its pool in both directions', async () => {
+      const rates = await ammRateProvider().fetchRates(['RTPA/RTPB', 'RTPB/RTPA', 'RTPA/NONE']);
+
+      expect(rates.map(r => r.pair)).toEqual(['RTPA/RTPB', 'RTPB/RTPA']);
+      expect(rates[0].rate).toBeCloseTo(2);
+      expect(rates[1].rate).toBeCloseTo(0.5);
+    });
+  });
+
+  describe('refreshExchangeRates', () => {
+    it('should store the aggregated rate and record it in the history', async () => {
+      const before = await blockchainDB.queryRow<{ rate: number }>`
+        SELECT rate FROM currency_exchange_rates WHERE currency_pair = 'ASM/USD'
+      `;
+      try {
+        const [result] = await refreshExchangeRates([
+          fixedRateProvider('fixed-a', { 'ASM/USD': 0.00002 }),
+          fixedRateProvider('fixed-b', { 'ASM/USD': 0.00002 }),
+          fixedRateProvider('fixed-c', { 'ASM/USD': 0.00009 }),
+        ], ['ASM/USD']);
+
+        expect(result.rate).toBe(0.00002);
+        expect(result.rejected.map(r => r.source)).toEqual(['fixed-c']);
+
+        const history = await blockchainDB.queryRow<{ rate: number; source: string }>`
+          SELECT rate, source FROM exchange_rate_history
+          WHERE currency_pair = 'ASM/USD'
+          ORDER BY id DESC
+          LIMIT 1
+        `;
+        expect(Number(history!.rate)).toBe(0.00002);
+        expect(history!.source).toBe('fixed-a,fixed-b');
+      } finally {
+        await blockchainDB.exec`
+          UPDATE currency_exchange_rates SET rate = ${before!.rate} WHERE currency_pair = 'ASM/USD'
+        `;
+      }
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  cancelRecurringBuy,
+  createRecurringBuy,
+  executeDueRecurringBuys,
+  getRecurringBuy,
+  nextRunAfter,
+  updateRecurringBuy,
+} from '../recurring_buys';
+import { blockchainDB } from '../db';
+
+describe('Recurring Buys', () => {
+  const testUserId = 'test-user-recurring-buys';
+  const day = 24 * 3600 * 1000;
+
+  const cleanUp = async () => {
+    await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ${testUserId}`;
+    await blockchainDB.exec`DELETE FROM recurring_buys WHERE user_id = ${testUserId}`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id = ${testUserId}`;
+    await blockchainDB.exec`DELETE FROM user_wallets WHERE user_id = ${testUserId}`;
+  };
+
+  beforeEach(async () => {
+    await cleanUp();
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance)
+      VALUES (${testUserId}, 'USD', 100), (${testUserId}, 'ASM', 0)
+    `;
+  });
+
+  afterEach(cleanUp);
+
+  describe('nextRunAfter', () => {
+    const start = new Date('2026-01-01T09:00:00Z');
+
+    it('should advance one period from an on-time run', () => {
+      expect(nextRunAfter(start, 'daily', start)).toEqual(new Date(start.getTime() + day));
+      expect(nextRunAfter(start, 'weekly', start)).toEqual(new Date(start.getTime() + 7 * day));
+    });
+
+    it('should drop runs missed while the job was down', () => {
+      const now = new Date(start.getTime() + 3.5 * day);
+      expect(nextRunAfter(start, 'daily', now)).toEqual(new Date(start.getTime() + 4 * day));
+    });
+  });
+
+  it('should execute a due plan and link the purchase to it', async () => {
+    const { plan } = await createRecurringBuy({
+      userId: testUserId, amount: 10, frequency: 'daily', startAt: new Date(Date.now() - 1000),
+    });
+
+    await executeDueRecurringBuys();
+
+    const { plan: after, executions } = await getRecurringBuy({ planId: plan.id, userId: testUserId });
+    expect(after.executions).toBe(1);
+    expect(after.lastResult).toBe('completed');
+    expect(after.nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    expect(executions).toHaveLength(1);
+    expect(executions[0]).toMatchObject({ fromCurrency: 'USD', toCurrency: 'ASM', fromAmount: 10, recurringBuyId: plan.id });
+
+    // Not due again until tomorrow
+    await executeDueRecurringBuys();
+    expect((await getRecurringBuy({ planId: plan.id, userId: testUserId })).executions).toHaveLength(1);
+  });
+
+  it('should skip an execution the balance cannot cover', async () => {
+    const { plan } = await createRecurringBuy({
+      userId: testUserId, amount: 500, frequency: 'weekly', startAt: new Date(Date.now() - 1000),
+    });
+
+    await executeDueRecurringBuys();
+
+    const { plan: after, executions } = await getRecurringBuy({ planId: plan.id, userId: testUserId });
+    expect(after.lastResult).toBe('skipped');
+    expect(after.lastSkipReason).toContain('Insufficient USD balance');
+    expect(after.skippedExecutions).toBe(1);
+    expect(executions).toHaveLength(0);
+  });
+
+  it('should not execute paused or cancelled plans', async () => {
+    const { plan } = await createRecurringBuy({
+      userId: testUserId, amount: 10, frequency: 'daily', startAt: new Date(Date.now() - 1000),
+    });
+
+    await updateRecurringBuy({ planId: plan.id, userId: testUserId, status: 'paused' });
+    await executeDueRecurringBuys();
+    expect((await getRecurringBuy({ planId: plan.id, userId: testUserId })).plan.executions).toBe(0);
+
+    const { plan: cancelled } = await cancelRecurringBuy({ planId: plan.id, userId: testUserId });
+    expect(cancelled.status).toBe('cancelled');
+    await expect(
+      updateRecurringBuy({ planId: plan.id, userId: testUserId, status: 'active' })
+    ).rejects.toThrow('Recurring buy is cancelled');
+  });
+
+  it('should reject invalid plans', async () => {
+    await expect(createRecurringBuy({ userId: testUserId, amount: 10.001, frequency: 'daily' })).rejects.toThrow('decimal places');
+    await expect(createRecurringBuy({ userId: testUserId, amount: 10, paymentCurrency: 'ASM', frequency: 'daily' })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { exportTaxReport, getCostBasis, loadHoldingEvents, matchLots, type HoldingEvent } from '../tax_lots';
+import { blockchainDB } from '../db';
+
+describe('Tax Lots', () => {
+  const day = 24 * 3600 * 1000;
+  const at = (days: number) => new Date(Date.UTC(2025, 0, 1) + days * day);
+  const acquire = (quantity: number, usdValue: number, days: number): HoldingEvent => ({
+    kind: 'acquire', asset: 'ASM', quantity, usdValue, occurredAt: at(days), source: 'buy', reference: `buy-${days}`,
+  });
+  const dispose = (quantity: number, usdValue: number, days: number): HoldingEvent => ({
+    kind: 'dispose', asset: 'ASM', quantity, usdValue, occurredAt: at(days), source: 'sell', reference: `sell-${days}`,
+  });
+
+  // Two lots at $1 and $3, then 150 sold for $300
+  const events = [acquire(100, 100, 0), acquire(100, 300, 10), dispose(150, 300, 400)];
+
+  describe('matchLots', () => {
+    it('should consume the oldest lots first for fifo', () => {
+      const { lots, realized } = matchLots(events, 'fifo');
+
+      expect(realized.map(r => [r.quantity, r.costBasis, r.gain, r.holdingPeriod])).toEqual([
+        [100, 100, 100, 'long'],
+        [50, 150, -50, 'long'],
+      ]);
+      expect(lots).toHaveLength(1);
+      expect(lots[0]).toMatchObject({ quantity: 50, costBasis: 150 });
+    });
+
+    it('should consume the newest lots first for lifo', () => {
+      const { lots, realized } = matchLots(events, 'lifo');
+
+      expect(realized.map(r => [r.quantity, r.costBasis])).toEqual([[100, 300], [50, 50]]);
+      expect(realized.reduce((acc, r) => acc + r.gain, 0)).toBe(-50);
+      expect(lots[0]).toMatchObject({ quantity: 50, costBasis: 50 });
+    });
+
+    it('should pool lots for average cost', () => {
+      const { lots, realized } = matchLots(events, 'average');
+
+      expect(realized).toHaveLength(1);
+      expect(realized[0]).toMatchObject({ quantity: 150, costBasis: 300, gain: 0, holdingPeriod: 'unknown' });
+      expect(lots[0]).toMatchObject({ quantity: 50, costBasis: 100 });
+    });
+
+    it('should flag disposals without a recorded acquisition', () => {
+      const { realized } = matchLots([acquire(10, 10, 0), dispose(30, 60, 1)], 'fifo');
+
+      expect(realized[1]).toMatchObject({ quantity: 20, costBasis: 0, gain: 40, complete: false });
+    });
+
+    it('should move lots out on transfers without realizing a gain', () => {
+      const { lots, realized } = matchLots([
+        acquire(100, 100, 0),
+        { ...dispose(40, 0, 5), kind: 'transfer_out', usdValue: null },
+      ], 'fifo');
+
+      expect(realized).toHaveLength(0);
+      expect(lots[0]).toMatchObject({ quantity: 60, costBasis: 60 });
+    });
+  });
+
+  describe('reports', () => {
+    const userId = 'test-user-tax-lots';
+
+    const cleanUp = async () => {
+      await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ${userId}`;
+    };
+
+    beforeEach(async () => {
+      await cleanUp();
+      await blockchainDB.exec`
+        INSERT INTO currency_transactions (
+          user_id, transaction_type, from_currency, to_currency, from_amount, to_amount,
+          exchange_rate, fee_amount, status, created_at, completed_at
+        )
+        VALUES
+          (${userId}, 'buy', 'USD', 'ASM', 100, 1000, 0.1, 0, 'completed', ${at(0)}, ${at(0)}),
+          (${userId}, 'buy', 'USD', 'ASM', 200, 1000, 0.2, 0, 'completed', ${at(30)}, ${at(30)}),
+          (${userId}, 'sell', 'ASM', 'USD', 1500, 450, 0.3, 0, 'completed', ${at(60)}, ${at(60)}),
+          (${userId}, 'buy', 'USD', 'ASM', 999, 1, 999, 0, 'failed', ${at(61)}, NULL)
+      `;
+    });
+
+    afterEach(cleanUp);
+
+    it('should report open lots and realized gains', async () => {
+      const fifo = await getCostBasis({ userId });
+      expect(fifo.realized).toMatchObject({ proceeds: 450, costBasis: 200, gain: 250, shortTermGain: 250 });
+      expect(fifo.holdings).toEqual([expect.objectContaining({ asset: 'ASM', quantity: 500, costBasis: 100 })]);
+
+      const lifo = await getCostBasis({ userId, method: 'lifo' });
+      expect(lifo.realized.gain).toBe(200);
+
+      await expect(getCostBasis({ userId, method: 'hifo' as any })).rejects.toThrow('Method must be one of');
+    });
+
+    it('should leave transfers from before the rate history unpriced', async () => {
+      const before = new Date(Date.UTC(2001, 0, 1));
+      await blockchainDB.exec`
+        INSERT INTO currency_transactions (
+          user_id, transaction_type, from_currency, to_currency, from_amount, to_amount,
+          exchange_rate, fee_amount, status, created_at, completed_at
+        )
+        VALUES (${userId}, 'transfer_in', 'ASM', 'ASM', 50, 50, 1, 0, 'completed', ${before}, ${before})
+      `;
+
+      const events = await loadHoldingEvents(userId);
+      expect(events.find(e => e.source === 'transfer_in')).toMatchObject({ kind: 'acquire', quantity: 50, usdValue: null });
+    });
+
+    it('should export the gains in a date range as CSV or JSON', async () => {
+      const csv = await exportTaxReport({ userId, from: at(0), to: at(365) });
+      expect(csv.contentType).toBe('text/csv');
+      const lines = csv.content.trim().split('\n');
+      expect(lines[0]).toContain('proceeds_usd');
+      expect(lines).toHaveLength(3);
+      expect(lines[1]).toContain('300.00');
+
+      const json = await exportTaxReport({ userId, from: at(0), to: at(365), format: 'json', method: 'average' });
+      const report = JSON.parse(json.content);
+      expect(report.summary.gain).toBe(225);
+      expect(json.filename).toMatch(/average\.json$/);
+
+      const empty = await exportTaxReport({ userId, from: at(100), to: at(200) });
+      expect(empty.content.trim().split('\n')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { parsePaymentUri, transferBalance } from '../transfers';
+import { getTransactionHistory } from '../currency_exchange';
+import { generateTransactionQRCode, getMobileTransactionHistory } from '../mobile';
+import { blockchainDB } from '../db';
+
+describe('Balance Transfers', () => {
+  const sender = 'test-user-transfer-sender';
+  const recipient = 'test-user-transfer-recipient';
+  const recipientAddress = '0x' + 'ab'.repeat(20);
+
+  const balanceOf = async (userId: string, currency: string) => {
+    const row = await blockchainDB.queryRow<{ balance: string }>`
+      SELECT balance::text FROM user_balances WHERE user_id = ${userId} AND currency = ${currency}
+    `;
+    return Number(row?.balance ?? 0);
+  };
+
+  const cleanUp = async () => {
+    const users = [sender, recipient];
+    await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ANY(${users})`;
+    await blockchainDB.exec`DELETE FROM balance_transfers WHERE from_user_id = ANY(${users})`;
+    await blockchainDB.exec`DELETE FROM user_balances WHERE user_id = ANY(${users})`;
+    await blockchainDB.exec`DELETE FROM user_wallets WHERE user_id = ANY(${users})`;
+  };
+
+  beforeEach(async () => {
+    await cleanUp();
+    await blockchainDB.exec`
+      INSERT INTO user_balances (user_id, currency, balance)
+      VALUES (${sender}, 'ASM', 1000), (${sender}, 'USD', 50)
+    `;
+    await blockchainDB.exec`
+      INSERT INTO user_wallets (user_id, address, private_key_encrypted)
+      VALUES (${recipient}, ${recipientAddress}, 'test')
+    `;
+  });
+
+  afterEach(cleanUp);
+
+  it('should parse payment URIs', () => {
+    expect(parsePaymentUri('vqc:0xabc?amount=12.5&token=USD&memo=Lunch%20split')).toEqual({
+      address: '0xabc', amount: 12.5, token: 'USD', memo: 'Lunch split',
+    });
+    expect(parsePaymentUri('vqc:0xabc')).toEqual({ address: '0xabc', token: undefined, memo: undefined });
+    expect(() => parsePaymentUri('eth:0xabc')).toThrow();
+  });
+
+  it('should move the balance and record it for both parties', async () => {
+    const { transfer, replayed } = await transferBalance({
+      userId: sender, idempotencyKey: 'k-1', toUserId: recipient, amount: 250, currency: 'ASM', memo: 'Rent',
+    });
+
+    expect(replayed).toBe(false);
+    expect(transfer).toMatchObject({ fromUserId: sender, toUserId: recipient, amount: 250, memo: 'Rent' });
+    expect(await balanceOf(sender, 'ASM')).toBe(750);
+    expect(await balanceOf(recipient, 'ASM')).toBe(250);
+
+    const { transactions: sent } = await getTransactionHistory({ userId: sender });
+    expect(sent[0]).toMatchObject({ transactionType: 'transfer_out', counterpartyUserId: recipient, memo: 'Rent' });
+
+    const received = await getMobileTransactionHistory({ userId: recipient });
+    expect(received.total).toBe(1);
+    expect(received.transactions[0]).toMatchObject({ transaction_type: 'transfer_in', counterparty_user_id: sender });
+  });
+
+  it('should return the original transfer when retried with the same key', async () => {
+    const first = await transferBalance({ userId: sender, idempotencyKey: 'k-2', toUserId: recipient, amount: 100 });
+    const retry = await transferBalance({ userId: sender, idempotencyKey: 'k-2', toUserId: recipient, amount: 100 });
+
+    expect(retry.replayed).toBe(true);
+    expect(retry.transfer.id).toBe(first.transfer.id);
+    expect(await balanceOf(sender, 'ASM')).toBe(900);
+
+    await expect(
+      transferBalance({ userId: sender, idempotencyKey: 'k-2', toUserId: recipient, amount: 200 })
+    ).rejects.toThrow('Idempotency key was already used');
+  });
+
+  it('should pay a QR code payment request', async () => {
+    const { payload } = await generateTransactionQRCode({
+      type: 'transaction',
+      data: { to: recipientAddress, amount: '20', token: 'USD', memo: 'Invoice 7' },
+    });
+
+    const { transfer } = await transferBalance({ userId: sender, idempotencyKey: 'k-3', paymentUri: payload });
+
+    expect(transfer).toMatchObject({ toUserId: recipient, currency: 'USD', amount: 20, memo: 'Invoice 7' });
+    expect(await balanceOf(recipient, 'USD')).toBe(20);
+  });
+
+  it('should reject transfers the sender cannot cover', async () => {
+    await expect(
+      transferBalance({ userId: sender, idempotencyKey: 'k-4', toUserId: recipient, amount: 60, currency: 'USD' })
+    ).rejects.toThrow('Insufficient USD balance');
+    await expect(
+      transferBalance({ userId: sender, idempotencyKey: 'k-5', toUserId: 'test-user-nobody', amount: 1 })
+    ).rejects.toThrow('Recipient not found');
+  });
+});
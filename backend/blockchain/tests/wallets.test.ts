@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  addressFromPublicKey,
+  deriveChild,
+  derivePath,
+  entropyToMnemonic,
+  generateMnemonic,
+  keccak256,
+  masterNodeFromSeed,
+  mnemonicToEntropy,
+  mnemonicToSeed,
+  receiveChainFromMnemonic,
+} from '../hd_wallet';
+import { createReceiveAddress, listWalletAddresses, restoreWallet } from '../wallets';
+import { createWallet } from '../currency_exchange';
+import { transferBalance } from '../transfers';
+import { blockchainDB } from '../db';
+
+describe('HD Wallets', () => {
+  // BIP-39 test mnemonic for all-zero entropy
+  const mnemonic = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+  describe('derivation', () => {
+    it('should match the BIP-39 test vectors', () => {
+      expect(entropyToMnemonic(Buffer.alloc(16))).toBe(mnemonic);
+      expect(mnemonicToSeed(mnemonic, 'TREZOR').toString('hex')).toBe(
+        'c55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04'
+      );
+      expect(mnemonicToEntropy(generateMnemonic(256))).toHaveLength(32);
+    });
+
+    it('should reject unknown words and bad checksums', () => {
+      expect(() => mnemonicToEntropy(mnemonic.replace('about', 'abandon'))).toThrow('checksum is invalid');
+      expect(() => mnemonicToEntropy(mnemonic.replace('about', 'bitcoin1'))).toThrow('Unknown mnemonic word');
+      expect(() => mnemonicToEntropy('abandon about')).toThrow('Mnemonic must have');
+    });
+
+    it('should match the BIP-32 test vectors', () => {
+      const master = masterNodeFromSeed(Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex'));
+      expect(master.privateKey!.toString('hex')).toBe('e8f32e723decf4051aefac8e2c93c9c5b214313817cdb01a1494b917c8436b35');
+      expect(master.chainCode.toString('hex')).toBe('873dff81c02f525623fd1fe5167eac3a55a049de3d314bb42ee227ffed37d508');
+      expect(derivePath(master, "m/0'").privateKey!.toString('hex')).toBe(
+        'edb2e14f9ee77d26dd93b4ecede8d16ed408ce149b6cd80b0715a2d911a0afea'
+      );
+    });
+
+    it('should derive the same public children with and without the private key', () => {
+      const chain = receiveChainFromMnemonic(mnemonic);
+      const publicChain = { publicKey: chain.publicKey, chainCode: chain.chainCode };
+
+      for (const index of [0, 1, 7]) {
+        expect(deriveChild(publicChain, index).publicKey).toEqual(deriveChild(chain, index).publicKey);
+      }
+      expect(() => deriveChild(publicChain, 0x80000000)).toThrow('needs the private key');
+    });
+
+    it('should produce Ethereum addresses', () => {
+      expect(keccak256(Buffer.alloc(0)).toString('hex')).toBe('c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470');
+      const chain = receiveChainFromMnemonic(mnemonic);
+      expect(addressFromPublicKey(deriveChild(chain, 0).publicKey)).toBe('0x9858effd232b4033e47d90003d41ec34ecaeda94');
+    });
+  });
+
+  describe('endpoints', () => {
+    const userId = 'test-user-hd-wallet';
+    const otherUserId = 'test-user-hd-wallet-other';
+
+    afterEach(async () => {
+      const users = [userId, otherUserId];
+      await blockchainDB.exec`DELETE FROM currency_transactions WHERE user_id = ANY(${users})`;
+      await blockchainDB.exec`DELETE FROM balance_transfers WHERE from_user_id = ANY(${users})`;
+      await blockchainDB.exec`DELETE FROM user_wallets WHERE user_id = ANY(${users})`;
+    });
+
+    it('should restore a created wallet to the same address', async () => {
+      const { wallet, seedPhrase } = await createWallet({ userId });
+      expect(seedPhrase.split(' ')).toHaveLength(12);
+      expect(wallet.derivationPath).toBe("m/44'/60'/0'/0");
+
+      await blockchainDB.exec`DELETE FROM user_wallets WHERE user_id = ${userId}`;
+      const restored = await restoreWallet({ userId, mnemonic: seedPhrase, addressCount: 3 });
+      expect(restored.restored).toBe(true);
+      expect(restored.wallet.address).toBe(wallet.address);
+      expect(restored.addresses.map(a => a.derivationPath)).toEqual([
+        "m/44'/60'/0'/0/0", "m/44'/60'/0'/0/1", "m/44'/60'/0'/0/2",
+      ]);
+
+      const again = await restoreWallet({ userId, mnemonic: seedPhrase });
+      expect(again.restored).toBe(false);
+      expect(again.addresses).toHaveLength(3);
+    });
+
+    it('should not restore a wallet that belongs to another user', async () => {
+      await restoreWallet({ userId: otherUserId, mnemonic });
+
+      await expect(restoreWallet({ userId, mnemonic })).rejects.toThrow('belongs to another user');
+      await expect(restoreWallet({ userId: otherUserId, mnemonic: generateMnemonic() }))
+        .rejects.toThrow('already has a different wallet');
+    });
+
+    it('should derive receive addresses that accept transfers', async () => {
+      await restoreWallet({ userId, mnemonic });
+      const { address } = await createReceiveAddress({ userId, label: 'savings' });
+      expect(address).toMatchObject({ index: 1, label: 'savings' });
+      expect(address.address).toBe(addressFromPublicKey(deriveChild(receiveChainFromMnemonic(mnemonic), 1).publicKey));
+
+      const { addresses } = await listWalletAddresses({ userId });
+      expect(addresses.map(a => a.index)).toEqual([0, 1]);
+
+      // The address resolves to the wallet's owner; the unfunded sender then fails on balance
+      await expect(transferBalance({
+        userId: otherUserId, idempotencyKey: 'hd-1', toAddress: address.address, amount: 1, currency: 'USD',
+      })).rejects.toThrow('Insufficient USD balance');
+    });
+  });
+});
@@ -0,0 +1,248 @@
+import { api, APIError } from "encore.dev/api";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import { publishTransactionConfirmation } from "./notifications";
+import { invalidateCache } from "../shared/cache";
+import { assertCurrencyPrecision, CURRENCY_DECIMALS } from "./currency_exchange";
+import { movement, postJournalEntry, userAccount } from "./ledger";
+
+const MAX_MEMO_LENGTH = 140;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 128;
+
+export interface TransferRequest {
+  userId: string; // Sender
+  idempotencyKey: string; // Retrying with the same key returns the original transfer
+  toUserId?: string;
+  toAddress?: string; // Recipient's exchange wallet address or one of its receive addresses
+  paymentUri?: string; // vqc:<address>?amount=..&token=..&memo=.. as made by generateTransactionQRCode
+  amount?: number; // Required unless the payment URI carries it
+  currency?: string; // Defaults to the payment URI's token, then ASM
+  memo?: string;
+}
+
+export interface BalanceTransfer {
+  id: number;
+  fromUserId: string;
+  toUserId: string;
+  currency: string;
+  amount: number;
+  memo?: string;
+  idempotencyKey: string;
+  paymentUri?: string;
+  createdAt: Date;
+}
+
+export interface TransferResponse {
+  transfer: BalanceTransfer;
+  replayed: boolean; // True when the idempotency key matched an earlier transfer
+}
+
+export interface PaymentUri {
+  address: string;
+  amount?: number;
+  token?: string;
+  memo?: string;
+}
+
+interface BalanceTransferRow {
+  id: number;
+  from_user_id: string;
+  to_user_id: string;
+  currency: string;
+  amount: number;
+  memo: string | null;
+  idempotency_key: string;
+  payment_uri: string | null;
+  created_at: Date;
+}
+
+function toBalanceTransfer(row: BalanceTransferRow): BalanceTransfer {
+  return {
+    id: row.id,
+    fromUserId: row.from_user_id,
+    toUserId: row.to_user_id,
+    currency: row.currency,
+    amount: Number(row.amount),
+    memo: row.memo ?? undefined,
+    idempotencyKey: row.idempotency_key,
+    paymentUri: row.payment_uri ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+// Parses a vqc: payment URI into the recipient address and the optional amount, token and memo.
+export function parsePaymentUri(uri: string): PaymentUri {
+  if (!uri.startsWith('vqc:')) {
+    throw APIError.invalidArgument("Payment URI must start with 'vqc:'");
+  }
+  const queryStart = uri.indexOf('?');
+  const address = uri.slice(4, queryStart === -1 ? undefined : queryStart);
+  if (!address) {
+    throw APIError.invalidArgument("Payment URI has no address");
+  }
+
+  const params = new URLSearchParams(queryStart === -1 ? '' : uri.slice(queryStart + 1));
+  const result: PaymentUri = { address };
+  const amount = params.get('amount');
+  if (amount !== null) {
+    result.amount = Number(amount);
+    if (!(result.amount > 0)) {
+      throw APIError.invalidArgument("Payment URI has an invalid amount");
+    }
+  }
+  result.token = params.get('token') ?? undefined;
+  result.memo = params.get('memo') ?? undefined;
+  return result;
+}
+
+// Works out who receives a transfer, how much and in what currency, from the explicit fields
+// and the payment URI, which must agree where both are given.
+async function resolveTransfer(req: TransferRequest): Promise<{ toUserId: string; amount: number; currency: string; memo?: string }> {
+  const recipients = [req.toUserId, req.toAddress, req.paymentUri].filter(r => r !== undefined && r !== '');
+  if (recipients.length !== 1) {
+    throw APIError.invalidArgument("Provide exactly one of toUserId, toAddress or paymentUri");
+  }
+
+  const uri = req.paymentUri ? parsePaymentUri(req.paymentUri) : undefined;
+  if (uri?.amount !== undefined && req.amount !== undefined && Math.abs(uri.amount - req.amount) >= 1e-8) {
+    throw APIError.invalidArgument("Amount does not match the payment URI");
+  }
+  if (uri?.token !== undefined && req.currency !== undefined && uri.token !== req.currency) {
+    throw APIError.invalidArgument("Currency does not match the payment URI");
+  }
+
+  const amount = req.amount ?? uri?.amount;
+  const currency = req.currency ?? uri?.token ?? 'ASM';
+  const memo = req.memo ?? uri?.memo;
+  if (amount === undefined || !(amount > 0)) {
+    throw APIError.invalidArgument("Amount must be positive");
+  }
+  if (CURRENCY_DECIMALS[currency] === undefined) {
+    throw APIError.invalidArgument(`Unsupported currency: ${currency}`);
+  }
+  assertCurrencyPrecision(amount, currency);
+  if (memo !== undefined && memo.length > MAX_MEMO_LENGTH) {
+    throw APIError.invalidArgument(`Memo must be at most ${MAX_MEMO_LENGTH} characters`);
+  }
+
+  let toUserId: string | undefined;
+  const address = req.toAddress ?? uri?.address;
+  if (address !== undefined) {
+    const wallet = await blockchainDB.queryRow<{ user_id: string }>`
+      SELECT user_id FROM user_wallets WHERE LOWER(address) = LOWER(${address})
+      UNION
+      SELECT w.user_id FROM wallet_addresses a JOIN user_wallets w ON w.id = a.wallet_id
+      WHERE LOWER(a.address) = LOWER(${address})
+      LIMIT 1
+    `;
+    toUserId = wallet?.user_id;
+  } else {
+    const known = await blockchainDB.queryRow<{ user_id: string }>`
+      SELECT user_id FROM user_wallets WHERE user_id = ${req.toUserId!}
+      UNION
+      SELECT user_id FROM user_balances WHERE user_id = ${req.toUserId!}
+      LIMIT 1
+    `;
+    toUserId = known?.user_id;
+  }
+  if (!toUserId) {
+    throw APIError.notFound("Recipient not found");
+  }
+  if (toUserId === req.userId) {
+    throw APIError.invalidArgument("Cannot transfer to yourself");
+  }
+
+  return { toUserId, amount, currency, memo };
+}
+
+// Sends ASM, USD or another exchange currency from one user's balance to another's. The
+// transfer is recorded for both parties in currency_transactions.
+export const transferBalance = api<TransferRequest, TransferResponse>(
+  { expose: true, method: "POST", path: "/exchange/transfer" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/transfer", "POST", async () => {
+      if (!req.userId) {
+        throw APIError.invalidArgument("userId is required");
+      }
+      if (!req.idempotencyKey || req.idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+        throw APIError.invalidArgument(`idempotencyKey is required and at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`);
+      }
+
+      const { toUserId, amount, currency, memo } = await resolveTransfer(req);
+
+      await using tx = await blockchainDB.begin();
+
+      try {
+        const row = await tx.queryRow<BalanceTransferRow>`
+          INSERT INTO balance_transfers (from_user_id, to_user_id, currency, amount, memo, idempotency_key, payment_uri)
+          VALUES (${req.userId}, ${toUserId}, ${currency}, ${amount}, ${memo ?? null}, ${req.idempotencyKey}, ${req.paymentUri ?? null})
+          ON CONFLICT (from_user_id, idempotency_key) DO NOTHING
+          RETURNING *
+        `;
+
+        if (!row) {
+          // A retry: return the original transfer, provided it is the same transfer
+          const existing = await tx.queryRow<BalanceTransferRow>`
+            SELECT * FROM balance_transfers
+            WHERE from_user_id = ${req.userId} AND idempotency_key = ${req.idempotencyKey}
+          `;
+          if (
+            existing!.to_user_id !== toUserId ||
+            existing!.currency !== currency ||
+            Math.abs(Number(existing!.amount) - amount) >= 1e-8
+          ) {
+            throw APIError.alreadyExists("Idempotency key was already used for a different transfer");
+          }
+          await tx.rollback();
+          return { transfer: toBalanceTransfer(existing!), replayed: true };
+        }
+
+        await postJournalEntry(tx, {
+          entryType: 'transfer',
+          reference: `transfer:${row.id}`,
+          lines: movement(userAccount(req.userId), userAccount(toUserId), currency, amount),
+        });
+
+        await tx.exec`
+          INSERT INTO currency_transactions (
+            user_id, transaction_type, from_currency, to_currency,
+            from_amount, to_amount, exchange_rate, fee_amount, status, completed_at,
+            transfer_id, counterparty_user_id, memo
+          )
+          VALUES
+            (${req.userId}, 'transfer_out', ${currency}, ${currency}, ${amount}, ${amount}, 1, 0, 'completed', NOW(),
+             ${row.id}, ${toUserId}, ${memo ?? null}),
+            (${toUserId}, 'transfer_in', ${currency}, ${currency}, ${amount}, ${amount}, 1, 0, 'completed', NOW(),
+             ${row.id}, ${req.userId}, ${memo ?? null})
+        `;
+
+        await tx.commit();
+
+        invalidateCache(`user-balances:${req.userId}`);
+        invalidateCache(`user-balances:${toUserId}`);
+
+        const transfer = toBalanceTransfer(row);
+        const memoSuffix = memo ? ` (${memo})` : '';
+        await publishTransactionConfirmation({
+          userId: req.userId,
+          type: 'transfer',
+          status: 'completed',
+          message: `Sent ${amount} ${currency} to ${toUserId}${memoSuffix}.`,
+          details: transfer,
+        });
+        await publishTransactionConfirmation({
+          userId: toUserId,
+          type: 'transfer',
+          status: 'completed',
+          message: `Received ${amount} ${currency} from ${req.userId}${memoSuffix}.`,
+          details: transfer,
+        });
+
+        return { transfer, replayed: false };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
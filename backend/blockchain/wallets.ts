@@ -0,0 +1,276 @@
+import { api, APIError } from "encore.dev/api";
+import crypto from "crypto";
+import { monitoredBlockchainDB as blockchainDB } from "./db";
+import { withPerformanceMonitoring } from "./health";
+import type { UserWallet } from "./currency_exchange";
+import {
+  addressFromPublicKey,
+  deriveChild,
+  receiveChainFromMnemonic,
+  RECEIVE_CHAIN_PATH,
+  type HDNode,
+} from "./hd_wallet";
+
+// Restores derive this many receive addresses at most, the BIP-44 address gap limit
+const MAX_RESTORE_ADDRESSES = 20;
+const MAX_RECEIVE_ADDRESSES = 100;
+const MAX_LABEL_LENGTH = 64;
+
+export interface WalletAddress {
+  address: string;
+  derivationPath: string;
+  index: number;
+  label?: string;
+  createdAt: Date;
+}
+
+export interface RestoreWalletRequest {
+  userId: string;
+  mnemonic: string;
+  passphrase?: string; // The optional BIP-39 passphrase the wallet was created with
+  addressCount?: number; // Receive addresses to recreate, from index 0; defaults to 1
+}
+
+export interface RestoreWalletResponse {
+  wallet: UserWallet;
+  addresses: WalletAddress[];
+  restored: boolean; // False when the user already had this wallet
+}
+
+export interface CreateReceiveAddressRequest {
+  userId: string;
+  label?: string;
+}
+
+export interface CreateReceiveAddressResponse {
+  address: WalletAddress;
+}
+
+export interface ListWalletAddressesRequest {
+  userId: string;
+}
+
+export interface ListWalletAddressesResponse {
+  addresses: WalletAddress[];
+}
+
+interface WalletRow {
+  id: number;
+  user_id: string;
+  address: string;
+  derivation_path: string | null;
+  receive_public_key: string | null;
+  receive_chain_code: string | null;
+  created_at: Date;
+  last_accessed: Date;
+}
+
+interface WalletAddressRow {
+  address: string;
+  derivation_index: number;
+  label: string | null;
+  created_at: Date;
+}
+
+export function toUserWallet(row: WalletRow): UserWallet {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    address: row.address,
+    derivationPath: row.derivation_path ?? undefined,
+    createdAt: row.created_at,
+    lastAccessed: row.last_accessed,
+  };
+}
+
+function toWalletAddress(row: WalletAddressRow): WalletAddress {
+  return {
+    address: row.address,
+    derivationPath: `${RECEIVE_CHAIN_PATH}/${row.derivation_index}`,
+    index: row.derivation_index,
+    label: row.label ?? undefined,
+    createdAt: row.created_at,
+  };
+}
+
+function receiveAddressAt(chain: HDNode, index: number): string {
+  return addressFromPublicKey(deriveChild(chain, index).publicKey);
+}
+
+async function insertReceiveAddresses(tx: any, walletId: number, chain: HDNode, fromIndex: number, toIndex: number, label?: string) {
+  for (let index = fromIndex; index < toIndex; index++) {
+    await tx.exec`
+      INSERT INTO wallet_addresses (wallet_id, address, derivation_index, label)
+      VALUES (${walletId}, ${receiveAddressAt(chain, index)}, ${index}, ${label ?? null})
+      ON CONFLICT (wallet_id, derivation_index) DO NOTHING
+    `;
+  }
+}
+
+async function listAddresses(db: any, walletId: number): Promise<WalletAddress[]> {
+  const rows = await db.queryAll`
+    SELECT address, derivation_index, label, created_at
+    FROM wallet_addresses
+    WHERE wallet_id = ${walletId}
+    ORDER BY derivation_index
+  ` as WalletAddressRow[];
+  return rows.map(toWalletAddress);
+}
+
+// Stores the wallet of a mnemonic's receive chain for a user. The wallet address is receive
+// address 0; only the chain's public node is kept, so later addresses can be derived but not
+// spent from without the mnemonic.
+export async function insertHdWallet(tx: any, userId: string, chain: HDNode): Promise<UserWallet> {
+  const first = deriveChild(chain, 0);
+  const encryptedPrivateKey = crypto.createHash('sha256')
+    .update(first.privateKey!.toString('hex') + userId)
+    .digest('hex');
+
+  const row = await tx.queryRow`
+    INSERT INTO user_wallets (
+      user_id, address, private_key_encrypted, derivation_path, receive_public_key, receive_chain_code
+    )
+    VALUES (
+      ${userId}, ${addressFromPublicKey(first.publicKey)}, ${encryptedPrivateKey}, ${RECEIVE_CHAIN_PATH},
+      ${chain.publicKey.toString('hex')}, ${chain.chainCode.toString('hex')}
+    )
+    RETURNING *
+  ` as WalletRow;
+  await insertReceiveAddresses(tx, row.id, chain, 0, 1);
+  return toUserWallet(row);
+}
+
+// Recreates a user's wallet from its recovery phrase. Restoring the wallet the user already
+// has is a no-op apart from recreating missing receive addresses.
+export const restoreWallet = api<RestoreWalletRequest, RestoreWalletResponse>(
+  { expose: true, method: "POST", path: "/exchange/wallet/restore" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/wallet/restore", "POST", async () => {
+      if (!req.userId) {
+        throw APIError.invalidArgument("userId is required");
+      }
+      if (!req.mnemonic) {
+        throw APIError.invalidArgument("mnemonic is required");
+      }
+      const addressCount = req.addressCount ?? 1;
+      if (!Number.isInteger(addressCount) || addressCount < 1 || addressCount > MAX_RESTORE_ADDRESSES) {
+        throw APIError.invalidArgument(`addressCount must be between 1 and ${MAX_RESTORE_ADDRESSES}`);
+      }
+
+      const chain = receiveChainFromMnemonic(req.mnemonic, req.passphrase);
+      const address = receiveAddressAt(chain, 0);
+
+      await using tx = await blockchainDB.begin();
+
+      try {
+        const owner = await tx.queryRow<{ user_id: string }>`
+          SELECT user_id FROM user_wallets WHERE LOWER(address) = ${address}
+        `;
+        if (owner && owner.user_id !== req.userId) {
+          throw APIError.alreadyExists("This wallet belongs to another user");
+        }
+
+        const existing = await tx.queryRow<WalletRow>`
+          SELECT * FROM user_wallets WHERE user_id = ${req.userId} FOR UPDATE
+        `;
+        if (existing && existing.address.toLowerCase() !== address) {
+          throw APIError.alreadyExists("User already has a different wallet");
+        }
+
+        let wallet: UserWallet;
+        if (existing) {
+          const row = await tx.queryRow<WalletRow>`
+            UPDATE user_wallets
+            SET derivation_path = ${RECEIVE_CHAIN_PATH},
+                receive_public_key = ${chain.publicKey.toString('hex')},
+                receive_chain_code = ${chain.chainCode.toString('hex')},
+                last_accessed = NOW()
+            WHERE id = ${existing.id}
+            RETURNING *
+          `;
+          wallet = toUserWallet(row!);
+        } else {
+          wallet = await insertHdWallet(tx, req.userId, chain);
+        }
+        await insertReceiveAddresses(tx, wallet.id, chain, 0, addressCount);
+        const addresses = await listAddresses(tx, wallet.id);
+
+        await tx.commit();
+        return { wallet, addresses, restored: !existing };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Derives the wallet's next receive address from its stored receive chain.
+export const createReceiveAddress = api<CreateReceiveAddressRequest, CreateReceiveAddressResponse>(
+  { expose: true, method: "POST", path: "/exchange/wallet/addresses" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/wallet/addresses", "POST", async () => {
+      if (!req.userId) {
+        throw APIError.invalidArgument("userId is required");
+      }
+      if (req.label !== undefined && req.label.length > MAX_LABEL_LENGTH) {
+        throw APIError.invalidArgument(`Label must be at most ${MAX_LABEL_LENGTH} characters`);
+      }
+
+      await using tx = await blockchainDB.begin();
+
+      try {
+        const wallet = await tx.queryRow<WalletRow>`
+          SELECT * FROM user_wallets WHERE user_id = ${req.userId} FOR UPDATE
+        `;
+        if (!wallet) {
+          throw APIError.notFound("Wallet not found");
+        }
+        if (!wallet.receive_public_key || !wallet.receive_chain_code) {
+          throw APIError.failedPrecondition("Wallet has no recovery phrase to derive addresses from; restore it from a mnemonic first");
+        }
+
+        const next = await tx.queryRow<{ index: number }>`
+          SELECT COALESCE(MAX(derivation_index) + 1, 0)::int AS index FROM wallet_addresses WHERE wallet_id = ${wallet.id}
+        `;
+        const index = next!.index;
+        if (index >= MAX_RECEIVE_ADDRESSES) {
+          throw APIError.resourceExhausted(`A wallet can have at most ${MAX_RECEIVE_ADDRESSES} receive addresses`);
+        }
+
+        const chain: HDNode = {
+          publicKey: Buffer.from(wallet.receive_public_key, 'hex'),
+          chainCode: Buffer.from(wallet.receive_chain_code, 'hex'),
+        };
+        await insertReceiveAddresses(tx, wallet.id, chain, index, index + 1, req.label);
+        const row = await tx.queryRow<WalletAddressRow>`
+          SELECT address, derivation_index, label, created_at
+          FROM wallet_addresses
+          WHERE wallet_id = ${wallet.id} AND derivation_index = ${index}
+        `;
+
+        await tx.commit();
+        return { address: toWalletAddress(row!) };
+      } catch (error) {
+        await tx.rollback();
+        throw error;
+      }
+    });
+  }
+);
+
+// Lists a wallet's receive addresses, oldest first.
+export const listWalletAddresses = api<ListWalletAddressesRequest, ListWalletAddressesResponse>(
+  { expose: true, method: "GET", path: "/exchange/wallet/addresses/:userId" },
+  async (req) => {
+    return withPerformanceMonitoring("/exchange/wallet/addresses/:userId", "GET", async () => {
+      const wallet = await blockchainDB.queryRow<{ id: number }>`
+        SELECT id FROM user_wallets WHERE user_id = ${req.userId}
+      `;
+      if (!wallet) {
+        throw APIError.notFound("Wallet not found");
+      }
+      return { addresses: await listAddresses(blockchainDB, wallet.id) };
+    });
+  }
+);
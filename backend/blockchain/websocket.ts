@@ -3,7 +3,7 @@ import { monitoredBlockchainDB as blockchainDB } from "./db";
 import log from "encore.dev/log";
 
 export interface BlockchainEvent {
-  type: 'new_block' | 'new_transaction' | 'contract_deployment' | 'token_transfer' | 'swap' | 'liquidity_change' | 'system';
+  type: 'new_block' | 'new_transaction' | 'contract_deployment' | 'token_transfer' | 'swap' | 'liquidity_change' | 'order_book' | 'system';
   timestamp: Date;
   data: any;
   blockNumber?: number;
@@ -17,6 +17,7 @@ export interface MonitoringHandshake {
     addresses?: string[];
     contracts?: string[];
     minValue?: string;
+    pairs?: string[]; // Order book pairs, e.g. 'ASM/USD'
   };
 }
 
@@ -31,6 +32,7 @@ let lastProcessedContract = 0;
 let lastProcessedTokenTransfer = 0;
 let lastProcessedSwap = 0;
 let lastProcessedLiquidityChange = 0;
+let lastProcessedOrderBookEvent = 0;
 
 function getSubscriptionType(eventType: BlockchainEvent['type']): string {
   switch (eventType) {
@@ -40,6 +42,7 @@ function getSubscriptionType(eventType: BlockchainEvent['type']): string {
     case 'token_transfer': return 'token_transfers';
     case 'swap': return 'swaps';
     case 'liquidity_change': return 'liquidity';
+    case 'order_book': return 'order_book';
     case 'system': return 'system';
     default: return '';
   }
@@ -80,6 +83,13 @@ async function broadcastEvent(event: BlockchainEvent) {
             }
           }
         }
+        if (event.type === 'order_book') {
+          if (handshake.filters.pairs && handshake.filters.pairs.length > 0) {
+            if (!handshake.filters.pairs.includes(event.data.pair)) {
+              continue;
+            }
+          }
+        }
       }
 
       await stream.send(event);
@@ -324,6 +334,45 @@ async function checkForLiquidityChanges() {
   }
 }
 
+async function checkForOrderBookUpdates() {
+  const events = await blockchainDB.queryAll<{
+    id: number;
+    pair: string;
+    event_type: 'level' | 'trade';
+    side: 'buy' | 'sell';
+    price: number;
+    quantity: number;
+    trade_id: number | null;
+    created_at: Date;
+  }>`
+    SELECT id, pair, event_type, side, price, quantity, trade_id, created_at
+    FROM order_book_events
+    WHERE id > ${lastProcessedOrderBookEvent}
+    ORDER BY id ASC
+    LIMIT 50
+  `;
+
+  for (const event of events) {
+    // Level updates carry the new total at side/price, 0 when the level is gone;
+    // trades carry the taker side
+    await broadcastEvent({
+      type: 'order_book',
+      timestamp: new Date(),
+      data: {
+        sequence: event.id,
+        pair: event.pair,
+        eventType: event.event_type,
+        side: event.side,
+        price: Number(event.price),
+        quantity: Number(event.quantity),
+        tradeId: event.trade_id ?? undefined,
+        timestamp: event.created_at,
+      }
+    });
+    lastProcessedOrderBookEvent = Math.max(lastProcessedOrderBookEvent, event.id);
+  }
+}
+
 async function pollAndBroadcast() {
   if (connectedStreams.size === 0) return;
 
@@ -335,6 +384,7 @@ async function pollAndBroadcast() {
       checkForTokenTransfers(),
       checkForSwaps(),
       checkForLiquidityChanges(),
+      checkForOrderBookUpdates(),
     ]);
   } catch (err) {
     log.error("Error in blockchain monitoring loop:", err);
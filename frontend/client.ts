@@ -94,6 +94,7 @@ import {
 import {
     addLiquidity as api_blockchain_amm_addLiquidity,
     claimRewards as api_blockchain_amm_claimRewards,
+    createPool as api_blockchain_amm_createPool,
     executeFlashLoan as api_blockchain_amm_executeFlashLoan,
     executeSwap as api_blockchain_amm_executeSwap,
     getLiquidityPools as api_blockchain_amm_getLiquidityPools,
@@ -101,9 +102,38 @@ import {
     getUserLiquidityPositions as api_blockchain_amm_getUserLiquidityPositions,
     getUserStakingPositions as api_blockchain_amm_getUserStakingPositions,
     getYieldFarms as api_blockchain_amm_getYieldFarms,
+    removeLiquidity as api_blockchain_amm_removeLiquidity,
     stakeLPTokens as api_blockchain_amm_stakeLPTokens,
     unstakeLPTokens as api_blockchain_amm_unstakeLPTokens
 } from "~backend/blockchain/amm";
+import {
+    createYieldFarm as api_blockchain_amm_farms_createYieldFarm,
+    endYieldFarm as api_blockchain_amm_farms_endYieldFarm,
+    extendYieldFarm as api_blockchain_amm_farms_extendYieldFarm,
+    fundYieldFarm as api_blockchain_amm_farms_fundYieldFarm
+} from "~backend/blockchain/amm_farms";
+import { getPoolCandles as api_blockchain_amm_history_getPoolCandles } from "~backend/blockchain/amm_history";
+import { getPoolOraclePrice as api_blockchain_amm_oracle_getPoolOraclePrice } from "~backend/blockchain/amm_oracle";
+import {
+    cancelAMMOrder as api_blockchain_amm_orders_cancelAMMOrder,
+    createAMMOrder as api_blockchain_amm_orders_createAMMOrder,
+    listAMMOrders as api_blockchain_amm_orders_listAMMOrders
+} from "~backend/blockchain/amm_orders";
+import { getLiquidityPositionPnL as api_blockchain_amm_positions_getLiquidityPositionPnL } from "~backend/blockchain/amm_positions";
+import {
+    getTreasuryBalances as api_blockchain_amm_treasury_getTreasuryBalances,
+    getTreasuryLedger as api_blockchain_amm_treasury_getTreasuryLedger,
+    setPoolProtocolFee as api_blockchain_amm_treasury_setPoolProtocolFee,
+    withdrawFromTreasury as api_blockchain_amm_treasury_withdrawFromTreasury
+} from "~backend/blockchain/amm_treasury";
+import {
+    createFarmVault as api_blockchain_amm_vaults_createFarmVault,
+    depositToVault as api_blockchain_amm_vaults_depositToVault,
+    getFarmVaults as api_blockchain_amm_vaults_getFarmVaults,
+    getUserVaultPositions as api_blockchain_amm_vaults_getUserVaultPositions,
+    harvestVault as api_blockchain_amm_vaults_harvestVault,
+    withdrawFromVault as api_blockchain_amm_vaults_withdrawFromVault
+} from "~backend/blockchain/amm_vaults";
 import {
     getBridgeAnalytics as api_blockchain_analytics_getBridgeAnalytics,
     getFlashLoanAnalytics as api_blockchain_analytics_getFlashLoanAnalytics,
@@ -111,6 +141,7 @@ import {
     getSystemHealthMetrics as api_blockchain_analytics_getSystemHealthMetrics
 } from "~backend/blockchain/analytics";
 import {
+    getBridgeLimits as api_blockchain_bridge_getBridgeLimits,
     getBridgeTransferStatus as api_blockchain_bridge_getBridgeTransferStatus,
     getUserBridgeTransfers as api_blockchain_bridge_getUserBridgeTransfers,
     initiateBridgeTransfer as api_blockchain_bridge_initiateBridgeTransfer,
@@ -124,6 +155,7 @@ import {
 } from "~backend/blockchain/contracts";
 import {
     buyTokens as api_blockchain_currency_exchange_buyTokens,
+    createExchangeQuote as api_blockchain_currency_exchange_createExchangeQuote,
     createWallet as api_blockchain_currency_exchange_createWallet,
     getExchangeRates as api_blockchain_currency_exchange_getExchangeRates,
     getTransactionHistory as api_blockchain_currency_exchange_getTransactionHistory,
@@ -145,14 +177,24 @@ import {
     getTransactionAnalytics as api_blockchain_explorer_enhanced_getTransactionAnalytics
 } from "~backend/blockchain/explorer_enhanced";
 import {
+    cancelProposal as api_blockchain_governance_cancelProposal,
     castVote as api_blockchain_governance_castVote,
     createProposal as api_blockchain_governance_createProposal,
-    listProposals as api_blockchain_governance_listProposals
+    executeProposal as api_blockchain_governance_executeProposal,
+    getGovernanceParameters as api_blockchain_governance_getGovernanceParameters,
+    listProposalVotes as api_blockchain_governance_listProposalVotes,
+    listProposals as api_blockchain_governance_listProposals,
+    updateGovernanceParameters as api_blockchain_governance_updateGovernanceParameters
 } from "~backend/blockchain/governance";
 import {
     getPerformanceMetrics as api_blockchain_health_getPerformanceMetrics,
     getSystemHealth as api_blockchain_health_getSystemHealth
 } from "~backend/blockchain/health";
+import {
+    getBalanceDiscrepancies as api_blockchain_ledger_getBalanceDiscrepancies,
+    getUserJournal as api_blockchain_ledger_getUserJournal,
+    reconcileLedger as api_blockchain_ledger_reconcileLedger
+} from "~backend/blockchain/ledger";
 import {
     buyNFT as api_blockchain_marketplace_buyNFT,
     getNFTListings as api_blockchain_marketplace_getNFTListings,
@@ -172,6 +214,34 @@ import {
     getPeers as api_blockchain_network_getPeers,
     getValidators as api_blockchain_network_getValidators
 } from "~backend/blockchain/network";
+import {
+    cancelExchangeOrder as api_blockchain_order_book_cancelExchangeOrder,
+    getExchangeTrades as api_blockchain_order_book_getExchangeTrades,
+    getOrderBookDepth as api_blockchain_order_book_getOrderBookDepth,
+    listExchangeOrders as api_blockchain_order_book_listExchangeOrders,
+    placeExchangeOrder as api_blockchain_order_book_placeExchangeOrder
+} from "~backend/blockchain/order_book";
+import {
+    setManualExchangeRate as api_blockchain_rate_providers_setManualExchangeRate,
+    upsertExchangeRateFeed as api_blockchain_rate_providers_upsertExchangeRateFeed
+} from "~backend/blockchain/rate_providers";
+import {
+    cancelRecurringBuy as api_blockchain_recurring_buys_cancelRecurringBuy,
+    createRecurringBuy as api_blockchain_recurring_buys_createRecurringBuy,
+    getRecurringBuy as api_blockchain_recurring_buys_getRecurringBuy,
+    listRecurringBuys as api_blockchain_recurring_buys_listRecurringBuys,
+    updateRecurringBuy as api_blockchain_recurring_buys_updateRecurringBuy
+} from "~backend/blockchain/recurring_buys";
+import {
+    exportTaxReport as api_blockchain_tax_lots_exportTaxReport,
+    getCostBasis as api_blockchain_tax_lots_getCostBasis
+} from "~backend/blockchain/tax_lots";
+import { transferBalance as api_blockchain_transfers_transferBalance } from "~backend/blockchain/transfers";
+import {
+    createReceiveAddress as api_blockchain_wallets_createReceiveAddress,
+    listWalletAddresses as api_blockchain_wallets_listWalletAddresses,
+    restoreWallet as api_blockchain_wallets_restoreWallet
+} from "~backend/blockchain/wallets";
 import {
     blockchainMonitorStream as api_blockchain_websocket_blockchainMonitorStream,
     getConnectedClients as api_blockchain_websocket_getConnectedClients
@@ -190,62 +260,112 @@ export namespace blockchain {
             this.blockchainMonitorStream = this.blockchainMonitorStream.bind(this)
             this.buyNFT = this.buyNFT.bind(this)
             this.buyTokens = this.buyTokens.bind(this)
+            this.cancelAMMOrder = this.cancelAMMOrder.bind(this)
+            this.cancelExchangeOrder = this.cancelExchangeOrder.bind(this)
+            this.cancelProposal = this.cancelProposal.bind(this)
+            this.cancelRecurringBuy = this.cancelRecurringBuy.bind(this)
             this.castVote = this.castVote.bind(this)
             this.claimRewards = this.claimRewards.bind(this)
+            this.createAMMOrder = this.createAMMOrder.bind(this)
+            this.createExchangeQuote = this.createExchangeQuote.bind(this)
+            this.createFarmVault = this.createFarmVault.bind(this)
+            this.createPool = this.createPool.bind(this)
             this.createProposal = this.createProposal.bind(this)
+            this.createReceiveAddress = this.createReceiveAddress.bind(this)
+            this.createRecurringBuy = this.createRecurringBuy.bind(this)
             this.createWallet = this.createWallet.bind(this)
+            this.createYieldFarm = this.createYieldFarm.bind(this)
             this.deployAssimilatorToken = this.deployAssimilatorToken.bind(this)
             this.deployVQCInfrastructure = this.deployVQCInfrastructure.bind(this)
+            this.depositToVault = this.depositToVault.bind(this)
+            this.endYieldFarm = this.endYieldFarm.bind(this)
             this.executeFlashLoan = this.executeFlashLoan.bind(this)
+            this.executeProposal = this.executeProposal.bind(this)
             this.executeSwap = this.executeSwap.bind(this)
+            this.exportTaxReport = this.exportTaxReport.bind(this)
+            this.extendYieldFarm = this.extendYieldFarm.bind(this)
+            this.fundYieldFarm = this.fundYieldFarm.bind(this)
             this.generateTransactionQRCode = this.generateTransactionQRCode.bind(this)
             this.getAutocompleteSuggestions = this.getAutocompleteSuggestions.bind(this)
+            this.getBalanceDiscrepancies = this.getBalanceDiscrepancies.bind(this)
             this.getBlockDetails = this.getBlockDetails.bind(this)
             this.getBridgeAnalytics = this.getBridgeAnalytics.bind(this)
+            this.getBridgeLimits = this.getBridgeLimits.bind(this)
             this.getBridgeTransferStatus = this.getBridgeTransferStatus.bind(this)
             this.getChainInfo = this.getChainInfo.bind(this)
             this.getConnectedClients = this.getConnectedClients.bind(this)
             this.getContractDetails = this.getContractDetails.bind(this)
+            this.getCostBasis = this.getCostBasis.bind(this)
             this.getExchangeRates = this.getExchangeRates.bind(this)
+            this.getExchangeTrades = this.getExchangeTrades.bind(this)
+            this.getFarmVaults = this.getFarmVaults.bind(this)
             this.getFlashLoanAnalytics = this.getFlashLoanAnalytics.bind(this)
+            this.getGovernanceParameters = this.getGovernanceParameters.bind(this)
             this.getLatestBlocks = this.getLatestBlocks.bind(this)
             this.getLatestTransactions = this.getLatestTransactions.bind(this)
             this.getLiquidityPools = this.getLiquidityPools.bind(this)
+            this.getLiquidityPositionPnL = this.getLiquidityPositionPnL.bind(this)
             this.getMobileTransactionHistory = this.getMobileTransactionHistory.bind(this)
             this.getNFTListings = this.getNFTListings.bind(this)
             this.getNetworkStats = this.getNetworkStats.bind(this)
             this.getNetworkStatus = this.getNetworkStatus.bind(this)
+            this.getOrderBookDepth = this.getOrderBookDepth.bind(this)
             this.getPeers = this.getPeers.bind(this)
             this.getPerformanceMetrics = this.getPerformanceMetrics.bind(this)
+            this.getPoolCandles = this.getPoolCandles.bind(this)
+            this.getPoolOraclePrice = this.getPoolOraclePrice.bind(this)
             this.getProtocolAnalytics = this.getProtocolAnalytics.bind(this)
             this.getProtocolStatus = this.getProtocolStatus.bind(this)
+            this.getRecurringBuy = this.getRecurringBuy.bind(this)
             this.getSearchHistory = this.getSearchHistory.bind(this)
             this.getSwapQuote = this.getSwapQuote.bind(this)
             this.getSystemHealth = this.getSystemHealth.bind(this)
             this.getSystemHealthMetrics = this.getSystemHealthMetrics.bind(this)
             this.getTransactionAnalytics = this.getTransactionAnalytics.bind(this)
             this.getTransactionHistory = this.getTransactionHistory.bind(this)
+            this.getTreasuryBalances = this.getTreasuryBalances.bind(this)
+            this.getTreasuryLedger = this.getTreasuryLedger.bind(this)
             this.getUserBalances = this.getUserBalances.bind(this)
             this.getUserBridgeTransfers = this.getUserBridgeTransfers.bind(this)
+            this.getUserJournal = this.getUserJournal.bind(this)
             this.getUserLiquidityPositions = this.getUserLiquidityPositions.bind(this)
             this.getUserNFTs = this.getUserNFTs.bind(this)
             this.getUserStakingPositions = this.getUserStakingPositions.bind(this)
+            this.getUserVaultPositions = this.getUserVaultPositions.bind(this)
             this.getValidators = this.getValidators.bind(this)
             this.getYieldFarms = this.getYieldFarms.bind(this)
+            this.harvestVault = this.harvestVault.bind(this)
             this.initiateBridgeTransfer = this.initiateBridgeTransfer.bind(this)
+            this.listAMMOrders = this.listAMMOrders.bind(this)
             this.listContracts = this.listContracts.bind(this)
+            this.listExchangeOrders = this.listExchangeOrders.bind(this)
             this.listNFT = this.listNFT.bind(this)
+            this.listProposalVotes = this.listProposalVotes.bind(this)
             this.listProposals = this.listProposals.bind(this)
+            this.listRecurringBuys = this.listRecurringBuys.bind(this)
+            this.listWalletAddresses = this.listWalletAddresses.bind(this)
             this.masterActivation = this.masterActivation.bind(this)
+            this.placeExchangeOrder = this.placeExchangeOrder.bind(this)
+            this.reconcileLedger = this.reconcileLedger.bind(this)
             this.registerForPushNotifications = this.registerForPushNotifications.bind(this)
             this.registerWalletKeys = this.registerWalletKeys.bind(this)
+            this.removeLiquidity = this.removeLiquidity.bind(this)
+            this.restoreWallet = this.restoreWallet.bind(this)
             this.search = this.search.bind(this)
             this.seedBlockchainData = this.seedBlockchainData.bind(this)
             this.sellTokens = this.sellTokens.bind(this)
+            this.setManualExchangeRate = this.setManualExchangeRate.bind(this)
+            this.setPoolProtocolFee = this.setPoolProtocolFee.bind(this)
             this.signBridgeTransfer = this.signBridgeTransfer.bind(this)
             this.stakeLPTokens = this.stakeLPTokens.bind(this)
+            this.transferBalance = this.transferBalance.bind(this)
             this.unstakeLPTokens = this.unstakeLPTokens.bind(this)
+            this.updateGovernanceParameters = this.updateGovernanceParameters.bind(this)
+            this.updateRecurringBuy = this.updateRecurringBuy.bind(this)
+            this.upsertExchangeRateFeed = this.upsertExchangeRateFeed.bind(this)
             this.validateQRCode = this.validateQRCode.bind(this)
+            this.withdrawFromTreasury = this.withdrawFromTreasury.bind(this)
+            this.withdrawFromVault = this.withdrawFromVault.bind(this)
         }
 
         public async activateProtocol(params: RequestType<typeof api_blockchain_activation_activateProtocol>): Promise<ResponseType<typeof api_blockchain_activation_activateProtocol>> {
@@ -304,6 +424,63 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_currency_exchange_buyTokens>
         }
 
+        /**
+         * Cancels an open order and releases its locked funds.
+         */
+        public async cancelAMMOrder(params: RequestType<typeof api_blockchain_amm_orders_cancelAMMOrder>): Promise<ResponseType<typeof api_blockchain_amm_orders_cancelAMMOrder>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                userId: params.userId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/orders/${encodeURIComponent(params.orderId)}/cancel`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_orders_cancelAMMOrder>
+        }
+
+        /**
+         * Cancels the unfilled part of an order and releases its held funds.
+         */
+        public async cancelExchangeOrder(params: RequestType<typeof api_blockchain_order_book_cancelExchangeOrder>): Promise<ResponseType<typeof api_blockchain_order_book_cancelExchangeOrder>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                userId: params.userId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/orders/${encodeURIComponent(params.orderId)}/cancel`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_order_book_cancelExchangeOrder>
+        }
+
+        /**
+         * Lets the proposer withdraw a proposal that is still being voted on or waiting in the timelock.
+         */
+        public async cancelProposal(params: RequestType<typeof api_blockchain_governance_cancelProposal>): Promise<ResponseType<typeof api_blockchain_governance_cancelProposal>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                proposerId: params.proposerId,
+                reason:     params.reason,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/governance/proposals/${encodeURIComponent(params.id)}/cancel`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_governance_cancelProposal>
+        }
+
+        /**
+         * Cancels a plan for good. Its past executions stay linked to it.
+         */
+        public async cancelRecurringBuy(params: RequestType<typeof api_blockchain_recurring_buys_cancelRecurringBuy>): Promise<ResponseType<typeof api_blockchain_recurring_buys_cancelRecurringBuy>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                userId: params.userId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/recurring-buys/${encodeURIComponent(params.planId)}/cancel`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_recurring_buys_cancelRecurringBuy>
+        }
+
         /**
          * Casts a vote on a proposal.
          */
@@ -322,6 +499,45 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_claimRewards>
         }
 
+        /**
+         * Places a resting limit or stop order on the pool for the token pair.
+         */
+        public async createAMMOrder(params: RequestType<typeof api_blockchain_amm_orders_createAMMOrder>): Promise<ResponseType<typeof api_blockchain_amm_orders_createAMMOrder>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/orders`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_orders_createAMMOrder>
+        }
+
+        /**
+         * Locks the current rate for a buy or sell for a short time. Pass the returned quote id to
+         * buyTokens or sellTokens to fill at exactly the quoted amount.
+         */
+        public async createExchangeQuote(params: RequestType<typeof api_blockchain_currency_exchange_createExchangeQuote>): Promise<ResponseType<typeof api_blockchain_currency_exchange_createExchangeQuote>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/quote`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_currency_exchange_createExchangeQuote>
+        }
+
+        /**
+         * Opens an auto-compounding vault on a farm. Vaults restake continuously, so farms with a
+         * lock period are not supported.
+         */
+        public async createFarmVault(params: RequestType<typeof api_blockchain_amm_vaults_createFarmVault>): Promise<ResponseType<typeof api_blockchain_amm_vaults_createFarmVault>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/vaults`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_vaults_createFarmVault>
+        }
+
+        /**
+         * Creates a pool for a new token pair with the chosen fee tier and seeds it with the
+         * creator's initial deposit.
+         */
+        public async createPool(params: RequestType<typeof api_blockchain_amm_createPool>): Promise<ResponseType<typeof api_blockchain_amm_createPool>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/pools`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_createPool>
+        }
+
         /**
          * Creates a new governance proposal.
          */
@@ -331,6 +547,24 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_governance_createProposal>
         }
 
+        /**
+         * Derives the wallet's next receive address from its stored receive chain.
+         */
+        public async createReceiveAddress(params: RequestType<typeof api_blockchain_wallets_createReceiveAddress>): Promise<ResponseType<typeof api_blockchain_wallets_createReceiveAddress>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/wallet/addresses`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_wallets_createReceiveAddress>
+        }
+
+        /**
+         * Creates a plan that buys a fixed amount of ASM every day or week.
+         */
+        public async createRecurringBuy(params: RequestType<typeof api_blockchain_recurring_buys_createRecurringBuy>): Promise<ResponseType<typeof api_blockchain_recurring_buys_createRecurringBuy>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/recurring-buys`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_recurring_buys_createRecurringBuy>
+        }
+
         /**
          * Creates a new wallet for a user.
          */
@@ -340,6 +574,15 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_currency_exchange_createWallet>
         }
 
+        /**
+         * Launches a yield farm on a pool with a funded reward budget and emission schedule.
+         */
+        public async createYieldFarm(params: RequestType<typeof api_blockchain_amm_farms_createYieldFarm>): Promise<ResponseType<typeof api_blockchain_amm_farms_createYieldFarm>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/farms`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_farms_createYieldFarm>
+        }
+
         /**
          * Deploys the Assimilator native token with 28 trillion supply.
          */
@@ -358,6 +601,36 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contracts_deployVQCInfrastructure>
         }
 
+        /**
+         * Moves a user's unstaked LP tokens into a vault in exchange for vault shares.
+         */
+        public async depositToVault(params: RequestType<typeof api_blockchain_amm_vaults_depositToVault>): Promise<ResponseType<typeof api_blockchain_amm_vaults_depositToVault>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                amount: params.amount,
+                userId: params.userId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/vaults/${encodeURIComponent(params.vaultId)}/deposit`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_vaults_depositToVault>
+        }
+
+        /**
+         * Ends a farm now and refunds its unemitted budget to the admin. Stakers keep their
+         * accrued rewards and can still claim and unstake.
+         */
+        public async endYieldFarm(params: RequestType<typeof api_blockchain_amm_farms_endYieldFarm>): Promise<ResponseType<typeof api_blockchain_amm_farms_endYieldFarm>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                adminId: params.adminId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/farms/${encodeURIComponent(params.farmId)}/end`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_farms_endYieldFarm>
+        }
+
         /**
          * Allows users to take out a flash loan for arbitrage.
          */
@@ -367,6 +640,21 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_executeFlashLoan>
         }
 
+        /**
+         * Executes a queued proposal once its timelock has passed: applies all of its actions in one
+         * transaction, so either every action takes effect or none does, and records the execution hash.
+         */
+        public async executeProposal(params: RequestType<typeof api_blockchain_governance_executeProposal>): Promise<ResponseType<typeof api_blockchain_governance_executeProposal>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                executorId: params.executorId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/governance/proposals/${encodeURIComponent(params.id)}/execute`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_governance_executeProposal>
+        }
+
         /**
          * Execute swap
          */
@@ -376,6 +664,55 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_executeSwap>
         }
 
+        /**
+         * Exports the gains and losses realized in a date range as CSV or JSON. Lots are matched over
+         * the user's whole history, so disposals in the range carry their original cost basis.
+         */
+        public async exportTaxReport(params: RequestType<typeof api_blockchain_tax_lots_exportTaxReport>): Promise<ResponseType<typeof api_blockchain_tax_lots_exportTaxReport>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                format: params.format,
+                from:   params.from === undefined ? undefined : params.from.toISOString(),
+                method: params.method,
+                to:     params.to === undefined ? undefined : params.to.toISOString(),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/tax-report/${encodeURIComponent(params.userId)}`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_tax_lots_exportTaxReport>
+        }
+
+        /**
+         * Pushes back a farm's end time and optionally changes its emission rate.
+         */
+        public async extendYieldFarm(params: RequestType<typeof api_blockchain_amm_farms_extendYieldFarm>): Promise<ResponseType<typeof api_blockchain_amm_farms_extendYieldFarm>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                adminId:    params.adminId,
+                endTime:    params.endTime,
+                rewardRate: params.rewardRate,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/farms/${encodeURIComponent(params.farmId)}/extend`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_farms_extendYieldFarm>
+        }
+
+        /**
+         * Adds reward tokens to a farm's budget, resuming emissions if the budget had run out.
+         */
+        public async fundYieldFarm(params: RequestType<typeof api_blockchain_amm_farms_fundYieldFarm>): Promise<ResponseType<typeof api_blockchain_amm_farms_fundYieldFarm>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                adminId: params.adminId,
+                amount:  params.amount,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/farms/${encodeURIComponent(params.farmId)}/fund`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_farms_fundYieldFarm>
+        }
+
         public async generateTransactionQRCode(params: RequestType<typeof api_blockchain_mobile_generateTransactionQRCode>): Promise<ResponseType<typeof api_blockchain_mobile_generateTransactionQRCode>> {
             // Now make the actual call to the API
             const resp = await this.baseClient.callTypedAPI(`/mobile/qr-code`, {method: "POST", body: JSON.stringify(params)})
@@ -397,6 +734,24 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_explorer_enhanced_getAutocompleteSuggestions>
         }
 
+        /**
+         * Reports the discrepancies found by the latest reconciliation run (or the given one),
+         * optionally for a single user or currency.
+         */
+        public async getBalanceDiscrepancies(params: RequestType<typeof api_blockchain_ledger_getBalanceDiscrepancies>): Promise<ResponseType<typeof api_blockchain_ledger_getBalanceDiscrepancies>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                adminId:  params.adminId,
+                currency: params.currency,
+                runId:    params.runId === undefined ? undefined : String(params.runId),
+                userId:   params.userId,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/ledger/discrepancies`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_ledger_getBalanceDiscrepancies>
+        }
+
         /**
          * Retrieves detailed information about a specific block.
          */
@@ -412,6 +767,15 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_analytics_getBridgeAnalytics>
         }
 
+        /**
+         * Returns the limits applied to new bridge transfers.
+         */
+        public async getBridgeLimits(): Promise<ResponseType<typeof api_blockchain_bridge_getBridgeLimits>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/bridge/limits`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_bridge_getBridgeLimits>
+        }
+
         /**
          * Gets the status of a bridge transfer.
          */
@@ -448,6 +812,21 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contracts_getContractDetails>
         }
 
+        /**
+         * Returns a user's open tax lots and holdings with their cost basis and unrealized gain,
+         * along with the gains realized over their whole history.
+         */
+        public async getCostBasis(params: RequestType<typeof api_blockchain_tax_lots_getCostBasis>): Promise<ResponseType<typeof api_blockchain_tax_lots_getCostBasis>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                method: params.method,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/cost-basis/${encodeURIComponent(params.userId)}`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_tax_lots_getCostBasis>
+        }
+
         /**
          * Retrieves current exchange rates for all supported currency pairs.
          */
@@ -457,12 +836,45 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_currency_exchange_getExchangeRates>
         }
 
+        /**
+         * Returns a pair's most recent trades, newest first.
+         */
+        public async getExchangeTrades(params: RequestType<typeof api_blockchain_order_book_getExchangeTrades>): Promise<ResponseType<typeof api_blockchain_order_book_getExchangeTrades>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                limit: params.limit === undefined ? undefined : String(params.limit),
+                pair:  params.pair,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/trades`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_order_book_getExchangeTrades>
+        }
+
+        /**
+         * Lists the auto-compounding vaults with their staked LP tokens and share price.
+         */
+        public async getFarmVaults(): Promise<ResponseType<typeof api_blockchain_amm_vaults_getFarmVaults>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/vaults`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_vaults_getFarmVaults>
+        }
+
         public async getFlashLoanAnalytics(): Promise<ResponseType<typeof api_blockchain_analytics_getFlashLoanAnalytics>> {
             // Now make the actual call to the API
             const resp = await this.baseClient.callTypedAPI(`/analytics/flash-loans`, {method: "GET", body: undefined})
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_analytics_getFlashLoanAnalytics>
         }
 
+        /**
+         * Returns the voting period, thresholds and timelock applied to new proposals.
+         */
+        public async getGovernanceParameters(): Promise<ResponseType<typeof api_blockchain_governance_getGovernanceParameters>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/governance/parameters`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_governance_getGovernanceParameters>
+        }
+
         /**
          * Retrieves the latest blocks from the VQC blockchain.
          */
@@ -490,6 +902,16 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_getLiquidityPools>
         }
 
+        /**
+         * Values each of a user's liquidity positions at current reserves and compares it with
+         * holding the deposited tokens, including swap fees earned and farm rewards, per pool.
+         */
+        public async getLiquidityPositionPnL(params: { userId: string }): Promise<ResponseType<typeof api_blockchain_amm_positions_getLiquidityPositionPnL>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/positions/${encodeURIComponent(params.userId)}/pnl`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_positions_getLiquidityPositionPnL>
+        }
+
         public async getMobileTransactionHistory(params: RequestType<typeof api_blockchain_mobile_getMobileTransactionHistory>): Promise<ResponseType<typeof api_blockchain_mobile_getMobileTransactionHistory>> {
             // Convert our params into the objects we need for the request
             const query = makeRecord<string, string | string[]>({
@@ -529,6 +951,21 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_network_getNetworkStatus>
         }
 
+        /**
+         * Returns the aggregated price levels on each side of a pair's book.
+         */
+        public async getOrderBookDepth(params: RequestType<typeof api_blockchain_order_book_getOrderBookDepth>): Promise<ResponseType<typeof api_blockchain_order_book_getOrderBookDepth>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                levels: params.levels === undefined ? undefined : String(params.levels),
+                pair:   params.pair,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/orderbook`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_order_book_getOrderBookDepth>
+        }
+
         /**
          * Retrieves information about network peers.
          */
@@ -547,6 +984,35 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_health_getPerformanceMetrics>
         }
 
+        /**
+         * Returns OHLCV candles for a pool together with its trailing 24h volume, fees and TVL.
+         */
+        public async getPoolCandles(params: RequestType<typeof api_blockchain_amm_history_getPoolCandles>): Promise<ResponseType<typeof api_blockchain_amm_history_getPoolCandles>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                interval: params.interval,
+                limit:    params.limit === undefined ? undefined : String(params.limit),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/pools/${encodeURIComponent(params.poolId)}/candles`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_history_getPoolCandles>
+        }
+
+        /**
+         * Returns the time-weighted average price of a pool over a trailing window.
+         */
+        public async getPoolOraclePrice(params: RequestType<typeof api_blockchain_amm_oracle_getPoolOraclePrice>): Promise<ResponseType<typeof api_blockchain_amm_oracle_getPoolOraclePrice>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                windowSeconds: params.windowSeconds === undefined ? undefined : String(params.windowSeconds),
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/oracle/${encodeURIComponent(params.poolId)}`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_oracle_getPoolOraclePrice>
+        }
+
         public async getProtocolAnalytics(params: RequestType<typeof api_blockchain_analytics_getProtocolAnalytics>): Promise<ResponseType<typeof api_blockchain_analytics_getProtocolAnalytics>> {
             // Convert our params into the objects we need for the request
             const query = makeRecord<string, string | string[]>({
@@ -569,6 +1035,20 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_activation_getProtocolStatus>
         }
 
+        /**
+         * Returns a plan with the purchases it has made, newest first.
+         */
+        public async getRecurringBuy(params: RequestType<typeof api_blockchain_recurring_buys_getRecurringBuy>): Promise<ResponseType<typeof api_blockchain_recurring_buys_getRecurringBuy>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                userId: params.userId,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/recurring-buys/${encodeURIComponent(params.planId)}`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_recurring_buys_getRecurringBuy>
+        }
+
         /**
          * Get search history
          */
@@ -579,14 +1059,17 @@ export namespace blockchain {
         }
 
         /**
-         * Get swap quote
+         * Get swap quote. Pass amountIn for an exact-input quote, or amountOut to ask how much
+         * tokenIn is needed to receive that amount of tokenOut.
          */
         public async getSwapQuote(params: RequestType<typeof api_blockchain_amm_getSwapQuote>): Promise<ResponseType<typeof api_blockchain_amm_getSwapQuote>> {
             // Convert our params into the objects we need for the request
             const query = makeRecord<string, string | string[]>({
-                amountIn: params.amountIn,
-                tokenIn:  params.tokenIn,
-                tokenOut: params.tokenOut,
+                amountIn:  params.amountIn,
+                amountOut: params.amountOut,
+                maxHops:   params.maxHops === undefined ? undefined : String(params.maxHops),
+                tokenIn:   params.tokenIn,
+                tokenOut:  params.tokenOut,
             })
 
             // Now make the actual call to the API
@@ -637,6 +1120,30 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_currency_exchange_getTransactionHistory>
         }
 
+        /**
+         * Returns the treasury's balance of every token it has collected.
+         */
+        public async getTreasuryBalances(): Promise<ResponseType<typeof api_blockchain_amm_treasury_getTreasuryBalances>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/treasury`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_treasury_getTreasuryBalances>
+        }
+
+        /**
+         * Returns the most recent treasury accruals and withdrawals, optionally for one token.
+         */
+        public async getTreasuryLedger(params: RequestType<typeof api_blockchain_amm_treasury_getTreasuryLedger>): Promise<ResponseType<typeof api_blockchain_amm_treasury_getTreasuryLedger>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                limit: params.limit === undefined ? undefined : String(params.limit),
+                token: params.token,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/treasury/ledger`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_treasury_getTreasuryLedger>
+        }
+
         /**
          * Retrieves user balances for all currencies.
          */
@@ -655,6 +1162,23 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_bridge_getUserBridgeTransfers>
         }
 
+        /**
+         * Lists the journal lines posted against a user's balances, newest first.
+         */
+        public async getUserJournal(params: RequestType<typeof api_blockchain_ledger_getUserJournal>): Promise<ResponseType<typeof api_blockchain_ledger_getUserJournal>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                adminId:  params.adminId,
+                currency: params.currency,
+                limit:    params.limit === undefined ? undefined : String(params.limit),
+                userId:   params.userId,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/ledger/entries`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_ledger_getUserJournal>
+        }
+
         /**
          * Get user's liquidity positions
          */
@@ -682,6 +1206,15 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_getUserStakingPositions>
         }
 
+        /**
+         * Returns a user's vault shares and the LP tokens they are worth.
+         */
+        public async getUserVaultPositions(params: { userId: string }): Promise<ResponseType<typeof api_blockchain_amm_vaults_getUserVaultPositions>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/vaults/positions/${encodeURIComponent(params.userId)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_vaults_getUserVaultPositions>
+        }
+
         /**
          * Retrieves information about network validators.
          */
@@ -700,6 +1233,15 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_getYieldFarms>
         }
 
+        /**
+         * Compounds a vault now. Anyone may trigger a harvest; an hourly cron job also runs it.
+         */
+        public async harvestVault(params: { vaultId: number }): Promise<ResponseType<typeof api_blockchain_amm_vaults_harvestVault>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/vaults/${encodeURIComponent(params.vaultId)}/harvest`, {method: "POST", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_vaults_harvestVault>
+        }
+
         /**
          * Initiates a cross-chain token transfer.
          */
@@ -709,6 +1251,22 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_bridge_initiateBridgeTransfer>
         }
 
+        /**
+         * Lists a user's orders, optionally filtered by status or pool.
+         */
+        public async listAMMOrders(params: RequestType<typeof api_blockchain_amm_orders_listAMMOrders>): Promise<ResponseType<typeof api_blockchain_amm_orders_listAMMOrders>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                poolId: params.poolId === undefined ? undefined : String(params.poolId),
+                status: params.status,
+                userId: params.userId,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/orders`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_orders_listAMMOrders>
+        }
+
         /**
          * Retrieves all deployed smart contracts.
          */
@@ -718,6 +1276,22 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_contracts_listContracts>
         }
 
+        /**
+         * Lists a user's orders, optionally filtered by pair or status.
+         */
+        public async listExchangeOrders(params: RequestType<typeof api_blockchain_order_book_listExchangeOrders>): Promise<ResponseType<typeof api_blockchain_order_book_listExchangeOrders>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                pair:   params.pair,
+                status: params.status,
+                userId: params.userId,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/orders`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_order_book_listExchangeOrders>
+        }
+
         /**
          * Lists an NFT for sale on the marketplace.
          */
@@ -727,6 +1301,15 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_marketplace_listNFT>
         }
 
+        /**
+         * Lists the votes cast on a proposal, heaviest first.
+         */
+        public async listProposalVotes(params: { id: number }): Promise<ResponseType<typeof api_blockchain_governance_listProposalVotes>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/governance/proposals/${encodeURIComponent(params.id)}/votes`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_governance_listProposalVotes>
+        }
+
         /**
          * Lists all governance proposals.
          */
@@ -736,12 +1319,55 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_governance_listProposals>
         }
 
+        /**
+         * Lists a user's recurring buy plans, cancelled ones included.
+         */
+        public async listRecurringBuys(params: RequestType<typeof api_blockchain_recurring_buys_listRecurringBuys>): Promise<ResponseType<typeof api_blockchain_recurring_buys_listRecurringBuys>> {
+            // Convert our params into the objects we need for the request
+            const query = makeRecord<string, string | string[]>({
+                userId: params.userId,
+            })
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/recurring-buys`, {query, method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_recurring_buys_listRecurringBuys>
+        }
+
+        /**
+         * Lists a wallet's receive addresses, oldest first.
+         */
+        public async listWalletAddresses(params: { userId: string }): Promise<ResponseType<typeof api_blockchain_wallets_listWalletAddresses>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/wallet/addresses/${encodeURIComponent(params.userId)}`, {method: "GET", body: undefined})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_wallets_listWalletAddresses>
+        }
+
         public async masterActivation(params: RequestType<typeof api_blockchain_activation_masterActivation>): Promise<ResponseType<typeof api_blockchain_activation_masterActivation>> {
             // Now make the actual call to the API
             const resp = await this.baseClient.callTypedAPI(`/blockchain/activation/master`, {method: "POST", body: JSON.stringify(params)})
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_activation_masterActivation>
         }
 
+        /**
+         * Places a limit or market order. The order matches immediately against the other side of
+         * the book; whatever is left of a limit order rests on the book, and whatever is left of a
+         * market order is cancelled.
+         */
+        public async placeExchangeOrder(params: RequestType<typeof api_blockchain_order_book_placeExchangeOrder>): Promise<ResponseType<typeof api_blockchain_order_book_placeExchangeOrder>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/orders`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_order_book_placeExchangeOrder>
+        }
+
+        /**
+         * Runs a reconciliation pass on demand.
+         */
+        public async reconcileLedger(params: RequestType<typeof api_blockchain_ledger_reconcileLedger>): Promise<ResponseType<typeof api_blockchain_ledger_reconcileLedger>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/ledger/reconcile`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_ledger_reconcileLedger>
+        }
+
         public async registerForPushNotifications(params: RequestType<typeof api_blockchain_mobile_registerForPushNotifications>): Promise<ResponseType<typeof api_blockchain_mobile_registerForPushNotifications>> {
             // Now make the actual call to the API
             const resp = await this.baseClient.callTypedAPI(`/mobile/register-push`, {method: "POST", body: JSON.stringify(params)})
@@ -754,6 +1380,25 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_mobile_registerWalletKeys>
         }
 
+        /**
+         * Remove liquidity from pool
+         */
+        public async removeLiquidity(params: RequestType<typeof api_blockchain_amm_removeLiquidity>): Promise<ResponseType<typeof api_blockchain_amm_removeLiquidity>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/remove-liquidity`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_removeLiquidity>
+        }
+
+        /**
+         * Recreates a user's wallet from its recovery phrase. Restoring the wallet the user already
+         * has is a no-op apart from recreating missing receive addresses.
+         */
+        public async restoreWallet(params: RequestType<typeof api_blockchain_wallets_restoreWallet>): Promise<ResponseType<typeof api_blockchain_wallets_restoreWallet>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/wallet/restore`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_wallets_restoreWallet>
+        }
+
         /**
          * Searches the blockchain for blocks, transactions, addresses, or contracts.
          */
@@ -783,6 +1428,30 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_currency_exchange_sellTokens>
         }
 
+        /**
+         * Sets an operator rate for a pair, reported by the manual provider until it expires.
+         */
+        public async setManualExchangeRate(params: RequestType<typeof api_blockchain_rate_providers_setManualExchangeRate>): Promise<ResponseType<typeof api_blockchain_rate_providers_setManualExchangeRate>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/exchange/manual-rates`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_rate_providers_setManualExchangeRate>
+        }
+
+        /**
+         * Sets the share of a pool's swap fees that goes to the treasury.
+         */
+        public async setPoolProtocolFee(params: RequestType<typeof api_blockchain_amm_treasury_setPoolProtocolFee>): Promise<ResponseType<typeof api_blockchain_amm_treasury_setPoolProtocolFee>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                adminId:        params.adminId,
+                protocolFeeBps: params.protocolFeeBps,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/pools/${encodeURIComponent(params.poolId)}/protocol-fee`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_treasury_setPoolProtocolFee>
+        }
+
         /**
          * Signs a multi-signature bridge transfer.
          */
@@ -801,6 +1470,16 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_stakeLPTokens>
         }
 
+        /**
+         * Sends ASM, USD or another exchange currency from one user's balance to another's. The
+         * transfer is recorded for both parties in currency_transactions.
+         */
+        public async transferBalance(params: RequestType<typeof api_blockchain_transfers_transferBalance>): Promise<ResponseType<typeof api_blockchain_transfers_transferBalance>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/transfer`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_transfers_transferBalance>
+        }
+
         /**
          * Unstake LP tokens from a yield farm
          */
@@ -810,11 +1489,72 @@ export namespace blockchain {
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_unstakeLPTokens>
         }
 
+        /**
+         * Changes the governance parameters. Proposals already created keep the values they started with.
+         */
+        public async updateGovernanceParameters(params: RequestType<typeof api_blockchain_governance_updateGovernanceParameters>): Promise<ResponseType<typeof api_blockchain_governance_updateGovernanceParameters>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/governance/parameters`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_governance_updateGovernanceParameters>
+        }
+
+        /**
+         * Changes a plan's amount or frequency, or pauses and resumes it. A resumed plan whose next
+         * run has passed runs on the next job pass.
+         */
+        public async updateRecurringBuy(params: RequestType<typeof api_blockchain_recurring_buys_updateRecurringBuy>): Promise<ResponseType<typeof api_blockchain_recurring_buys_updateRecurringBuy>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                amount:    params.amount,
+                frequency: params.frequency,
+                status:    params.status,
+                userId:    params.userId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/exchange/recurring-buys/${encodeURIComponent(params.planId)}`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_recurring_buys_updateRecurringBuy>
+        }
+
+        /**
+         * Registers a file or HTTP rate feed, or updates an existing one by name.
+         */
+        public async upsertExchangeRateFeed(params: RequestType<typeof api_blockchain_rate_providers_upsertExchangeRateFeed>): Promise<ResponseType<typeof api_blockchain_rate_providers_upsertExchangeRateFeed>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/admin/exchange/feeds`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_rate_providers_upsertExchangeRateFeed>
+        }
+
         public async validateQRCode(params: { qrCodeId: string }): Promise<ResponseType<typeof api_blockchain_mobile_validateQRCode>> {
             // Now make the actual call to the API
             const resp = await this.baseClient.callTypedAPI(`/mobile/qr-validate/${encodeURIComponent(params.qrCodeId)}`, {method: "GET", body: undefined})
             return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_mobile_validateQRCode>
         }
+
+        /**
+         * Withdraws treasury funds to a recipient. Only an admin or an executed governance
+         * proposal can authorize a withdrawal.
+         */
+        public async withdrawFromTreasury(params: RequestType<typeof api_blockchain_amm_treasury_withdrawFromTreasury>): Promise<ResponseType<typeof api_blockchain_amm_treasury_withdrawFromTreasury>> {
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/treasury/withdraw`, {method: "POST", body: JSON.stringify(params)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_treasury_withdrawFromTreasury>
+        }
+
+        /**
+         * Redeems vault shares for LP tokens, including everything compounded since the deposit.
+         */
+        public async withdrawFromVault(params: RequestType<typeof api_blockchain_amm_vaults_withdrawFromVault>): Promise<ResponseType<typeof api_blockchain_amm_vaults_withdrawFromVault>> {
+            // Construct the body with only the fields which we want encoded within the body (excluding query string or header fields)
+            const body: Record<string, any> = {
+                shares: params.shares,
+                userId: params.userId,
+            }
+
+            // Now make the actual call to the API
+            const resp = await this.baseClient.callTypedAPI(`/amm/vaults/${encodeURIComponent(params.vaultId)}/withdraw`, {method: "POST", body: JSON.stringify(body)})
+            return JSON.parse(await resp.text(), dateReviver) as ResponseType<typeof api_blockchain_amm_vaults_withdrawFromVault>
+        }
     }
 }
 
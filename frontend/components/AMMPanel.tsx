@@ -8,10 +8,54 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ArrowUpDown, Droplets, TrendingUp, Coins, Plus, Minus } from 'lucide-react';
+import { ArrowUpDown, Droplets, TrendingUp, Coins, Plus, Minus, CandlestickChart } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import { ErrorBoundary } from './ErrorBoundary';
 import backend from '~backend/client';
+import type { CandleInterval, PoolCandle } from '~backend/blockchain/amm_history';
+
+function PoolCandleChart({ candles }: { candles: PoolCandle[] }) {
+  if (candles.length === 0) {
+    return (
+      <div className="h-64 flex items-center justify-center text-slate-400 text-sm">
+        No trades in this period yet
+      </div>
+    );
+  }
+
+  const width = 800;
+  const height = 300;
+  const priceHeight = height * 0.75;
+  const volumeTop = priceHeight + 10;
+  const high = Math.max(...candles.map(c => c.high));
+  const low = Math.min(...candles.map(c => c.low));
+  const range = high - low || high || 1;
+  const maxVolume = Math.max(...candles.map(c => parseFloat(c.volumeB)), 1);
+  const slot = width / candles.length;
+  const bodyWidth = Math.max(1, slot * 0.6);
+  const y = (price: number) => priceHeight - ((price - low) / range) * (priceHeight - 10) - 5;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-64" preserveAspectRatio="none">
+      {candles.map((candle, i) => {
+        const x = i * slot + slot / 2;
+        const rising = candle.close >= candle.open;
+        const color = rising ? '#4ade80' : '#f87171';
+        const bodyTop = y(Math.max(candle.open, candle.close));
+        const bodyHeight = Math.max(1, Math.abs(y(candle.open) - y(candle.close)));
+        const volumeHeight = (parseFloat(candle.volumeB) / maxVolume) * (height - volumeTop);
+
+        return (
+          <g key={new Date(candle.time).getTime()}>
+            <line x1={x} x2={x} y1={y(candle.high)} y2={y(candle.low)} stroke={color} strokeWidth={1} />
+            <rect x={x - bodyWidth / 2} y={bodyTop} width={bodyWidth} height={bodyHeight} fill={color} />
+            <rect x={x - bodyWidth / 2} y={height - volumeHeight} width={bodyWidth} height={volumeHeight} fill="#475569" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
 
 function AMMPanelContent() {
   const { toast } = useToast();
@@ -29,6 +73,12 @@ function AMMPanelContent() {
   const [liquidityTokenB, setLiquidityTokenB] = useState('USD');
   const [liquidityAmountA, setLiquidityAmountA] = useState('');
   const [liquidityAmountB, setLiquidityAmountB] = useState('');
+  const [newPoolFeeTier, setNewPoolFeeTier] = useState('0.003');
+  const [newPoolCurve, setNewPoolCurve] = useState<'constant_product' | 'stable'>('constant_product');
+
+  // Chart state
+  const [chartPoolId, setChartPoolId] = useState<number | null>(null);
+  const [candleInterval, setCandleInterval] = useState<CandleInterval>('1h');
 
   const { data: pools, isLoading: poolsLoading } = useQuery({
     queryKey: ['amm-pools'],
@@ -43,6 +93,25 @@ function AMMPanelContent() {
     refetchInterval: 10000,
   });
 
+  const selectedChartPoolId = chartPoolId ?? pools?.pools[0]?.id;
+
+  const { data: poolCandles, isLoading: candlesLoading } = useQuery({
+    queryKey: ['pool-candles', selectedChartPoolId, candleInterval],
+    queryFn: async () => {
+      try {
+        return await backend.blockchain.getPoolCandles({
+          poolId: selectedChartPoolId!,
+          interval: candleInterval
+        });
+      } catch (err) {
+        console.error('Failed to fetch pool candles:', err);
+        return null;
+      }
+    },
+    enabled: selectedChartPoolId !== undefined,
+    refetchInterval: 30000,
+  });
+
   const { data: userPositions } = useQuery({
     queryKey: ['user-liquidity-positions', userId],
     queryFn: async () => {
@@ -55,6 +124,19 @@ function AMMPanelContent() {
     },
   });
 
+  const { data: positionPnL } = useQuery({
+    queryKey: ['user-liquidity-pnl', userId],
+    queryFn: async () => {
+      try {
+        return await backend.blockchain.getLiquidityPositionPnL({ userId });
+      } catch (err) {
+        console.error('Failed to fetch position PnL:', err);
+        return { userId, positions: [] };
+      }
+    },
+    refetchInterval: 30000,
+  });
+
   const { data: yieldFarms } = useQuery({
     queryKey: ['yield-farms'],
     queryFn: async () => {
@@ -67,6 +149,32 @@ function AMMPanelContent() {
     },
   });
 
+  const { data: farmVaults } = useQuery({
+    queryKey: ['farm-vaults'],
+    queryFn: async () => {
+      try {
+        return await backend.blockchain.getFarmVaults();
+      } catch (err) {
+        console.error('Failed to fetch farm vaults:', err);
+        return { vaults: [] };
+      }
+    },
+    refetchInterval: 30000,
+  });
+
+  const { data: vaultPositions } = useQuery({
+    queryKey: ['user-vault-positions', userId],
+    queryFn: async () => {
+      try {
+        return await backend.blockchain.getUserVaultPositions({ userId });
+      } catch (err) {
+        console.error('Failed to fetch vault positions:', err);
+        return { positions: [] };
+      }
+    },
+    refetchInterval: 30000,
+  });
+
   const { data: swapQuote } = useQuery({
     queryKey: ['swap-quote', tokenIn, tokenOut, amountIn],
     queryFn: async () => {
@@ -92,6 +200,7 @@ function AMMPanelContent() {
       tokenOut: string;
       amountIn: string;
       minimumAmountOut: string;
+      route: string[];
     }) => {
       return await backend.blockchain.executeSwap({
         userId,
@@ -99,7 +208,8 @@ function AMMPanelContent() {
         tokenOut: data.tokenOut,
         amountIn: data.amountIn,
         minimumAmountOut: data.minimumAmountOut,
-        slippageTolerance: parseFloat(slippage)
+        slippageTolerance: parseFloat(slippage),
+        route: data.route
       });
     },
     onSuccess: (data) => {
@@ -140,6 +250,7 @@ function AMMPanelContent() {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['amm-pools'] });
       queryClient.invalidateQueries({ queryKey: ['user-liquidity-positions'] });
+      queryClient.invalidateQueries({ queryKey: ['user-liquidity-pnl'] });
       queryClient.invalidateQueries({ queryKey: ['user-balances'] });
       setLiquidityAmountA('');
       setLiquidityAmountB('');
@@ -158,6 +269,106 @@ function AMMPanelContent() {
     },
   });
 
+  const createPoolMutation = useMutation({
+    mutationFn: async (data: {
+      tokenA: string;
+      tokenB: string;
+      amountA: string;
+      amountB: string;
+      feeRate: number;
+      curveType: 'constant_product' | 'stable';
+    }) => {
+      return await backend.blockchain.createPool({ userId, ...data });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['amm-pools'] });
+      queryClient.invalidateQueries({ queryKey: ['user-liquidity-positions'] });
+      queryClient.invalidateQueries({ queryKey: ['user-liquidity-pnl'] });
+      queryClient.invalidateQueries({ queryKey: ['user-balances'] });
+      setLiquidityAmountA('');
+      setLiquidityAmountB('');
+      toast({
+        title: "Pool Created",
+        description: `Created the ${data.pool.tokenA}/${data.pool.tokenB} pool and received ${formatTokenAmount(data.liquidityTokens)} LP tokens`,
+      });
+    },
+    onError: (err) => {
+      console.error('Create pool failed:', err);
+      toast({
+        title: "Create Pool Failed",
+        description: err instanceof Error ? err.message : "Failed to create pool",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeLiquidityMutation = useMutation({
+    mutationFn: async (data: {
+      poolId: number;
+      liquidityTokens: string;
+      expectedAmountA: string;
+      expectedAmountB: string;
+    }) => {
+      return await backend.blockchain.removeLiquidity({
+        userId,
+        poolId: data.poolId,
+        liquidityTokens: data.liquidityTokens,
+        expectedAmountA: data.expectedAmountA,
+        expectedAmountB: data.expectedAmountB,
+        slippageTolerance: parseFloat(slippage)
+      });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['amm-pools'] });
+      queryClient.invalidateQueries({ queryKey: ['user-liquidity-positions'] });
+      queryClient.invalidateQueries({ queryKey: ['user-liquidity-pnl'] });
+      queryClient.invalidateQueries({ queryKey: ['user-balances'] });
+      toast({
+        title: "Liquidity Removed",
+        description: `Withdrew ${formatTokenAmount(data.amountA)} and ${formatTokenAmount(data.amountB)} from pool #${data.poolId}`,
+      });
+    },
+    onError: (err) => {
+      console.error('Remove liquidity failed:', err);
+      toast({
+        title: "Remove Liquidity Failed",
+        description: "Failed to remove liquidity from pool",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const vaultMutation = useMutation({
+    mutationFn: async (data: { action: 'deposit' | 'withdraw'; vaultId: number; amount: string }) => {
+      if (data.action === 'deposit') {
+        await backend.blockchain.depositToVault({ userId, vaultId: data.vaultId, amount: data.amount });
+      } else {
+        await backend.blockchain.withdrawFromVault({ userId, vaultId: data.vaultId, shares: data.amount });
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['farm-vaults'] });
+      queryClient.invalidateQueries({ queryKey: ['user-vault-positions'] });
+      queryClient.invalidateQueries({ queryKey: ['user-liquidity-positions'] });
+      queryClient.invalidateQueries({ queryKey: ['user-liquidity-pnl'] });
+      toast({
+        title: data.action === 'deposit' ? "Deposited to Vault" : "Withdrew from Vault",
+        description: data.action === 'deposit'
+          ? `Your LP tokens in vault #${data.vaultId} now compound automatically`
+          : `LP tokens from vault #${data.vaultId} are back in your position`,
+      });
+    },
+    onError: (err) => {
+      console.error('Vault action failed:', err);
+      toast({
+        title: "Vault Action Failed",
+        description: err instanceof Error ? err.message : "Failed to update vault position",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSwap = () => {
     if (!amountIn || !swapQuote) {
       toast({
@@ -175,10 +386,16 @@ function AMMPanelContent() {
       tokenIn,
       tokenOut,
       amountIn: amountInWei,
-      minimumAmountOut
+      minimumAmountOut,
+      route: swapQuote.route
     });
   };
 
+  const liquidityPoolExists = pools?.pools.some(p =>
+    (p.tokenA === liquidityTokenA && p.tokenB === liquidityTokenB) ||
+    (p.tokenA === liquidityTokenB && p.tokenB === liquidityTokenA)
+  ) ?? true;
+
   const handleAddLiquidity = () => {
     if (!liquidityAmountA || !liquidityAmountB) {
       toast({
@@ -192,6 +409,18 @@ function AMMPanelContent() {
     const amountAWei = (parseFloat(liquidityAmountA) * 1e18).toString();
     const amountBWei = (parseFloat(liquidityAmountB) * 1e18).toString();
 
+    if (!liquidityPoolExists) {
+      createPoolMutation.mutate({
+        tokenA: liquidityTokenA,
+        tokenB: liquidityTokenB,
+        amountA: amountAWei,
+        amountB: amountBWei,
+        feeRate: parseFloat(newPoolFeeTier),
+        curveType: newPoolCurve
+      });
+      return;
+    }
+
     addLiquidityMutation.mutate({
       tokenA: liquidityTokenA,
       tokenB: liquidityTokenB,
@@ -200,6 +429,29 @@ function AMMPanelContent() {
     });
   };
 
+  const handleRemoveLiquidity = (poolId: number, liquidityTokens: string, percent: number) => {
+    const pool = pools?.pools.find(p => p.id === poolId);
+    if (!pool || BigInt(pool.totalLiquidity) === 0n) {
+      toast({
+        title: "Pool Unavailable",
+        description: "Could not load reserves for this pool",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const burnAmount = BigInt(liquidityTokens) * BigInt(percent) / 100n;
+    if (burnAmount === 0n) return;
+
+    const totalLiquidity = BigInt(pool.totalLiquidity);
+    removeLiquidityMutation.mutate({
+      poolId,
+      liquidityTokens: burnAmount.toString(),
+      expectedAmountA: (burnAmount * BigInt(pool.reserveA) / totalLiquidity).toString(),
+      expectedAmountB: (burnAmount * BigInt(pool.reserveB) / totalLiquidity).toString(),
+    });
+  };
+
   const handleTokenSwitch = () => {
     setTokenIn(tokenOut);
     setTokenOut(tokenIn);
@@ -223,10 +475,11 @@ function AMMPanelContent() {
   return (
     <div className="space-y-6">
       <Tabs defaultValue="swap" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4 bg-slate-800 border-slate-700">
+        <TabsList className="grid w-full grid-cols-5 bg-slate-800 border-slate-700">
           <TabsTrigger value="swap">Swap</TabsTrigger>
           <TabsTrigger value="liquidity">Liquidity</TabsTrigger>
           <TabsTrigger value="pools">Pools</TabsTrigger>
+          <TabsTrigger value="charts">Charts</TabsTrigger>
           <TabsTrigger value="farms">Yield Farms</TabsTrigger>
         </TabsList>
 
@@ -305,12 +558,26 @@ function AMMPanelContent() {
                         {swapQuote.priceImpact.toFixed(2)}%
                       </span>
                     </div>
+                    <div className="flex justify-between">
+                      <span className="text-slate-400">Rate:</span>
+                      <span className="text-white">
+                        1 {tokenIn} = {swapQuote.executionPrice.toPrecision(6)} {tokenOut}
+                      </span>
+                    </div>
                     <div className="flex justify-between">
                       <span className="text-slate-400">Fee:</span>
                       <span className="text-white">
                         {formatTokenAmount(swapQuote.fee)} {tokenIn}
                       </span>
                     </div>
+                    {swapQuote.route.length > 2 && (
+                      <div className="flex justify-between">
+                        <span className="text-slate-400">Route:</span>
+                        <span className="text-white">
+                          {swapQuote.route.join(' → ')}
+                        </span>
+                      </div>
+                    )}
                     <div className="flex justify-between">
                       <span className="text-slate-400">Minimum Received:</span>
                       <span className="text-white">
@@ -368,7 +635,7 @@ function AMMPanelContent() {
                             {pool.tokenA}/{pool.tokenB}
                           </span>
                           <Badge variant="outline">
-                            {(pool.feeRate * 100).toFixed(1)}% Fee
+                            {(pool.feeRate * 100).toFixed(2)}% Fee
                           </Badge>
                         </div>
                         <div className="grid grid-cols-2 gap-2 text-xs">
@@ -447,12 +714,44 @@ function AMMPanelContent() {
                   </div>
                 </div>
 
+                {!liquidityPoolExists && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <Label className="text-slate-300">Curve (new pool)</Label>
+                      <Select value={newPoolCurve} onValueChange={(value) => setNewPoolCurve(value as 'constant_product' | 'stable')}>
+                        <SelectTrigger className="bg-slate-700 border-slate-600 text-white mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-700 border-slate-600">
+                          <SelectItem value="constant_product">Constant Product</SelectItem>
+                          <SelectItem value="stable">StableSwap - Pegged pairs</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-slate-300">Fee Tier (new pool)</Label>
+                      <Select value={newPoolFeeTier} onValueChange={setNewPoolFeeTier}>
+                        <SelectTrigger className="bg-slate-700 border-slate-600 text-white mt-1">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-700 border-slate-600">
+                          <SelectItem value="0.0005">0.05% - Stable pairs</SelectItem>
+                          <SelectItem value="0.003">0.3% - Standard</SelectItem>
+                          <SelectItem value="0.01">1% - Exotic pairs</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                )}
+
                 <Button 
                   onClick={handleAddLiquidity}
-                  disabled={addLiquidityMutation.isPending}
+                  disabled={addLiquidityMutation.isPending || createPoolMutation.isPending}
                   className="w-full"
                 >
-                  {addLiquidityMutation.isPending ? 'Adding...' : 'Add Liquidity'}
+                  {liquidityPoolExists
+                    ? (addLiquidityMutation.isPending ? 'Adding...' : 'Add Liquidity')
+                    : (createPoolMutation.isPending ? 'Creating...' : 'Create Pool')}
                 </Button>
               </CardContent>
             </Card>
@@ -485,6 +784,53 @@ function AMMPanelContent() {
                               {formatTokenAmount(position.liquidityTokens)}
                             </span>
                           </div>
+                          {(() => {
+                            const pnl = positionPnL?.positions.find(p => p.poolId === position.poolId);
+                            if (!pnl) return null;
+                            return (
+                              <>
+                                <div className="flex justify-between">
+                                  <span className="text-slate-400">Value:</span>
+                                  <span className="text-white">
+                                    {formatTokenAmount(pnl.positionValue)} {pnl.tokenB}
+                                  </span>
+                                </div>
+                                <div className="flex justify-between">
+                                  <span className="text-slate-400">Fees Earned:</span>
+                                  <span className="text-green-400">
+                                    {formatTokenAmount(pnl.feesValue)} {pnl.tokenB}
+                                  </span>
+                                </div>
+                                <div className="flex justify-between">
+                                  <span className="text-slate-400">Impermanent Loss:</span>
+                                  <span className={pnl.impermanentLossPercent < 0 ? 'text-red-400' : 'text-white'}>
+                                    {pnl.impermanentLossPercent.toFixed(2)}%
+                                  </span>
+                                </div>
+                                <div className="flex justify-between">
+                                  <span className="text-slate-400">PnL vs Holding:</span>
+                                  <span className={pnl.netPnlPercent < 0 ? 'text-red-400' : 'text-green-400'}>
+                                    {pnl.netPnlPercent >= 0 ? '+' : ''}{pnl.netPnlPercent.toFixed(2)}%
+                                  </span>
+                                </div>
+                              </>
+                            );
+                          })()}
+                        </div>
+                        <div className="flex items-center space-x-2 mt-3">
+                          <Minus className="w-4 h-4 text-slate-400" />
+                          <span className="text-xs text-slate-400 mr-auto">Withdraw</span>
+                          {[25, 50, 100].map((percent) => (
+                            <Button
+                              key={percent}
+                              size="sm"
+                              variant="outline"
+                              disabled={removeLiquidityMutation.isPending || BigInt(position.liquidityTokens) === 0n}
+                              onClick={() => handleRemoveLiquidity(position.poolId, position.liquidityTokens, percent)}
+                            >
+                              {percent}%
+                            </Button>
+                          ))}
                         </div>
                       </div>
                     ))}
@@ -523,8 +869,13 @@ function AMMPanelContent() {
                             {pool.tokenA}/{pool.tokenB}
                           </span>
                           <Badge variant="outline">
-                            {(pool.feeRate * 100).toFixed(1)}% Fee
+                            {(pool.feeRate * 100).toFixed(2)}% Fee
                           </Badge>
+                          {pool.curveType === 'stable' && (
+                            <Badge variant="outline" className="text-cyan-400 border-cyan-400">
+                              Stable A={pool.amplification}
+                            </Badge>
+                          )}
                         </div>
                         <Badge variant="default" className="bg-green-600">
                           {calculateAPY(pool).toFixed(1)}% APY
@@ -571,6 +922,90 @@ function AMMPanelContent() {
           </Card>
         </TabsContent>
 
+        <TabsContent value="charts">
+          <Card className="bg-slate-800 border-slate-700">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-white flex items-center">
+                  <CandlestickChart className="w-5 h-5 mr-2" />
+                  Price History
+                </CardTitle>
+                <div className="flex space-x-2">
+                  <Select
+                    value={selectedChartPoolId?.toString() ?? ''}
+                    onValueChange={(value) => setChartPoolId(parseInt(value))}
+                  >
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white w-36">
+                      <SelectValue placeholder="Pool" />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      {pools?.pools.map((pool) => (
+                        <SelectItem key={pool.id} value={pool.id.toString()}>
+                          {pool.tokenA}/{pool.tokenB}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={candleInterval} onValueChange={(value) => setCandleInterval(value as CandleInterval)}>
+                    <SelectTrigger className="bg-slate-700 border-slate-600 text-white w-20">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-700 border-slate-600">
+                      <SelectItem value="1m">1m</SelectItem>
+                      <SelectItem value="5m">5m</SelectItem>
+                      <SelectItem value="1h">1h</SelectItem>
+                      <SelectItem value="1d">1d</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {candlesLoading || !poolCandles ? (
+                <div className="h-64 bg-slate-700 rounded-lg animate-pulse"></div>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                    <div>
+                      <span className="text-slate-400">Price:</span>
+                      <div className="text-white font-bold">
+                        {poolCandles.stats24h.price.toPrecision(6)} {poolCandles.tokenB}
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-slate-400">24h Change:</span>
+                      <div className={poolCandles.stats24h.priceChangePercent >= 0 ? 'text-green-400' : 'text-red-400'}>
+                        {poolCandles.stats24h.priceChangePercent.toFixed(2)}%
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-slate-400">24h Volume:</span>
+                      <div className="text-white">
+                        {formatTokenAmount(poolCandles.stats24h.volumeB, 2)} {poolCandles.tokenB}
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-slate-400">24h Fees:</span>
+                      <div className="text-white">
+                        {formatTokenAmount(poolCandles.stats24h.feesA, 2)} {poolCandles.tokenA} + {formatTokenAmount(poolCandles.stats24h.feesB, 2)} {poolCandles.tokenB}
+                      </div>
+                    </div>
+                    <div>
+                      <span className="text-slate-400">TVL:</span>
+                      <div className="text-white">
+                        {formatTokenAmount(poolCandles.stats24h.tvlInTokenB, 2)} {poolCandles.tokenB}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="p-2 bg-slate-900 rounded-lg">
+                    <PoolCandleChart candles={poolCandles.candles} />
+                  </div>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="farms">
           <Card className="bg-slate-800 border-slate-700">
             <CardHeader>
@@ -637,12 +1072,126 @@ function AMMPanelContent() {
                           </div>
                         </div>
                       </div>
+
+                      <div className="grid grid-cols-2 gap-4 text-sm mt-3">
+                        <div>
+                          <span className="text-slate-400">Minimum Lock:</span>
+                          <div className="text-white">
+                            {farm.lockPeriodDays ?? 0} days (up to 2x boost at 365)
+                          </div>
+                        </div>
+                        <div>
+                          <span className="text-slate-400">Early Unstake:</span>
+                          <div className="text-white">
+                            {farm.earlyUnstakePenaltyBps != null
+                              ? `${(farm.earlyUnstakePenaltyBps / 100).toFixed(2)}% penalty`
+                              : 'Not allowed'}
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="mt-3 text-sm">
+                        <div className="flex justify-between text-slate-400 mb-1">
+                          <span>Rewards Emitted</span>
+                          <span className="text-white">
+                            {formatTokenAmount(farm.rewardsEmitted, 2)} / {formatTokenAmount(farm.rewardBudget, 2)} {farm.rewardToken}
+                          </span>
+                        </div>
+                        <Progress
+                          value={BigInt(farm.rewardBudget) > 0n
+                            ? Number(BigInt(farm.rewardsEmitted) * 100n / BigInt(farm.rewardBudget))
+                            : 0}
+                        />
+                      </div>
                     </div>
                   ))}
                 </div>
               )}
             </CardContent>
           </Card>
+
+          <Card className="bg-slate-800 border-slate-700 mt-6">
+            <CardHeader>
+              <CardTitle className="text-white flex items-center">
+                <Coins className="w-5 h-5 mr-2" />
+                Auto-Compounding Vaults
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {farmVaults?.vaults.length === 0 ? (
+                <div className="text-center text-slate-400 py-8">
+                  No vaults available.
+                </div>
+              ) : (
+                <div className="space-y-4">
+                  {farmVaults?.vaults.map((vault) => {
+                    const heldLP = userPositions?.positions.find(p => p.poolId === vault.poolId)?.liquidityTokens ?? '0';
+                    const position = vaultPositions?.positions.find(p => p.vaultId === vault.id);
+
+                    return (
+                      <div key={vault.id} className="p-4 bg-slate-700 rounded-lg">
+                        <div className="flex items-center justify-between mb-3">
+                          <div className="flex items-center space-x-3">
+                            <span className="text-white font-medium">
+                              Vault #{vault.id}
+                            </span>
+                            <Badge variant="outline">
+                              Farm #{vault.farmId} · Pool #{vault.poolId}
+                            </Badge>
+                          </div>
+                          <Badge variant="secondary">
+                            {vault.harvestCount} harvests
+                          </Badge>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                          <div>
+                            <span className="text-slate-400">Total Staked:</span>
+                            <div className="text-white">
+                              {formatTokenAmount(vault.totalStaked)} LP
+                            </div>
+                          </div>
+                          <div>
+                            <span className="text-slate-400">LP per Share:</span>
+                            <div className="text-green-400">
+                              {vault.liquidityPerShare.toFixed(6)}
+                            </div>
+                          </div>
+                          <div>
+                            <span className="text-slate-400">Your Position:</span>
+                            <div className="text-white">
+                              {position ? `${formatTokenAmount(position.liquidityTokens)} LP` : '—'}
+                            </div>
+                          </div>
+                        </div>
+
+                        <div className="flex space-x-2 mt-3">
+                          <Button
+                            size="sm"
+                            className="bg-blue-600 hover:bg-blue-700"
+                            disabled={BigInt(heldLP) === 0n || vaultMutation.isPending}
+                            onClick={() => vaultMutation.mutate({ action: 'deposit', vaultId: vault.id, amount: heldLP })}
+                          >
+                            <Plus className="w-4 h-4 mr-1" />
+                            Deposit All LP
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!position || vaultMutation.isPending}
+                            onClick={() => position && vaultMutation.mutate({ action: 'withdraw', vaultId: vault.id, amount: position.shares })}
+                          >
+                            <Minus className="w-4 h-4 mr-1" />
+                            Withdraw All
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </div>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -7,9 +7,11 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { DollarSign, TrendingUp, TrendingDown, Wallet, ArrowUpDown, History, Plus } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import backend from '~backend/client';
+import type { ExchangeQuote } from '~backend/blockchain/currency_exchange';
 
 export default function CurrencyExchangePanel() {
   const { toast } = useToast();
@@ -19,6 +21,7 @@ export default function CurrencyExchangePanel() {
   const userId = 'demo-user-123';
   
   // Buy tokens form state
+  const [counterCurrency, setCounterCurrency] = useState('USD');
   const [usdAmount, setUsdAmount] = useState('');
   const [estimatedTokens, setEstimatedTokens] = useState(0);
 
@@ -26,6 +29,29 @@ export default function CurrencyExchangePanel() {
   const [asmAmount, setAsmAmount] = useState('');
   const [estimatedUsd, setEstimatedUsd] = useState(0);
 
+  // Firm quotes lock the price shown here until they expire
+  const [sendRecipient, setSendRecipient] = useState('');
+  const [sendAmount, setSendAmount] = useState('');
+  const [sendCurrency, setSendCurrency] = useState('ASM');
+  const [sendMemo, setSendMemo] = useState('');
+  // Kept across retries of the same send so a resubmitted request cannot pay twice
+  const [sendKey, setSendKey] = useState(() => crypto.randomUUID());
+  // The new wallet's recovery phrase, shown once after creation
+  const [recoveryPhrase, setRecoveryPhrase] = useState<string | null>(null);
+  const [restorePhrase, setRestorePhrase] = useState('');
+  const [buyQuote, setBuyQuote] = useState<ExchangeQuote | null>(null);
+  const [sellQuote, setSellQuote] = useState<ExchangeQuote | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!buyQuote && !sellQuote) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [buyQuote, sellQuote]);
+
+  const quoteSecondsLeft = (quote: ExchangeQuote | null) =>
+    quote ? Math.max(0, Math.ceil((new Date(quote.expiresAt).getTime() - now) / 1000)) : 0;
+
   const { data: exchangeRates, isLoading: ratesLoading } = useQuery({
     queryKey: ['exchange-rates'],
     queryFn: async () => {
@@ -41,16 +67,20 @@ export default function CurrencyExchangePanel() {
 
   const { data: userBalances, isLoading: balancesLoading, isError: balancesError } = useQuery({
     queryKey: ['user-balances', userId],
-    queryFn: () => backend.blockchain.getUserBalances({ userId }),
+    queryFn: async () => {
+      try {
+        return await backend.blockchain.getUserBalances({ userId });
+      } catch (err) {
+        console.error('Failed to fetch user balances:', err);
+        toast({
+          title: "Error",
+          description: "Failed to fetch your wallet balances.",
+          variant: "destructive",
+        });
+        throw err;
+      }
+    },
     refetchInterval: 5000,
-    onError: (err) => {
-      console.error('Failed to fetch user balances:', err);
-      toast({
-        title: "Error",
-        description: "Failed to fetch your wallet balances.",
-        variant: "destructive",
-      });
-    }
   });
 
   const { data: transactionHistory } = useQuery({
@@ -65,12 +95,20 @@ export default function CurrencyExchangePanel() {
     },
   });
 
+  const hasHdWallet = !!userBalances?.wallet?.derivationPath;
+  const { data: walletAddresses } = useQuery({
+    queryKey: ['wallet-addresses', userId],
+    queryFn: () => backend.blockchain.listWalletAddresses({ userId }),
+    enabled: hasHdWallet,
+  });
+
   const createWalletMutation = useMutation({
     mutationFn: async () => {
       return await backend.blockchain.createWallet({ userId });
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['user-balances', userId] });
+      setRecoveryPhrase(data.seedPhrase);
       toast({
         title: "Wallet Created",
         description: `New wallet created: ${data.wallet.address.substring(0, 16)}...`,
@@ -86,12 +124,112 @@ export default function CurrencyExchangePanel() {
     },
   });
 
+  const restoreWalletMutation = useMutation({
+    mutationFn: async () => {
+      return await backend.blockchain.restoreWallet({ userId, mnemonic: restorePhrase });
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ['user-balances', userId] });
+      queryClient.invalidateQueries({ queryKey: ['wallet-addresses', userId] });
+      setRestorePhrase('');
+      toast({
+        title: "Wallet Restored",
+        description: `Restored wallet ${data.wallet.address.substring(0, 16)}...`,
+      });
+    },
+    onError: (err) => {
+      console.error('Failed to restore wallet:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to restore wallet",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const receiveAddressMutation = useMutation({
+    mutationFn: async () => {
+      return await backend.blockchain.createReceiveAddress({ userId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['wallet-addresses', userId] });
+    },
+    onError: (err) => {
+      console.error('Failed to create receive address:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to create receive address",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async () => {
+      const recipient = sendRecipient.trim();
+      return await backend.blockchain.transferBalance({
+        userId,
+        idempotencyKey: sendKey,
+        ...(recipient.startsWith('vqc:') ? { paymentUri: recipient }
+          : recipient.startsWith('0x') ? { toAddress: recipient }
+          : { toUserId: recipient }),
+        amount: sendAmount ? parseFloat(sendAmount) : undefined,
+        currency: recipient.startsWith('vqc:') && recipient.includes('token=') ? undefined : sendCurrency,
+        memo: sendMemo || undefined,
+      });
+    },
+    onSuccess: ({ transfer }) => {
+      queryClient.invalidateQueries({ queryKey: ['user-balances', userId] });
+      queryClient.invalidateQueries({ queryKey: ['transaction-history', userId] });
+      setSendRecipient('');
+      setSendAmount('');
+      setSendMemo('');
+      setSendKey(crypto.randomUUID());
+      toast({
+        title: "Transfer Sent",
+        description: `Sent ${formatCurrency(transfer.amount, transfer.currency)} to ${transfer.toUserId}`,
+      });
+    },
+    onError: (err) => {
+      console.error('Failed to send transfer:', err);
+      toast({
+        title: "Transfer Failed",
+        description: err instanceof Error ? err.message : "Failed to send transfer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const quoteMutation = useMutation({
+    mutationFn: async (data: { side: 'buy' | 'sell'; amount: number }) => {
+      return await backend.blockchain.createExchangeQuote({ userId, ...data, currency: counterCurrency });
+    },
+    onSuccess: ({ quote }) => {
+      setNow(Date.now());
+      if (quote.side === 'buy') {
+        setBuyQuote(quote);
+      } else {
+        setSellQuote(quote);
+      }
+    },
+    onError: (err) => {
+      console.error('Failed to get quote:', err);
+      toast({
+        title: "Quote Failed",
+        description: "Failed to lock a price for this trade",
+        variant: "destructive",
+      });
+    },
+  });
+
   const buyTokensMutation = useMutation({
-    mutationFn: async (data: { usdAmount: number }) => {
+    mutationFn: async (data: { usdAmount: number; quoteId: string }) => {
       return await backend.blockchain.buyTokens({
         userId,
         usdAmount: data.usdAmount,
-        targetCurrency: 'ASM'
+        paymentCurrency: counterCurrency,
+        targetCurrency: 'ASM',
+        quoteId: data.quoteId,
       });
     },
     onSuccess: (data) => {
@@ -99,6 +237,7 @@ export default function CurrencyExchangePanel() {
       queryClient.invalidateQueries({ queryKey: ['transaction-history', userId] });
       setUsdAmount('');
       setEstimatedTokens(0);
+      setBuyQuote(null);
       toast({
         title: "Purchase Successful",
         description: `Bought ${data.estimatedTokens.toFixed(6)} ASM tokens`,
@@ -106,6 +245,7 @@ export default function CurrencyExchangePanel() {
     },
     onError: (err) => {
       console.error('Failed to buy tokens:', err);
+      setBuyQuote(null);
       toast({
         title: "Purchase Failed",
         description: "Failed to complete token purchase",
@@ -115,11 +255,12 @@ export default function CurrencyExchangePanel() {
   });
 
   const sellTokensMutation = useMutation({
-    mutationFn: async (data: { asmAmount: number }) => {
+    mutationFn: async (data: { asmAmount: number; quoteId: string }) => {
       return await backend.blockchain.sellTokens({
         userId,
         asmAmount: data.asmAmount,
-        targetCurrency: 'USD'
+        targetCurrency: counterCurrency,
+        quoteId: data.quoteId,
       });
     },
     onSuccess: (data) => {
@@ -127,13 +268,15 @@ export default function CurrencyExchangePanel() {
       queryClient.invalidateQueries({ queryKey: ['transaction-history', userId] });
       setAsmAmount('');
       setEstimatedUsd(0);
+      setSellQuote(null);
       toast({
         title: "Sale Successful",
-        description: `Sold ${data.transaction.fromAmount.toFixed(6)} ASM for $${data.estimatedUsd.toFixed(2)}`,
+        description: `Sold ${data.transaction.fromAmount.toFixed(6)} ASM for ${formatCurrency(data.estimatedUsd, counterCurrency)}`,
       });
     },
     onError: (err) => {
       console.error('Failed to sell tokens:', err);
+      setSellQuote(null);
       toast({
         title: "Sale Failed",
         description: "Failed to complete token sale",
@@ -142,14 +285,26 @@ export default function CurrencyExchangePanel() {
     },
   });
 
-  const asmRate = exchangeRates?.rates.find(r => r.currencyPair === 'ASM/USD');
+  const asmPairs = exchangeRates?.rates.filter(r => r.currencyPair.startsWith('ASM/')) ?? [];
+  const asmRate = asmPairs.find(r => r.currencyPair === `ASM/${counterCurrency}`);
+  const feeRate = asmRate?.feeRate ?? 0;
+
+  const handleCounterCurrencyChange = (currency: string) => {
+    setCounterCurrency(currency);
+    setUsdAmount('');
+    setEstimatedTokens(0);
+    setAsmAmount('');
+    setEstimatedUsd(0);
+    setBuyQuote(null);
+    setSellQuote(null);
+  };
 
   const handleUsdAmountChange = (value: string) => {
     setUsdAmount(value);
+    setBuyQuote(null);
     const amount = parseFloat(value);
     if (asmRate && !isNaN(amount) && amount > 0) {
-      const feePercentage = 0.025; // 2.5% fee
-      const netAmount = amount * (1 - feePercentage);
+      const netAmount = amount * (1 - feeRate);
       const tokens = netAmount / asmRate.rate;
       setEstimatedTokens(tokens);
     } else {
@@ -159,11 +314,11 @@ export default function CurrencyExchangePanel() {
 
   const handleAsmAmountChange = (value: string) => {
     setAsmAmount(value);
+    setSellQuote(null);
     const amount = parseFloat(value);
     if (asmRate && !isNaN(amount) && amount > 0) {
-      const feePercentage = 0.025;
       const grossUsd = amount * asmRate.rate;
-      const netUsd = grossUsd * (1 - feePercentage);
+      const netUsd = grossUsd * (1 - feeRate);
       setEstimatedUsd(netUsd);
     } else {
       setEstimatedUsd(0);
@@ -175,13 +330,13 @@ export default function CurrencyExchangePanel() {
     if (isNaN(amount) || amount <= 0) {
       toast({
         title: "Invalid Amount",
-        description: "Please enter a valid USD amount",
+        description: `Please enter a valid ${counterCurrency} amount`,
         variant: "destructive",
       });
       return;
     }
 
-    if (amount < 1) {
+    if (counterCurrency === 'USD' && amount < 1) {
       toast({
         title: "Minimum Purchase",
         description: "Minimum purchase amount is $1.00",
@@ -190,7 +345,11 @@ export default function CurrencyExchangePanel() {
       return;
     }
 
-    buyTokensMutation.mutate({ usdAmount: amount });
+    if (buyQuote && quoteSecondsLeft(buyQuote) > 0) {
+      buyTokensMutation.mutate({ usdAmount: amount, quoteId: buyQuote.quoteId });
+    } else {
+      quoteMutation.mutate({ side: 'buy', amount });
+    }
   };
 
   const handleSellTokens = () => {
@@ -204,7 +363,11 @@ export default function CurrencyExchangePanel() {
       return;
     }
 
-    sellTokensMutation.mutate({ asmAmount: amount });
+    if (sellQuote && quoteSecondsLeft(sellQuote) > 0) {
+      sellTokensMutation.mutate({ asmAmount: amount, quoteId: sellQuote.quoteId });
+    } else {
+      quoteMutation.mutate({ side: 'sell', amount });
+    }
   };
 
   const formatCurrency = (amount: number, currency: string) => {
@@ -217,6 +380,10 @@ export default function CurrencyExchangePanel() {
     }
   };
 
+  const formatRate = (rate: number, currency: string) => {
+    return currency === 'USD' ? `$${rate.toFixed(8)}` : `${rate.toPrecision(6)} ${currency}`;
+  };
+
   const getChangeColor = (change: number) => {
     if (change > 0) return 'text-green-400';
     if (change < 0) return 'text-red-400';
@@ -311,7 +478,7 @@ export default function CurrencyExchangePanel() {
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold text-white mb-2">
-                  ${rate.rate.toFixed(8)}
+                  {formatRate(rate.rate, rate.currencyPair.split('/')[1])}
                 </div>
                 <div className={`flex items-center text-sm ${getChangeColor(rate.change24h)}`}>
                   {getChangeIcon(rate.change24h)}
@@ -330,6 +497,22 @@ export default function CurrencyExchangePanel() {
 
       {/* Main Exchange Interface */}
       <Tabs defaultValue="buy" className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Label className="text-slate-300">Trading Pair</Label>
+          <Select value={counterCurrency} onValueChange={handleCounterCurrencyChange}>
+            <SelectTrigger className="w-40 bg-slate-800 border-slate-700 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {asmPairs.map((rate) => (
+                <SelectItem key={rate.currencyPair} value={rate.currencyPair.split('/')[1]}>
+                  {rate.currencyPair}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <TabsList className="grid w-full grid-cols-4 bg-slate-800 border-slate-700">
           <TabsTrigger value="buy">Buy ASM</TabsTrigger>
           <TabsTrigger value="sell">Sell ASM</TabsTrigger>
@@ -348,16 +531,16 @@ export default function CurrencyExchangePanel() {
               </CardHeader>
               <CardContent className="space-y-4">
                 <div>
-                  <Label htmlFor="usd-amount" className="text-slate-300">USD Amount</Label>
+                  <Label htmlFor="usd-amount" className="text-slate-300">{counterCurrency} Amount</Label>
                   <Input
                     id="usd-amount"
                     type="number"
-                    placeholder="Enter USD amount..."
+                    placeholder={`Enter ${counterCurrency} amount...`}
                     value={usdAmount}
                     onChange={(e) => handleUsdAmountChange(e.target.value)}
                     className="bg-slate-700 border-slate-600 text-white mt-1"
-                    min="1"
-                    step="0.01"
+                    min={counterCurrency === 'USD' ? '1' : '0'}
+                    step={counterCurrency === 'USD' ? '0.01' : '0.00000001'}
                   />
                 </div>
 
@@ -368,25 +551,48 @@ export default function CurrencyExchangePanel() {
                       {estimatedTokens.toFixed(6)} ASM
                     </div>
                     <div className="text-xs text-slate-400 mt-1">
-                      Fee: ${(parseFloat(usdAmount) * 0.025).toFixed(2)} (2.5%)
+                      Fee: {formatCurrency(parseFloat(usdAmount) * feeRate, counterCurrency)} ({(feeRate * 100).toFixed(1)}%)
                     </div>
                     <div className="text-xs text-slate-400">
-                      Rate: ${asmRate?.rate.toFixed(8)} per ASM
+                      Rate: {formatRate(asmRate?.rate ?? 0, counterCurrency)} per ASM
+                    </div>
+                  </div>
+                )}
+
+                {buyQuote && (
+                  <div className="p-4 bg-slate-700 rounded-lg border border-blue-500/50">
+                    <div className="text-sm text-slate-400 mb-2">Locked Price:</div>
+                    <div className="text-lg font-bold text-white">
+                      {buyQuote.amountOut.toFixed(6)} ASM
+                    </div>
+                    <div className="text-xs text-slate-400 mt-1">
+                      Rate: {formatRate(buyQuote.exchangeRate, counterCurrency)} per ASM • Fee: {formatCurrency(buyQuote.feeAmount, counterCurrency)}
+                    </div>
+                    <div className={`text-xs mt-1 ${quoteSecondsLeft(buyQuote) > 0 ? 'text-blue-400' : 'text-red-400'}`}>
+                      {quoteSecondsLeft(buyQuote) > 0
+                        ? `Quote expires in ${quoteSecondsLeft(buyQuote)}s`
+                        : 'Quote expired'}
                     </div>
                   </div>
                 )}
 
                 <Button 
                   onClick={handleBuyTokens}
-                  disabled={buyTokensMutation.isPending || !estimatedTokens}
+                  disabled={buyTokensMutation.isPending || quoteMutation.isPending || !estimatedTokens}
                   className="w-full"
                 >
-                  {buyTokensMutation.isPending ? 'Processing...' : 'Buy ASM Tokens'}
+                  {buyTokensMutation.isPending || quoteMutation.isPending
+                    ? 'Processing...'
+                    : buyQuote && quoteSecondsLeft(buyQuote) > 0
+                      ? 'Confirm Purchase'
+                      : buyQuote ? 'Refresh Quote' : 'Get Firm Quote'}
                 </Button>
 
-                <div className="text-xs text-slate-400 text-center">
-                  Minimum purchase: $1.00 • Maximum purchase: $10,000.00
-                </div>
+                {counterCurrency === 'USD' && (
+                  <div className="text-xs text-slate-400 text-center">
+                    Minimum purchase: $1.00 • Maximum purchase: $10,000.00
+                  </div>
+                )}
               </CardContent>
             </Card>
             <BalancesCard />
@@ -420,23 +626,44 @@ export default function CurrencyExchangePanel() {
                   <div className="p-4 bg-slate-700 rounded-lg">
                     <div className="text-sm text-slate-400 mb-2">Estimated Payout:</div>
                     <div className="text-lg font-bold text-white">
-                      ${estimatedUsd.toFixed(2)} USD
+                      {formatCurrency(estimatedUsd, counterCurrency)}
                     </div>
                     <div className="text-xs text-slate-400 mt-1">
-                      Fee: ${(parseFloat(asmAmount) * (asmRate?.rate || 0) * 0.025).toFixed(2)} (2.5%)
+                      Fee: {formatCurrency(parseFloat(asmAmount) * (asmRate?.rate || 0) * feeRate, counterCurrency)} ({(feeRate * 100).toFixed(1)}%)
                     </div>
                     <div className="text-xs text-slate-400">
-                      Rate: ${asmRate?.rate.toFixed(8)} per ASM
+                      Rate: {formatRate(asmRate?.rate ?? 0, counterCurrency)} per ASM
+                    </div>
+                  </div>
+                )}
+
+                {sellQuote && (
+                  <div className="p-4 bg-slate-700 rounded-lg border border-blue-500/50">
+                    <div className="text-sm text-slate-400 mb-2">Locked Price:</div>
+                    <div className="text-lg font-bold text-white">
+                      {formatCurrency(sellQuote.amountOut, counterCurrency)}
+                    </div>
+                    <div className="text-xs text-slate-400 mt-1">
+                      Rate: {formatRate(sellQuote.exchangeRate, counterCurrency)} per ASM • Fee: {formatCurrency(sellQuote.feeAmount, counterCurrency)}
+                    </div>
+                    <div className={`text-xs mt-1 ${quoteSecondsLeft(sellQuote) > 0 ? 'text-blue-400' : 'text-red-400'}`}>
+                      {quoteSecondsLeft(sellQuote) > 0
+                        ? `Quote expires in ${quoteSecondsLeft(sellQuote)}s`
+                        : 'Quote expired'}
                     </div>
                   </div>
                 )}
 
                 <Button 
                   onClick={handleSellTokens}
-                  disabled={sellTokensMutation.isPending || !estimatedUsd}
+                  disabled={sellTokensMutation.isPending || quoteMutation.isPending || !estimatedUsd}
                   className="w-full"
                 >
-                  {sellTokensMutation.isPending ? 'Processing...' : 'Sell ASM Tokens'}
+                  {sellTokensMutation.isPending || quoteMutation.isPending
+                    ? 'Processing...'
+                    : sellQuote && quoteSecondsLeft(sellQuote) > 0
+                      ? 'Confirm Sale'
+                      : sellQuote ? 'Refresh Quote' : 'Get Firm Quote'}
                 </Button>
               </CardContent>
             </Card>
@@ -463,9 +690,39 @@ export default function CurrencyExchangePanel() {
                     <Plus className="w-4 h-4" />
                     <span>{createWalletMutation.isPending ? 'Creating...' : 'Create Wallet'}</span>
                   </Button>
+                  <div className="max-w-md mx-auto mt-8 space-y-2 text-left">
+                    <Label htmlFor="restore-phrase" className="text-slate-300">Or restore from a recovery phrase</Label>
+                    <Input
+                      id="restore-phrase"
+                      placeholder="12 or 24 words"
+                      value={restorePhrase}
+                      onChange={(e) => setRestorePhrase(e.target.value)}
+                      className="bg-slate-700 border-slate-600 text-white"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => restoreWalletMutation.mutate()}
+                      disabled={restoreWalletMutation.isPending || !restorePhrase.trim()}
+                      className="w-full"
+                    >
+                      {restoreWalletMutation.isPending ? 'Restoring...' : 'Restore Wallet'}
+                    </Button>
+                  </div>
                 </div>
               ) : (
                 <div className="space-y-6">
+                  {recoveryPhrase && (
+                    <div className="p-4 bg-yellow-900/30 border border-yellow-700 rounded-lg space-y-2">
+                      <div className="text-yellow-300 font-medium">Write down your recovery phrase</div>
+                      <div className="text-white font-mono break-words">{recoveryPhrase}</div>
+                      <div className="text-xs text-slate-400">
+                        It is the only way to restore this wallet and is not shown again.
+                      </div>
+                      <Button size="sm" variant="outline" onClick={() => setRecoveryPhrase(null)}>
+                        I have saved it
+                      </Button>
+                    </div>
+                  )}
                   <div className="p-4 bg-slate-700 rounded-lg">
                     <div className="text-sm text-slate-400 mb-2">Wallet Address:</div>
                     <div className="text-white font-mono break-all">
@@ -476,6 +733,29 @@ export default function CurrencyExchangePanel() {
                     </div>
                   </div>
 
+                  {hasHdWallet && (
+                    <div className="p-4 bg-slate-700 rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div className="text-white font-medium">Receive Addresses</div>
+                        <Button
+                          size="sm"
+                          onClick={() => receiveAddressMutation.mutate()}
+                          disabled={receiveAddressMutation.isPending}
+                          className="flex items-center space-x-1"
+                        >
+                          <Plus className="w-3 h-3" />
+                          <span>New Address</span>
+                        </Button>
+                      </div>
+                      {walletAddresses?.addresses.map((address) => (
+                        <div key={address.index} className="flex items-center justify-between text-sm">
+                          <span className="text-white font-mono break-all">{address.address}</span>
+                          <span className="text-slate-400 text-xs ml-2 whitespace-nowrap">{address.derivationPath}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                     {userBalances.balances.map((balance) => (
                       <div key={balance.id} className="p-4 bg-slate-700 rounded-lg">
@@ -493,6 +773,67 @@ export default function CurrencyExchangePanel() {
                       </div>
                     ))}
                   </div>
+
+                  <div className="p-4 bg-slate-700 rounded-lg space-y-3">
+                    <div className="text-white font-medium">Send</div>
+                    <div>
+                      <Label htmlFor="send-recipient" className="text-slate-300">Recipient</Label>
+                      <Input
+                        id="send-recipient"
+                        placeholder="User ID, wallet address or vqc: payment link"
+                        value={sendRecipient}
+                        onChange={(e) => setSendRecipient(e.target.value)}
+                        className="bg-slate-800 border-slate-600 text-white mt-1"
+                      />
+                    </div>
+                    <div className="grid grid-cols-3 gap-3">
+                      <div className="col-span-2">
+                        <Label htmlFor="send-amount" className="text-slate-300">Amount</Label>
+                        <Input
+                          id="send-amount"
+                          type="number"
+                          placeholder={sendRecipient.startsWith('vqc:') ? 'From payment link' : 'Amount'}
+                          value={sendAmount}
+                          onChange={(e) => setSendAmount(e.target.value)}
+                          className="bg-slate-800 border-slate-600 text-white mt-1"
+                          min="0"
+                        />
+                      </div>
+                      <div>
+                        <Label className="text-slate-300">Currency</Label>
+                        <Select value={sendCurrency} onValueChange={setSendCurrency}>
+                          <SelectTrigger className="bg-slate-800 border-slate-600 text-white mt-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {userBalances.balances.map((balance) => (
+                              <SelectItem key={balance.currency} value={balance.currency}>
+                                {balance.currency}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="send-memo" className="text-slate-300">Memo</Label>
+                      <Input
+                        id="send-memo"
+                        placeholder="Optional"
+                        value={sendMemo}
+                        onChange={(e) => setSendMemo(e.target.value)}
+                        className="bg-slate-800 border-slate-600 text-white mt-1"
+                        maxLength={140}
+                      />
+                    </div>
+                    <Button
+                      onClick={() => transferMutation.mutate()}
+                      disabled={transferMutation.isPending || !sendRecipient.trim()}
+                      className="w-full"
+                    >
+                      {transferMutation.isPending ? 'Sending...' : 'Send'}
+                    </Button>
+                  </div>
                 </div>
               )}
             </CardContent>
@@ -553,6 +894,13 @@ export default function CurrencyExchangePanel() {
                         </div>
                       </div>
                       
+                      {tx.counterpartyUserId && (
+                        <div className="text-sm text-slate-300 mt-2">
+                          {tx.transactionType === 'transfer_out' ? 'To' : 'From'}: {tx.counterpartyUserId}
+                          {tx.memo && <span className="text-slate-400"> • {tx.memo}</span>}
+                        </div>
+                      )}
+
                       <div className="text-xs text-slate-400 mt-2">
                         {new Date(tx.createdAt).toLocaleString()}
                       </div>
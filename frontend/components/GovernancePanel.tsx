@@ -7,9 +7,55 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Scale, Plus, Vote, Check, X } from 'lucide-react';
+import { Scale, Plus, Vote, Check, X, Play, Ban } from 'lucide-react';
 import { useToast } from '@/components/ui/use-toast';
 import backend from '~backend/client';
+import type { Proposal, ProposalAction } from '~backend/blockchain/governance';
+
+const describeAction = (action: ProposalAction) => {
+  switch (action.type) {
+    case 'set_pool_fee_rate':
+      return `Set pool #${action.poolId} fee to ${(action.feeRate ?? 0) * 100}%`;
+    case 'start_yield_farm':
+      return `Start a ${action.durationDays}-day ${action.rewardToken} farm on pool #${action.poolId}`;
+    case 'update_bridge_limits':
+      return `Update bridge limits`;
+    case 'treasury_transfer':
+      return `Send ${action.amount} ${action.token} from the treasury to ${action.recipient}`;
+  }
+};
+
+const voteShare = (p: Proposal) => {
+  const forVotes = Number(p.forVotes);
+  const decided = forVotes + Number(p.againstVotes);
+  return decided > 0 ? (forVotes / decided) * 100 : 0;
+};
+
+const totalVotes = (p: Proposal) => Number(p.forVotes) + Number(p.againstVotes) + Number(p.abstainVotes);
+
+function ProposalVotes({ proposalId }: { proposalId: number }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['proposal-votes', proposalId],
+    queryFn: async () => await backend.blockchain.listProposalVotes({ id: proposalId }),
+  });
+
+  if (isLoading) {
+    return <div className="mt-2 text-xs text-slate-400">Loading votes...</div>;
+  }
+  if (!data?.votes.length) {
+    return <div className="mt-2 text-xs text-slate-400">No votes yet</div>;
+  }
+  return (
+    <ul className="mt-2 space-y-1 text-xs text-slate-300">
+      {data.votes.map((v) => (
+        <li key={v.voterId} className="flex justify-between">
+          <span className="font-mono truncate mr-2">{v.voterId}</span>
+          <span>{v.voteOption} · {Number(v.votingWeight).toLocaleString()}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
 
 export default function GovernancePanel() {
   const { toast } = useToast();
@@ -18,6 +64,8 @@ export default function GovernancePanel() {
 
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
+  const [actionsJson, setActionsJson] = useState('');
+  const [shownVotes, setShownVotes] = useState<number | null>(null);
 
   const { data: proposals, isLoading } = useQuery({
     queryKey: ['proposals'],
@@ -32,7 +80,7 @@ export default function GovernancePanel() {
   });
 
   const createProposalMutation = useMutation({
-    mutationFn: async (data: { title: string; description: string }) => {
+    mutationFn: async (data: { title: string; description: string; actions?: ProposalAction[] }) => {
       return await backend.blockchain.createProposal({
         proposerId: userId,
         ...data,
@@ -43,10 +91,51 @@ export default function GovernancePanel() {
       queryClient.invalidateQueries({ queryKey: ['proposals'] });
       setTitle('');
       setDescription('');
+      setActionsJson('');
     },
     onError: (err) => {
       console.error('Failed to create proposal:', err);
-      toast({ title: "Proposal Creation Failed", variant: "destructive" });
+      toast({
+        title: "Proposal Creation Failed",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const executeProposalMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await backend.blockchain.executeProposal({ id, executorId: userId });
+    },
+    onSuccess: ({ proposal }) => {
+      toast({ title: "Proposal Executed", description: proposal.executionTxHash });
+      queryClient.invalidateQueries({ queryKey: ['proposals'] });
+    },
+    onError: (err) => {
+      console.error('Failed to execute proposal:', err);
+      toast({
+        title: "Execution Failed",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelProposalMutation = useMutation({
+    mutationFn: async (id: number) => {
+      return await backend.blockchain.cancelProposal({ id, proposerId: userId });
+    },
+    onSuccess: () => {
+      toast({ title: "Proposal Cancelled" });
+      queryClient.invalidateQueries({ queryKey: ['proposals'] });
+    },
+    onError: (err) => {
+      console.error('Failed to cancel proposal:', err);
+      toast({
+        title: "Cancellation Failed",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      });
     },
   });
 
@@ -54,13 +143,18 @@ export default function GovernancePanel() {
     mutationFn: async (data: { proposalId: number; voteOption: 'for' | 'against' | 'abstain' }) => {
       return await backend.blockchain.castVote({ voterId: userId, ...data });
     },
-    onSuccess: () => {
+    onSuccess: (_, { proposalId }) => {
       toast({ title: "Vote Cast" });
       queryClient.invalidateQueries({ queryKey: ['proposals'] });
+      queryClient.invalidateQueries({ queryKey: ['proposal-votes', proposalId] });
     },
     onError: (err) => {
       console.error('Failed to cast vote:', err);
-      toast({ title: "Vote Failed", variant: "destructive" });
+      toast({
+        title: "Vote Failed",
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      });
     },
   });
 
@@ -69,16 +163,26 @@ export default function GovernancePanel() {
       toast({ title: "Title and description are required", variant: "destructive" });
       return;
     }
-    createProposalMutation.mutate({ title, description });
+    let actions: ProposalAction[] | undefined;
+    if (actionsJson.trim()) {
+      try {
+        actions = JSON.parse(actionsJson);
+      } catch {
+        toast({ title: "Actions must be a JSON array", variant: "destructive" });
+        return;
+      }
+    }
+    createProposalMutation.mutate({ title, description, actions });
   };
 
   const getStatusBadge = (status: string) => {
     const colors = {
       active: 'bg-green-600',
       pending: 'bg-yellow-600',
-      succeeded: 'bg-blue-600',
+      queued: 'bg-cyan-600',
       executed: 'bg-purple-600',
       defeated: 'bg-red-600',
+      cancelled: 'bg-slate-500',
     };
     return <Badge className={colors[status as keyof typeof colors] || 'bg-gray-600'}>{status}</Badge>;
   };
@@ -109,6 +213,15 @@ export default function GovernancePanel() {
               className="bg-slate-700 border-slate-600 text-white mt-1"
             />
           </div>
+          <div>
+            <Label className="text-slate-300">Actions (optional JSON)</Label>
+            <Textarea
+              value={actionsJson}
+              onChange={(e) => setActionsJson(e.target.value)}
+              placeholder='[{"type": "set_pool_fee_rate", "poolId": 1, "feeRate": 0.0005}]'
+              className="bg-slate-700 border-slate-600 text-white mt-1 font-mono text-xs"
+            />
+          </div>
           <Button onClick={handleCreateProposal} disabled={createProposalMutation.isPending}>
             {createProposalMutation.isPending ? 'Submitting...' : 'Submit Proposal'}
           </Button>
@@ -136,10 +249,33 @@ export default function GovernancePanel() {
                     </div>
                     {getStatusBadge(p.status)}
                   </div>
+                  {p.actions.length > 0 && (
+                    <ul className="mt-2 text-xs text-slate-300 list-disc list-inside">
+                      {p.actions.map((action, i) => <li key={i}>{describeAction(action)}</li>)}
+                    </ul>
+                  )}
                   <div className="mt-4">
                     <div className="space-y-2">
-                      <Progress value={50} /> {/* Placeholder for vote progress */}
+                      <div className="flex justify-between text-xs text-slate-400">
+                        <span>For {voteShare(p).toFixed(1)}% (needs more than {p.approvalThresholdBps / 100}%)</span>
+                        <span>
+                          {totalVotes(p).toLocaleString()} / {Number(p.quorumVotes).toLocaleString()} quorum
+                        </span>
+                      </div>
+                      <Progress value={voteShare(p)} />
                     </div>
+                    <button
+                      className="mt-2 text-xs text-blue-400 hover:underline"
+                      onClick={() => setShownVotes(shownVotes === p.id ? null : p.id)}
+                    >
+                      {shownVotes === p.id ? 'Hide votes' : 'Show votes'}
+                    </button>
+                    {shownVotes === p.id && <ProposalVotes proposalId={p.id} />}
+                    {p.status === 'queued' && p.eta && (
+                      <div className="mt-2 text-xs text-slate-400">
+                        Executable after {new Date(p.eta).toLocaleString()}
+                      </div>
+                    )}
                     {p.status === 'active' && (
                       <div className="flex space-x-2 mt-4">
                         <Button size="sm" onClick={() => castVoteMutation.mutate({ proposalId: p.id, voteOption: 'for' })}>
@@ -153,6 +289,44 @@ export default function GovernancePanel() {
                         </Button>
                       </div>
                     )}
+                    <div className="flex space-x-2">
+                      {p.status === 'queued' && p.eta && new Date(p.eta) <= new Date() && (
+                        <Button
+                          size="sm"
+                          className="mt-4"
+                          onClick={() => executeProposalMutation.mutate(p.id)}
+                          disabled={executeProposalMutation.isPending}
+                        >
+                          <Play className="w-4 h-4 mr-1" /> Execute
+                        </Button>
+                      )}
+                      {p.proposerId === userId && (p.status === 'active' || p.status === 'queued') && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="mt-4"
+                          onClick={() => cancelProposalMutation.mutate(p.id)}
+                          disabled={cancelProposalMutation.isPending}
+                        >
+                          <Ban className="w-4 h-4 mr-1" /> Cancel
+                        </Button>
+                      )}
+                    </div>
+                    {p.executionTxHash && (
+                      <div className="mt-2 text-xs text-slate-400 font-mono break-all">
+                        Executed: {p.executionTxHash}
+                      </div>
+                    )}
+                    {p.transitions.length > 0 && (
+                      <ul className="mt-3 space-y-1 text-xs text-slate-400">
+                        {p.transitions.map((t, i) => (
+                          <li key={i}>
+                            {new Date(t.createdAt).toLocaleString()}: {t.fromStatus ? `${t.fromStatus} → ` : ''}{t.toStatus}
+                            {t.reason && ` (${t.reason})`}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 </div>
               ))}